@@ -0,0 +1,38 @@
+// Web Push handlers, imported into the generated Workbox service worker
+// (see workbox.importScripts in vite.config.ts). Payloads come from
+// server/services/webPush.ts as { title, body, url, tag }.
+
+self.addEventListener("push", (event) => {
+  let payload = { title: "ECS Connect", body: "" };
+  try {
+    payload = event.data ? event.data.json() : payload;
+  } catch {
+    payload.body = event.data ? event.data.text() : "";
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "ECS Connect", {
+      body: payload.body,
+      tag: payload.tag,
+      icon: "/icons/icon.svg",
+      badge: "/icons/icon.svg",
+      data: { url: payload.url || "/" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  // Reuse an open app window if there is one, otherwise open a new one
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -8,6 +8,7 @@ import { useAuth } from "@/hooks/useAuth";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import Dashboard from "@/pages/dashboard";
+import Analytics from "@/pages/analytics";
 import JobList from "@/pages/job-list";
 import PartsList from "@/pages/parts-list";
 import JobDetail from "@/pages/job-detail";
@@ -18,6 +19,7 @@ import DriverDashboard from "@/pages/driver-dashboard";
 import PickupForm from "@/pages/pickup-form";
 import DeliveryForm from "@/pages/delivery-form";
 import EmissionsForm from "@/pages/emissions-form";
+import Scan from "@/pages/scan";
 import { Landing } from "@/pages/landing";
 import { AccessDenied } from "@/pages/access-denied";
 import Layout from "@/components/layout";
@@ -43,6 +45,7 @@ function AuthenticatedApp() {
       <Switch>
         <Route path="/" component={Home} />
         <Route path="/dashboard" component={Dashboard} />
+        <Route path="/analytics" component={Analytics} />
         <Route path="/jobs" component={JobList} />
         <Route path="/parts" component={PartsList} />
         <Route path="/jobs/:id" component={JobDetail} />
@@ -50,6 +53,7 @@ function AuthenticatedApp() {
         <Route path="/admin" component={AdminPage} />
         <Route path="/tech" component={TechDashboard} />
         <Route path="/driver" component={DriverDashboard} />
+        <Route path="/scan" component={Scan} />
         <Route path="/pickup-form/:id" component={PickupForm} />
         <Route path="/delivery-form/:id" component={DeliveryForm} />
         <Route path="/emissions-form/:id" component={EmissionsForm} />
@@ -86,6 +90,7 @@ function Router() {
         <Switch>
           <Route path="/" component={Home} />
           <Route path="/dashboard" component={Dashboard} />
+          <Route path="/analytics" component={Analytics} />
           <Route path="/jobs" component={JobList} />
           <Route path="/parts" component={PartsList} />
           <Route path="/jobs/:id" component={JobDetail} />
@@ -93,6 +98,7 @@ function Router() {
           <Route path="/admin" component={AdminPage} />
           <Route path="/tech" component={TechDashboard} />
           <Route path="/driver" component={DriverDashboard} />
+          <Route path="/scan" component={Scan} />
           <Route path="/pickup-form/:id" component={PickupForm} />
           <Route path="/delivery-form/:id" component={DeliveryForm} />
         <Route path="/emissions-form/:id" component={EmissionsForm} />
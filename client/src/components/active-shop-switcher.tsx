@@ -0,0 +1,61 @@
+import { useMutation } from "@tanstack/react-query";
+import { Building2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useDevPersona } from "@/contexts/DevPersonaContext";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+/**
+ * Header dropdown for users with more than one shop: narrows job and parts
+ * lists, dashboard metrics and exports to one shop, or back to all of them.
+ * Saved on the server so it follows the user across devices.
+ */
+export function ActiveShopSwitcher() {
+  const { permissions, shops, activeShop, canFilterByShop } = useAuth();
+  const { personaEmail } = useDevPersona();
+  const { toast } = useToast();
+
+  const personaParam = personaEmail ? `?asEmail=${encodeURIComponent(personaEmail)}` : "";
+
+  const setActiveShopMutation = useMutation({
+    mutationFn: async (shop: string) => {
+      const response = await apiRequest("PATCH", `/api/auth/user/active-shop${personaParam}`, { shop });
+      return response.json();
+    },
+    onSuccess: () => {
+      // Everything shop-scoped (lists, metrics, the user's permissions) needs refetching
+      queryClient.invalidateQueries();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't switch shop",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!permissions || !canFilterByShop) return null;
+
+  return (
+    <Select
+      value={activeShop ?? "all"}
+      onValueChange={(shop) => setActiveShopMutation.mutate(shop)}
+      disabled={setActiveShopMutation.isPending}
+    >
+      <SelectTrigger className="hidden md:flex w-48 h-9" data-testid="select-active-shop">
+        <Building2 className="mr-2 h-4 w-4 text-[var(--ecs-primary)]" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">{permissions.shops ? "All My Shops" : "All Shops"}</SelectItem>
+        {shops.map((shop) => (
+          <SelectItem key={shop} value={shop} data-testid={`option-active-shop-${shop}`}>
+            {shop}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
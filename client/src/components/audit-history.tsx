@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { useTimezone } from "@/hooks/useTimezone";
+import type { AuditAction, AuditChanges, AuditLogEntry } from "@shared/schema";
+
+export interface AuditLogPage {
+  data: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+  restore: "bg-amber-100 text-amber-800",
+  purge: "bg-red-200 text-red-900",
+  rollback: "bg-orange-100 text-orange-800",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// "shopName" -> "Shop Name"
+function fieldLabel(field: string): string {
+  const spaced = field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/_/g, " ");
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+export function AuditActionBadge({ action }: { action: AuditAction }) {
+  return (
+    <Badge variant="outline" className={`capitalize border-0 ${ACTION_STYLES[action] ?? ""}`}>
+      {action}
+    </Badge>
+  );
+}
+
+/** Field-by-field before/after values of one audit entry */
+export function AuditChangeList({ changes }: { changes: AuditChanges }) {
+  const { formatDateTime } = useTimezone();
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === "") return <span className="italic">empty</span>;
+    if (typeof value === "string" && ISO_DATE.test(value)) return formatDateTime(value);
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+  };
+
+  const fields = Object.keys(changes);
+  if (fields.length === 0) {
+    return <p className="text-xs text-muted-foreground">No field changes recorded</p>;
+  }
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+      {fields.map((field) => (
+        <div key={field} className="contents">
+          <dt className="font-medium text-muted-foreground">{fieldLabel(field)}</dt>
+          <dd className="break-all">
+            <span className="text-red-700 line-through decoration-red-300">{formatValue(changes[field].before)}</span>
+            <span className="mx-1 text-muted-foreground">→</span>
+            <span className="text-green-700">{formatValue(changes[field].after)}</span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+interface AuditHistoryProps {
+  jobId: string;
+  partId?: string; // only this part's history
+}
+
+/**
+ * Change history for a job (including its parts) or a single part, from the
+ * audit log. Refetched whenever it's shown so it reflects the latest edits.
+ */
+export function AuditHistory({ jobId, partId }: AuditHistoryProps) {
+  const { formatDateTime } = useTimezone();
+
+  const { data, isLoading, isError } = useQuery<AuditLogPage>({
+    queryKey: [`/api/jobs/${jobId}/audit`, { ...(partId && { partId }), pageSize: 50 }],
+    enabled: !!jobId,
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground text-center py-4">Loading history...</p>;
+  }
+  if (isError) {
+    return <p className="text-sm text-muted-foreground text-center py-4">Couldn't load change history</p>;
+  }
+  if (!data || data.data.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No changes recorded yet</p>;
+  }
+
+  return (
+    <div className="space-y-3" data-testid={partId ? `audit-history-part-${partId}` : "audit-history-job"}>
+      {data.data.map((entry) => (
+        <div key={entry.id} className="border rounded-md p-3 space-y-2" data-testid={`audit-entry-${entry.id}`}>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <AuditActionBadge action={entry.action} />
+            {!partId && (
+              <span className="font-medium capitalize">{entry.entityType}</span>
+            )}
+            <span className="text-muted-foreground">
+              {entry.actorEmail ?? "System"} · {formatDateTime(entry.createdAt, 'PPpp')}
+            </span>
+          </div>
+          {entry.action === "update" && <AuditChangeList changes={entry.changes} />}
+        </div>
+      ))}
+      {data.total > data.data.length && (
+        <p className="text-xs text-muted-foreground text-center">
+          Showing the latest {data.data.length} of {data.total} changes
+        </p>
+      )}
+    </div>
+  );
+}
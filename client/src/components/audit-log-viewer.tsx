@@ -0,0 +1,191 @@
+import { Fragment, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { useTimezone } from "@/hooks/useTimezone";
+import { AuditActionBadge, AuditChangeList, type AuditLogPage } from "@/components/audit-history";
+import { auditEntityTypes } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+
+const ENTITY_LABELS: Record<string, string> = {
+  job: "Jobs",
+  part: "Parts",
+  whitelist: "Whitelist",
+  user: "Users",
+  tab: "Job List Tabs",
+};
+
+/** Admin viewer for the audit log, filterable by entity, job, actor and date. */
+export function AuditLogViewer() {
+  const { formatDateTime } = useTimezone();
+  const [entityType, setEntityType] = useState<string>("all");
+  const [jobId, setJobId] = useState("");
+  const [actor, setActor] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Reset to page 1 when filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [entityType, jobId, actor, dateFrom, dateTo]);
+
+  const { data, isLoading, isFetching } = useQuery<AuditLogPage>({
+    queryKey: ["/api/admin/audit-log", {
+      ...(entityType !== "all" && { entityType }),
+      ...(jobId.trim() && { jobId: jobId.trim() }),
+      ...(actor.trim() && { actor: actor.trim() }),
+      ...(dateFrom && { dateFrom }),
+      ...(dateTo && { dateTo }),
+      page: currentPage,
+      pageSize: PAGE_SIZE,
+    }],
+    staleTime: 0,
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+        <CardDescription>
+          Every change made to jobs, parts, the whitelist and job list tabs, with who made it and what changed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2 flex-wrap">
+          <Select value={entityType} onValueChange={setEntityType}>
+            <SelectTrigger className="w-44" data-testid="select-audit-entity-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Records</SelectItem>
+              {auditEntityTypes.map((type) => (
+                <SelectItem key={type} value={type}>{ENTITY_LABELS[type] ?? type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Job ID"
+            value={jobId}
+            onChange={(e) => setJobId(e.target.value)}
+            className="w-56"
+            data-testid="input-audit-job-id"
+          />
+          <Input
+            placeholder="Changed by (email)"
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            className="w-56"
+            data-testid="input-audit-actor"
+          />
+          <Input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className="w-40"
+            data-testid="input-audit-date-from"
+          />
+          <Input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className="w-40"
+            data-testid="input-audit-date-to"
+          />
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading audit log...</p>
+        ) : !data || data.data.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No matching changes</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>When</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Changed By</TableHead>
+                <TableHead>Route</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.data.map((entry) => {
+                const isExpanded = expandedId === entry.id;
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      data-testid={`row-audit-${entry.id}`}
+                    >
+                      <TableCell>
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(entry.createdAt)}</TableCell>
+                      <TableCell><AuditActionBadge action={entry.action} /></TableCell>
+                      <TableCell>
+                        <div className="capitalize">{entry.entityType}</div>
+                        <div className="text-xs text-muted-foreground break-all">
+                          {entry.jobId && entry.jobId !== entry.entityId ? `${entry.jobId} · ` : ""}{entry.entityId}
+                        </div>
+                      </TableCell>
+                      <TableCell>{entry.actorEmail ?? "System"}</TableCell>
+                      <TableCell className="font-mono text-xs">{entry.route ?? "—"}</TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={5}>
+                          <AuditChangeList changes={entry.changes} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {data && data.total > 0 && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {data.total} change{data.total === 1 ? "" : "s"}{isFetching ? " · refreshing..." : ""}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage((page) => Math.max(1, page - 1))}
+                disabled={currentPage <= 1}
+                data-testid="button-audit-prev-page"
+              >
+                Previous
+              </Button>
+              <span>Page {currentPage} of {totalPages}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage((page) => Math.min(totalPages, page + 1))}
+                disabled={currentPage >= totalPages}
+                data-testid="button-audit-next-page"
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from "react";
+import { CameraOff } from "lucide-react";
+
+// Shape Detection API - not yet in TypeScript's DOM lib
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const SCAN_FORMATS = ["qr_code", "code_128"];
+const SCAN_INTERVAL_MS = 250;
+const REPEAT_SCAN_COOLDOWN_MS = 2500; // ignore the same code while it stays in frame
+
+interface BarcodeScannerProps {
+  onDetected: (value: string) => void;
+  paused?: boolean;
+}
+
+/**
+ * Live camera view that decodes QR and Code 128 part tags using the browser's
+ * BarcodeDetector. Shows a notice when the camera or detector isn't available
+ * so the page can fall back to typed / hardware-scanner entry.
+ */
+export function BarcodeScanner({ onDetected, paused }: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScanRef = useRef<{ value: string; at: number } | null>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [error, setError] = useState<string | null>(null);
+
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    if (paused) return;
+
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) {
+      setError("This browser can't read barcodes from the camera. Type the code or use a handheld scanner below.");
+      return;
+    }
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("Camera access isn't available on this device.");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        const supported = await Detector.getSupportedFormats();
+        const detector = new Detector({ formats: SCAN_FORMATS.filter((f) => supported.includes(f)) });
+
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+          audio: false,
+        });
+        if (cancelled || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setError(null);
+
+        timer = setInterval(async () => {
+          const video = videoRef.current;
+          if (!video || video.readyState < 2) return;
+          try {
+            const [barcode] = await detector.detect(video);
+            if (!barcode) return;
+
+            const now = Date.now();
+            const last = lastScanRef.current;
+            if (last && last.value === barcode.rawValue && now - last.at < REPEAT_SCAN_COOLDOWN_MS) return;
+
+            lastScanRef.current = { value: barcode.rawValue, at: now };
+            navigator.vibrate?.(80);
+            onDetectedRef.current(barcode.rawValue.trim());
+          } catch {
+            // Detection can fail on individual frames - keep scanning
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (err: any) {
+        console.warn("[Scanner] Camera unavailable:", err);
+        setError(err?.name === "NotAllowedError"
+          ? "Camera permission was denied. Allow camera access in your browser settings to scan."
+          : "Couldn't start the camera.");
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [paused]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+        <CameraOff className="h-8 w-8 opacity-50" />
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-lg bg-black aspect-[4/3]">
+      <video ref={videoRef} className="h-full w-full object-cover" muted playsInline data-testid="video-scanner" />
+      {/* Aiming guide */}
+      <div className="pointer-events-none absolute inset-[15%] rounded-lg border-2 border-white/70" />
+    </div>
+  );
+}
@@ -1,12 +1,12 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { insertJobSchema } from "@shared/schema";
-import { getShopCode, getTodayDateCode } from "@shared/shopCodes";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useCsrCheckInForm } from "@/hooks/use-csr-check-in-form";
 import { CsrCheckInFormFields } from "@/components/csr-check-in-form-fields";
 import { PartsManagementModal } from "@/components/parts-management-modal";
+import { PrintLabelsMenu } from "@/components/print-labels-menu";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -162,12 +162,10 @@ export function CheckInModal({
       setGeneratingSerialForPartId(partId);
       
       // Use job's shop name or form's selected shop name
-      const shopNameToUse = form.watch("shopName") || job.shopName || "Nashville";
-      const shopCode = getShopCode(shopNameToUse);
-      const dateCode = getTodayDateCode();
+      const shopNameToUse = form.watch("shopName") || job.shopName;
       
-      // Get next serial from database
-      const response = await apiRequest("POST", `/api/serial/generate`, { shopCode, date: dateCode });
+      // Get next serial from database (dated in the shop's timezone)
+      const response = await apiRequest("POST", `/api/serial/generate`, { shopName: shopNameToUse });
       const data = await response.json();
       const serialNumber = data.serialNumber;
       
@@ -187,7 +185,7 @@ export function CheckInModal({
       console.error("Failed to generate serial number:", error);
       toast({
         title: "Generation Failed",
-        description: "Could not generate serial number. Please try again.",
+        description: error instanceof Error ? error.message : "Could not generate serial number. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -250,6 +248,12 @@ export function CheckInModal({
                     <Plus className="mr-1 h-4 w-4" />
                     {existingParts.length === 0 ? 'ADD' : 'MANAGE PARTS'}
                   </Button>
+                  {/* Bulk-print tags for every part that has a serial, so techs don't hand-write them */}
+                  {existingParts.some((part) => part.ecsSerial) && (
+                    <span className="ml-2">
+                      <PrintLabelsMenu jobId={job.jobId} buttonLabel="Print All Tags" />
+                    </span>
+                  )}
                   
                   {/* Parts Summary Table */}
                   {existingParts.length > 0 && (
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { FileText, Package, MessageSquare, Clock, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+
+type SearchResultType = "job" | "part" | "comment" | "event";
+
+interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  jobId: string;
+  partId?: string;
+  title: string;
+  subtitle: string;
+  field: string;
+  snippet: Array<{ text: string; match: boolean }>;
+  rank: number;
+}
+
+const GROUPS: Array<{ type: SearchResultType; heading: string; icon: typeof FileText }> = [
+  { type: "job", heading: "Jobs", icon: FileText },
+  { type: "part", heading: "Parts", icon: Package },
+  { type: "comment", heading: "Comments", icon: MessageSquare },
+  { type: "event", heading: "Timeline", icon: Clock },
+];
+
+/**
+ * Global search (Ctrl/⌘+K) over jobs, parts, comments and timeline events.
+ * Results are ranked server-side; groups are ordered by their best hit.
+ */
+export function CommandPalette() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Debounce search query - wait 250ms after user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data, isFetching } = useQuery<{ results: SearchResult[] }>({
+    queryKey: ["/api/search", { q: debouncedQuery }],
+    enabled: open && debouncedQuery.length >= 2,
+    staleTime: 30 * 1000,
+  });
+
+  const results = debouncedQuery.length >= 2 ? data?.results ?? [] : [];
+
+  // Order groups by their highest-ranked result (results arrive sorted by rank)
+  const groups = GROUPS
+    .map((group) => ({ ...group, items: results.filter((result) => result.type === group.type) }))
+    .filter((group) => group.items.length > 0)
+    .sort((a, b) => results.indexOf(a.items[0]) - results.indexOf(b.items[0]));
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setQuery("");
+    }
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    handleOpenChange(false);
+    setLocation(`/jobs/${result.jobId}`);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-muted-foreground sm:w-56 justify-start"
+        onClick={() => setOpen(true)}
+        data-testid="button-open-search"
+      >
+        <Search className="h-4 w-4 sm:mr-2" />
+        <span className="hidden sm:inline">Search jobs, parts…</span>
+        <kbd className="ml-auto hidden sm:inline text-[10px] font-mono border rounded px-1">⌘K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <DialogTitle className="sr-only">Search</DialogTitle>
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="Job ID, PO, serial, VIN, tracking #, comment text…"
+              data-testid="input-global-search"
+            />
+            <CommandList className="max-h-[60vh]">
+              {debouncedQuery.length >= 2 && !isFetching && (
+                <CommandEmpty>No matches for "{debouncedQuery}"</CommandEmpty>
+              )}
+              {debouncedQuery.length < 2 && (
+                <div className="py-6 text-center text-sm text-muted-foreground">
+                  Type at least 2 characters to search
+                </div>
+              )}
+              {groups.map((group) => {
+                const Icon = group.icon;
+                return (
+                  <CommandGroup key={group.type} heading={group.heading}>
+                    {group.items.map((result) => (
+                      <CommandItem
+                        key={`${result.type}-${result.id}`}
+                        value={`${result.type}-${result.id}`}
+                        onSelect={() => handleSelect(result)}
+                        data-testid={`search-result-${result.type}-${result.id}`}
+                      >
+                        <Icon className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-baseline justify-between gap-2">
+                            <span className="font-medium truncate">{result.title}</span>
+                            <span className="text-[10px] uppercase tracking-wide text-muted-foreground shrink-0">
+                              {result.field}
+                            </span>
+                          </div>
+                          <div className="text-xs text-muted-foreground truncate">{result.subtitle}</div>
+                          <div className="text-xs line-clamp-2">
+                            {result.snippet.map((segment, index) =>
+                              segment.match ? (
+                                <mark key={index} className="bg-yellow-200 text-inherit rounded-sm px-0.5">
+                                  {segment.text}
+                                </mark>
+                              ) : (
+                                <span key={index}>{segment.text}</span>
+                              )
+                            )}
+                          </div>
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -7,7 +7,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useCsrCheckInForm } from "@/hooks/use-csr-check-in-form";
 import { useTimezone } from "@/hooks/useTimezone";
-import { useLocations } from "@/hooks/use-reference-data";
+import { useActiveShopNames, useShops } from "@/hooks/use-reference-data";
 import { useAuth } from "@/hooks/useAuth";
 import { CsrCheckInFormFields } from "@/components/csr-check-in-form-fields";
 import { PartsManagementModal } from "@/components/parts-management-modal";
@@ -80,7 +80,9 @@ export default function CSRForm() {
   const { userId, shopName, customerName, customerShipTo, shopHandoff } = watchedFields;
   
   // Locations is still needed separately for this form
-  const { data: locations = [], isLoading: isLoadingLocations } = useLocations();
+  const { data: locations = [], isLoading: isLoadingLocations } = useActiveShopNames();
+  const { data: shops = [] } = useShops();
+  const selectedShop = shops.find((shop) => shop.name === shopName);
   
   // Timezone for date picker
   const { getTodayInTimezone } = useTimezone();
@@ -244,10 +246,10 @@ export default function CSRForm() {
             shopHandoff: data.shopHandoff,
           });
         } catch (checkInError) {
-          // If check-in fails, delete the job to prevent stuck jobs
+          // If check-in fails, remove the job (and its parts) to prevent stuck jobs
           console.error("Check-in failed, rolling back job creation:", checkInError);
           try {
-            await apiRequest("DELETE", `/api/jobs/${job.jobId}`, {});
+            await apiRequest("POST", `/api/jobs/${job.jobId}/rollback`, {});
             console.log(`Job ${job.jobId} deleted after failed check-in`);
           } catch (deleteError) {
             console.error("Failed to delete job during rollback:", deleteError);
@@ -345,10 +347,17 @@ export default function CSRForm() {
 
   // Generate preview job ID when shop changes
   useEffect(() => {
-    if (shopName) {
-      setGeneratedJobId(generateJobId(shopName));
+    if (selectedShop) {
+      setGeneratedJobId(generateJobId(selectedShop));
     }
-  }, [shopName]);
+  }, [selectedShop]);
+
+  // Preselect the shop's default pickup driver
+  useEffect(() => {
+    const defaultDriver = driversForShop.find((driver) => selectedShop?.defaultDrivers.includes(driver.email));
+    setPickupDriver(defaultDriver?.name ?? "");
+    setPickupDriverEmail(defaultDriver?.email ?? "");
+  }, [selectedShop, driversForShop]);
 
   const onSubmit = async (data: FormData) => {
     console.log("=== onSubmit called ===");
@@ -426,8 +435,8 @@ export default function CSRForm() {
     setPickupContactNumber("");
     setPickupEmail("");
     setPickupPoNumber("");
-    if (shopName) {
-      setGeneratedJobId(generateJobId(shopName));
+    if (selectedShop) {
+      setGeneratedJobId(generateJobId(selectedShop));
     }
   };
 
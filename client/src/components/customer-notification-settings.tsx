@@ -0,0 +1,366 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mail, MessageSquare, Save, RotateCcw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomerNames } from "@/hooks/use-reference-data";
+import type { CustomerMilestone, CustomerNotificationChannel, CustomerNotificationSettings } from "@shared/schema";
+
+interface EffectiveTemplate {
+  milestone: CustomerMilestone;
+  channel: CustomerNotificationChannel;
+  subject: string | null;
+  body: string;
+  isCustom: boolean;
+}
+
+interface CustomerNotificationsResponse {
+  settings: CustomerNotificationSettings[];
+  templates: EffectiveTemplate[];
+  milestones: { value: CustomerMilestone; label: string }[];
+  placeholders: string[];
+  transports: Record<CustomerNotificationChannel, string>;
+}
+
+interface SettingsDraft {
+  customerName: string;
+  emailEnabled: boolean;
+  smsEnabled: boolean;
+  milestones: CustomerMilestone[];
+}
+
+const QUERY_KEY = ['/api/admin/customer-notifications'];
+
+/** Admin editor for customer email/SMS status updates: per-customer opt-in and message templates. */
+export function CustomerNotificationSettingsEditor() {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<CustomerNotificationsResponse>({ queryKey: QUERY_KEY });
+  const { data: customerNames = [] } = useCustomerNames();
+
+  const [draft, setDraft] = useState<SettingsDraft | null>(null);
+  const [templateKey, setTemplateKey] = useState<string>("picked_up:email");
+  const [templateSubject, setTemplateSubject] = useState("");
+  const [templateBody, setTemplateBody] = useState("");
+
+  const [templateMilestone, templateChannel] = templateKey.split(":") as [CustomerMilestone, CustomerNotificationChannel];
+  const selectedTemplate = data?.templates.find(
+    (t) => t.milestone === templateMilestone && t.channel === templateChannel,
+  );
+
+  // Load the selected template into the editor
+  useEffect(() => {
+    if (selectedTemplate) {
+      setTemplateSubject(selectedTemplate.subject ?? "");
+      setTemplateBody(selectedTemplate.body);
+    }
+  }, [selectedTemplate?.milestone, selectedTemplate?.channel, selectedTemplate?.body, selectedTemplate?.subject]);
+
+  const milestoneLabel = (value: string) =>
+    data?.milestones.find((m) => m.value === value)?.label ?? value;
+
+  const editCustomer = (customerName: string) => {
+    const existing = data?.settings.find((s) => s.customerName === customerName);
+    setDraft({
+      customerName,
+      emailEnabled: existing?.emailEnabled === "true",
+      smsEnabled: existing?.smsEnabled === "true",
+      milestones: (existing?.milestones as CustomerMilestone[]) ?? data?.milestones.map((m) => m.value) ?? [],
+    });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "An error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (settings: SettingsDraft) => {
+      return apiRequest('PUT', `/api/admin/customer-notifications/customers/${encodeURIComponent(settings.customerName)}`, {
+        emailEnabled: settings.emailEnabled ? "true" : "false",
+        smsEnabled: settings.smsEnabled ? "true" : "false",
+        milestones: settings.milestones,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      setDraft(null);
+      toast({ title: "Customer updated", description: "Status update preferences saved." });
+    },
+    onError,
+  });
+
+  const removeSettingsMutation = useMutation({
+    mutationFn: async (customerName: string) => {
+      return apiRequest('DELETE', `/api/admin/customer-notifications/customers/${encodeURIComponent(customerName)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      toast({ title: "Customer removed", description: "They will no longer receive status updates." });
+    },
+    onError,
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('PUT', `/api/admin/customer-notifications/templates/${templateMilestone}/${templateChannel}`, {
+        subject: templateSubject,
+        body: templateBody,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      toast({ title: "Template saved", description: "New messages will use this template." });
+    },
+    onError,
+  });
+
+  const resetTemplateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('DELETE', `/api/admin/customer-notifications/templates/${templateMilestone}/${templateChannel}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      toast({ title: "Template reset", description: "Restored the built-in template." });
+    },
+    onError,
+  });
+
+  const toggleDraftMilestone = (milestone: CustomerMilestone, checked: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      milestones: checked
+        ? [...draft.milestones, milestone]
+        : draft.milestones.filter((m) => m !== milestone),
+    });
+  };
+
+  if (isLoading || !data) {
+    return <div className="text-center py-8 text-muted-foreground">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Customer Status Updates</CardTitle>
+          <CardDescription>
+            Email and text customers as their job is picked up, serviced, and delivered or shipped.
+            Messages go to the contact email and number on each job, only for customers opted in here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2 text-xs">
+            <Badge variant={data.transports.email === "log" ? "secondary" : "default"} data-testid="badge-email-transport">
+              <Mail className="h-3 w-3 mr-1" />
+              Email: {data.transports.email}
+            </Badge>
+            <Badge variant={data.transports.sms === "log" ? "secondary" : "default"} data-testid="badge-sms-transport">
+              <MessageSquare className="h-3 w-3 mr-1" />
+              SMS: {data.transports.sms}
+            </Badge>
+            {(data.transports.email === "log" || data.transports.sms === "log") && (
+              <span className="text-muted-foreground self-center">"log" only prints messages on the server</span>
+            )}
+          </div>
+
+          <div className="flex gap-2 flex-wrap">
+            <Select value="" onValueChange={editCustomer}>
+              <SelectTrigger className="w-[280px]" data-testid="select-customer-opt-in">
+                <SelectValue placeholder="Add or edit a customer..." />
+              </SelectTrigger>
+              <SelectContent>
+                {customerNames.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {draft && (
+            <div className="border rounded-lg p-4 space-y-3" data-testid="customer-opt-in-editor">
+              <div className="font-medium">{draft.customerName}</div>
+              <div className="flex gap-6">
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.emailEnabled}
+                    onCheckedChange={(checked) => setDraft({ ...draft, emailEnabled: checked === true })}
+                    data-testid="checkbox-email-enabled"
+                  />
+                  Email
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.smsEnabled}
+                    onCheckedChange={(checked) => setDraft({ ...draft, smsEnabled: checked === true })}
+                    data-testid="checkbox-sms-enabled"
+                  />
+                  Text message
+                </label>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {data.milestones.map((milestone) => (
+                  <label key={milestone.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={draft.milestones.includes(milestone.value)}
+                      onCheckedChange={(checked) => toggleDraftMilestone(milestone.value, checked === true)}
+                      data-testid={`checkbox-milestone-${milestone.value}`}
+                    />
+                    {milestone.label}
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => saveSettingsMutation.mutate(draft)}
+                  disabled={saveSettingsMutation.isPending}
+                  data-testid="button-save-customer-opt-in"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Save
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Customer</TableHead>
+                <TableHead>Channels</TableHead>
+                <TableHead>Milestones</TableHead>
+                <TableHead className="w-[120px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.settings.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No customers opted in yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                data.settings.map((settings) => (
+                  <TableRow key={settings.customerName} data-testid={`row-customer-opt-in-${settings.customerName}`}>
+                    <TableCell className="font-medium">{settings.customerName}</TableCell>
+                    <TableCell className="space-x-1">
+                      {settings.emailEnabled === "true" && <Badge variant="outline">Email</Badge>}
+                      {settings.smsEnabled === "true" && <Badge variant="outline">SMS</Badge>}
+                      {settings.emailEnabled !== "true" && settings.smsEnabled !== "true" && (
+                        <span className="text-muted-foreground text-sm">Off</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {(settings.milestones as string[]).map(milestoneLabel).join(", ") || "None"}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button size="sm" variant="ghost" onClick={() => editCustomer(settings.customerName)}>
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => removeSettingsMutation.mutate(settings.customerName)}
+                        data-testid={`button-remove-customer-opt-in-${settings.customerName}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Message Templates</CardTitle>
+          <CardDescription>
+            Placeholders: {data.placeholders.map((p) => `{{${p}}}`).join(", ")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Select value={templateKey} onValueChange={setTemplateKey}>
+              <SelectTrigger className="w-[280px]" data-testid="select-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {data.templates.map((t) => (
+                  <SelectItem key={`${t.milestone}:${t.channel}`} value={`${t.milestone}:${t.channel}`}>
+                    {milestoneLabel(t.milestone)} - {t.channel === "email" ? "Email" : "SMS"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedTemplate?.isCustom && <Badge variant="secondary">Customized</Badge>}
+          </div>
+
+          {templateChannel === "email" && (
+            <div className="space-y-2">
+              <Label htmlFor="template-subject">Subject</Label>
+              <Input
+                id="template-subject"
+                value={templateSubject}
+                onChange={(e) => setTemplateSubject(e.target.value)}
+                data-testid="input-template-subject"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="template-body">Message</Label>
+            <Textarea
+              id="template-body"
+              rows={templateChannel === "email" ? 8 : 3}
+              value={templateBody}
+              onChange={(e) => setTemplateBody(e.target.value)}
+              data-testid="textarea-template-body"
+            />
+            {templateChannel === "sms" && (
+              <p className="text-xs text-muted-foreground">
+                Keep texts short - over 160 characters is sent as multiple messages.
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => saveTemplateMutation.mutate()}
+              disabled={!templateBody.trim() || saveTemplateMutation.isPending}
+              data-testid="button-save-template"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save Template
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => resetTemplateMutation.mutate()}
+              disabled={!selectedTemplate?.isCustom || resetTemplateMutation.isPending}
+              data-testid="button-reset-template"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to Default
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -44,7 +44,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Truck, Database, ChevronsUpDown, Check, Info } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import { useLocations, useCustomerNames, useShipToForCustomer, useDriversForShop } from "@/hooks/use-reference-data";
+import { useActiveShopNames, useShops, useCustomerNames, useShipToForCustomer, useDriversForShop } from "@/hooks/use-reference-data";
 import { cn } from "@/lib/utils";
 import type { Job } from "@shared/schema";
 import { generateJobId } from "@shared/shopCodes";
@@ -89,7 +89,7 @@ export function DeliveryDispatchModal({
 
   const isNewMode = mode === 'new';
 
-  const { data: locations = [], isLoading: isLoadingLocations } = useLocations();
+  const { data: locations = [], isLoading: isLoadingLocations } = useActiveShopNames();
   const { data: customerNames = [], isLoading: isLoadingCustomers } = useCustomerNames();
 
   const form = useForm<DeliveryDispatchFormData>({
@@ -117,11 +117,14 @@ export function DeliveryDispatchModal({
   );
   const { data: drivers = [], isLoading: isLoadingDrivers } = useDriversForShop(watchedLocation || undefined);
 
+  const { data: shops = [] } = useShops();
+  const selectedShop = shops.find((shop) => shop.name === watchedLocation);
+
   useEffect(() => {
-    if (isNewMode && watchedLocation) {
-      setGeneratedJobId(generateJobId(watchedLocation));
+    if (isNewMode && selectedShop) {
+      setGeneratedJobId(generateJobId(selectedShop));
     }
-  }, [isNewMode, watchedLocation]);
+  }, [isNewMode, selectedShop]);
 
   useEffect(() => {
     if (isNewMode && watchedCustomerName) {
@@ -16,7 +16,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { PhotoPlaceholder } from "@/components/forms/emissions/photo-placeholder";
+import { PhotoCapture } from "@/components/forms/photo-capture";
 import {
   BUNG_CONDITIONS,
   BUNG_PROBLEMS,
@@ -239,7 +239,7 @@ export const BungFittingSection = React.memo(
           </div>
         )}
 
-        <PhotoPlaceholder label="Bung Photos" />
+        <PhotoCapture label="Bung Photos" />
 
         <FormField
           control={control}
@@ -266,7 +266,7 @@ export const BungFittingSection = React.memo(
           )}
         />
 
-        <PhotoPlaceholder label="Bung & Fitting Damage Photo" />
+        <PhotoCapture label="Bung & Fitting Damage Photo" />
 
         {/* Slot 1 — Always visible */}
         <FittingSlot
@@ -14,7 +14,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { PhotoPlaceholder } from "@/components/forms/emissions/photo-placeholder";
+import { PhotoCapture } from "@/components/forms/photo-capture";
 import { CLEANING_PHASES } from "@/lib/emissions-reference-data";
 
 interface CleaningPhaseSectionProps {
@@ -51,8 +51,8 @@ export const CleaningPhaseSection = React.memo(
           )}
         />
 
-        <PhotoPlaceholder label="Pre-Cleaning Photos (inlet, side & outlet)" />
-        <PhotoPlaceholder label="Post-Cleaning Photos (inlet, side & outlet)" />
+        <PhotoCapture label="Pre-Cleaning Photos (inlet, side & outlet)" />
+        <PhotoCapture label="Post-Cleaning Photos (inlet, side & outlet)" />
       </div>
     );
   }
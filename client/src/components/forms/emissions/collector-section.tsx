@@ -15,7 +15,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { PhotoPlaceholder } from "@/components/forms/emissions/photo-placeholder";
+import { PhotoCapture } from "@/components/forms/photo-capture";
 import { COLLECTOR_CONDITIONS } from "@/lib/emissions-reference-data";
 
 interface CollectorSectionProps {
@@ -55,7 +55,7 @@ export const CollectorSection = React.memo(
           )}
         />
 
-        <PhotoPlaceholder label="Collector Damage Photo" />
+        <PhotoCapture label="Collector Damage Photo" />
 
         <FormField
           control={control}
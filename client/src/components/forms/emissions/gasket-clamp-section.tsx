@@ -16,7 +16,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { PhotoPlaceholder } from "@/components/forms/emissions/photo-placeholder";
+import { PhotoCapture } from "@/components/forms/photo-capture";
 import { YES_NO, EC_EG_EK_QUANTITIES } from "@/lib/emissions-reference-data";
 
 interface GasketClampPartData {
@@ -239,7 +239,7 @@ export const GasketClampSection = React.memo(
           </div>
         )}
 
-        <PhotoPlaceholder label="Clamp/Gasket Photos" />
+        <PhotoCapture label="Clamp/Gasket Photos" />
 
         {/* EC/EG/EK replacement checkboxes — shown when gasketOrClamps is Yes */}
         {gasketOrClamps === "Yes" && (
@@ -16,7 +16,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { PhotoPlaceholder } from "@/components/forms/emissions/photo-placeholder";
+import { PhotoCapture } from "@/components/forms/photo-capture";
 import {
   INLET_COLORS,
   OUTLET_COLORS,
@@ -119,7 +119,7 @@ export const InletOutletSection = React.memo(
             )}
           />
 
-          <PhotoPlaceholder label="Inlet Damage Photo" />
+          <PhotoCapture label="Inlet Damage Photo" />
 
           <FormField
             control={control}
@@ -217,7 +217,7 @@ export const InletOutletSection = React.memo(
             )}
           />
 
-          <PhotoPlaceholder label="Outlet Damage Photo" />
+          <PhotoCapture label="Outlet Damage Photo" />
 
           <FormField
             control={control}
@@ -17,7 +17,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { PhotoPlaceholder } from "@/components/forms/emissions/photo-placeholder";
+import { PhotoCapture } from "@/components/forms/photo-capture";
 import {
   YES_NO,
   SENSORS_REMOVED_OPTIONS,
@@ -158,7 +158,7 @@ export const OneBoxDiagnosticsSection = React.memo(
         />
 
         {hasPhysicalDamage === "Yes" && (
-          <PhotoPlaceholder label="Physical Damage Photo" />
+          <PhotoCapture label="Physical Damage Photo" />
         )}
 
         {/* Sensors removed */}
@@ -226,9 +226,9 @@ export const OneBoxDiagnosticsSection = React.memo(
         )}
 
         {/* Repair photos and description */}
-        <PhotoPlaceholder label="Pre-repair Photo" />
-        <PhotoPlaceholder label="Post-repair Photo" />
-        <PhotoPlaceholder label="Dosing Module Photo" />
+        <PhotoCapture label="Pre-repair Photo" />
+        <PhotoCapture label="Post-repair Photo" />
+        <PhotoCapture label="Dosing Module Photo" />
 
         <FormField
           control={control}
@@ -295,7 +295,7 @@ export const OneBoxDiagnosticsSection = React.memo(
                 </FormItem>
               )}
             />
-            <PhotoPlaceholder label="Crystallization Photos" />
+            <PhotoCapture label="Crystallization Photos" />
           </>
         )}
       </div>
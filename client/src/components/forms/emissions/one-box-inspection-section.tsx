@@ -15,7 +15,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { PhotoPlaceholder } from "@/components/forms/emissions/photo-placeholder";
+import { PhotoCapture } from "@/components/forms/photo-capture";
 import {
   SMOKE_TEST_OPTIONS,
   ONE_BOX_SENSORS,
@@ -65,7 +65,7 @@ export const OneBoxInspectionSection = React.memo(
           )}
         />
 
-        <PhotoPlaceholder label="Pre Cleaning - SCR Scope Inspection Photo" />
+        <PhotoCapture label="Pre Cleaning - SCR Scope Inspection Photo" />
 
         {/* Pre Cleaning - DOC */}
         <FormField
@@ -93,11 +93,11 @@ export const OneBoxInspectionSection = React.memo(
           )}
         />
 
-        <PhotoPlaceholder label="Pre Cleaning - DOC Scope Inspection Photo" />
+        <PhotoCapture label="Pre Cleaning - DOC Scope Inspection Photo" />
 
         {/* Pre Cleaning/Repair damage photos */}
-        <PhotoPlaceholder label="Pre Cleaning/Repair - SCR Side DAMAGE Photo" />
-        <PhotoPlaceholder label="Pre Cleaning/Repair - DOC Side DAMAGE Photo" />
+        <PhotoCapture label="Pre Cleaning/Repair - SCR Side DAMAGE Photo" />
+        <PhotoCapture label="Pre Cleaning/Repair - DOC Side DAMAGE Photo" />
 
         {/* Post Cleaning - SCR */}
         <FormField
@@ -125,7 +125,7 @@ export const OneBoxInspectionSection = React.memo(
           )}
         />
 
-        <PhotoPlaceholder label="Post Cleaning - SCR Scope Inspection Photo" />
+        <PhotoCapture label="Post Cleaning - SCR Scope Inspection Photo" />
 
         {/* Post Cleaning - DOC */}
         <FormField
@@ -153,7 +153,7 @@ export const OneBoxInspectionSection = React.memo(
           )}
         />
 
-        <PhotoPlaceholder label="Post Cleaning - DOC Scope Inspection Photo" />
+        <PhotoCapture label="Post Cleaning - DOC Scope Inspection Photo" />
 
         {/* One Box sensors needed */}
         <FormField
@@ -16,7 +16,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { PhotoPlaceholder } from "@/components/forms/emissions/photo-placeholder";
+import { PhotoCapture } from "@/components/forms/photo-capture";
 import { YES_NO, REPAIRS_PERFORMED_OPTIONS } from "@/lib/emissions-reference-data";
 
 interface RepairAssessmentSectionProps {
@@ -135,7 +135,7 @@ export const RepairAssessmentSection = React.memo(
               )}
             />
 
-            <PhotoPlaceholder label="Repair Photos" />
+            <PhotoCapture label="Repair Photos" />
           </div>
         )}
       </div>
@@ -14,7 +14,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { PhotoPlaceholder } from "@/components/forms/emissions/photo-placeholder";
+import { PhotoCapture } from "@/components/forms/photo-capture";
 import {
   SEALING_RING_CONDITIONS,
   CANISTER_CONDITIONS,
@@ -57,7 +57,7 @@ export const SealingCanisterSection = React.memo(
           )}
         />
 
-        <PhotoPlaceholder label="Sealing Ring Damage Photo" />
+        <PhotoCapture label="Sealing Ring Damage Photo" />
 
         <FormField
           control={control}
@@ -84,7 +84,7 @@ export const SealingCanisterSection = React.memo(
           )}
         />
 
-        <PhotoPlaceholder label="Canister Inspection Photo" />
+        <PhotoCapture label="Canister Inspection Photo" />
       </div>
     );
   }
@@ -10,6 +10,7 @@ import {
   showSealingCanister,
   showMeasurements,
 } from "@/lib/emissions-form-config";
+import { PhotoCaptureProvider } from "./photo-capture";
 
 // Section sub-components
 import { PartIdentificationSection } from "./emissions/part-identification-section";
@@ -119,87 +120,89 @@ function PartCard({
       </CardHeader>
 
       {isExpanded && (
-        <CardContent className="space-y-3">
-          {/* 1. Part Identification (always visible) */}
-          <SectionGroup title="Part Identification" defaultOpen>
-            <PartIdentificationSection
-              partIndex={index}
-              control={form.control}
-              partData={part}
-            />
-          </SectionGroup>
-
-          {/* 2. Cleaning Phase (hidden for REPAIR ONLY) */}
-          {showCleaningPhase(process) && (
-            <SectionGroup title="Cleaning Phase">
-              <CleaningPhaseSection partIndex={index} control={form.control} />
+        <PhotoCaptureProvider partId={part.id}>
+          <CardContent className="space-y-3">
+            {/* 1. Part Identification (always visible) */}
+            <SectionGroup title="Part Identification" defaultOpen>
+              <PartIdentificationSection
+                partIndex={index}
+                control={form.control}
+                partData={part}
+              />
             </SectionGroup>
-          )}
 
-          {/* 3. One Box Diagnostics (One Box / DPF-DOC / DPF-DOC-SCR) */}
-          {showOneBoxDiagnostics(partType) && (
-            <SectionGroup title="One Box Diagnostics">
-              <OneBoxDiagnosticsSection partIndex={index} control={form.control} />
+            {/* 2. Cleaning Phase (hidden for REPAIR ONLY) */}
+            {showCleaningPhase(process) && (
+              <SectionGroup title="Cleaning Phase">
+                <CleaningPhaseSection partIndex={index} control={form.control} />
+              </SectionGroup>
+            )}
+
+            {/* 3. One Box Diagnostics (One Box / DPF-DOC / DPF-DOC-SCR) */}
+            {showOneBoxDiagnostics(partType) && (
+              <SectionGroup title="One Box Diagnostics">
+                <OneBoxDiagnosticsSection partIndex={index} control={form.control} />
+              </SectionGroup>
+            )}
+
+            {/* 4. One Box Inspection (One Box parts, not REPAIR ONLY) */}
+            {showOneBoxInspection(partType, process) && (
+              <SectionGroup title="One Box Inspection">
+                <OneBoxInspectionSection partIndex={index} control={form.control} />
+              </SectionGroup>
+            )}
+
+            {/* 5. Inlet & Outlet (hidden for REPAIR ONLY) */}
+            {showInletOutlet(partType, process) && (
+              <SectionGroup title="Inlet & Outlet">
+                <InletOutletSection partIndex={index} control={form.control} />
+              </SectionGroup>
+            )}
+
+            {/* 6. Sealing & Canister (hidden for REPAIR ONLY) */}
+            {showSealingCanister(partType, process) && (
+              <SectionGroup title="Sealing & Canister">
+                <SealingCanisterSection partIndex={index} control={form.control} />
+              </SectionGroup>
+            )}
+
+            {/* 7. Bung & Fitting (always visible) */}
+            <SectionGroup title="Bung & Fitting">
+              <BungFittingSection partIndex={index} control={form.control} />
             </SectionGroup>
-          )}
 
-          {/* 4. One Box Inspection (One Box parts, not REPAIR ONLY) */}
-          {showOneBoxInspection(partType, process) && (
-            <SectionGroup title="One Box Inspection">
-              <OneBoxInspectionSection partIndex={index} control={form.control} />
+            {/* 8. Collector (always visible) */}
+            <SectionGroup title="Collector">
+              <CollectorSection partIndex={index} control={form.control} />
             </SectionGroup>
-          )}
 
-          {/* 5. Inlet & Outlet (hidden for REPAIR ONLY) */}
-          {showInletOutlet(partType, process) && (
-            <SectionGroup title="Inlet & Outlet">
-              <InletOutletSection partIndex={index} control={form.control} />
+            {/* 9. Gasket & Clamps (always visible) */}
+            <SectionGroup title="Gasket & Clamps">
+              <GasketClampSection
+                partIndex={index}
+                control={form.control}
+                partData={{ ec: part.ec, eg: part.eg, ek: part.ek }}
+              />
             </SectionGroup>
-          )}
 
-          {/* 6. Sealing & Canister (hidden for REPAIR ONLY) */}
-          {showSealingCanister(partType, process) && (
-            <SectionGroup title="Sealing & Canister">
-              <SealingCanisterSection partIndex={index} control={form.control} />
-            </SectionGroup>
-          )}
-
-          {/* 7. Bung & Fitting (always visible) */}
-          <SectionGroup title="Bung & Fitting">
-            <BungFittingSection partIndex={index} control={form.control} />
-          </SectionGroup>
-
-          {/* 8. Collector (always visible) */}
-          <SectionGroup title="Collector">
-            <CollectorSection partIndex={index} control={form.control} />
-          </SectionGroup>
-
-          {/* 9. Gasket & Clamps (always visible) */}
-          <SectionGroup title="Gasket & Clamps">
-            <GasketClampSection
-              partIndex={index}
-              control={form.control}
-              partData={{ ec: part.ec, eg: part.eg, ek: part.ek }}
-            />
-          </SectionGroup>
-
-          {/* 10. Measurements (hidden for REPAIR ONLY) */}
-          {showMeasurements(partType, process) && (
-            <SectionGroup title="Measurements">
-              <MeasurementsSection partIndex={index} control={form.control} />
-            </SectionGroup>
-          )}
+            {/* 10. Measurements (hidden for REPAIR ONLY) */}
+            {showMeasurements(partType, process) && (
+              <SectionGroup title="Measurements">
+                <MeasurementsSection partIndex={index} control={form.control} />
+              </SectionGroup>
+            )}
 
-          {/* 11. Repair Assessment (always visible) */}
-          <SectionGroup title="Repair Assessment">
-            <RepairAssessmentSection partIndex={index} control={form.control} />
-          </SectionGroup>
+            {/* 11. Repair Assessment (always visible) */}
+            <SectionGroup title="Repair Assessment">
+              <RepairAssessmentSection partIndex={index} control={form.control} />
+            </SectionGroup>
 
-          {/* 12. Pass / Fail (always visible) */}
-          <SectionGroup title="Pass / Fail" defaultOpen>
-            <PassFailSection partIndex={index} control={form.control} />
-          </SectionGroup>
-        </CardContent>
+            {/* 12. Pass / Fail (always visible) */}
+            <SectionGroup title="Pass / Fail" defaultOpen>
+              <PassFailSection partIndex={index} control={form.control} />
+            </SectionGroup>
+          </CardContent>
+        </PhotoCaptureProvider>
       )}
     </Card>
   );
@@ -0,0 +1,186 @@
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Camera, Loader2, X, CloudOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getQueuedPhotos, removePhoto } from "@/lib/offlineQueue";
+import { resizeImage, uploadOrQueuePhoto, attachmentUrl } from "@/lib/photoCapture";
+import type { Attachment } from "@shared/schema";
+
+interface PhotoCaptureTarget {
+  submissionId?: string;
+  jobId?: string;
+  partId?: string;
+}
+
+const PhotoCaptureContext = createContext<PhotoCaptureTarget>({});
+
+/**
+ * Provides the submission/job/part that photos inside it belong to.
+ * Nested providers merge with their parent, so a part card only needs to add its partId.
+ */
+export function PhotoCaptureProvider({ children, ...target }: PhotoCaptureTarget & { children: React.ReactNode }) {
+  const parent = useContext(PhotoCaptureContext);
+  return (
+    <PhotoCaptureContext.Provider value={{ ...parent, ...target }}>
+      {children}
+    </PhotoCaptureContext.Provider>
+  );
+}
+
+interface PhotoCaptureProps {
+  label: string;
+}
+
+interface QueuedPreview {
+  id: string;
+  url: string;
+}
+
+/** Camera capture field for a single photo slot on a form */
+export function PhotoCapture({ label }: PhotoCaptureProps) {
+  const { submissionId, jobId, partId } = useContext(PhotoCaptureContext);
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [queued, setQueued] = useState<QueuedPreview[]>([]);
+
+  const attachmentsKey = `/api/form-submissions/${submissionId}/attachments`;
+  const { data: attachments = [] } = useQuery<Attachment[]>({
+    queryKey: [attachmentsKey],
+    enabled: !!submissionId,
+  });
+
+  const uploaded = attachments.filter(
+    (a) => a.label === label && (a.partId ?? undefined) === partId,
+  );
+
+  // Restore photos still waiting in the offline queue for this slot
+  useEffect(() => {
+    if (!submissionId) return;
+    let urls: QueuedPreview[] = [];
+    getQueuedPhotos(submissionId).then((photos) => {
+      urls = photos
+        .filter((p) => p.label === label && p.partId === partId)
+        .map((p) => ({ id: p.id, url: URL.createObjectURL(p.blob) }));
+      setQueued(urls);
+    }).catch(() => {
+      // IndexedDB unavailable (private browsing) - nothing to restore
+    });
+    return () => urls.forEach((q) => URL.revokeObjectURL(q.url));
+  }, [submissionId, label, partId]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        const blob = await resizeImage(file);
+        const result = await uploadOrQueuePhoto(blob, { submissionId, jobId, partId, label });
+        if (result.queuedId) {
+          setQueued((prev) => [...prev, { id: result.queuedId!, url: URL.createObjectURL(blob) }]);
+        }
+      }
+      queryClient.invalidateQueries({ queryKey: [attachmentsKey] });
+    } catch (error: any) {
+      toast({
+        title: "Photo not saved",
+        description: error.message || "Failed to capture photo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const handleRemoveUploaded = async (attachment: Attachment) => {
+    try {
+      await apiRequest("DELETE", `/api/attachments/${attachment.id}`);
+      queryClient.invalidateQueries({ queryKey: [attachmentsKey] });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove photo",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemoveQueued = async (preview: QueuedPreview) => {
+    await removePhoto(preview.id);
+    URL.revokeObjectURL(preview.url);
+    setQueued((prev) => prev.filter((q) => q.id !== preview.id));
+  };
+
+  const testId = label.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+  return (
+    <div className="space-y-2 p-3 border border-dashed border-muted-foreground/30 rounded-md bg-muted/20">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Camera className="h-4 w-4 shrink-0" />
+          {label}
+        </span>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={isUploading || !submissionId}
+          data-testid={`button-photo-${testId}`}
+        >
+          {isUploading ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Camera className="h-3 w-3 mr-1" />}
+          Add Photo
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </div>
+
+      {(uploaded.length > 0 || queued.length > 0) && (
+        <div className="grid grid-cols-4 gap-2">
+          {uploaded.map((attachment) => (
+            <div key={attachment.id} className="relative aspect-square">
+              <img
+                src={attachmentUrl(attachment)}
+                alt={label}
+                className="h-full w-full object-cover rounded"
+                data-testid={`img-photo-${attachment.id}`}
+              />
+              <button
+                type="button"
+                className="absolute top-0.5 right-0.5 rounded-full bg-black/60 p-0.5 text-white"
+                onClick={() => handleRemoveUploaded(attachment)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {queued.map((preview) => (
+            <div key={preview.id} className="relative aspect-square">
+              <img src={preview.url} alt={label} className="h-full w-full object-cover rounded opacity-70" />
+              <span className="absolute bottom-0.5 left-0.5 flex items-center gap-0.5 rounded bg-orange-600/90 px-1 text-[10px] text-white">
+                <CloudOff className="h-2.5 w-2.5" /> Queued
+              </span>
+              <button
+                type="button"
+                className="absolute top-0.5 right-0.5 rounded-full bg-black/60 p-0.5 text-white"
+                onClick={() => handleRemoveQueued(preview)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
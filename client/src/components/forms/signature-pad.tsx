@@ -0,0 +1,176 @@
+import { useEffect, useRef } from "react";
+import { Control } from "react-hook-form";
+import { z } from "zod";
+import { Eraser } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+/** Zod fields to merge into pickup/delivery form schemas */
+export const signatureFormFields = {
+  signerName: z.string().trim().min(1, "Signer's printed name is required"),
+  signature: z.string().min(1, "Customer signature is required"),
+};
+
+/**
+ * Split signature fields out of form values so they are stored on the
+ * form_submissions row rather than inside responseData.
+ */
+export function splitSignature<T extends { signerName: string; signature: string }>(values: T) {
+  const { signerName, signature, ...responseData } = values;
+  return {
+    responseData,
+    signature: { image: signature, signerName: signerName.trim(), signedAt: new Date().toISOString() },
+  };
+}
+
+interface SignaturePadProps {
+  /** PNG data URL of the current signature, or "" when empty */
+  value: string;
+  onChange: (dataUrl: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Canvas-based signature pad. Works with mouse, pen and touch via pointer events,
+ * and emits a PNG data URL after each stroke so it can be stored with the form
+ * (including in the offline queue).
+ */
+export function SignaturePad({ value, onChange, disabled }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  // Size the backing store for the device pixel ratio so strokes stay crisp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width * ratio;
+    canvas.height = rect.height * ratio;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#111827";
+
+    // Redraw an existing signature (e.g. after test data fill or remount)
+    if (value) {
+      const img = new Image();
+      img.onload = () => ctx.drawImage(img, 0, 0, rect.width, rect.height);
+      img.src = value;
+    }
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    onChange(e.currentTarget.toDataURL("image/png"));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+    onChange("");
+  };
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        className="w-full h-36 border rounded-md bg-white touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        data-testid="canvas-signature"
+      />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Sign above</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={handleClear}
+          disabled={disabled || !value}
+          data-testid="button-clear-signature"
+        >
+          <Eraser className="h-3 w-3 mr-1" />Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** Printed name + signature pad, bound to a react-hook-form control */
+export function SignatureFields({ control, disabled }: { control: Control<any>; disabled?: boolean }) {
+  return (
+    <>
+      <FormField
+        control={control}
+        name="signature"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel required>Customer Signature</FormLabel>
+            <FormControl>
+              <SignaturePad value={field.value} onChange={field.onChange} disabled={disabled} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="signerName"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel required>Signer's Printed Name</FormLabel>
+            <FormControl>
+              <Input placeholder="Name of person signing" {...field} data-testid="input-signer-name" />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
@@ -0,0 +1,379 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { MessageSquare, Paperclip, Pencil, Reply } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { useTimezone } from "@/hooks/useTimezone";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Attachment, CommentSource, JobComment, JobCommentRevision, JobPart } from "@shared/schema";
+
+// Matches GET /api/jobs/:jobId/comments (server/services/jobComments.ts)
+export type CommentThreadEntry = Omit<JobComment, "createdAt" | "editedAt"> & {
+  createdAt: string;
+  editedAt: string | null;
+  userEmail: string | null;
+  userFirstName: string | null;
+  userLastName: string | null;
+  attachments: Attachment[];
+  revisionCount: number;
+  replies: CommentThreadEntry[];
+};
+
+const SOURCE_LABELS: Record<CommentSource, string> = {
+  user: "Comment",
+  pickup_notes: "Pickup Notes",
+  delivery_notes: "Delivery Notes",
+  driver_notes: "Driver Notes",
+  tech_comments: "Tech Comments",
+  note_to_tech: "Note to Tech",
+  inbound_shipment_notes: "Inbound Shipment Notes",
+  outbound_shipment_notes: "Outbound Shipment Notes",
+  additional_comments: "Additional Comments",
+};
+
+const WHOLE_JOB = "job";
+const MENTION_SPLIT = /(@[\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+const ACCEPTED_FILES = "image/jpeg,image/png,image/webp,application/pdf,text/plain,text/csv";
+
+function authorName(comment: CommentThreadEntry): string {
+  return comment.userFirstName || comment.userLastName
+    ? `${comment.userFirstName || ""} ${comment.userLastName || ""}`.trim()
+    : comment.userEmail || comment.userId || "Unknown User";
+}
+
+// Highlight @mentions in the comment text
+function CommentText({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(MENTION_SPLIT).map((segment, index) =>
+        index % 2 === 1 ? <span key={index} className="font-medium text-[var(--ecs-primary)]">{segment}</span> : segment,
+      )}
+    </>
+  );
+}
+
+function RevisionHistory({ jobId, comment }: { jobId: string; comment: CommentThreadEntry }) {
+  const [open, setOpen] = useState(false);
+  const { formatDateTime } = useTimezone();
+  const { data: revisions = [], isLoading } = useQuery<JobCommentRevision[]>({
+    queryKey: [`/api/jobs/${jobId}/comments/${comment.id}/revisions`],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" className="text-xs text-muted-foreground underline" data-testid={`button-comment-history-${comment.id}`}>
+          (edited)
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <div className="text-sm font-medium">Previous versions</div>
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground">Loading...</p>
+        ) : (
+          revisions.map((revision) => (
+            <div key={revision.id} className="border-b pb-2 last:border-0 text-sm" data-testid={`comment-revision-${revision.id}`}>
+              <div className="text-xs text-muted-foreground mb-1">
+                Replaced {formatDateTime(revision.editedAt, "PPp")}{revision.editedBy ? ` by ${revision.editedBy}` : ""}
+              </div>
+              <div className="whitespace-pre-wrap">{revision.commentText}</div>
+            </div>
+          ))
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface CommentComposerProps {
+  jobId: string;
+  parts: JobPart[];
+  parentId?: string;
+  onDone?: () => void;
+}
+
+/** New comment or reply, with an optional part and files to attach */
+function CommentComposer({ jobId, parts, parentId, onDone }: CommentComposerProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const [partId, setPartId] = useState(WHOLE_JOB);
+  const [files, setFiles] = useState<File[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const testIdSuffix = parentId ? `reply-${parentId}` : "comment";
+
+  const addComment = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/comments`, {
+        commentText: text.trim(),
+        parentId,
+        partId: partId === WHOLE_JOB ? undefined : partId,
+      });
+      const comment: JobComment = await response.json();
+
+      // Files go up one at a time as raw bodies, like form photos
+      for (const file of files) {
+        const upload = await fetch(`/api/jobs/${jobId}/comments/${comment.id}/attachments?fileName=${encodeURIComponent(file.name)}`, {
+          method: "POST",
+          headers: { "Content-Type": file.type || "application/octet-stream" },
+          credentials: "include",
+          body: file,
+        });
+        if (!upload.ok) {
+          const { message } = await upload.json().catch(() => ({ message: upload.statusText }));
+          throw new Error(`Comment saved, but ${file.name} could not be attached: ${message}`);
+        }
+      }
+      return comment;
+    },
+    onSuccess: () => {
+      setText("");
+      setPartId(WHOLE_JOB);
+      setFiles([]);
+      if (fileInput.current) fileInput.current.value = "";
+      onDone?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add comment",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/comments`] });
+    },
+  });
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (text.trim()) addComment.mutate();
+      }}
+      className="space-y-2"
+    >
+      <Textarea
+        data-testid={`input-${testIdSuffix}`}
+        placeholder={parentId ? "Write a reply..." : "Add a comment... Use @name to notify someone"}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={parentId ? 2 : 3}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        {!parentId && parts.length > 0 && (
+          <Select value={partId} onValueChange={setPartId}>
+            <SelectTrigger className="w-44" data-testid="select-comment-part">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={WHOLE_JOB}>Whole job</SelectItem>
+              {parts.map((part) => (
+                <SelectItem key={part.id} value={part.id}>
+                  {part.ecsSerial || part.part || "Unnamed part"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          ref={fileInput}
+          type="file"
+          multiple
+          accept={ACCEPTED_FILES}
+          className="w-56"
+          onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+          data-testid={`input-${testIdSuffix}-files`}
+        />
+        <Button data-testid={`button-add-${testIdSuffix}`} type="submit" size={parentId ? "sm" : "default"} disabled={!text.trim() || addComment.isPending}>
+          {addComment.isPending ? "Adding..." : parentId ? "Reply" : "Add Comment"}
+        </Button>
+        {onDone && (
+          <Button type="button" variant="ghost" size="sm" onClick={onDone}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface CommentItemProps {
+  jobId: string;
+  comment: CommentThreadEntry;
+  parts: JobPart[];
+  isReply?: boolean;
+}
+
+function CommentItem({ jobId, comment, parts, isReply = false }: CommentItemProps) {
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+  const { formatDateTime } = useTimezone();
+  const [replying, setReplying] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.commentText);
+
+  const part = comment.partId ? parts.find((candidate) => candidate.id === comment.partId) : undefined;
+  const canEdit = comment.source === "user" && !!user && comment.userId === user.id;
+
+  const editComment = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/jobs/${jobId}/comments/${comment.id}`, { commentText: draft.trim() });
+    },
+    onSuccess: () => {
+      setEditing(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/comments`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/comments/${comment.id}/revisions`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to edit comment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className={isReply ? "border-l-2 pl-3" : "border-b pb-4 last:border-0"} data-testid={`comment-${comment.id}`}>
+      <div className="flex items-start justify-between gap-2 mb-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-sm" data-testid={`text-comment-author-${comment.id}`}>
+            {authorName(comment)}
+          </span>
+          {comment.source !== "user" && (
+            <Badge variant="secondary" className="text-xs" data-testid={`badge-comment-source-${comment.id}`}>
+              {SOURCE_LABELS[comment.source] ?? comment.source}
+            </Badge>
+          )}
+          {comment.partId && (
+            <Badge variant="outline" className="text-xs" data-testid={`badge-comment-part-${comment.id}`}>
+              {part?.ecsSerial || part?.part || "Part"}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap" data-testid={`text-comment-time-${comment.id}`}>
+          {formatDateTime(comment.createdAt, "PPp")}
+          {comment.revisionCount > 0 && <RevisionHistory jobId={jobId} comment={comment} />}
+        </div>
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={3} data-testid={`input-edit-comment-${comment.id}`} />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => editComment.mutate()} disabled={!draft.trim() || editComment.isPending} data-testid={`button-save-comment-${comment.id}`}>
+              {editComment.isPending ? "Saving..." : "Save"}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => { setEditing(false); setDraft(comment.commentText); }}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="text-sm whitespace-pre-wrap" data-testid={`text-comment-text-${comment.id}`}>
+          <CommentText text={comment.commentText} />
+        </div>
+      )}
+
+      {comment.attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {comment.attachments.map((attachment) => (
+            <a
+              key={attachment.id}
+              href={`/api/attachments/${attachment.id}/content`}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-[var(--ecs-primary)] hover:underline"
+              data-testid={`link-comment-attachment-${attachment.id}`}
+            >
+              <Paperclip className="h-3 w-3" />
+              {attachment.label}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {!editing && (can("comments.create") || canEdit) && (
+        <div className="flex gap-1 mt-1">
+          {!isReply && can("comments.create") && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setReplying(true)} data-testid={`button-reply-${comment.id}`}>
+              <Reply className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+          )}
+          {canEdit && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setEditing(true)} data-testid={`button-edit-comment-${comment.id}`}>
+              <Pencil className="h-3 w-3 mr-1" />
+              Edit
+            </Button>
+          )}
+        </div>
+      )}
+
+      {(comment.replies.length > 0 || replying) && (
+        <div className="mt-3 ml-2 space-y-3">
+          {comment.replies.map((reply) => (
+            <CommentItem key={reply.id} jobId={jobId} comment={reply} parts={parts} isReply />
+          ))}
+          {replying && <CommentComposer jobId={jobId} parts={parts} parentId={comment.id} onDone={() => setReplying(false)} />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface JobCommentsProps {
+  jobId: string;
+  parts: JobPart[];
+}
+
+/**
+ * The job conversation: comments and notes from forms, threaded replies,
+ * per-part comments, @mentions, edit history and attached files
+ */
+export function JobComments({ jobId, parts }: JobCommentsProps) {
+  const { can } = useAuth();
+  const { data: comments = [], isLoading } = useQuery<CommentThreadEntry[]>({
+    queryKey: [`/api/jobs/${jobId}/comments`],
+    enabled: !!jobId,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="card-header">
+        <CardTitle className="text-white flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          Comments
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        {can("comments.create") && (
+          <div className="mb-6">
+            <CommentComposer jobId={jobId} parts={parts} />
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-4">Loading comments...</p>
+        ) : comments.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No comments yet</p>
+        ) : (
+          <div className="space-y-4">
+            {comments.map((comment) => (
+              <CommentItem key={comment.id} jobId={jobId} comment={comment} parts={parts} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+import { useQuery } from "@tanstack/react-query";
+import { Award, Download, FileText, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { queryClient } from "@/lib/queryClient";
+import type { JobDocument } from "@shared/schema";
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  delivery_receipt: "Delivery Receipt",
+};
+
+interface JobDocumentsProps {
+  jobId: string;
+  jobState: string;
+  partCount: number;
+  formatDateTime: (date: string | Date, format: string) => string;
+}
+
+/** Generated PDFs for a job: stored delivery receipts and on-demand service certificates */
+export function JobDocuments({ jobId, jobState, partCount, formatDateTime }: JobDocumentsProps) {
+  const documentsKey = `/api/jobs/${jobId}/documents`;
+  const { data: documents = [] } = useQuery<JobDocument[]>({
+    queryKey: [documentsKey],
+    enabled: !!jobId,
+  });
+
+  const isDelivered = jobState === "delivered";
+  if (!isDelivered && partCount === 0 && documents.length === 0) {
+    return null;
+  }
+
+  // The receipt endpoint generates on first request, so refresh the list once it's opened
+  const openReceipt = (regenerate: boolean) => {
+    window.open(`/api/jobs/${jobId}/delivery-receipt${regenerate ? "?regenerate=true" : ""}`, "_blank");
+    setTimeout(() => queryClient.invalidateQueries({ queryKey: [documentsKey] }), 2000);
+  };
+
+  const hasReceipt = documents.some((d) => d.documentType === "delivery_receipt");
+
+  return (
+    <Card>
+      <CardHeader className="card-header">
+        <CardTitle className="text-white flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Documents
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {isDelivered && (
+            <>
+              <Button onClick={() => openReceipt(false)} data-testid="button-download-receipt">
+                <Download className="h-4 w-4 mr-2" />
+                Delivery Receipt
+              </Button>
+              {hasReceipt && (
+                <Button variant="outline" onClick={() => openReceipt(true)} data-testid="button-regenerate-receipt">
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Regenerate
+                </Button>
+              )}
+            </>
+          )}
+          {partCount > 0 && (
+            <Button variant="outline" asChild>
+              <a
+                href={`/api/jobs/${jobId}/certificates`}
+                target="_blank"
+                rel="noopener noreferrer"
+                data-testid="link-all-certificates"
+              >
+                <Award className="h-4 w-4 mr-2" />
+                Service Certificates ({partCount})
+              </a>
+            </Button>
+          )}
+        </div>
+
+        {documents.length > 0 && (
+          <div className="divide-y border rounded-md">
+            {documents.map((document) => (
+              <a
+                key={document.id}
+                href={`/api/documents/${document.id}/content`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center justify-between gap-2 p-3 text-sm hover:bg-muted/50"
+                data-testid={`link-document-${document.id}`}
+              >
+                <span className="flex items-center gap-2">
+                  <FileText className="h-4 w-4 text-muted-foreground" />
+                  {DOCUMENT_LABELS[document.documentType] ?? document.fileName}
+                </span>
+                <span className="text-muted-foreground">
+                  {document.createdAt ? formatDateTime(document.createdAt, 'PPp') : ''}
+                  {!!document.generatedBy && ` · ${document.generatedBy}`}
+                </span>
+              </a>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
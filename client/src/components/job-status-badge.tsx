@@ -23,6 +23,8 @@ export default function JobStatusBadge({ status }: JobStatusBadgeProps) {
         return 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200';
       case 'service_complete':
         return 'bg-lime-100 text-lime-800 hover:bg-lime-200';
+      case 'qa_inspection':
+        return 'bg-amber-100 text-amber-800 hover:bg-amber-200';
       case 'ready_for_pickup':
       case 'picked_up_from_shop':
       case 'delivered':
@@ -51,6 +53,8 @@ export default function JobStatusBadge({ status }: JobStatusBadgeProps) {
         return 'In Service';
       case 'service_complete':
         return 'Service Complete';
+      case 'qa_inspection':
+        return 'QA Inspection';
       case 'ready_for_pickup':
         return 'Ready for Pickup';
       case 'picked_up_from_shop':
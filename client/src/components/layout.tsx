@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { Bolt, Plus, BarChart3, List, Package, FileText, User, LogOut, Menu, X, Code, Settings, Shield, Wrench, Truck, Users } from "lucide-react";
+import { Bolt, Plus, BarChart3, LineChart, List, Package, FileText, User, LogOut, Menu, X, Code, Settings, Shield, Wrench, Truck, Users, ScanLine } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -17,6 +17,9 @@ import { useDevPersona } from "@/contexts/DevPersonaContext";
 import { Switch } from "@/components/ui/switch";
 import { SignOutButton } from "@clerk/clerk-react";
 import { useQuery } from "@tanstack/react-query";
+import { CommandPalette } from "@/components/command-palette";
+import { NotificationBell } from "@/components/notification-bell";
+import { ActiveShopSwitcher } from "@/components/active-shop-switcher";
 import {
   Select,
   SelectContent,
@@ -42,7 +45,7 @@ interface WhitelistEntry {
 
 export default function Layout({ children }: LayoutProps) {
   const [location] = useLocation();
-  const { user, whitelistRole } = useAuth();
+  const { user, whitelistRole, can } = useAuth();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const { isDevMode, toggleDevMode } = useDevMode();
   const { personaEmail, setPersonaEmail, clearPersona } = useDevPersona();
@@ -97,6 +100,7 @@ export default function Layout({ children }: LayoutProps) {
       case "technician":
         return [
           { href: "/tech", label: "My Jobs", icon: Wrench },
+          { href: "/scan", label: "Scan", icon: ScanLine },
         ];
       case "driver":
         return [
@@ -107,8 +111,10 @@ export default function Layout({ children }: LayoutProps) {
         return [
           { href: "/", label: "New Job", icon: Plus },
           { href: "/dashboard", label: "Dashboard", icon: BarChart3 },
+          ...(can("analytics.view") ? [{ href: "/analytics", label: "Analytics", icon: LineChart }] : []),
           { href: "/jobs", label: "Job List", icon: List },
           { href: "/parts", label: "Parts List", icon: Package },
+          { href: "/scan", label: "Scan", icon: ScanLine },
         ];
     }
   };
@@ -158,67 +164,72 @@ export default function Layout({ children }: LayoutProps) {
             </span>
           </div>
 
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button variant="ghost" className="flex items-center space-x-2" data-testid="button-user-menu">
-                {user?.profileImageUrl ? (
-                  <img
-                    src={user.profileImageUrl}
-                    alt="Profile"
-                    className="h-6 w-6 rounded-full object-cover"
-                  />
-                ) : (
-                  <User className="h-4 w-4" />
-                )}
-                <span className="hidden sm:inline">{getUserDisplayName()}</span>
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              {user?.email && (
-                <>
-                  <div className="px-2 py-1.5 text-sm text-muted-foreground">
-                    {user.email}
-                  </div>
-                  {whitelistRole && (
-                    <div className="px-2 py-0.5 text-xs text-muted-foreground capitalize">
-                      Role: {whitelistRole}
-                    </div>
+          <div className="flex items-center gap-2">
+            <ActiveShopSwitcher />
+            <CommandPalette />
+            <NotificationBell />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" className="flex items-center space-x-2" data-testid="button-user-menu">
+                  {user?.profileImageUrl ? (
+                    <img
+                      src={user.profileImageUrl}
+                      alt="Profile"
+                      className="h-6 w-6 rounded-full object-cover"
+                    />
+                  ) : (
+                    <User className="h-4 w-4" />
                   )}
-                  <DropdownMenuSeparator />
-                </>
-              )}
-              <DropdownMenuItem asChild>
-                <Link href="/settings" data-testid="link-settings">
-                  <Settings className="mr-2 h-4 w-4" />
-                  Settings
-                </Link>
-              </DropdownMenuItem>
-              {user?.role === 'admin' && (
+                  <span className="hidden sm:inline">{getUserDisplayName()}</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {user?.email && (
+                  <>
+                    <div className="px-2 py-1.5 text-sm text-muted-foreground">
+                      {user.email}
+                    </div>
+                    {whitelistRole && (
+                      <div className="px-2 py-0.5 text-xs text-muted-foreground capitalize">
+                        Role: {whitelistRole}
+                      </div>
+                    )}
+                    <DropdownMenuSeparator />
+                  </>
+                )}
                 <DropdownMenuItem asChild>
-                  <Link href="/admin" data-testid="link-admin">
-                    <Shield className="mr-2 h-4 w-4" />
-                    Admin Dashboard
+                  <Link href="/settings" data-testid="link-settings">
+                    <Settings className="mr-2 h-4 w-4" />
+                    Settings
                   </Link>
                 </DropdownMenuItem>
-              )}
-              {CLERK_PUBLISHABLE_KEY ? (
-                <SignOutButton>
-                  <DropdownMenuItem data-testid="button-logout">
+                {can("admin") && (
+                  <DropdownMenuItem asChild>
+                    <Link href="/admin" data-testid="link-admin">
+                      <Shield className="mr-2 h-4 w-4" />
+                      Admin Dashboard
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+                {CLERK_PUBLISHABLE_KEY ? (
+                  <SignOutButton>
+                    <DropdownMenuItem data-testid="button-logout">
+                      <LogOut className="mr-2 h-4 w-4" />
+                      Logout
+                    </DropdownMenuItem>
+                  </SignOutButton>
+                ) : (
+                  <DropdownMenuItem
+                    onClick={handleLogout}
+                    data-testid="button-logout"
+                  >
                     <LogOut className="mr-2 h-4 w-4" />
                     Logout
                   </DropdownMenuItem>
-                </SignOutButton>
-              ) : (
-                <DropdownMenuItem
-                  onClick={handleLogout}
-                  data-testid="button-logout"
-                >
-                  <LogOut className="mr-2 h-4 w-4" />
-                  Logout
-                </DropdownMenuItem>
-              )}
-            </DropdownMenuContent>
-          </DropdownMenu>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
       </nav>
 
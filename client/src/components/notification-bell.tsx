@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck, ClipboardList, MessageSquare, Package, RefreshCw } from "lucide-react";
+import type { Notification } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useNotifications } from "@/hooks/useNotifications";
+
+const TYPE_ICONS: Record<string, typeof Bell> = {
+  form_assigned: ClipboardList,
+  job_state_changed: RefreshCw,
+  comment_mention: MessageSquare,
+  part_status_changed: Package,
+};
+
+/**
+ * Header bell with the user's notification inbox. New notifications arrive
+ * over the WebSocket; clicking one marks it read and opens what it refers to.
+ */
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const { notifications, unreadCount, isLoading, personaParam } = useNotifications();
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/notifications/${id}/read${personaParam}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/notifications/read-all${personaParam}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setOpen(false);
+      setLocation(notification.link);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center"
+              data-testid="badge-unread-notifications"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 sm:w-96 p-0">
+        <div className="flex items-center justify-between px-3 py-2 border-b">
+          <span className="font-semibold text-sm">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0 || markAllReadMutation.isPending}
+            onClick={() => markAllReadMutation.mutate()}
+            data-testid="button-mark-all-read"
+          >
+            <CheckCheck className="h-3.5 w-3.5 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+        <ScrollArea className="max-h-[60vh]">
+          {isLoading && (
+            <div className="py-6 text-center text-sm text-muted-foreground">Loading…</div>
+          )}
+          {!isLoading && notifications.length === 0 && (
+            <div className="py-6 text-center text-sm text-muted-foreground" data-testid="text-no-notifications">
+              You're all caught up
+            </div>
+          )}
+          {notifications.map((notification) => {
+            const Icon = TYPE_ICONS[notification.type] ?? Bell;
+            return (
+              <button
+                key={notification.id}
+                type="button"
+                className={`w-full text-left flex gap-3 px-3 py-2 border-b last:border-b-0 hover:bg-muted ${
+                  notification.readAt ? "" : "bg-blue-50"
+                }`}
+                onClick={() => handleSelect(notification)}
+                data-testid={`notification-${notification.id}`}
+              >
+                <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className={`text-sm truncate ${notification.readAt ? "" : "font-semibold"}`}>
+                      {notification.title}
+                    </span>
+                    {!notification.readAt && <span className="h-2 w-2 rounded-full bg-blue-600 shrink-0" />}
+                  </div>
+                  <div className="text-xs text-muted-foreground line-clamp-2">{notification.message}</div>
+                  <div className="text-[10px] text-muted-foreground mt-0.5">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </div>
+                </div>
+              </button>
+            );
+          })}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -4,7 +4,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useLocations } from "@/hooks/use-reference-data";
+import { useActiveShopNames } from "@/hooks/use-reference-data";
 import { useTimezone } from "@/hooks/useTimezone";
 import { Button } from "@/components/ui/button";
 import {
@@ -68,7 +68,7 @@ export function OutboundShipmentModal({
   const [carrierOpen, setCarrierOpen] = useState(false);
   const [expectedArrivalOpen, setExpectedArrivalOpen] = useState(false);
   
-  const { data: locations = [], isLoading: isLoadingLocations } = useLocations();
+  const { data: locations = [], isLoading: isLoadingLocations } = useActiveShopNames();
   const { getTodayInTimezone } = useTimezone();
   const today = getTodayInTimezone();
 
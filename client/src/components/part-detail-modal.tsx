@@ -4,9 +4,14 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { useQuery } from "@tanstack/react-query";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import type { JobPart } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { FileText } from "lucide-react";
+import { PhotoGallery } from "@/components/photo-gallery";
+import { AuditHistory } from "@/components/audit-history";
+import type { Attachment, JobPart } from "@shared/schema";
 
 interface RawField {
   label: string;
@@ -27,6 +32,11 @@ export function PartDetailModal({
   open,
   onOpenChange,
 }: PartDetailModalProps) {
+  const { data: photos = [] } = useQuery<Attachment[]>({
+    queryKey: [`/api/jobs/${part?.jobId}/parts/${part?.id}/attachments`],
+    enabled: open && !!part,
+  });
+
   if (!part) return null;
 
   const rawFields = (part.rawGocanvasFields as RawField[] | null) || [];
@@ -43,10 +53,26 @@ export function PartDetailModal({
                 {part.ecsSerial}
               </Badge>
             )}
+            <Button asChild variant="outline" size="sm" className="ml-auto mr-6">
+              <a
+                href={`/api/jobs/${part.jobId}/parts/${part.id}/certificate`}
+                target="_blank"
+                rel="noopener noreferrer"
+                data-testid="link-part-certificate"
+              >
+                <FileText className="h-4 w-4 mr-1" />
+                Certificate
+              </a>
+            </Button>
           </DialogTitle>
         </DialogHeader>
 
         <ScrollArea className="max-h-[60vh] pr-4">
+          {photos.length > 0 && (
+            <div className="pb-4 mb-4 border-b">
+              <PhotoGallery attachments={photos} />
+            </div>
+          )}
           {hasRawFields ? (
             <div className="space-y-3">
               {rawFields.map((field, index) => (
@@ -72,6 +98,11 @@ export function PartDetailModal({
               </p>
             </div>
           )}
+
+          <div className="pt-4 mt-4 border-t">
+            <h4 className="text-sm font-semibold mb-3">Change History</h4>
+            <AuditHistory jobId={part.jobId} partId={part.id} />
+          </div>
         </ScrollArea>
 
         {hasRawFields && (
@@ -3,7 +3,6 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { DragDropContext, Droppable, Draggable, type DropResult } from "@hello-pangea/dnd";
 import { insertJobPartSchema, type JobPart, type InsertJobPart, type Job } from "@shared/schema";
-import { getShopCode, getTodayDateCode } from "@shared/shopCodes";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useParts, useProcesses, useFilterPartNumbers } from "@/hooks/use-reference-data";
@@ -39,6 +38,7 @@ import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, Command
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Package, Trash2, Edit, Plus, Database, ChevronsUpDown, Check, Info, Copy, GripVertical } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { PrintLabelsMenu } from "@/components/print-labels-menu";
 import type { z } from "zod";
 import { useQuery } from "@tanstack/react-query";
 
@@ -149,13 +149,12 @@ export function PartsManagementModal({
   const handleGenerateSerial = async () => {
     try {
       setIsGenerating(true);
-      const shopNameToUse = propShopName || job?.shopName || "Nashville";
-      const shopCode = getShopCode(shopNameToUse);
-      const dateCode = getTodayDateCode();
+      const shopNameToUse = propShopName || job?.shopName;
       
-      // Get next serial from database
-      const response = await apiRequest("POST", `/api/serial/generate`, { shopCode, date: dateCode });
+      // Get next serial from database (dated in the shop's timezone)
+      const response = await apiRequest("POST", `/api/serial/generate`, { shopName: shopNameToUse });
       const data = await response.json();
+      const { shopCode, date: dateCode } = data;
       let suggestedSerial = data.serialNumber;
       
       // If in local mode, also check local parts array and increment if needed
@@ -194,7 +193,7 @@ export function PartsManagementModal({
       console.error("Failed to generate serial number:", error);
       toast({
         title: "Generation Failed",
-        description: "Could not generate serial number. Please try again.",
+        description: error instanceof Error ? error.message : "Could not generate serial number. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -361,11 +360,11 @@ export function PartsManagementModal({
           description: "Part has been deleted.",
         });
       } else if (mode === 'api' && 'id' in part) {
-        // API mode: delete from server
+        // API mode: moves the part to the trash, where an admin can restore it
         await apiRequest("DELETE", `/api/jobs/${jobId}/parts/${part.id}`);
         toast({
           title: "Part Deleted",
-          description: "Part has been deleted successfully.",
+          description: "Part moved to the trash. An admin can restore it if needed.",
         });
         queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/parts`] });
         refetch();
@@ -391,13 +390,12 @@ export function PartsManagementModal({
       // Only generate a serial number if the original part has one
       // (e.g., inbound shipment parts don't have serials until check-in)
       if (part.ecsSerial) {
-        const shopNameToUse = propShopName || job?.shopName || "Nashville";
-        const shopCode = getShopCode(shopNameToUse);
-        const dateCode = getTodayDateCode();
+        const shopNameToUse = propShopName || job?.shopName;
         
-        // Get next serial from database
-        const response = await apiRequest("POST", `/api/serial/generate`, { shopCode, date: dateCode });
+        // Get next serial from database (dated in the shop's timezone)
+        const response = await apiRequest("POST", `/api/serial/generate`, { shopName: shopNameToUse });
         const data = await response.json();
+        const { shopCode, date: dateCode } = data;
         newSerial = data.serialNumber;
         
         // If in local mode, also check local parts array and increment if needed
@@ -629,15 +627,20 @@ export function PartsManagementModal({
             <div className="space-y-4 pr-2 sm:pr-4">
               <div className="flex justify-between items-center">
                 <h3 className="text-sm font-medium">Parts List ({parts.length})</h3>
-                <Button
-                  type="button"
-                  onClick={handleAddNew}
-                  size="sm"
-                  data-testid="button-add-part"
-                >
-                  <Plus className="h-4 w-4 mr-1" />
-                  Add Part
-                </Button>
+                <div className="flex gap-2">
+                  {mode === 'api' && parts.some(p => p.ecsSerial) && (
+                    <PrintLabelsMenu jobId={jobId} buttonLabel="Print Tags" />
+                  )}
+                  <Button
+                    type="button"
+                    onClick={handleAddNew}
+                    size="sm"
+                    data-testid="button-add-part"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Part
+                  </Button>
+                </div>
               </div>
 
               {isLoading && <p className="text-sm text-muted-foreground">Loading parts...</p>}
@@ -696,6 +699,9 @@ export function PartsManagementModal({
                                     </div>
                                   </div>
                                   <div className="flex gap-2 ml-4">
+                                    {mode === 'api' && 'id' in part && part.ecsSerial && (
+                                      <PrintLabelsMenu jobId={jobId} partIds={[String(part.id)]} />
+                                    )}
                                     <Button
                                       type="button"
                                       variant="outline"
@@ -0,0 +1,58 @@
+import { Camera } from "lucide-react";
+import { attachmentUrl } from "@/lib/photoCapture";
+import type { Attachment } from "@shared/schema";
+
+interface PhotoGalleryProps {
+  attachments: Attachment[];
+  /** Heading for each group of photos; defaults to the form's photo label */
+  groupLabel?: (attachment: Attachment) => string;
+  formatDateTime?: (date: string | Date, format: string) => string;
+}
+
+/** Read-only thumbnail grid of form photos, grouped by photo slot */
+export function PhotoGallery({ attachments, groupLabel = (a) => a.label, formatDateTime }: PhotoGalleryProps) {
+  if (attachments.length === 0) {
+    return (
+      <div className="text-center py-6 text-muted-foreground text-sm">
+        <Camera className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        No photos yet
+      </div>
+    );
+  }
+
+  const groups = new Map<string, Attachment[]>();
+  for (const attachment of attachments) {
+    const key = groupLabel(attachment);
+    groups.set(key, [...(groups.get(key) ?? []), attachment]);
+  }
+
+  return (
+    <div className="space-y-4">
+      {Array.from(groups.entries()).map(([label, photos]) => (
+        <div key={label} className="space-y-2">
+          <div className="text-sm text-muted-foreground">{label}</div>
+          <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2">
+            {photos.map((photo) => (
+              <a
+                key={photo.id}
+                href={attachmentUrl(photo)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block aspect-square"
+                title={photo.capturedAt && formatDateTime ? formatDateTime(photo.capturedAt, 'PPpp') : photo.label}
+                data-testid={`link-photo-${photo.id}`}
+              >
+                <img
+                  src={attachmentUrl(photo)}
+                  alt={photo.label}
+                  loading="lazy"
+                  className="h-full w-full object-cover rounded border hover:opacity-90"
+                />
+              </a>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+const LABEL_OPTIONS = [
+  { stock: "4x6", symbology: "code128", label: "4×6 tag · Barcode" },
+  { stock: "4x6", symbology: "qr", label: "4×6 tag · QR code" },
+  { stock: "2x1", symbology: "code128", label: "2×1 label · Barcode" },
+  { stock: "2x1", symbology: "qr", label: "2×1 label · QR code" },
+] as const;
+
+interface PrintLabelsMenuProps {
+  jobId: string;
+  /** Limit to these parts; omit to print every part with an ECS serial */
+  partIds?: string[];
+  buttonLabel?: string;
+  size?: "sm" | "default";
+  disabled?: boolean;
+}
+
+/** Dropdown that opens a printable part tag PDF for the chosen label stock */
+export function PrintLabelsMenu({ jobId, partIds, buttonLabel, size = "sm", disabled }: PrintLabelsMenuProps) {
+  const openLabels = (stock: string, symbology: string) => {
+    const params = new URLSearchParams({ stock, symbology });
+    if (partIds?.length) {
+      params.set("partIds", partIds.join(","));
+    }
+    window.open(`/api/jobs/${jobId}/labels?${params.toString()}`, "_blank");
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size={size}
+          disabled={disabled}
+          title="Print part tags"
+          data-testid={partIds?.length === 1 ? `button-print-label-${partIds[0]}` : "button-print-labels"}
+        >
+          <Printer className={buttonLabel ? "h-4 w-4 mr-1" : "h-4 w-4"} />
+          {buttonLabel}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Label stock</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {LABEL_OPTIONS.map((option) => (
+          <DropdownMenuItem
+            key={`${option.stock}-${option.symbology}`}
+            onClick={() => openLabels(option.stock, option.symbology)}
+            data-testid={`menu-label-${option.stock}-${option.symbology}`}
+          >
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Plus, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useShops } from "@/hooks/use-reference-data";
+import type { Shop } from "@shared/schema";
+
+interface ShopDraft {
+  id?: string;
+  code: string;
+  name: string;
+  displayName: string;
+  address: string;
+  latitude: string;
+  longitude: string;
+  timezone: string;
+  gocanvasLocation: string;
+  active: boolean;
+  defaultDrivers: string; // one email per line
+  defaultTechnicians: string;
+}
+
+const EMPTY_DRAFT: ShopDraft = {
+  code: "",
+  name: "",
+  displayName: "",
+  address: "",
+  latitude: "",
+  longitude: "",
+  timezone: "America/Chicago",
+  gocanvasLocation: "",
+  active: true,
+  defaultDrivers: "",
+  defaultTechnicians: "",
+};
+
+function parseEmails(value: string): string[] {
+  return value.split(/[\s,]+/).map((email) => email.trim()).filter(Boolean);
+}
+
+// Blank is "no coordinate"; anything else must be a number within the limit
+function parseCoordinate(value: string, limit: number): number | null | undefined {
+  if (value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && Math.abs(parsed) <= limit ? parsed : undefined;
+}
+
+/** Admin editor for the shop registry that serials, job IDs and shop dropdowns read from. */
+export function ShopRegistrySettings() {
+  const { toast } = useToast();
+  const { data: shops = [], isLoading } = useShops();
+  const [draft, setDraft] = useState<ShopDraft | null>(null);
+
+  const saveShopMutation = useMutation({
+    mutationFn: async (shop: ShopDraft) => {
+      const body = {
+        displayName: shop.displayName.trim(),
+        address: shop.address.trim() || null,
+        latitude: parseCoordinate(shop.latitude, 90),
+        longitude: parseCoordinate(shop.longitude, 180),
+        timezone: shop.timezone.trim(),
+        gocanvasLocation: shop.gocanvasLocation.trim() || null,
+        active: shop.active ? "true" : "false",
+        defaultDrivers: parseEmails(shop.defaultDrivers),
+        defaultTechnicians: parseEmails(shop.defaultTechnicians),
+      };
+      return shop.id
+        ? apiRequest('PUT', `/api/admin/shops/${shop.id}`, body)
+        : apiRequest('POST', '/api/admin/shops', { ...body, code: shop.code.trim(), name: shop.name.trim() });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/shops'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/sla'] });
+      setDraft(null);
+      toast({ title: "Shop saved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const editShop = (shop: Shop) => {
+    setDraft({
+      id: shop.id,
+      code: shop.code,
+      name: shop.name,
+      displayName: shop.displayName,
+      address: shop.address ?? "",
+      latitude: shop.latitude?.toString() ?? "",
+      longitude: shop.longitude?.toString() ?? "",
+      timezone: shop.timezone,
+      gocanvasLocation: shop.gocanvasLocation ?? "",
+      active: shop.active === "true",
+      defaultDrivers: shop.defaultDrivers.join("\n"),
+      defaultTechnicians: shop.defaultTechnicians.join("\n"),
+    });
+  };
+
+  if (isLoading) {
+    return <p className="text-muted-foreground text-center py-4">Loading shops...</p>;
+  }
+
+  const latitude = draft ? parseCoordinate(draft.latitude, 90) : null;
+  const longitude = draft ? parseCoordinate(draft.longitude, 180) : null;
+  const coordinatesValid = latitude !== undefined && longitude !== undefined && (latitude === null) === (longitude === null);
+  const canSaveDraft = !!draft && /^\d{2}$/.test(draft.code.trim()) && draft.name.trim() !== ""
+    && draft.displayName.trim() !== "" && draft.timezone.trim() !== "" && coordinatesValid;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Shops</CardTitle>
+            <CardDescription>
+              The code prefixes every ECS serial and job ID from the shop, and the timezone decides which day
+              they're dated. GPS fixes within 80 km of a shop's coordinates take its timezone. Code and name can't change once a shop has been added; deactivate a shop to stop
+              new jobs without touching existing ones.
+            </CardDescription>
+          </div>
+          {!draft && (
+            <Button size="sm" onClick={() => setDraft({ ...EMPTY_DRAFT })} data-testid="button-add-shop">
+              <Plus className="h-4 w-4 mr-1" />
+              Add Shop
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft && (
+          <div className="border rounded-md p-4 space-y-4" data-testid="form-shop">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="shop-code">Code</Label>
+                <Input
+                  id="shop-code"
+                  value={draft.code}
+                  onChange={(e) => setDraft({ ...draft, code: e.target.value })}
+                  placeholder="05"
+                  maxLength={2}
+                  disabled={!!draft.id}
+                  data-testid="input-shop-code"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="shop-name">Name</Label>
+                <Input
+                  id="shop-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="ECS - Houston"
+                  disabled={!!draft.id}
+                  data-testid="input-shop-name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="shop-display-name">Display Name</Label>
+                <Input
+                  id="shop-display-name"
+                  value={draft.displayName}
+                  onChange={(e) => setDraft({ ...draft, displayName: e.target.value })}
+                  placeholder="ECS Houston"
+                  data-testid="input-shop-display-name"
+                />
+              </div>
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="shop-address">Address</Label>
+                <Input
+                  id="shop-address"
+                  value={draft.address}
+                  onChange={(e) => setDraft({ ...draft, address: e.target.value })}
+                  data-testid="input-shop-address"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="shop-timezone">Timezone</Label>
+                <Input
+                  id="shop-timezone"
+                  value={draft.timezone}
+                  onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                  placeholder="America/Chicago"
+                  data-testid="input-shop-timezone"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="shop-gocanvas-location">GoCanvas Location</Label>
+                <Input
+                  id="shop-gocanvas-location"
+                  value={draft.gocanvasLocation}
+                  onChange={(e) => setDraft({ ...draft, gocanvasLocation: e.target.value })}
+                  placeholder="Same as name"
+                  data-testid="input-shop-gocanvas-location"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="shop-latitude">Latitude</Label>
+                <Input
+                  id="shop-latitude"
+                  value={draft.latitude}
+                  onChange={(e) => setDraft({ ...draft, latitude: e.target.value })}
+                  placeholder="36.1627"
+                  inputMode="decimal"
+                  data-testid="input-shop-latitude"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="shop-longitude">Longitude</Label>
+                <Input
+                  id="shop-longitude"
+                  value={draft.longitude}
+                  onChange={(e) => setDraft({ ...draft, longitude: e.target.value })}
+                  placeholder="-86.7816"
+                  inputMode="decimal"
+                  data-testid="input-shop-longitude"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="shop-default-drivers">Default Drivers (emails)</Label>
+                <Textarea
+                  id="shop-default-drivers"
+                  value={draft.defaultDrivers}
+                  onChange={(e) => setDraft({ ...draft, defaultDrivers: e.target.value })}
+                  rows={3}
+                  data-testid="textarea-shop-default-drivers"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="shop-default-technicians">Default Technicians (emails)</Label>
+                <Textarea
+                  id="shop-default-technicians"
+                  value={draft.defaultTechnicians}
+                  onChange={(e) => setDraft({ ...draft, defaultTechnicians: e.target.value })}
+                  rows={3}
+                  data-testid="textarea-shop-default-technicians"
+                />
+              </div>
+              <div className="flex items-center gap-2 pt-6">
+                <Checkbox
+                  id="shop-active"
+                  checked={draft.active}
+                  onCheckedChange={(checked) => setDraft({ ...draft, active: checked === true })}
+                  data-testid="checkbox-shop-active"
+                />
+                <Label htmlFor="shop-active">Active</Label>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setDraft(null)} data-testid="button-cancel-shop">
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => saveShopMutation.mutate(draft)}
+                disabled={!canSaveDraft || saveShopMutation.isPending}
+                data-testid="button-save-shop"
+              >
+                <Save className="h-4 w-4 mr-1" />
+                Save Shop
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Shop</TableHead>
+              <TableHead>Timezone</TableHead>
+              <TableHead>Defaults</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-16">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shops.map((shop) => (
+              <TableRow key={shop.id} data-testid={`row-shop-${shop.code}`}>
+                <TableCell className="font-mono">{shop.code}</TableCell>
+                <TableCell>
+                  <div className="font-medium">{shop.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {[shop.displayName, shop.address].filter(Boolean).join(" · ")}
+                  </div>
+                  {shop.gocanvasLocation && (
+                    <div className="text-xs text-muted-foreground">GoCanvas: {shop.gocanvasLocation}</div>
+                  )}
+                </TableCell>
+                <TableCell>{shop.timezone}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  <div>{shop.defaultDrivers.length} driver{shop.defaultDrivers.length === 1 ? "" : "s"}</div>
+                  <div>{shop.defaultTechnicians.length} technician{shop.defaultTechnicians.length === 1 ? "" : "s"}</div>
+                </TableCell>
+                <TableCell>
+                  {shop.active === "true"
+                    ? <Badge className="bg-green-100 text-green-800">Active</Badge>
+                    : <Badge variant="outline">Inactive</Badge>}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => editShop(shop)}
+                    title="Edit"
+                    data-testid={`button-edit-shop-${shop.code}`}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,32 @@
+import { Badge } from "@/components/ui/badge";
+import type { SlaStatus } from "@shared/schema";
+
+interface SlaBadgeProps {
+  status: SlaStatus | null | undefined;
+  showOnTrack?: boolean;
+}
+
+const SLA_STYLES: Record<SlaStatus, string> = {
+  on_track: 'bg-gray-100 text-gray-800 hover:bg-gray-200',
+  at_risk: 'bg-amber-100 text-amber-800 hover:bg-amber-200',
+  overdue: 'bg-red-100 text-red-800 hover:bg-red-200',
+};
+
+const SLA_LABELS: Record<SlaStatus, string> = {
+  on_track: 'On Track',
+  at_risk: 'At Risk',
+  overdue: 'Overdue',
+};
+
+// Only flags trouble by default; jobs without an SLA show nothing
+export default function SlaBadge({ status, showOnTrack = false }: SlaBadgeProps) {
+  if (!status || (status === 'on_track' && !showOnTrack)) {
+    return null;
+  }
+
+  return (
+    <Badge className={`status-badge ${SLA_STYLES[status]}`} data-testid={`badge-sla-${status}`}>
+      {SLA_LABELS[status]}
+    </Badge>
+  );
+}
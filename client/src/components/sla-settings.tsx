@@ -0,0 +1,522 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Edit, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomerNames } from "@/hooks/use-reference-data";
+import { slaClocks, type SlaClock, type SlaTarget, type WeeklyHours, type WorkflowState } from "@shared/schema";
+
+interface EffectiveBusinessHours {
+  shopName: string;
+  timezone: string;
+  weeklyHours: WeeklyHours;
+  holidays: string[];
+  isCustom: boolean;
+}
+
+interface SlaSettingsResponse {
+  targets: SlaTarget[];
+  businessHours: EffectiveBusinessHours[];
+  states: WorkflowState[];
+}
+
+interface TargetDraft {
+  id?: string;
+  name: string;
+  shopName: string; // "all" = every shop
+  customerName: string; // "all" = every customer
+  fromState: string;
+  toState: string;
+  targetMinutes: string;
+  clock: SlaClock;
+  atRiskPercent: string;
+  active: boolean;
+}
+
+const QUERY_KEY = ['/api/admin/sla'];
+const ANY = "all";
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const CLOCK_LABELS: Record<SlaClock, string> = {
+  business: "Business hours",
+  calendar: "Calendar time",
+};
+
+const EMPTY_DRAFT: TargetDraft = {
+  name: "",
+  shopName: ANY,
+  customerName: ANY,
+  fromState: "",
+  toState: "",
+  targetMinutes: "240",
+  clock: "business",
+  atRiskPercent: "75",
+  active: true,
+};
+
+function stateLabel(state: string): string {
+  return state.split('_').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+// 270 -> "4h 30m"
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/** Admin editor for SLA targets and the per-shop business hours they're measured against. */
+export function SlaSettings() {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<SlaSettingsResponse>({ queryKey: QUERY_KEY });
+  const { data: customerNames = [] } = useCustomerNames();
+
+  const [draft, setDraft] = useState<TargetDraft | null>(null);
+  const [hoursShop, setHoursShop] = useState<string>("");
+  const [timezone, setTimezone] = useState("");
+  const [weeklyHours, setWeeklyHours] = useState<WeeklyHours>({});
+  const [holidays, setHolidays] = useState("");
+
+  const selectedHours = data?.businessHours.find((entry) => entry.shopName === hoursShop);
+
+  // Default to the first shop once settings load
+  useEffect(() => {
+    if (!hoursShop && data?.businessHours.length) {
+      setHoursShop(data.businessHours[0].shopName);
+    }
+  }, [data, hoursShop]);
+
+  // Load the selected shop's calendar into the editor
+  useEffect(() => {
+    if (selectedHours) {
+      setTimezone(selectedHours.timezone);
+      setWeeklyHours(selectedHours.weeklyHours);
+      setHolidays(selectedHours.holidays.join("\n"));
+    }
+  }, [selectedHours]);
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "An error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+  };
+
+  const saveTargetMutation = useMutation({
+    mutationFn: async (target: TargetDraft) => {
+      const body = {
+        name: target.name.trim(),
+        shopName: target.shopName === ANY ? null : target.shopName,
+        customerName: target.customerName === ANY ? null : target.customerName,
+        fromState: target.fromState,
+        toState: target.toState,
+        targetMinutes: parseInt(target.targetMinutes, 10),
+        clock: target.clock,
+        atRiskPercent: parseInt(target.atRiskPercent, 10),
+        active: target.active ? "true" : "false",
+      };
+      return target.id
+        ? apiRequest('PUT', `/api/admin/sla/targets/${target.id}`, body)
+        : apiRequest('POST', '/api/admin/sla/targets', body);
+    },
+    onSuccess: () => {
+      invalidate();
+      setDraft(null);
+      toast({ title: "SLA target saved", description: "Open jobs will be re-evaluated shortly." });
+    },
+    onError,
+  });
+
+  const deleteTargetMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/admin/sla/targets/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "SLA target removed" });
+    },
+    onError,
+  });
+
+  const saveHoursMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('PUT', `/api/admin/sla/business-hours/${encodeURIComponent(hoursShop)}`, {
+        timezone: timezone.trim(),
+        weeklyHours,
+        holidays: holidays.split(/\s+/).filter(Boolean),
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Business hours saved", description: `${hoursShop} SLA clocks now use these hours.` });
+    },
+    onError,
+  });
+
+  const editTarget = (target: SlaTarget) => {
+    setDraft({
+      id: target.id,
+      name: target.name,
+      shopName: target.shopName ?? ANY,
+      customerName: target.customerName ?? ANY,
+      fromState: target.fromState,
+      toState: target.toState,
+      targetMinutes: String(target.targetMinutes),
+      clock: target.clock,
+      atRiskPercent: String(target.atRiskPercent),
+      active: target.active === "true",
+    });
+  };
+
+  const handleDeleteTarget = (target: SlaTarget) => {
+    if (confirm(`Remove the SLA target "${target.name}"?`)) {
+      deleteTargetMutation.mutate(target.id);
+    }
+  };
+
+  const setDayHours = (day: number, hours: { open: string; close: string } | null) => {
+    setWeeklyHours((current) => ({ ...current, [String(day)]: hours }));
+  };
+
+  if (isLoading || !data) {
+    return <p className="text-muted-foreground text-center py-4">Loading SLA settings...</p>;
+  }
+
+  const shopNames = data.businessHours.map((entry) => entry.shopName);
+  const canSaveDraft = !!draft && draft.name.trim() !== "" && draft.fromState !== "" && draft.toState !== ""
+    && draft.fromState !== draft.toState && parseInt(draft.targetMinutes, 10) > 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>SLA Targets</CardTitle>
+              <CardDescription>
+                How long a job may take to move from one state to another. A customer-specific target
+                overrides a shop-specific one, which overrides a target for all shops.
+              </CardDescription>
+            </div>
+            {!draft && (
+              <Button size="sm" onClick={() => setDraft({ ...EMPTY_DRAFT })} data-testid="button-add-sla-target">
+                <Plus className="h-4 w-4 mr-1" />
+                Add Target
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {draft && (
+            <div className="border rounded-md p-4 space-y-4" data-testid="form-sla-target">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="sla-name">Name</Label>
+                  <Input
+                    id="sla-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Pickup within 4 business hours"
+                    data-testid="input-sla-name"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Shop</Label>
+                  <Select value={draft.shopName} onValueChange={(value) => setDraft({ ...draft, shopName: value })}>
+                    <SelectTrigger data-testid="select-sla-shop">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>All shops</SelectItem>
+                      {shopNames.map((shop) => (
+                        <SelectItem key={shop} value={shop}>{shop}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Customer</Label>
+                  <Select value={draft.customerName} onValueChange={(value) => setDraft({ ...draft, customerName: value })}>
+                    <SelectTrigger data-testid="select-sla-customer">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>All customers</SelectItem>
+                      {customerNames.map((name) => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>From State</Label>
+                  <Select value={draft.fromState} onValueChange={(value) => setDraft({ ...draft, fromState: value })}>
+                    <SelectTrigger data-testid="select-sla-from-state">
+                      <SelectValue placeholder="Clock starts at..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {data.states.map((state) => (
+                        <SelectItem key={state} value={state}>{stateLabel(state)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>To State</Label>
+                  <Select value={draft.toState} onValueChange={(value) => setDraft({ ...draft, toState: value })}>
+                    <SelectTrigger data-testid="select-sla-to-state">
+                      <SelectValue placeholder="Clock stops at..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {data.states.filter((state) => state !== draft.fromState).map((state) => (
+                        <SelectItem key={state} value={state}>{stateLabel(state)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Clock</Label>
+                  <Select value={draft.clock} onValueChange={(value) => setDraft({ ...draft, clock: value as SlaClock })}>
+                    <SelectTrigger data-testid="select-sla-clock">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {slaClocks.map((clock) => (
+                        <SelectItem key={clock} value={clock}>{CLOCK_LABELS[clock]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="sla-minutes">Target (minutes)</Label>
+                  <Input
+                    id="sla-minutes"
+                    type="number"
+                    min={1}
+                    value={draft.targetMinutes}
+                    onChange={(e) => setDraft({ ...draft, targetMinutes: e.target.value })}
+                    data-testid="input-sla-minutes"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="sla-at-risk">At risk after (% of target)</Label>
+                  <Input
+                    id="sla-at-risk"
+                    type="number"
+                    min={1}
+                    max={99}
+                    value={draft.atRiskPercent}
+                    onChange={(e) => setDraft({ ...draft, atRiskPercent: e.target.value })}
+                    data-testid="input-sla-at-risk"
+                  />
+                </div>
+                <div className="flex items-center gap-2 pt-6">
+                  <Checkbox
+                    id="sla-active"
+                    checked={draft.active}
+                    onCheckedChange={(checked) => setDraft({ ...draft, active: checked === true })}
+                    data-testid="checkbox-sla-active"
+                  />
+                  <Label htmlFor="sla-active">Active</Label>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setDraft(null)} data-testid="button-cancel-sla-target">
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => saveTargetMutation.mutate(draft)}
+                  disabled={!canSaveDraft || saveTargetMutation.isPending}
+                  data-testid="button-save-sla-target"
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  Save Target
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {data.targets.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No SLA targets configured</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Transition</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-24">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.targets.map((target) => (
+                  <TableRow key={target.id} data-testid={`row-sla-target-${target.id}`}>
+                    <TableCell className="font-medium">{target.name}</TableCell>
+                    <TableCell>
+                      <div>{target.shopName ?? "All shops"}</div>
+                      <div className="text-xs text-muted-foreground">{target.customerName ?? "All customers"}</div>
+                    </TableCell>
+                    <TableCell>{stateLabel(target.fromState)} → {stateLabel(target.toState)}</TableCell>
+                    <TableCell>
+                      <div>{formatMinutes(target.targetMinutes)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {CLOCK_LABELS[target.clock]} · at risk at {target.atRiskPercent}%
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {target.active === "true"
+                        ? <Badge className="bg-green-100 text-green-800">Active</Badge>
+                        : <Badge variant="outline">Paused</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => editTarget(target)}
+                          title="Edit"
+                          data-testid={`button-edit-sla-target-${target.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteTarget(target)}
+                          disabled={deleteTargetMutation.isPending}
+                          title="Remove"
+                          data-testid={`button-delete-sla-target-${target.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Business Hours</CardTitle>
+          <CardDescription>
+            Business-hours SLA clocks only run while the shop is open. Holidays pause the clock for the whole day.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Shop</Label>
+              <Select value={hoursShop} onValueChange={setHoursShop}>
+                <SelectTrigger data-testid="select-business-hours-shop">
+                  <SelectValue placeholder="Select a shop" />
+                </SelectTrigger>
+                <SelectContent>
+                  {shopNames.map((shop) => (
+                    <SelectItem key={shop} value={shop}>{shop}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedHours && !selectedHours.isCustom && (
+                <p className="text-xs text-muted-foreground">Using the default hours until saved</p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="business-hours-timezone">Timezone</Label>
+              <Input
+                id="business-hours-timezone"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                placeholder="America/Chicago"
+                data-testid="input-business-hours-timezone"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {WEEKDAYS.map((dayName, day) => {
+              const hours = weeklyHours[String(day)] ?? null;
+              return (
+                <div key={day} className="flex items-center gap-3" data-testid={`row-business-hours-${day}`}>
+                  <span className="w-28 text-sm font-medium">{dayName}</span>
+                  <Checkbox
+                    checked={hours !== null}
+                    onCheckedChange={(checked) => setDayHours(day, checked === true ? { open: "08:00", close: "17:00" } : null)}
+                    data-testid={`checkbox-business-day-${day}`}
+                  />
+                  {hours ? (
+                    <>
+                      <Input
+                        type="time"
+                        value={hours.open}
+                        onChange={(e) => setDayHours(day, { ...hours, open: e.target.value })}
+                        className="w-32"
+                        data-testid={`input-business-open-${day}`}
+                      />
+                      <span className="text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        value={hours.close}
+                        onChange={(e) => setDayHours(day, { ...hours, close: e.target.value })}
+                        className="w-32"
+                        data-testid={`input-business-close-${day}`}
+                      />
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Closed</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="business-hours-holidays">Holidays (one yyyy-mm-dd date per line)</Label>
+            <Textarea
+              id="business-hours-holidays"
+              value={holidays}
+              onChange={(e) => setHolidays(e.target.value)}
+              rows={4}
+              placeholder="2026-12-25"
+              data-testid="textarea-business-hours-holidays"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={() => saveHoursMutation.mutate()}
+              disabled={!hoursShop || !timezone.trim() || saveHoursMutation.isPending}
+              data-testid="button-save-business-hours"
+            >
+              <Save className="h-4 w-4 mr-1" />
+              Save Hours
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
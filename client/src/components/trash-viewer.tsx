@@ -0,0 +1,211 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTimezone } from "@/hooks/useTimezone";
+import type { Job, JobPart } from "@shared/schema";
+
+interface TrashResponse {
+  jobs: Job[];
+  parts: Array<JobPart & { job: Job | null }>;
+}
+
+type TrashKind = "jobs" | "parts";
+
+const QUERY_KEY = ['/api/admin/trash'];
+
+/** Admin view of soft-deleted jobs and parts, to restore them or delete them for good. */
+export function TrashViewer() {
+  const { toast } = useToast();
+  const { formatDateTime } = useTimezone();
+  const { data, isLoading } = useQuery<TrashResponse>({ queryKey: QUERY_KEY, staleTime: 0 });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: TrashKind; id: string }) => {
+      const response = await apiRequest("POST", `/api/admin/trash/${kind}/${id}/restore`);
+      return response.json();
+    },
+    onSuccess: (_data, { kind }) => {
+      invalidate();
+      toast({ title: kind === "jobs" ? "Job restored" : "Part restored" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't restore", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: TrashKind; id: string }) => {
+      const response = await apiRequest("DELETE", `/api/admin/trash/${kind}/${id}`);
+      return response.json();
+    },
+    onSuccess: (_data, { kind }) => {
+      invalidate();
+      toast({ title: kind === "jobs" ? "Job permanently deleted" : "Part permanently deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't delete", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handlePurge = (kind: TrashKind, id: string, label: string) => {
+    const warning = kind === "jobs"
+      ? `Permanently delete ${label} and its parts? This can't be undone.`
+      : `Permanently delete ${label}? Its GoCanvas results can't be recovered.`;
+    if (confirm(warning)) {
+      purgeMutation.mutate({ kind, id });
+    }
+  };
+
+  const isBusy = restoreMutation.isPending || purgeMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Deleted Jobs</CardTitle>
+          <CardDescription>
+            Deleted jobs are hidden from every list. Restoring a job brings back its parts too.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground text-center py-4">Loading...</p>
+          ) : !data || data.jobs.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No deleted jobs</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job ID</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Shop</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Deleted By</TableHead>
+                  <TableHead className="w-32">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.jobs.map((job) => (
+                  <TableRow key={job.id} data-testid={`row-trash-job-${job.jobId}`}>
+                    <TableCell className="font-mono text-xs">{job.jobId}</TableCell>
+                    <TableCell>{job.customerName}</TableCell>
+                    <TableCell>{job.shopName}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(job.deletedAt)}</TableCell>
+                    <TableCell>{job.deletedBy ?? "—"}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate({ kind: "jobs", id: job.id })}
+                          disabled={isBusy}
+                          title="Restore"
+                          data-testid={`button-restore-job-${job.jobId}`}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handlePurge("jobs", job.id, job.jobId)}
+                          disabled={isBusy}
+                          title="Delete permanently"
+                          data-testid={`button-purge-job-${job.jobId}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Deleted Parts</CardTitle>
+          <CardDescription>
+            A deleted part keeps its ECS serial reserved and its GoCanvas results until it's permanently deleted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground text-center py-4">Loading...</p>
+          ) : !data || data.parts.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No deleted parts</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Part</TableHead>
+                  <TableHead>ECS Serial</TableHead>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Deleted By</TableHead>
+                  <TableHead className="w-32">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.parts.map((part) => {
+                  const jobDeleted = !part.job || !!part.job.deletedAt;
+                  return (
+                    <TableRow key={part.id} data-testid={`row-trash-part-${part.id}`}>
+                      <TableCell>
+                        <div>{part.part ?? "—"}</div>
+                        <div className="text-xs text-muted-foreground">{part.process}</div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{part.ecsSerial ?? "—"}</TableCell>
+                      <TableCell>
+                        <div className="font-mono text-xs">{part.jobId}</div>
+                        {jobDeleted && <div className="text-xs text-muted-foreground">Job deleted</div>}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(part.deletedAt)}</TableCell>
+                      <TableCell>{part.deletedBy ?? "—"}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => restoreMutation.mutate({ kind: "parts", id: part.id })}
+                            disabled={isBusy || jobDeleted}
+                            title={jobDeleted ? "Restore the job first" : "Restore"}
+                            data-testid={`button-restore-part-${part.id}`}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handlePurge("parts", part.id, part.ecsSerial ?? part.part ?? "this part")}
+                            disabled={isBusy}
+                            title="Delete permanently"
+                            data-testid={`button-purge-part-${part.id}`}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
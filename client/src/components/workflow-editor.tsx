@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitBranch, Save, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { workflowStates, type WorkflowDefinition, type WorkflowState } from "@shared/schema";
+
+// Sentinel value for the default workflow (Radix Select doesn't allow empty values)
+const DEFAULT_SHOP = "__default__";
+
+interface WorkflowMachine {
+  transitions: Partial<Record<WorkflowState, WorkflowState[]>>;
+  initialStates: WorkflowState[];
+  terminalStates: WorkflowState[];
+}
+
+interface WorkflowsResponse {
+  definitions: WorkflowDefinition[];
+  defaultWorkflow: WorkflowMachine;
+}
+
+interface WorkflowEditorProps {
+  shopOptions: { value: string; label: string }[];
+}
+
+const formatState = (state: string) =>
+  state.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+
+/** Admin editor for per-shop job workflows. Saving always creates a new version. */
+export function WorkflowEditor({ shopOptions }: WorkflowEditorProps) {
+  const { toast } = useToast();
+  const [shop, setShop] = useState<string>(DEFAULT_SHOP);
+  const [draft, setDraft] = useState<WorkflowMachine | null>(null);
+  const [notes, setNotes] = useState("");
+
+  const { data, isLoading } = useQuery<WorkflowsResponse>({
+    queryKey: ['/api/admin/workflows'],
+  });
+
+  const shopName = shop === DEFAULT_SHOP ? null : shop;
+  const versions = (data?.definitions ?? []).filter((d) => (d.shopName ?? null) === shopName);
+  const activeVersion = versions.find((d) => d.active === "true");
+
+  // Load the shop's active version (or the built-in default) whenever the shop changes
+  useEffect(() => {
+    if (!data) return;
+    if (activeVersion) {
+      setDraft({
+        transitions: activeVersion.transitions as WorkflowMachine["transitions"],
+        initialStates: activeVersion.initialStates as WorkflowState[],
+        terminalStates: activeVersion.terminalStates as WorkflowState[],
+      });
+    } else {
+      setDraft(data.defaultWorkflow);
+    }
+    setNotes("");
+  }, [data, shop]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', '/api/admin/workflows', { shopName, notes, ...draft });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/workflows'] });
+      toast({
+        title: "Workflow saved",
+        description: "New jobs will use this version. Existing jobs keep their current workflow.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save workflow",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('POST', `/api/admin/workflows/${id}/activate`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/workflows'] });
+      toast({
+        title: "Workflow activated",
+        description: "New jobs will use the selected version.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to activate workflow",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleTransition = (from: WorkflowState, to: WorkflowState) => {
+    if (!draft) return;
+    const current = draft.transitions[from] ?? [];
+    const next = current.includes(to) ? current.filter((s) => s !== to) : [...current, to];
+    setDraft({ ...draft, transitions: { ...draft.transitions, [from]: next } });
+  };
+
+  const toggleListState = (list: "initialStates" | "terminalStates", state: WorkflowState) => {
+    if (!draft) return;
+    const current = draft[list];
+    const next = current.includes(state) ? current.filter((s) => s !== state) : [...current, state];
+    setDraft({ ...draft, [list]: next });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Job Workflows</CardTitle>
+        <CardDescription>
+          Configure which state transitions each shop allows. Saving creates a new version; jobs already in progress keep the version they started on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-2 flex-wrap items-center">
+          <Select value={shop} onValueChange={setShop}>
+            <SelectTrigger className="w-48" data-testid="select-workflow-shop">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_SHOP}>Default (all shops)</SelectItem>
+              {shopOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">
+            {activeVersion ? `Active: v${activeVersion.version}` : shopName ? "Using default workflow" : "Using built-in workflow"}
+          </span>
+        </div>
+
+        {isLoading || !draft ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Loading workflows...
+          </div>
+        ) : (
+          <>
+            <div className="border rounded-lg overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>From \ To</TableHead>
+                    {workflowStates.map((to) => (
+                      <TableHead key={to} className="text-xs text-center whitespace-nowrap">
+                        {formatState(to)}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-xs text-center">Initial</TableHead>
+                    <TableHead className="text-xs text-center">Terminal</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {workflowStates.map((from) => (
+                    <TableRow key={from} data-testid={`row-workflow-${from}`}>
+                      <TableCell className="font-medium text-xs whitespace-nowrap">{formatState(from)}</TableCell>
+                      {workflowStates.map((to) => (
+                        <TableCell key={to} className="text-center">
+                          {from !== to && (
+                            <Checkbox
+                              checked={(draft.transitions[from] ?? []).includes(to)}
+                              onCheckedChange={() => toggleTransition(from, to)}
+                              data-testid={`checkbox-transition-${from}-${to}`}
+                            />
+                          )}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-center">
+                        <Checkbox
+                          checked={draft.initialStates.includes(from)}
+                          onCheckedChange={() => toggleListState("initialStates", from)}
+                          data-testid={`checkbox-initial-${from}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Checkbox
+                          checked={draft.terminalStates.includes(from)}
+                          onCheckedChange={() => toggleListState("terminalStates", from)}
+                          data-testid={`checkbox-terminal-${from}`}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex gap-2 flex-wrap">
+              <Input
+                placeholder="What changed in this version?"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="flex-1 min-w-[200px]"
+                data-testid="input-workflow-notes"
+              />
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-workflow"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save as New Version
+              </Button>
+            </div>
+          </>
+        )}
+
+        {versions.length > 0 && (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map((version) => (
+                  <TableRow key={version.id} data-testid={`row-workflow-version-${version.version}`}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        <GitBranch className="h-4 w-4 text-muted-foreground" />
+                        v{version.version}
+                        {version.active === "true" && <Badge>Active</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{version.notes || '—'}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {version.createdAt ? new Date(version.createdAt).toLocaleDateString() : 'N/A'}
+                      {version.createdBy && ` by ${version.createdBy}`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {version.active !== "true" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => activateMutation.mutate(version.id)}
+                          disabled={activateMutation.isPending}
+                          data-testid={`button-activate-workflow-${version.version}`}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Activate
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,7 +13,8 @@ import {
   usePreferredProcesses, 
   useCustomerInstructions, 
   useCustomerSpecificData, 
-  useAllShops, 
+  useShops, 
+  useActiveShopNames, 
   useUsersForShop, 
   useDriverDetails,
   useDriversForShop 
@@ -101,7 +102,8 @@ export function useCsrCheckInForm(options: UseCsrCheckInFormOptions = {}): CsrCh
   const { data: shopUsers = [], isLoading: isLoadingShopUsers } = useShopUsers();
   const userId = form.watch("userId") || "";
   const { data: shopsForUser = [], isLoading: isLoadingShops } = useShopsForUser(userId || undefined);
-  const { data: allShops = [], isLoading: isLoadingAllShops } = useAllShops();
+  const { data: allShops = [], isLoading: isLoadingAllShops } = useActiveShopNames();
+  const { data: shops = [] } = useShops();
   const { data: permissionData } = usePermissionForUser(userId || undefined);
   const shopName = form.watch("shopName") || "";
   const { data: usersForSelectedShop = [], isLoading: isLoadingShopHandoffUsers } = useUsersForShop(shopName || undefined);
@@ -187,12 +189,13 @@ export function useCsrCheckInForm(options: UseCsrCheckInFormOptions = {}): CsrCh
     }
   }, [userId, form, disableAutoPopulation, initialValues.shopName]);
 
-  // Clear shop handoff when shop name changes (only for new form, not modal)
+  // Reset shop handoff to the shop's default technician when shop name changes (only for new form, not modal)
   useEffect(() => {
     if (!disableAutoPopulation && !initialValues.shopName) {
-      form.setValue("shopHandoff", "");
+      const shop = shops.find((entry) => entry.name === shopName);
+      form.setValue("shopHandoff", shop?.defaultTechnicians[0] ?? "");
     }
-  }, [shopName, form, disableAutoPopulation, initialValues.shopName]);
+  }, [shopName, shops, form, disableAutoPopulation, initialValues.shopName]);
 
   // Auto-populate handoff email when shop handoff changes
   useEffect(() => {
@@ -1,4 +1,5 @@
 import { useQuery } from '@tanstack/react-query';
+import type { Shop } from '@shared/schema';
 
 export function useShopUsers() {
   return useQuery({
@@ -172,19 +173,25 @@ export function useCustomerSpecificData(customerName: string | undefined, shipTo
   });
 }
 
-// Get all available shop names from reference data
-export function useAllShops() {
+// Get shops from the shop registry (inactive shops included)
+export function useShops() {
   return useQuery({
-    queryKey: ['reference', 'all-shops'],
+    queryKey: ['/api/shops'],
     queryFn: async () => {
-      const response = await fetch('/api/reference/all-shops');
-      if (!response.ok) throw new Error('Failed to fetch all shops');
-      return response.json() as Promise<string[]>;
+      const response = await fetch('/api/shops');
+      if (!response.ok) throw new Error('Failed to fetch shops');
+      return response.json() as Promise<Shop[]>;
     },
     staleTime: 5 * 60 * 1000,
   });
 }
 
+// Get names of the registry shops that can take new jobs
+export function useActiveShopNames() {
+  const { data: shops = [], isLoading } = useShops();
+  return { data: shops.filter(shop => shop.active === 'true').map(shop => shop.name), isLoading };
+}
+
 // Get users for a specific shop
 export function useUsersForShop(shopName: string | undefined) {
   return useQuery({
@@ -241,19 +248,6 @@ export function useDriversForShop(shopName: string | undefined) {
   });
 }
 
-// Get locations from ECS Locations - Drivers reference data
-export function useLocations() {
-  return useQuery({
-    queryKey: ['reference', 'locations'],
-    queryFn: async () => {
-      const response = await fetch('/api/reference/locations');
-      if (!response.ok) throw new Error('Failed to fetch locations');
-      return response.json() as Promise<string[]>;
-    },
-    staleTime: 5 * 60 * 1000,
-  });
-}
-
 // Get parts from Parts reference data
 export function useParts() {
   return useQuery({
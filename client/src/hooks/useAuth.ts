@@ -1,11 +1,14 @@
 import { useQuery } from "@tanstack/react-query";
 import type { User } from "@shared/schema";
+import { hasPermission, type PermissionAction, type UserPermissions } from "@shared/permissions";
+import { useShops } from "@/hooks/use-reference-data";
 import { useDevPersona } from "@/contexts/DevPersonaContext";
 
 // Extended user type that includes whitelist info from the auth endpoint
 type AuthUser = User & {
   whitelistRole: string | null;
   homeShop: string | null;
+  permissions: UserPermissions | null;
   _persona?: boolean;
 };
 
@@ -22,8 +25,18 @@ export function useAuth() {
     retry: false,
   });
 
-  // Check if user can filter by shop (CSR and Admin can, Driver and Technician cannot)
-  const canFilterByShop = !user?.whitelistRole || ['csr', 'admin'].includes(user.whitelistRole);
+  const { data: registryShops = [] } = useShops();
+
+  // Shops the user can see (every registry shop unless their role or assignments limit it)
+  const permissions = user?.permissions ?? null;
+  const shops: string[] = permissions?.shops ?? registryShops.map((shop) => shop.name);
+  const activeShop = permissions?.activeShop ?? null;
+
+  // Check if user can filter by shop (anyone with more than one shop)
+  const canFilterByShop = shops.length > 1;
+
+  // Whether the user's role allows an action (see shared/permissions.ts)
+  const can = (action: PermissionAction | PermissionAction[]) => hasPermission(permissions, action);
 
   return {
     user,
@@ -32,5 +45,9 @@ export function useAuth() {
     whitelistRole: user?.whitelistRole ?? null,
     homeShop: user?.homeShop ?? null,
     canFilterByShop,
+    shops,
+    activeShop,
+    permissions,
+    can,
   };
 }
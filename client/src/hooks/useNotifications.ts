@@ -0,0 +1,109 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Notification } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useDevPersona } from "@/contexts/DevPersonaContext";
+
+export interface NotificationInbox {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+const MAX_RECONNECT_DELAY = 30000;
+
+// Close codes sent by the server (see notificationService.ts)
+const WS_CLOSE_ACCESS_REVOKED = 4403;
+const WS_CLOSE_ROLE_CHANGED = 4409;
+
+/**
+ * Keeps a WebSocket open to /ws/notifications for the signed-in user (or the
+ * active dev persona). The server authenticates the socket from the session
+ * cookie. Every pushed notification (including ones replayed after a
+ * reconnect) is acknowledged so the server stops replaying it, then the inbox
+ * is refetched.
+ */
+export function useNotifications() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { personaEmail } = useDevPersona();
+  const email = user?.email;
+
+  // Appended to inbox requests so they act as the same user as the socket
+  const personaParam = personaEmail ? `?asEmail=${encodeURIComponent(personaEmail)}` : "";
+
+  const queryKey: any[] = ["/api/notifications"];
+  if (personaEmail) {
+    queryKey.push({ asEmail: personaEmail });
+  }
+
+  const inbox = useQuery<NotificationInbox>({
+    queryKey,
+    enabled: !!email,
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (!email) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws/notifications${personaParam}`);
+
+      socket.onopen = () => {
+        attempts = 0;
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const message = JSON.parse(event.data);
+          if (message.type !== "notification") return;
+
+          const notification: Notification = message.notification;
+          socket?.send(JSON.stringify({ type: "ack", ids: [notification.id] }));
+          queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+
+          if (!notification.readAt) {
+            toast({ title: notification.title, description: notification.message });
+          }
+        } catch {
+          // Ignore malformed messages
+        }
+      };
+
+      socket.onclose = (event) => {
+        if (closed) return;
+        if (event.code === WS_CLOSE_ACCESS_REVOKED || event.code === WS_CLOSE_ROLE_CHANGED) {
+          // Refetch the user so the app reflects the new role (or the lost access)
+          queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+        }
+        if (event.code === WS_CLOSE_ACCESS_REVOKED) return;
+        // Back off 1s, 2s, 4s... up to 30s so a dead connection doesn't hammer the server
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [email, personaParam, toast]);
+
+  return {
+    notifications: inbox.data?.notifications ?? [],
+    unreadCount: inbox.data?.unreadCount ?? 0,
+    isLoading: inbox.isLoading,
+    personaParam,
+  };
+}
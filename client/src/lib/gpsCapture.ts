@@ -45,6 +45,17 @@ export function captureGps(timeoutMs = 10000): Promise<GpsData | null> {
   });
 }
 
+/**
+ * The GPS fields sent with a form submission. The fix time travels with it so
+ * offline submissions keep when (and, resolved server-side, in which timezone)
+ * the position was taken.
+ */
+export function toGpsPayload(gps: GpsData | null): { latitude: string; longitude: string; accuracy: string; timestamp: number } | undefined {
+  return gps
+    ? { latitude: gps.latitude, longitude: gps.longitude, accuracy: gps.accuracy, timestamp: gps.timestamp }
+    : undefined;
+}
+
 /**
  * Get device info for form submission metadata.
  */
@@ -1,19 +1,33 @@
 /**
- * IndexedDB-backed offline queue for form submissions.
+ * IndexedDB-backed offline queue for form submissions and photos.
  * When the device is offline, submissions are stored locally
  * and automatically synced when connectivity returns.
  */
 
 const DB_NAME = "ecs-connect-offline";
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = "pending-submissions";
+const PHOTO_STORE_NAME = "pending-photos";
 
 interface QueuedSubmission {
   id: string;
   submissionId: string; // Server-side form_submission ID
   responseData: Record<string, unknown>;
-  gps?: { latitude: string; longitude: string; accuracy: string };
+  gps?: { latitude: string; longitude: string; accuracy: string; timestamp?: number };
   deviceInfo?: Record<string, unknown>;
+  signature?: { image: string; signerName: string; signedAt: string }; // pickup/delivery proof of custody
+  queuedAt: number; // timestamp
+  retryCount: number;
+}
+
+export interface QueuedPhoto {
+  id: string; // Also sent as clientId so retries don't create duplicate attachments
+  submissionId?: string;
+  jobId?: string;
+  partId?: string;
+  label: string;
+  blob: Blob;
+  capturedAt: number; // timestamp
   queuedAt: number; // timestamp
   retryCount: number;
 }
@@ -27,6 +41,9 @@ function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: "id" });
       }
+      if (!db.objectStoreNames.contains(PHOTO_STORE_NAME)) {
+        db.createObjectStore(PHOTO_STORE_NAME, { keyPath: "id" });
+      }
     };
 
     request.onsuccess = () => resolve(request.result);
@@ -115,14 +132,130 @@ export async function getPendingCount(): Promise<number> {
   });
 }
 
+/**
+ * Add a captured photo to the offline queue.
+ */
+export async function enqueuePhoto(photo: Omit<QueuedPhoto, "queuedAt" | "retryCount">): Promise<string> {
+  const db = await openDB();
+  const entry: QueuedPhoto = {
+    ...photo,
+    queuedAt: Date.now(),
+    retryCount: 0,
+  };
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PHOTO_STORE_NAME, "readwrite");
+    tx.objectStore(PHOTO_STORE_NAME).put(entry);
+    tx.oncomplete = () => resolve(entry.id);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Get queued photos, optionally only those captured for one form submission.
+ */
+export async function getQueuedPhotos(submissionId?: string): Promise<QueuedPhoto[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PHOTO_STORE_NAME, "readonly");
+    const request = tx.objectStore(PHOTO_STORE_NAME).getAll();
+    request.onsuccess = () => {
+      const photos = request.result as QueuedPhoto[];
+      resolve(submissionId ? photos.filter((p) => p.submissionId === submissionId) : photos);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Remove a photo from the queue after upload (or when the user discards it).
+ */
+export async function removePhoto(id: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PHOTO_STORE_NAME, "readwrite");
+    tx.objectStore(PHOTO_STORE_NAME).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function incrementPhotoRetry(id: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PHOTO_STORE_NAME, "readwrite");
+    const store = tx.objectStore(PHOTO_STORE_NAME);
+    const getRequest = store.get(id);
+    getRequest.onsuccess = () => {
+      const entry = getRequest.result as QueuedPhoto;
+      if (entry) {
+        entry.retryCount++;
+        store.put(entry);
+      }
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Build the upload URL for a photo. Metadata travels as query params; the body is the raw image.
+ */
+export function photoUploadUrl(photo: Pick<QueuedPhoto, "id" | "submissionId" | "jobId" | "partId" | "label" | "capturedAt">): string {
+  const params = new URLSearchParams({
+    label: photo.label,
+    clientId: photo.id,
+    capturedAt: new Date(photo.capturedAt).toISOString(),
+  });
+  if (photo.submissionId) params.set("submissionId", photo.submissionId);
+  if (photo.jobId) params.set("jobId", photo.jobId);
+  if (photo.partId) params.set("partId", photo.partId);
+  return `/api/attachments?${params.toString()}`;
+}
+
+/**
+ * Upload all queued photos.
+ */
+async function drainPhotos(): Promise<{ synced: number; failed: number }> {
+  const pending = await getQueuedPhotos();
+  let synced = 0;
+  let failed = 0;
+
+  for (const photo of pending) {
+    try {
+      const response = await fetch(photoUploadUrl(photo), {
+        method: "POST",
+        headers: { "Content-Type": photo.blob.type || "image/jpeg" },
+        credentials: "include",
+        body: photo.blob,
+      });
+
+      if (response.ok) {
+        await removePhoto(photo.id);
+        synced++;
+      } else {
+        await incrementPhotoRetry(photo.id);
+        failed++;
+      }
+    } catch {
+      await incrementPhotoRetry(photo.id);
+      failed++;
+    }
+  }
+
+  return { synced, failed };
+}
+
 /**
  * Drain the queue by submitting all pending items to the server.
+ * Photos are uploaded first so they are attached before the form completes.
  * Called automatically when connectivity is restored.
  */
 export async function drainQueue(): Promise<{ synced: number; failed: number }> {
+  const photoResult = await drainPhotos();
   const pending = await getAll();
-  let synced = 0;
-  let failed = 0;
+  let synced = photoResult.synced;
+  let failed = photoResult.failed;
 
   for (const entry of pending) {
     try {
@@ -134,6 +267,7 @@ export async function drainQueue(): Promise<{ synced: number; failed: number }>
           responseData: entry.responseData,
           gps: entry.gps,
           deviceInfo: entry.deviceInfo,
+          signature: entry.signature,
           offline: true,
         }),
       });
@@ -0,0 +1,81 @@
+/**
+ * Photo capture helpers for native forms.
+ * Photos are resized on-device before upload to keep uploads small on
+ * cellular connections, and queued in IndexedDB when offline.
+ */
+
+import { enqueuePhoto, photoUploadUrl, type QueuedPhoto } from "@/lib/offlineQueue";
+import type { Attachment } from "@shared/schema";
+
+const MAX_DIMENSION = 1600; // px, longest edge
+const JPEG_QUALITY = 0.8;
+
+/**
+ * Resize an image file so its longest edge is at most MAX_DIMENSION and re-encode as JPEG.
+ * Falls back to the original file if the browser can't decode it.
+ */
+export async function resizeImage(file: File): Promise<Blob> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    console.warn("[Photo] Could not decode image, uploading original");
+    return file;
+  }
+
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve) => {
+    canvas.toBlob((blob) => resolve(blob ?? file), "image/jpeg", JPEG_QUALITY);
+  });
+}
+
+export type PhotoTarget = Pick<QueuedPhoto, "submissionId" | "jobId" | "partId" | "label">;
+
+/**
+ * Upload a photo, or queue it for later if offline or the upload fails.
+ * Returns the stored attachment, or null when the photo was queued.
+ */
+export async function uploadOrQueuePhoto(
+  blob: Blob,
+  target: PhotoTarget,
+): Promise<{ attachment: Attachment | null; queuedId: string | null }> {
+  const photo = {
+    ...target,
+    id: `photo-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    blob,
+    capturedAt: Date.now(),
+  };
+
+  if (navigator.onLine) {
+    try {
+      const response = await fetch(photoUploadUrl(photo), {
+        method: "POST",
+        headers: { "Content-Type": blob.type || "image/jpeg" },
+        credentials: "include",
+        body: blob,
+      });
+      if (response.ok) {
+        return { attachment: await response.json(), queuedId: null };
+      }
+      console.warn(`[Photo] Upload failed with ${response.status}, queuing`);
+    } catch (error) {
+      console.warn("[Photo] Upload failed, queuing:", error);
+    }
+  }
+
+  const queuedId = await enqueuePhoto(photo);
+  return { attachment: null, queuedId };
+}
+
+/**
+ * URL for displaying a stored attachment.
+ */
+export function attachmentUrl(attachment: Pick<Attachment, "id">): string {
+  return `/api/attachments/${attachment.id}/content`;
+}
@@ -117,6 +117,7 @@ export function generatePickupTestData() {
   return {
     itemCount: randInt(1, 5),
     driverNotes: `[TEST] Pickup notes - generated at ${timestamp()}`,
+    signerName: "[TEST] Jane Doe",
   };
 }
 
@@ -126,6 +127,7 @@ export function generateDeliveryTestData() {
   return {
     deliveredTo: "[TEST] John Smith - Receiving Dock",
     deliveryNotes: `[TEST] Delivery notes - generated at ${timestamp()}`,
+    signerName: "[TEST] John Smith",
   };
 }
 
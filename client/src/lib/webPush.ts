@@ -0,0 +1,72 @@
+/**
+ * Web Push subscription helpers. The service worker (generated by
+ * vite-plugin-pwa, with handlers in public/push-sw.js) receives the pushes;
+ * these manage this browser's subscription with the server.
+ */
+import { apiRequest } from "@/lib/queryClient";
+
+/**
+ * Whether this browser can receive push at all. iOS only supports it
+ * for the installed (home screen) PWA.
+ */
+export function isPushSupported(): boolean {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+function decodeApplicationServerKey(base64Url: string): Uint8Array {
+  const base64 = (base64Url + "=".repeat((4 - (base64Url.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+/**
+ * The service worker registration, or null if none is active (e.g. in dev,
+ * where the PWA service worker is disabled).
+ */
+async function getRegistration(): Promise<ServiceWorkerRegistration | null> {
+  if (!isPushSupported()) return null;
+  return (await navigator.serviceWorker.getRegistration()) ?? null;
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  const registration = await getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Ask for permission, subscribe this browser and register it with the server.
+ * Throws with a user-facing message if that isn't possible.
+ */
+export async function enablePush(publicKey: string): Promise<PushSubscription> {
+  const registration = await getRegistration();
+  if (!registration) {
+    throw new Error("Push needs the installed app's service worker, which isn't running in this browser");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notifications are blocked for this site in your browser settings");
+  }
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeApplicationServerKey(publicKey),
+    }));
+
+  await apiRequest("POST", "/api/push/subscriptions", subscription.toJSON());
+  return subscription;
+}
+
+/**
+ * Unsubscribe this browser and remove it from the server.
+ */
+export async function disablePush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await apiRequest("DELETE", "/api/push/subscriptions", { endpoint: subscription.endpoint });
+  await subscription.unsubscribe();
+}
@@ -8,8 +8,17 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Trash2, UserPlus, Shield, Activity } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Trash2, UserPlus, Shield, Activity, GitBranch, Mail, History, ArchiveRestore, Timer, Store } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { WorkflowEditor } from "@/components/workflow-editor";
+import { CustomerNotificationSettingsEditor } from "@/components/customer-notification-settings";
+import { AuditLogViewer } from "@/components/audit-log-viewer";
+import { TrashViewer } from "@/components/trash-viewer";
+import { SlaSettings } from "@/components/sla-settings";
+import { ShopRegistrySettings } from "@/components/shop-registry-settings";
+import { useShops } from "@/hooks/use-reference-data";
 import type { Whitelist } from "@shared/schema";
 
 interface WhitelistWithRole extends Whitelist {
@@ -24,15 +33,6 @@ const roleOptions = [
   { value: "admin", label: "Admin" },
 ];
 
-const shopOptions = [
-  { value: "ECS - Memphis", label: "ECS - Memphis" },
-  { value: "ECS - Nashville", label: "ECS - Nashville" },
-  { value: "ECS - Atlanta", label: "ECS - Atlanta" },
-  { value: "ECS - Dallas", label: "ECS - Dallas" },
-  { value: "ECS - Chicago", label: "ECS - Chicago" },
-  { value: "ECS - Corporate", label: "ECS - Corporate" },
-];
-
 interface GoCanvasMetrics {
   now: string;
   totalCalls: number;
@@ -56,11 +56,24 @@ interface WebhookMetrics {
   lastReceivedByForm: Record<string, string>;
 }
 
+interface WebPushMetrics {
+  now: string;
+  configured: boolean;
+  subscriptions: number;
+  sent: number;
+  failed: number;
+  expired: number;
+  lastError: string | null;
+  lastSentAt: string | null;
+}
+
 export default function AdminPage() {
   const [newEmail, setNewEmail] = useState("");
   const [newRole, setNewRole] = useState<string>("csr");
   const [newHomeShop, setNewHomeShop] = useState<string>("");
   const { toast } = useToast();
+  const { data: shops = [] } = useShops();
+  const shopOptions = shops.map((shop) => ({ value: shop.name, label: shop.name }));
 
   const { data: whitelistEntries, isLoading } = useQuery<WhitelistWithRole[]>({
     queryKey: ['/api/admin/whitelist'],
@@ -147,6 +160,28 @@ export default function AdminPage() {
     },
   });
 
+  const updateShopsMutation = useMutation({
+    mutationFn: async ({ email, shops }: { email: string; shops: string[] }) => {
+      return apiRequest('PATCH', `/api/admin/whitelist/${encodeURIComponent(email)}/shops`, { shops });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/whitelist'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update shops",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleShop = (entry: WhitelistWithRole, shop: string, checked: boolean) => {
+    const current = entry.shops ?? [];
+    const shops = checked ? [...current, shop] : current.filter((s) => s !== shop);
+    updateShopsMutation.mutate({ email: entry.email, shops });
+  };
+
   const handleAddEmail = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newEmail.trim() || !newHomeShop) return;
@@ -169,6 +204,11 @@ export default function AdminPage() {
     refetchInterval: 10000, // Auto-refresh every 10 seconds
   });
 
+  const { data: webPushMetricsData } = useQuery<WebPushMetrics>({
+    queryKey: ['/api/metrics/web-push'],
+    refetchInterval: 30000, // Auto-refresh every 30 seconds
+  });
+
   return (
     <div className="container mx-auto p-4 space-y-6">
       <div className="flex items-center space-x-3">
@@ -180,7 +220,7 @@ export default function AdminPage() {
       </div>
 
       <Tabs defaultValue="whitelist" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-9">
           <TabsTrigger value="whitelist" data-testid="tab-whitelist">
             <Shield className="h-4 w-4 mr-2" />
             Whitelist
@@ -193,6 +233,30 @@ export default function AdminPage() {
             <Activity className="h-4 w-4 mr-2" />
             Webhooks
           </TabsTrigger>
+          <TabsTrigger value="workflows" data-testid="tab-workflows">
+            <GitBranch className="h-4 w-4 mr-2" />
+            Workflows
+          </TabsTrigger>
+          <TabsTrigger value="customer-updates" data-testid="tab-customer-updates">
+            <Mail className="h-4 w-4 mr-2" />
+            Customer Updates
+          </TabsTrigger>
+          <TabsTrigger value="shops" data-testid="tab-shops">
+            <Store className="h-4 w-4 mr-2" />
+            Shops
+          </TabsTrigger>
+          <TabsTrigger value="sla" data-testid="tab-sla">
+            <Timer className="h-4 w-4 mr-2" />
+            SLA
+          </TabsTrigger>
+          <TabsTrigger value="audit-log" data-testid="tab-audit-log">
+            <History className="h-4 w-4 mr-2" />
+            Audit Log
+          </TabsTrigger>
+          <TabsTrigger value="trash" data-testid="tab-trash">
+            <ArchiveRestore className="h-4 w-4 mr-2" />
+            Trash
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="whitelist">
@@ -259,6 +323,7 @@ export default function AdminPage() {
                     <TableHead>Email Address</TableHead>
                     <TableHead>Role</TableHead>
                     <TableHead>Home Shop</TableHead>
+                    <TableHead>Other Shops</TableHead>
                     <TableHead>Added</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -287,7 +352,7 @@ export default function AdminPage() {
                       </TableCell>
                       <TableCell>
                         <Select
-                          value={entry.homeShop || "ECS - Nashville"}
+                          value={entry.homeShop ?? ""}
                           onValueChange={(shop) => updateHomeShopMutation.mutate({ email: entry.email, homeShop: shop })}
                           disabled={updateHomeShopMutation.isPending}
                         >
@@ -303,6 +368,38 @@ export default function AdminPage() {
                           </SelectContent>
                         </Select>
                       </TableCell>
+                      <TableCell>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button variant="outline" size="sm" className="w-36 justify-start font-normal" data-testid={`button-shops-${entry.email}`}>
+                              {entry.role === "admin"
+                                ? "All (admin)"
+                                : entry.shops?.length
+                                  ? `${entry.shops.length} more shop${entry.shops.length === 1 ? "" : "s"}`
+                                  : "None"}
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-56 space-y-2" align="start">
+                            <p className="text-xs text-muted-foreground">
+                              Shops this user can see besides their home shop. Leave empty for the role's default
+                              (CSRs see every shop; drivers and technicians only their home shop).
+                            </p>
+                            {shopOptions
+                              .filter((option) => option.value !== entry.homeShop)
+                              .map((option) => (
+                                <label key={option.value} className="flex items-center gap-2 text-sm">
+                                  <Checkbox
+                                    checked={entry.shops?.includes(option.value) ?? false}
+                                    onCheckedChange={(checked) => toggleShop(entry, option.value, checked === true)}
+                                    disabled={updateShopsMutation.isPending}
+                                    data-testid={`checkbox-shop-${entry.email}-${option.value}`}
+                                  />
+                                  {option.label}
+                                </label>
+                              ))}
+                          </PopoverContent>
+                        </Popover>
+                      </TableCell>
                       <TableCell className="text-muted-foreground">
                         {entry.createdAt ? new Date(entry.createdAt).toLocaleDateString() : 'N/A'}
                       </TableCell>
@@ -609,6 +706,84 @@ export default function AdminPage() {
               )}
             </CardContent>
           </Card>
+
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Web Push</CardTitle>
+              <CardDescription>
+                Device notifications for technicians and drivers (since last server restart)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {webPushMetricsData ? (
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Status:</span>
+                    <Badge variant={webPushMetricsData.configured ? "default" : "secondary"} data-testid="badge-web-push-status">
+                      {webPushMetricsData.configured ? "Enabled" : "Not configured"}
+                    </Badge>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Subscribed devices:</span>
+                    <span className="font-semibold" data-testid="metric-web-push-subscriptions">
+                      {webPushMetricsData.subscriptions}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Sent:</span>
+                    <span className="font-semibold text-green-600" data-testid="metric-web-push-sent">
+                      {webPushMetricsData.sent}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Expired subscriptions removed:</span>
+                    <span className="font-semibold text-yellow-600" data-testid="metric-web-push-expired">
+                      {webPushMetricsData.expired}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Failed:</span>
+                    <span className={`font-semibold ${webPushMetricsData.failed > 0 ? 'text-destructive' : ''}`} data-testid="metric-web-push-failed">
+                      {webPushMetricsData.failed}
+                    </span>
+                  </div>
+                  {webPushMetricsData.lastError && (
+                    <div className="text-xs text-muted-foreground break-all">
+                      Last error: {webPushMetricsData.lastError}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="text-center py-4 text-muted-foreground">
+                  Loading...
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="workflows">
+          <WorkflowEditor shopOptions={shopOptions} />
+        </TabsContent>
+
+        <TabsContent value="customer-updates">
+          <CustomerNotificationSettingsEditor />
+        </TabsContent>
+
+        <TabsContent value="shops">
+          <ShopRegistrySettings />
+        </TabsContent>
+
+        <TabsContent value="sla">
+          <SlaSettings />
+        </TabsContent>
+
+        <TabsContent value="audit-log">
+          <AuditLogViewer />
+        </TabsContent>
+
+        <TabsContent value="trash">
+          <TrashViewer />
         </TabsContent>
       </Tabs>
     </div>
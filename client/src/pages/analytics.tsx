@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { LineChart as LineChartIcon, Building2, TrendingDown, TrendingUp } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+
+type AnalyticsDimension = "shop" | "technician" | "customer" | "process";
+
+interface DurationStats {
+  count: number;
+  avg: number | null;
+  p50: number | null;
+  p75: number | null;
+  p90: number | null;
+  max: number | null;
+}
+
+interface TurnaroundReport {
+  range: { from: string; to: string };
+  groupBy: AnalyticsDimension;
+  overall: DurationStats;
+  groups: Array<DurationStats & { key: string | null }>;
+  stages: Array<DurationStats & { stage: string; label: string }>;
+  distribution: Array<{ label: string; count: number }>;
+  weekly: Array<DurationStats & { weekStart: string; medianChangePercent: number | null }>;
+}
+
+const DIMENSION_LABELS: Record<AnalyticsDimension, string> = {
+  shop: "Shop",
+  technician: "Technician",
+  customer: "Customer",
+  process: "Process",
+};
+
+const trendConfig = {
+  p50: { label: "Median", color: "var(--ecs-primary)" },
+  p90: { label: "90th percentile", color: "hsl(38, 92%, 50%)" },
+} satisfies ChartConfig;
+
+const countConfig = {
+  count: { label: "Jobs", color: "var(--ecs-primary)" },
+} satisfies ChartConfig;
+
+// 3010 -> "2d 2h", 95 -> "1h 35m"
+function formatDuration(minutes: number | null): string {
+  if (minutes === null) return "—";
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const mins = minutes % 60;
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+}
+
+const toHours = (minutes: number | null) => (minutes === null ? null : Math.round((minutes / 60) * 10) / 10);
+
+export default function Analytics() {
+  const { canFilterByShop, homeShop, activeShop, permissions, shops } = useAuth();
+  const [shopFilter, setShopFilter] = useState<string>(activeShop ?? "all");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [groupBy, setGroupBy] = useState<AnalyticsDimension>("shop");
+
+  const { data: report, isLoading, isError } = useQuery<TurnaroundReport>({
+    queryKey: ["/api/analytics/turnaround", {
+      ...(shopFilter && { shop: shopFilter }),
+      ...(dateFrom && { dateFrom }),
+      ...(dateTo && { dateTo }),
+      groupBy,
+    }],
+    staleTime: 0,
+  });
+
+  const latestWeek = report?.weekly.filter((week) => week.count > 0).at(-1);
+
+  const weeklyData = report?.weekly.map((week) => ({
+    week: week.weekStart.slice(5),
+    p50: toHours(week.p50),
+    p90: toHours(week.p90),
+  })) ?? [];
+  const stageData = report?.stages.map((stage) => ({
+    stage: stage.label,
+    p50: toHours(stage.p50),
+    p90: toHours(stage.p90),
+  })) ?? [];
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-[var(--ecs-dark)] flex items-center">
+            <LineChartIcon className="mr-2 h-5 w-5 sm:h-6 sm:w-6" />
+            Turnaround Analytics
+          </h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Completed jobs, from creation to ready for pickup or delivery
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+          {canFilterByShop ? (
+            <Select value={shopFilter} onValueChange={setShopFilter}>
+              <SelectTrigger className="w-full" data-testid="select-analytics-shop">
+                <Building2 className="mr-2 h-4 w-4" />
+                <SelectValue placeholder="All Shops" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{permissions?.shops ? "All My Shops" : "All Shops"}</SelectItem>
+                {shops.map((shop) => (
+                  <SelectItem key={shop} value={shop}>{shop}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <div className="flex items-center gap-2 px-3 py-2 border rounded-md bg-white text-sm">
+              <Building2 className="h-4 w-4" />
+              <span>{homeShop ?? "All Shops"}</span>
+            </div>
+          )}
+          <Input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            data-testid="input-analytics-date-from"
+          />
+          <Input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            data-testid="input-analytics-date-to"
+          />
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as AnalyticsDimension)}>
+            <SelectTrigger className="w-full" data-testid="select-analytics-group-by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DIMENSION_LABELS) as AnalyticsDimension[]).map((dimension) => (
+                <SelectItem key={dimension} value={dimension}>By {DIMENSION_LABELS[dimension]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground text-center py-8">Loading analytics...</p>
+      ) : isError || !report ? (
+        <p className="text-muted-foreground text-center py-8">Couldn't load analytics</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-4">
+            <Card className="metric-card">
+              <CardContent className="p-3 sm:p-6 text-center">
+                <div className="metric-number text-[var(--ecs-primary)]" data-testid="text-analytics-count">
+                  {report.overall.count}
+                </div>
+                <div className="text-muted-foreground text-xs sm:text-sm">Jobs Completed</div>
+              </CardContent>
+            </Card>
+            <Card className="metric-card">
+              <CardContent className="p-3 sm:p-6 text-center">
+                <div className="metric-number text-[var(--ecs-primary)]" data-testid="text-analytics-median">
+                  {formatDuration(report.overall.p50)}
+                </div>
+                <div className="text-muted-foreground text-xs sm:text-sm">Median Turnaround</div>
+              </CardContent>
+            </Card>
+            <Card className="metric-card">
+              <CardContent className="p-3 sm:p-6 text-center">
+                <div className="metric-number text-[var(--ecs-warning)]" data-testid="text-analytics-p90">
+                  {formatDuration(report.overall.p90)}
+                </div>
+                <div className="text-muted-foreground text-xs sm:text-sm">90th Percentile</div>
+              </CardContent>
+            </Card>
+            <Card className="metric-card">
+              <CardContent className="p-3 sm:p-6 text-center">
+                <div className="metric-number flex items-center justify-center gap-1" data-testid="text-analytics-wow">
+                  {latestWeek?.medianChangePercent == null ? "—" : (
+                    <>
+                      {latestWeek.medianChangePercent > 0
+                        ? <TrendingUp className="h-5 w-5 text-red-600" />
+                        : <TrendingDown className="h-5 w-5 text-green-600" />}
+                      {latestWeek.medianChangePercent > 0 ? "+" : ""}{latestWeek.medianChangePercent}%
+                    </>
+                  )}
+                </div>
+                <div className="text-muted-foreground text-xs sm:text-sm">Median vs Previous Week</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Weekly Trend</CardTitle>
+                <CardDescription>Turnaround in hours, by week completed</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={trendConfig} className="h-64 w-full">
+                  <LineChart data={weeklyData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="week" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="p50" stroke="var(--color-p50)" strokeWidth={2} dot={false} connectNulls />
+                    <Line dataKey="p90" stroke="var(--color-p90)" strokeWidth={2} dot={false} connectNulls />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Stage Breakdown</CardTitle>
+                <CardDescription>Hours spent in each stage, from the job timeline</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={trendConfig} className="h-64 w-full">
+                  <BarChart data={stageData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="stage" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="p50" fill="var(--color-p50)" radius={4} />
+                    <Bar dataKey="p90" fill="var(--color-p90)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-4 text-xs text-muted-foreground">
+                  {report.stages.map((stage) => (
+                    <div key={stage.stage} data-testid={`text-stage-${stage.stage}`}>
+                      <div className="font-medium text-foreground">{stage.label}</div>
+                      {stage.count} jobs · avg {formatDuration(stage.avg)}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Turnaround Distribution</CardTitle>
+              <CardDescription>Completed jobs by total turnaround</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={countConfig} className="h-56 w-full">
+                <BarChart data={report.distribution}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By {DIMENSION_LABELS[report.groupBy]}</CardTitle>
+              <CardDescription>
+                Busiest first{report.groupBy === "process" ? "; a job with several processes counts toward each" : ""}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.groups.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">No completed jobs in this range</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{DIMENSION_LABELS[report.groupBy]}</TableHead>
+                      <TableHead className="text-right">Jobs</TableHead>
+                      <TableHead className="text-right">Average</TableHead>
+                      <TableHead className="text-right">Median</TableHead>
+                      <TableHead className="text-right">75th</TableHead>
+                      <TableHead className="text-right">90th</TableHead>
+                      <TableHead className="text-right">Longest</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.groups.map((group) => (
+                      <TableRow key={group.key ?? "_none"} data-testid={`row-analytics-group-${group.key ?? "none"}`}>
+                        <TableCell className="font-medium">{group.key || "Unassigned"}</TableCell>
+                        <TableCell className="text-right">{group.count}</TableCell>
+                        <TableCell className="text-right">{formatDuration(group.avg)}</TableCell>
+                        <TableCell className="text-right">{formatDuration(group.p50)}</TableCell>
+                        <TableCell className="text-right">{formatDuration(group.p75)}</TableCell>
+                        <TableCell className="text-right">{formatDuration(group.p90)}</TableCell>
+                        <TableCell className="text-right">{formatDuration(group.max)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
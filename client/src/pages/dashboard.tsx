@@ -1,6 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
-import { BarChart3, Activity, CheckCircle, Clock } from "lucide-react";
+import { Link } from "wouter";
+import { BarChart3, Activity, CheckCircle, Clock, AlertTriangle } from "lucide-react";
 
 export default function Dashboard() {
   const { data: metrics, isLoading: metricsLoading } = useQuery<{
@@ -51,7 +52,7 @@ export default function Dashboard() {
       </div>
 
       {/* Metrics Cards */}
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-4">
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-2 sm:gap-4">
         <Card className="metric-card">
           <CardContent className="p-3 sm:p-6 text-center">
             <div className="flex items-center justify-center mb-2">
@@ -100,6 +101,20 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
+        <Link href="/jobs?sla=overdue">
+          <Card className="metric-card cursor-pointer" data-testid="card-overdue-jobs">
+            <CardContent className="p-3 sm:p-6 text-center">
+              <div className="flex items-center justify-center mb-2">
+                <AlertTriangle className="h-6 w-6 sm:h-8 sm:w-8 text-red-600" />
+              </div>
+              <div className="metric-number text-red-600">
+                {metrics?.overdueJobs || 0}
+              </div>
+              <div className="text-muted-foreground text-xs sm:text-sm">Overdue Jobs</div>
+            </CardContent>
+          </Card>
+        </Link>
+
       </div>
     </div>
   );
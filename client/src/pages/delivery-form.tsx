@@ -4,7 +4,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useParams, useLocation } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { captureGps, getDeviceInfo } from "@/lib/gpsCapture";
+import { captureGps, getDeviceInfo, toGpsPayload } from "@/lib/gpsCapture";
 import { enqueue } from "@/lib/offlineQueue";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -23,7 +23,8 @@ import { Truck, MapPin, ArrowLeft, Loader2, WifiOff, Clock, Calendar, Zap } from
 import { useAuth } from "@/hooks/useAuth";
 import { useDevMode } from "@/contexts/DevModeContext";
 import { generateDeliveryTestData } from "@/lib/test-data-generators";
-import { PhotoPlaceholder } from "@/components/forms/emissions/photo-placeholder";
+import { PhotoCapture, PhotoCaptureProvider } from "@/components/forms/photo-capture";
+import { SignatureFields, signatureFormFields, splitSignature } from "@/components/forms/signature-pad";
 
 interface FormSubmission {
   id: string;
@@ -36,6 +37,7 @@ interface FormSubmission {
 const deliveryFormSchema = z.object({
   deliveredTo: z.string().min(1, "Delivered To is required"),
   deliveryNotes: z.string().optional(),
+  ...signatureFormFields,
 });
 
 type DeliveryFormValues = z.infer<typeof deliveryFormSchema>;
@@ -101,6 +103,8 @@ export default function DeliveryForm() {
     defaultValues: {
       deliveredTo: "",
       deliveryNotes: "",
+      signerName: "",
+      signature: "",
     },
   });
 
@@ -120,18 +124,22 @@ export default function DeliveryForm() {
       const gps = await captureGps();
       const deviceInfo = getDeviceInfo();
 
+      const { responseData, signature } = splitSignature(values);
+
       const payload = {
-        responseData: values,
-        gps: gps ? { latitude: gps.latitude, longitude: gps.longitude, accuracy: gps.accuracy } : undefined,
+        responseData,
+        gps: toGpsPayload(gps),
         deviceInfo,
+        signature,
       };
 
       if (!navigator.onLine) {
         await enqueue({
           submissionId: id!,
-          responseData: values,
-          gps: gps ? { latitude: gps.latitude, longitude: gps.longitude, accuracy: gps.accuracy } : undefined,
+          responseData,
+          gps: toGpsPayload(gps),
           deviceInfo,
+          signature,
         });
         return { offline: true };
       }
@@ -209,6 +217,7 @@ export default function DeliveryForm() {
                 const data = generateDeliveryTestData();
                 form.setValue("deliveredTo", data.deliveredTo);
                 form.setValue("deliveryNotes", data.deliveryNotes);
+                form.setValue("signerName", data.signerName);
               }}
             >
               <Zap className="h-3 w-3 mr-1" />Fill Test Data
@@ -352,7 +361,9 @@ export default function DeliveryForm() {
                 )}
               />
 
-              <PhotoPlaceholder label="Delivery Photo" />
+              <PhotoCaptureProvider submissionId={id} jobId={submission.jobId}>
+                <PhotoCapture label="Delivery Photo" />
+              </PhotoCaptureProvider>
 
               <FormField
                 control={form.control}
@@ -372,6 +383,8 @@ export default function DeliveryForm() {
                 )}
               />
 
+              <SignatureFields control={form.control} />
+
               <Button
                 type="submit"
                 className="w-full"
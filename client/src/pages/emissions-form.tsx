@@ -6,7 +6,7 @@ import { z } from "zod";
 import { useParams, useLocation } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { buildPartSchema, getPartDefaults } from "@/lib/emissions-form-fields";
-import { captureGps, getDeviceInfo } from "@/lib/gpsCapture";
+import { captureGps, getDeviceInfo, toGpsPayload } from "@/lib/gpsCapture";
 import { enqueue } from "@/lib/offlineQueue";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -25,6 +25,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { useDevMode } from "@/contexts/DevModeContext";
 import { generateEmissionsTestData } from "@/lib/test-data-generators";
 import { PartsLoopSection } from "@/components/forms/parts-loop-section";
+import { PhotoCaptureProvider } from "@/components/forms/photo-capture";
 import { SignOffSection } from "@/components/forms/emissions/sign-off-section";
 
 interface FormSubmission {
@@ -132,7 +133,7 @@ export default function EmissionsForm() {
 
       const payload = {
         responseData: values,
-        gps: gps ? { latitude: gps.latitude, longitude: gps.longitude, accuracy: gps.accuracy } : undefined,
+        gps: toGpsPayload(gps),
         deviceInfo,
       };
 
@@ -140,7 +141,7 @@ export default function EmissionsForm() {
         await enqueue({
           submissionId: id!,
           responseData: values,
-          gps: gps ? { latitude: gps.latitude, longitude: gps.longitude, accuracy: gps.accuracy } : undefined,
+          gps: toGpsPayload(gps),
           deviceInfo,
         });
         return { offline: true };
@@ -330,7 +331,9 @@ export default function EmissionsForm() {
       {/* Parts loop and technician input */}
       <Form {...form}>
         <form onSubmit={form.handleSubmit((v) => submitMutation.mutate(v))} className="space-y-4">
-          <PartsLoopSection parts={parts} form={form} />
+          <PhotoCaptureProvider submissionId={id} jobId={submission.jobId}>
+            <PartsLoopSection parts={parts} form={form} />
+          </PhotoCaptureProvider>
 
           {/* Additional comments */}
           <Card>
@@ -6,7 +6,6 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -27,23 +26,31 @@ import {
   Send,
   XCircle,
   Clock,
-  MessageSquare,
   Settings,
   RefreshCw,
-  Edit
+  Edit,
+  Camera,
+  History,
+  AlertTriangle
 } from "lucide-react";
 import JobStatusBadge from "@/components/job-status-badge";
+import SlaBadge from "@/components/sla-badge";
 import { CheckInModal } from "@/components/check-in-modal";
 import { DeliveryDispatchModal } from "@/components/delivery-dispatch-modal";
 import { ReadyForPickupModal } from "@/components/ready-for-pickup-modal";
 import { OutboundShipmentModal } from "@/components/outbound-shipment-modal";
+import { JobComments } from "@/components/job-comments";
 import { PartsManagementModal } from "@/components/parts-management-modal";
 import { PartDetailModal } from "@/components/part-detail-modal";
+import { PhotoGallery } from "@/components/photo-gallery";
+import { JobDocuments } from "@/components/job-documents";
+import { AuditHistory } from "@/components/audit-history";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useTimezone } from "@/hooks/useTimezone";
 import { useDevMode } from "@/contexts/DevModeContext";
-import { PART_DIAGNOSIS_OPTIONS, PART_STATUS_OPTIONS } from "@shared/schema";
+import { useAuth } from "@/hooks/useAuth";
+import { PART_DIAGNOSIS_OPTIONS, PART_STATUS_OPTIONS, type Attachment } from "@shared/schema";
 
 type JobEvent = {
   id: string;
@@ -55,22 +62,34 @@ type JobEvent = {
   metadata: any;
 };
 
-type JobComment = {
-  id: string;
-  jobId: string;
-  userId: string;
-  commentText: string;
-  createdAt: string;
-  userEmail?: string | null;
-  userFirstName?: string | null;
-  userLastName?: string | null;
+type JobWorkflow = {
+  workflowId: string | null;
+  version: number | null;
+  shopName: string | null;
+  allowedNextStates: string[];
 };
 
+// States reached through a dedicated action button or a driver/tech form.
+// Any other allowed next state (e.g. a shop's qa_inspection step) gets a generic button.
+const DEDICATED_ACTION_STATES = [
+  'picked_up',
+  'at_shop',
+  'in_service',
+  'service_complete',
+  'ready_for_pickup',
+  'picked_up_from_shop',
+  'queued_for_delivery',
+  'delivered',
+  'outbound_shipment',
+  'cancelled',
+];
+
 export default function JobDetail() {
   const params = useParams();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { isDevMode } = useDevMode();
+  const { can } = useAuth();
   const { formatDateTime } = useTimezone();
   const jobId = params.id;
   const [checkInModalOpen, setCheckInModalOpen] = useState(false);
@@ -79,10 +98,10 @@ export default function JobDetail() {
   const [outboundShipmentModalOpen, setOutboundShipmentModalOpen] = useState(false);
   const [partsManagementModalOpen, setPartsManagementModalOpen] = useState(false);
   const [editingPart, setEditingPart] = useState<any>(null);
-  const [newComment, setNewComment] = useState("");
   const [partDetailModalOpen, setPartDetailModalOpen] = useState(false);
   const [selectedPartForDetail, setSelectedPartForDetail] = useState<any>(null);
   const [selectedPartIndex, setSelectedPartIndex] = useState<number>(0);
+  const [showChangeHistory, setShowChangeHistory] = useState(false);
 
   const { data: job, isLoading: jobLoading } = useQuery<any>({
     queryKey: [`/api/jobs/${jobId}`],
@@ -94,44 +113,20 @@ export default function JobDetail() {
     enabled: !!jobId,
   });
 
-  const { data: comments = [], isLoading: commentsLoading } = useQuery<JobComment[]>({
-    queryKey: [`/api/jobs/${jobId}/comments`],
-    enabled: !!jobId,
-  });
-
   const { data: parts = [], isLoading: partsLoading } = useQuery<any[]>({
     queryKey: [`/api/jobs/${jobId}/parts`],
     enabled: !!jobId,
   });
 
-  // Mutation for adding comments
-  const addCommentMutation = useMutation({
-    mutationFn: async (commentText: string) => {
-      const response = await apiRequest("POST", `/api/jobs/${jobId}/comments`, { commentText });
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/comments`] });
-      setNewComment("");
-      toast({
-        title: "Success",
-        description: "Comment added successfully",
-      });
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to add comment",
-        variant: "destructive",
-      });
-    },
+  const { data: attachments = [] } = useQuery<Attachment[]>({
+    queryKey: [`/api/jobs/${jobId}/attachments`],
+    enabled: !!jobId,
   });
 
-  const handleAddComment = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newComment.trim()) return;
-    addCommentMutation.mutate(newComment.trim());
-  };
+  const { data: workflow } = useQuery<JobWorkflow>({
+    queryKey: [`/api/jobs/${jobId}/workflow`],
+    enabled: !!jobId,
+  });
 
   // Mutation for job actions
   const actionMutation = useMutation({
@@ -142,6 +137,7 @@ export default function JobDetail() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}`] });
       queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/workflow`] });
       queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
       queryClient.invalidateQueries({ queryKey: ["/api/metrics"] });
       toast({
@@ -253,12 +249,27 @@ export default function JobDetail() {
 
   const currentState = job.state;
   const isPending = actionMutation.isPending;
+  // Action availability comes from the workflow version this job is pinned to
+  const allowedNextStates = workflow?.allowedNextStates ?? [];
+  const canMoveTo = (state: string) => allowedNextStates.includes(state);
+  const workflowStepStates = allowedNextStates.filter((state) => !DEDICATED_ACTION_STATES.includes(state));
 
   const getEventIcon = (eventType: string) => {
+    if (eventType === 'sla_at_risk' || eventType === 'sla_overdue') {
+      return <AlertTriangle className="h-4 w-4" />;
+    }
     return <Clock className="h-4 w-4" />;
   };
 
   const getEventIconColor = (event: JobEvent, index: number, isJobCompleted: boolean, totalEvents: number) => {
+    // SLA escalations keep their warning color wherever they sit in the timeline
+    if (event.eventType === 'sla_overdue') {
+      return "bg-red-500";
+    }
+    if (event.eventType === 'sla_at_risk') {
+      return "bg-amber-500";
+    }
+
     // Only apply special coloring to the most recent event (last in timeline)
     const isLastEvent = index === totalEvents - 1;
     
@@ -307,6 +318,8 @@ export default function JobDetail() {
           return 'Service Started';
         case 'service_complete':
           return 'Service Complete';
+        case 'qa_inspection':
+          return 'QA Inspection';
         case 'ready_for_pickup':
           return 'Ready for Pickup';
         case 'outbound_shipment':
@@ -321,6 +334,12 @@ export default function JobDetail() {
           return formatEventType(event.metadata.newState);
       }
     }
+    if (event.eventType === 'sla_at_risk') {
+      return 'SLA At Risk';
+    }
+    if (event.eventType === 'sla_overdue') {
+      return 'SLA Overdue';
+    }
     return formatEventType(event.eventType);
   };
 
@@ -377,12 +396,37 @@ export default function JobDetail() {
         }
       }
 
+      // Shipped by carrier - show how it went out
+      if (newState === 'outbound_shipment') {
+        if (event.metadata.carrier) {
+          details.push(`Carrier: ${event.metadata.carrier}`);
+        }
+        if (event.metadata.trackingNumber) {
+          details.push(`Tracking: ${event.metadata.trackingNumber}`);
+        }
+      }
+
+      // Picked up / delivered via native form - show who signed for custody
+      if (event.metadata.signerName) {
+        details.push(`Signed by: ${event.metadata.signerName}`);
+      }
+
       // Show auto-detected for any state change detected from GoCanvas
       if (event.metadata.autoDetected) {
         details.push('Auto-detected from GoCanvas submission');
       }
     }
 
+    // SLA escalations name the target and when it was due
+    if ((event.eventType === 'sla_at_risk' || event.eventType === 'sla_overdue') && event.metadata) {
+      if (event.metadata.targetName) {
+        details.push(`Target: ${event.metadata.targetName}`);
+      }
+      if (event.metadata.dueAt) {
+        details.push(`Due: ${formatDateTime(event.metadata.dueAt, 'PPpp')}`);
+      }
+    }
+
     return details;
   };
 
@@ -410,7 +454,17 @@ export default function JobDetail() {
             </p>
           </div>
         </div>
-        <JobStatusBadge status={job.state} />
+        <div className="flex flex-col items-end gap-1">
+          <div className="flex items-center gap-2">
+            <SlaBadge status={job.slaStatus} showOnTrack />
+            <JobStatusBadge status={job.state} />
+          </div>
+          {job.slaDueAt && (
+            <span className="text-xs text-muted-foreground" data-testid="text-sla-due">
+              SLA due {formatDateTime(job.slaDueAt, 'PPp')}
+            </span>
+          )}
+        </div>
       </div>
       {/* Action Buttons */}
       <Card>
@@ -419,65 +473,90 @@ export default function JobDetail() {
         </CardHeader>
         <CardContent className="p-6">
           <div className="flex flex-wrap gap-4 items-center">
-            <Button 
-              onClick={() => setCheckInModalOpen(true)}
-              disabled={!isDevMode && (!['picked_up', 'shipment_inbound'].includes(currentState) || isPending)}
-              className="btn-primary"
-              data-testid="button-check-in"
-            >
-              <Store className="mr-2 h-4 w-4" />
-              Check In at Shop
-            </Button>
+            {can("jobs.service") && (
+              <Button 
+                onClick={() => setCheckInModalOpen(true)}
+                disabled={!isDevMode && (!canMoveTo('at_shop') || isPending)}
+                className="btn-primary"
+                data-testid="button-check-in"
+              >
+                <Store className="mr-2 h-4 w-4" />
+                Check In at Shop
+              </Button>
+            )}
 
-            <Button 
-              onClick={() => setReadyForPickupModalOpen(true)}
-              disabled={!isDevMode && (currentState !== 'service_complete' || isPending)}
-              className="btn-primary"
-              data-testid="button-ready-pickup"
-            >
-              <Package className="mr-2 h-4 w-4" />
-              Ready for Pickup
-            </Button>
+            {can("jobs.service") && (
+              <Button 
+                onClick={() => setReadyForPickupModalOpen(true)}
+                disabled={!isDevMode && (!canMoveTo('ready_for_pickup') || isPending)}
+                className="btn-primary"
+                data-testid="button-ready-pickup"
+              >
+                <Package className="mr-2 h-4 w-4" />
+                Ready for Pickup
+              </Button>
+            )}
 
-            <Button 
-              onClick={() => setDeliveryDispatchModalOpen(true)}
-              disabled={!isDevMode && (currentState !== 'service_complete' || isPending)}
-              className="btn-primary"
-              data-testid="button-dispatch-delivery"
-            >
-              <Send className="mr-2 h-4 w-4" />
-              Dispatch for Delivery
-            </Button>
+            {can("jobs.dispatch") && (
+              <Button 
+                onClick={() => setDeliveryDispatchModalOpen(true)}
+                disabled={!isDevMode && (!canMoveTo('queued_for_delivery') || isPending)}
+                className="btn-primary"
+                data-testid="button-dispatch-delivery"
+              >
+                <Send className="mr-2 h-4 w-4" />
+                Dispatch for Delivery
+              </Button>
+            )}
 
-            <Button 
-              onClick={() => setOutboundShipmentModalOpen(true)}
-              disabled={!isDevMode && (currentState !== 'service_complete' || isPending)}
-              className="btn-primary"
-              data-testid="button-outbound-shipment"
-            >
-              <Package className="mr-2 h-4 w-4" />
-              Outbound Shipment
-            </Button>
+            {can("jobs.service") && (
+              <Button 
+                onClick={() => setOutboundShipmentModalOpen(true)}
+                disabled={!isDevMode && (!canMoveTo('outbound_shipment') || isPending)}
+                className="btn-primary"
+                data-testid="button-outbound-shipment"
+              >
+                <Package className="mr-2 h-4 w-4" />
+                Outbound Shipment
+              </Button>
+            )}
 
-            <Button 
-              onClick={() => actionMutation.mutate({ action: 'mark-picked-up-from-shop' })}
-              disabled={!isDevMode && (currentState !== 'ready_for_pickup' || isPending)}
-              className="btn-primary"
-              data-testid="button-mark-picked-up"
-            >
-              <Package className="mr-2 h-4 w-4" />
-              Mark as Picked Up
-            </Button>
+            {can("jobs.transport") && (
+              <Button 
+                onClick={() => actionMutation.mutate({ action: 'mark-picked-up-from-shop' })}
+                disabled={!isDevMode && (!canMoveTo('picked_up_from_shop') || isPending)}
+                className="btn-primary"
+                data-testid="button-mark-picked-up"
+              >
+                <Package className="mr-2 h-4 w-4" />
+                Mark as Picked Up
+              </Button>
+            )}
 
-            <Button
-              variant="destructive"
-              onClick={() => actionMutation.mutate({ action: 'cancel' })}
-              disabled={!isDevMode && (currentState === 'delivered' || currentState === 'cancelled' || isPending)}
-              data-testid="button-cancel"
-            >
-              <XCircle className="mr-2 h-4 w-4" />
-              Cancel Job
-            </Button>
+            {can("jobs.cancel") && (
+              <Button
+                variant="destructive"
+                onClick={() => actionMutation.mutate({ action: 'cancel' })}
+                disabled={!isDevMode && (!canMoveTo('cancelled') || isPending)}
+                data-testid="button-cancel"
+              >
+                <XCircle className="mr-2 h-4 w-4" />
+                Cancel Job
+              </Button>
+            )}
+
+            {can("jobs.edit") && workflowStepStates.map((state) => (
+              <Button
+                key={state}
+                onClick={() => actionMutation.mutate({ action: 'transition', data: { state } })}
+                disabled={isPending}
+                className="btn-primary"
+                data-testid={`button-transition-${state}`}
+              >
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Move to {formatEventType(state)}
+              </Button>
+            ))}
 
             {isDevMode && (
               <Button
@@ -628,19 +707,21 @@ export default function JobDetail() {
                     >
                       Part {index + 1}
                     </button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        setEditingPart(part);
-                        setPartsManagementModalOpen(true);
-                      }}
-                      disabled={!isDevMode && !['queued_for_pickup', 'picked_up', 'shipment_inbound'].includes(currentState)}
-                      data-testid={`button-edit-part-${index + 1}`}
-                    >
-                      <Edit className="mr-2 h-4 w-4" />
-                      Edit
-                    </Button>
+                    {can("parts.edit") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setEditingPart(part);
+                          setPartsManagementModalOpen(true);
+                        }}
+                        disabled={!isDevMode && !['queued_for_pickup', 'picked_up', 'shipment_inbound'].includes(currentState)}
+                        data-testid={`button-edit-part-${index + 1}`}
+                      >
+                        <Edit className="mr-2 h-4 w-4" />
+                        Edit
+                      </Button>
+                    )}
                   </div>
                   
                   <div className="grid md:grid-cols-2 gap-4">
@@ -799,6 +880,29 @@ export default function JobDetail() {
           </CardContent>
         </Card>
       )}
+      {/* Photos captured in pickup, emissions and delivery forms */}
+      {attachments.length > 0 && (
+        <Card>
+          <CardHeader className="card-header">
+            <CardTitle className="text-white flex items-center gap-2">
+              <Camera className="h-5 w-5" />
+              Photos
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            <PhotoGallery
+              attachments={attachments}
+              formatDateTime={formatDateTime}
+              groupLabel={(attachment) => {
+                const part = parts.find((p) => p.id === attachment.partId);
+                return part ? `${part.part || 'Part'} ${part.ecsSerial || ''} — ${attachment.label}` : attachment.label;
+              }}
+            />
+          </CardContent>
+        </Card>
+      )}
+      {/* Delivery receipts and service certificates */}
+      <JobDocuments jobId={jobId!} jobState={job.state} partCount={parts.length} formatDateTime={formatDateTime} />
       {/* Pickup/Delivery Information if applicable */}
       {(job.pickupDriver || job.deliveryDriver) && (
         <Card>
@@ -900,67 +1004,35 @@ export default function JobDetail() {
           </CardContent>
         </Card>
 
-        {/* Comments */}
-        <Card>
-          <CardHeader className="card-header">
-            <CardTitle className="text-white flex items-center gap-2">
-              <MessageSquare className="w-5 h-5" />
-              Comments
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="p-6">
-            {/* Add Comment Form */}
-            <form onSubmit={handleAddComment} className="mb-6">
-              <Textarea
-                data-testid="input-comment"
-                placeholder="Add a comment..."
-                value={newComment}
-                onChange={(e) => setNewComment(e.target.value)}
-                className="mb-2"
-                rows={3}
-              />
-              <Button
-                data-testid="button-add-comment"
-                type="submit"
-                disabled={!newComment.trim() || addCommentMutation.isPending}
-              >
-                {addCommentMutation.isPending ? "Adding..." : "Add Comment"}
-              </Button>
-            </form>
+        {/* Comments - threaded conversation, notes from forms and per-part comments */}
+        <JobComments jobId={job.jobId} parts={parts} />
+      </div>
 
-            {/* Comments List */}
-            {commentsLoading ? (
-              <p className="text-muted-foreground text-center py-4">Loading comments...</p>
-            ) : comments.length === 0 ? (
-              <p className="text-muted-foreground text-center py-4">No comments yet</p>
-            ) : (
-              <div className="space-y-4">
-                {comments.map((comment) => {
-                  const displayName = comment.userFirstName || comment.userLastName
-                    ? `${comment.userFirstName || ''} ${comment.userLastName || ''}`.trim()
-                    : comment.userEmail || comment.userId || 'Unknown User';
-                  
-                  return (
-                    <div key={comment.id} className="border-b pb-4 last:border-0" data-testid={`comment-${comment.id}`}>
-                      <div className="flex items-start justify-between mb-2">
-                        <div className="font-medium text-sm" data-testid={`text-comment-author-${comment.id}`}>
-                          {displayName}
-                        </div>
-                        <div className="text-xs text-muted-foreground" data-testid={`text-comment-time-${comment.id}`}>
-                          {formatDateTime(comment.createdAt, 'PPp')}
-                        </div>
-                      </div>
-                      <div className="text-sm" data-testid={`text-comment-text-${comment.id}`}>
-                        {comment.commentText}
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            )}
+      {/* Change History - field-level edits to the job and its parts, loaded on demand */}
+      <Card>
+        <CardHeader className="card-header">
+          <CardTitle className="text-white flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Change History
+            </span>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setShowChangeHistory(!showChangeHistory)}
+              data-testid="button-toggle-change-history"
+            >
+              {showChangeHistory ? "Hide" : "Show"}
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        {showChangeHistory && (
+          <CardContent className="p-6">
+            <AuditHistory jobId={job.jobId} />
           </CardContent>
-        </Card>
-      </div>
+        )}
+      </Card>
+
       {/* Check In Modal */}
       {job && (
         <CheckInModal
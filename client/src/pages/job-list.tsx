@@ -12,7 +12,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { List, Store, Package, Send, ChevronDown, Search, ArrowUpDown, Check, Building2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import JobStatusBadge from "@/components/job-status-badge";
-import { useLocations } from "@/hooks/use-reference-data";
+import SlaBadge from "@/components/sla-badge";
 import { CheckInModal } from "@/components/check-in-modal";
 import { DeliveryDispatchModal } from "@/components/delivery-dispatch-modal";
 import { ReadyForPickupModal } from "@/components/ready-for-pickup-modal";
@@ -59,15 +59,15 @@ type PaginatedResponse = {
 };
 
 export default function JobList() {
-  const { canFilterByShop, homeShop } = useAuth();
+  const { canFilterByShop, homeShop, activeShop, permissions, shops } = useAuth();
   const [shopFilter, setShopFilter] = useState<string>('');
   const [statusFilter, setStatusFilter] = useState<string[]>([]);
   const [tempStatusFilter, setTempStatusFilter] = useState<string[]>([]);
   const [statusFilterOpen, setStatusFilterOpen] = useState(false);
+  const [slaFilter, setSlaFilter] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState<string>('');
   
-  const { data: locations = [], isLoading: isLoadingLocations } = useLocations();
   const [dateFrom, setDateFrom] = useState<string>('');
   const [dateTo, setDateTo] = useState<string>('');
   const [sortBy, setSortBy] = useState<string>('initiatedAt');
@@ -105,6 +105,7 @@ export default function JobList() {
     setShopFilter(filters.shop || '');
     setStatusFilter(filters.status || []);
     setTempStatusFilter(filters.status || []);
+    setSlaFilter('all');
     setSearchQuery(filters.search || '');
     setDebouncedSearchQuery(filters.search || '');
     setDateFrom(filters.dateFrom || '');
@@ -120,6 +121,7 @@ export default function JobList() {
     if (!isInitializedRef.current) {
       const params = new URLSearchParams(window.location.search);
       const status = params.get('status');
+      const sla = params.get('sla');
       const search = params.get('search');
       const from = params.get('dateFrom');
       const to = params.get('dateTo');
@@ -129,13 +131,15 @@ export default function JobList() {
       const size = params.get('pageSize');
       const shop = params.get('shop');
       
-      // Shop filter priority: URL param > sessionStorage > homeShop
+      // Shop filter priority: URL param > sessionStorage > active shop > homeShop
       if (shop) {
         setShopFilter(shop);
       } else {
         const savedShop = sessionStorage.getItem('ecs-shop-filter');
-        if (savedShop) {
+        if (savedShop && (savedShop === 'all' || !permissions?.shops || permissions.shops.includes(savedShop))) {
           setShopFilter(savedShop);
+        } else if (activeShop) {
+          setShopFilter(activeShop);
         } else if (homeShop && canFilterByShop) {
           setShopFilter(homeShop);
         }
@@ -146,6 +150,7 @@ export default function JobList() {
         setStatusFilter(statuses);
         setTempStatusFilter(statuses);
       }
+      if (sla) setSlaFilter(sla);
       if (search) {
         setSearchQuery(search);
         setDebouncedSearchQuery(search);
@@ -160,6 +165,16 @@ export default function JobList() {
       isInitializedRef.current = true;
     }
   }, [homeShop, canFilterByShop]);
+
+  // Follow the header's active-shop switcher
+  const previousActiveShopRef = useRef(activeShop);
+  useEffect(() => {
+    if (previousActiveShopRef.current !== activeShop) {
+      previousActiveShopRef.current = activeShop;
+      setShopFilter(activeShop ?? 'all');
+      setCurrentPage(1);
+    }
+  }, [activeShop]);
   
   // Persist shop filter changes to sessionStorage
   useEffect(() => {
@@ -176,6 +191,7 @@ export default function JobList() {
     { value: "at_shop", label: "At Shop" },
     { value: "in_service", label: "In Service" },
     { value: "service_complete", label: "Service Complete" },
+    { value: "qa_inspection", label: "QA Inspection" },
     { value: "ready_for_pickup", label: "Ready for Pickup" },
     { value: "picked_up_from_shop", label: "Picked Up from Shop" },
     { value: "queued_for_delivery", label: "Queued for Delivery" },
@@ -201,6 +217,7 @@ export default function JobList() {
     const newSearch = updateQueryParams({
       shop: shopFilter || null,
       status: statusFilter.length > 0 ? statusFilter : null,
+      sla: slaFilter !== 'all' ? slaFilter : null,
       search: debouncedSearchQuery || null,
       dateFrom: dateFrom || null,
       dateTo: dateTo || null,
@@ -213,17 +230,18 @@ export default function JobList() {
     // Update URL without triggering navigation
     const newUrl = '/jobs' + newSearch;
     window.history.replaceState({}, '', newUrl);
-  }, [shopFilter, statusFilter, debouncedSearchQuery, dateFrom, dateTo, sortBy, sortOrder, currentPage, pageSize]);
+  }, [shopFilter, statusFilter, slaFilter, debouncedSearchQuery, dateFrom, dateTo, sortBy, sortOrder, currentPage, pageSize]);
 
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [shopFilter, statusFilter, debouncedSearchQuery, dateFrom, dateTo, sortBy, sortOrder]);
+  }, [shopFilter, statusFilter, slaFilter, debouncedSearchQuery, dateFrom, dateTo, sortBy, sortOrder]);
 
   const { data: response, isLoading, isFetching } = useQuery<PaginatedResponse>({
     queryKey: ["/api/jobs", {
       ...(shopFilter && { shop: shopFilter }),
       ...(statusFilter.length > 0 && { status: statusFilter.join(',') }),
+      ...(slaFilter !== 'all' && { sla: slaFilter }),
       ...(debouncedSearchQuery && { search: debouncedSearchQuery }),
       ...(dateFrom && { dateFrom }),
       ...(dateTo && { dateTo }),
@@ -391,16 +409,12 @@ export default function JobList() {
                 <SelectValue placeholder="All Shops" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Shops</SelectItem>
-                {isLoadingLocations ? (
-                  <SelectItem value="_loading" disabled>Loading...</SelectItem>
-                ) : (
-                  locations.map((location) => (
-                    <SelectItem key={location} value={location}>
-                      {location}
-                    </SelectItem>
-                  ))
-                )}
+                <SelectItem value="all">{permissions?.shops ? "All My Shops" : "All Shops"}</SelectItem>
+                {shops.map((shop) => (
+                  <SelectItem key={shop} value={shop}>
+                    {shop}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           ) : homeShop ? (
@@ -411,7 +425,7 @@ export default function JobList() {
           ) : null}
         </div>
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-2">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-7 gap-2">
           <div className="relative sm:col-span-2 lg:col-span-2">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
@@ -519,6 +533,18 @@ export default function JobList() {
             </PopoverContent>
           </Popover>
 
+          <Select value={slaFilter} onValueChange={setSlaFilter}>
+            <SelectTrigger className="w-full" data-testid="select-sla-filter">
+              <SelectValue placeholder="SLA" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any SLA</SelectItem>
+              <SelectItem value="at_risk,overdue">At Risk or Overdue</SelectItem>
+              <SelectItem value="overdue">Overdue</SelectItem>
+              <SelectItem value="at_risk">At Risk</SelectItem>
+            </SelectContent>
+          </Select>
+
           <Input
             type="date"
             placeholder="From Date"
@@ -604,7 +630,10 @@ export default function JobList() {
                           <div className="font-medium">{job.customerName}</div>
                         </td>
                         <td className="p-4">
-                          <JobStatusBadge status={job.state} />
+                          <div className="flex flex-wrap items-center gap-1">
+                            <JobStatusBadge status={job.state} />
+                            <SlaBadge status={job.slaStatus} />
+                          </div>
                         </td>
                         <td className="p-4">
                           {job.initiatedAt ? new Date(job.initiatedAt).toLocaleString() : '-'}
@@ -11,7 +11,6 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Package, Search, ArrowUpDown, ChevronDown, Building2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import JobStatusBadge from "@/components/job-status-badge";
-import { useLocations } from "@/hooks/use-reference-data";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { JobPart, Job } from "@shared/schema";
 import { PART_DIAGNOSIS_OPTIONS, PART_STATUS_OPTIONS } from "@shared/schema";
@@ -44,7 +43,7 @@ type PaginatedResponse = {
 };
 
 export default function PartsList() {
-  const { canFilterByShop, homeShop } = useAuth();
+  const { canFilterByShop, homeShop, activeShop, permissions, shops } = useAuth();
   const [shopFilter, setShopFilter] = useState<string>('');
   const [statusFilter, setStatusFilter] = useState<string[]>([]);
   const [tempStatusFilter, setTempStatusFilter] = useState<string[]>([]);
@@ -54,7 +53,6 @@ export default function PartsList() {
   const [dateFrom, setDateFrom] = useState<string>('');
   const [dateTo, setDateTo] = useState<string>('');
   
-  const { data: locations = [], isLoading: isLoadingLocations } = useLocations();
   const [sortBy, setSortBy] = useState<string>('createdAt');
   const [sortOrder, setSortOrder] = useState<string>('desc');
   const [currentPage, setCurrentPage] = useState<number>(1);
@@ -79,13 +77,15 @@ export default function PartsList() {
       const size = params.get('pageSize');
       const shop = params.get('shop');
       
-      // Shop filter priority: URL param > sessionStorage > homeShop
+      // Shop filter priority: URL param > sessionStorage > active shop > homeShop
       if (shop) {
         setShopFilter(shop);
       } else {
         const savedShop = sessionStorage.getItem('ecs-shop-filter');
-        if (savedShop) {
+        if (savedShop && (savedShop === 'all' || !permissions?.shops || permissions.shops.includes(savedShop))) {
           setShopFilter(savedShop);
+        } else if (activeShop) {
+          setShopFilter(activeShop);
         } else if (homeShop && canFilterByShop) {
           setShopFilter(homeShop);
         }
@@ -110,6 +110,16 @@ export default function PartsList() {
       isInitializedRef.current = true;
     }
   }, [homeShop, canFilterByShop]);
+
+  // Follow the header's active-shop switcher
+  const previousActiveShopRef = useRef(activeShop);
+  useEffect(() => {
+    if (previousActiveShopRef.current !== activeShop) {
+      previousActiveShopRef.current = activeShop;
+      setShopFilter(activeShop ?? 'all');
+      setCurrentPage(1);
+    }
+  }, [activeShop]);
   
   // Persist shop filter changes to sessionStorage
   useEffect(() => {
@@ -125,6 +135,7 @@ export default function PartsList() {
     { value: "at_shop", label: "At Shop" },
     { value: "in_service", label: "In Service" },
     { value: "service_complete", label: "Service Complete" },
+    { value: "qa_inspection", label: "QA Inspection" },
     { value: "ready_for_pickup", label: "Ready for Pickup" },
     { value: "picked_up_from_shop", label: "Picked Up from Shop" },
     { value: "queued_for_delivery", label: "Queued for Delivery" },
@@ -237,16 +248,12 @@ export default function PartsList() {
                 <SelectValue placeholder="All Shops" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Shops</SelectItem>
-                {isLoadingLocations ? (
-                  <SelectItem value="_loading" disabled>Loading...</SelectItem>
-                ) : (
-                  locations.map((location) => (
-                    <SelectItem key={location} value={location}>
-                      {location}
-                    </SelectItem>
-                  ))
-                )}
+                <SelectItem value="all">{permissions?.shops ? "All My Shops" : "All Shops"}</SelectItem>
+                {shops.map((shop) => (
+                  <SelectItem key={shop} value={shop}>
+                    {shop}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           ) : homeShop ? (
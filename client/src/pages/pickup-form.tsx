@@ -4,7 +4,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useParams, useLocation } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { captureGps, getDeviceInfo } from "@/lib/gpsCapture";
+import { captureGps, getDeviceInfo, toGpsPayload } from "@/lib/gpsCapture";
 import { enqueue } from "@/lib/offlineQueue";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -23,7 +23,8 @@ import { Package, MapPin, ArrowLeft, Loader2, WifiOff, Clock, Calendar, Zap } fr
 import { useAuth } from "@/hooks/useAuth";
 import { useDevMode } from "@/contexts/DevModeContext";
 import { generatePickupTestData } from "@/lib/test-data-generators";
-import { PhotoPlaceholder } from "@/components/forms/emissions/photo-placeholder";
+import { PhotoCapture, PhotoCaptureProvider } from "@/components/forms/photo-capture";
+import { SignatureFields, signatureFormFields, splitSignature } from "@/components/forms/signature-pad";
 
 interface FormSubmission {
   id: string;
@@ -36,6 +37,7 @@ interface FormSubmission {
 const pickupFormSchema = z.object({
   itemCount: z.coerce.number().min(1, "At least 1 item required"),
   driverNotes: z.string().optional(),
+  ...signatureFormFields,
 });
 
 type PickupFormValues = z.infer<typeof pickupFormSchema>;
@@ -59,6 +61,8 @@ export default function PickupForm() {
     defaultValues: {
       itemCount: (prefill.itemCount as number) || 1,
       driverNotes: "",
+      signerName: "",
+      signature: "",
     },
   });
 
@@ -79,19 +83,23 @@ export default function PickupForm() {
       const gps = await captureGps();
       const deviceInfo = getDeviceInfo();
 
+      const { responseData, signature } = splitSignature(values);
+
       const payload = {
-        responseData: values,
-        gps: gps ? { latitude: gps.latitude, longitude: gps.longitude, accuracy: gps.accuracy } : undefined,
+        responseData,
+        gps: toGpsPayload(gps),
         deviceInfo,
+        signature,
       };
 
       if (!navigator.onLine) {
         // Queue for offline sync
         await enqueue({
           submissionId: id!,
-          responseData: values,
-          gps: gps ? { latitude: gps.latitude, longitude: gps.longitude, accuracy: gps.accuracy } : undefined,
+          responseData,
+          gps: toGpsPayload(gps),
           deviceInfo,
+          signature,
         });
         return { offline: true };
       }
@@ -169,6 +177,7 @@ export default function PickupForm() {
                 const data = generatePickupTestData();
                 form.setValue("itemCount", data.itemCount);
                 form.setValue("driverNotes", data.driverNotes);
+                form.setValue("signerName", data.signerName);
               }}
             >
               <Zap className="h-3 w-3 mr-1" />Fill Test Data
@@ -307,7 +316,9 @@ export default function PickupForm() {
                 )}
               />
 
-              <PhotoPlaceholder label="Pick-Up Photo" />
+              <PhotoCaptureProvider submissionId={id} jobId={submission.jobId}>
+                <PhotoCapture label="Pick-Up Photo" />
+              </PhotoCaptureProvider>
 
               <FormField
                 control={form.control}
@@ -327,6 +338,8 @@ export default function PickupForm() {
                 )}
               />
 
+              <SignatureFields control={form.control} />
+
               <Button
                 type="submit"
                 className="w-full"
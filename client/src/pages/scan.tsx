@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScanLine, Search, FileText, Wrench, ExternalLink, X } from "lucide-react";
+import { BarcodeScanner } from "@/components/barcode-scanner";
+import JobStatusBadge from "@/components/job-status-badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { PART_STATUS_OPTIONS, type Job, type JobPart, type FormSubmission } from "@shared/schema";
+
+const JOB_ID_PATTERN = /^ECS-\d{14}-\d{2}$/i;
+const SERIAL_PATTERN = /^\d{2}\.\d{8}\.\d{2}$/;
+
+type ScanTarget =
+  | { kind: "job"; jobId: string }
+  | { kind: "part"; jobId: string; partId: string; serial: string };
+
+interface SerialCheckResponse {
+  valid: boolean;
+  available: boolean;
+  error?: string;
+  assignedPart: { id: string; jobId: string; part: string | null; process: string | null; status: string | null } | null;
+}
+
+interface WorkflowResponse {
+  allowedNextStates: string[];
+}
+
+export default function Scan() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [manualCode, setManualCode] = useState("");
+  const [target, setTarget] = useState<ScanTarget | null>(null);
+  const [lookingUp, setLookingUp] = useState(false);
+
+  // Labels encode either an ECS serial (part tags) or an ECS job ID
+  const resolveCode = async (raw: string) => {
+    const code = raw.trim();
+    if (!code || lookingUp) return;
+
+    if (JOB_ID_PATTERN.test(code)) {
+      setTarget({ kind: "job", jobId: code.toUpperCase() });
+      return;
+    }
+
+    if (!SERIAL_PATTERN.test(code)) {
+      toast({
+        title: "Unrecognized code",
+        description: `"${code}" isn't an ECS serial or job ID`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLookingUp(true);
+    try {
+      const response = await apiRequest("GET", `/api/serial/check/${encodeURIComponent(code)}`);
+      const result: SerialCheckResponse = await response.json();
+      if (!result.assignedPart) {
+        toast({
+          title: "Serial not found",
+          description: `${code} isn't assigned to any part`,
+          variant: "destructive",
+        });
+        return;
+      }
+      setTarget({ kind: "part", jobId: result.assignedPart.jobId, partId: result.assignedPart.id, serial: code });
+    } catch (error: any) {
+      toast({
+        title: "Lookup failed",
+        description: error.message || "Failed to look up serial",
+        variant: "destructive",
+      });
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    resolveCode(manualCode);
+    setManualCode("");
+  };
+
+  return (
+    <div className="space-y-6 max-w-2xl mx-auto">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold">Scan</h1>
+        <p className="text-sm text-muted-foreground">
+          Scan a part tag or job label to jump straight to it
+        </p>
+      </div>
+
+      {!target && (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <BarcodeScanner onDetected={resolveCode} paused={lookingUp} />
+            {/* Handheld scanners type the code and press Enter, so they land here too */}
+            <form onSubmit={handleManualSubmit} className="flex gap-2">
+              <Input
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder="ECS serial or job ID"
+                autoFocus
+                data-testid="input-scan-code"
+              />
+              <Button type="submit" disabled={!manualCode.trim() || lookingUp} data-testid="button-scan-lookup">
+                <Search className="h-4 w-4 mr-2" />
+                Look Up
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {!!target && (
+        <ScanResult
+          target={target}
+          technicianName={user ? `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim() || user.email || "" : ""}
+          onClear={() => setTarget(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ScanResultProps {
+  target: ScanTarget;
+  technicianName: string;
+  onClear: () => void;
+}
+
+function ScanResult({ target, technicianName, onClear }: ScanResultProps) {
+  const { toast } = useToast();
+  const { jobId } = target;
+
+  const { data: job, isLoading: jobLoading, error: jobError } = useQuery<Job>({
+    queryKey: [`/api/jobs/${jobId}`],
+  });
+
+  const { data: parts } = useQuery<JobPart[]>({
+    queryKey: [`/api/jobs/${jobId}/parts`],
+    enabled: target.kind === "part",
+  });
+
+  const { data: workflow } = useQuery<WorkflowResponse>({
+    queryKey: [`/api/jobs/${jobId}/workflow`],
+  });
+
+  const { data: submissions } = useQuery<FormSubmission[]>({
+    queryKey: [`/api/form-submissions/job/${jobId}`],
+  });
+
+  const part = target.kind === "part" ? parts?.find((p) => p.id === target.partId) : undefined;
+  const emissionsForm = submissions?.find((s) => s.formType === "emissions" && s.status !== "completed");
+  const canStartService = !!workflow?.allowedNextStates.includes("in_service");
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async (status: string) => {
+      const response = await apiRequest("PATCH", `/api/jobs/${jobId}/parts/${part!.id}`, { status });
+      return response.json();
+    },
+    onSuccess: (_, status) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/parts`] });
+      toast({
+        title: "Part updated",
+        description: `${part?.ecsSerial} set to ${status}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update part status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startServiceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/start-service`, { technicianName });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/workflow`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/form-submissions/job/${jobId}`] });
+      toast({
+        title: "Service started",
+        description: `Job ${jobId} is now in service`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start service",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (jobLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  if (jobError || !job) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground space-y-4">
+          <p>Job {jobId} was not found.</p>
+          <Button variant="outline" onClick={onClear} data-testid="button-scan-again">
+            <ScanLine className="h-4 w-4 mr-2" />
+            Scan Again
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base" data-testid="text-scan-job-id">Job {job.jobId}</CardTitle>
+          <div className="flex items-center gap-2">
+            <JobStatusBadge status={job.state} />
+            <Button variant="ghost" size="sm" onClick={onClear} title="Clear" data-testid="button-scan-clear">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div>
+            <span className="text-muted-foreground">Customer</span>
+            <p className="font-medium">{job.customerName || "—"}</p>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Shop</span>
+            <p className="font-medium">{job.shopName || "—"}</p>
+          </div>
+        </div>
+
+        {target.kind === "part" && (
+          <div className="rounded-lg border p-3 space-y-3" data-testid="card-scan-part">
+            <div className="flex items-center justify-between">
+              <span className="font-mono font-semibold">{target.serial}</span>
+              {!!part?.status && <Badge variant="outline">{part.status}</Badge>}
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div>
+                <span className="text-muted-foreground">Part</span>
+                <p className="font-medium">{part?.part || "—"}</p>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Process</span>
+                <p className="font-medium">{part?.process || "—"}</p>
+              </div>
+            </div>
+            <Select
+              value={part?.status ?? undefined}
+              onValueChange={(status) => updateStatusMutation.mutate(status)}
+              disabled={!part || updateStatusMutation.isPending}
+            >
+              <SelectTrigger data-testid="select-scan-part-status">
+                <SelectValue placeholder="Set part status" />
+              </SelectTrigger>
+              <SelectContent>
+                {PART_STATUS_OPTIONS.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {status}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {canStartService && (
+            <Button
+              onClick={() => startServiceMutation.mutate()}
+              disabled={!technicianName || startServiceMutation.isPending}
+              data-testid="button-scan-start-service"
+            >
+              <Wrench className="h-4 w-4 mr-2" />
+              {startServiceMutation.isPending ? "Starting..." : "Start Service"}
+            </Button>
+          )}
+          {!!emissionsForm && (
+            <Link href={`/emissions-form/${emissionsForm.id}`}>
+              <Button className="w-full" variant={canStartService ? "outline" : "default"} data-testid="button-scan-emissions-form">
+                <FileText className="h-4 w-4 mr-2" />
+                {emissionsForm.status === "dispatched" ? "Start Emissions Form" : "Continue Emissions Form"}
+              </Button>
+            </Link>
+          )}
+          <Link href={`/jobs/${job.jobId}`}>
+            <Button className="w-full" variant="outline" data-testid="button-scan-open-job">
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Open Job
+            </Button>
+          </Link>
+          <Button variant="outline" onClick={onClear} data-testid="button-scan-next">
+            <ScanLine className="h-4 w-4 mr-2" />
+            Scan Next
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
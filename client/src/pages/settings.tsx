@@ -4,6 +4,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -11,9 +12,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, BellRing } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { isPushSupported, getPushSubscription, enablePush, disablePush } from "@/lib/webPush";
+import type { NotificationType } from "@shared/schema";
 
 // Common US timezones
 const TIMEZONES = [
@@ -26,6 +29,14 @@ const TIMEZONES = [
   { value: "Pacific/Honolulu", label: "Hawaii Time (HT)" },
 ];
 
+// Notification types that can also be sent to the user's devices as push notifications
+const PUSH_TYPE_OPTIONS: Array<{ value: NotificationType; label: string; description: string }> = [
+  { value: "form_assigned", label: "Forms assigned to me", description: "Pickup, delivery and service forms dispatched to you" },
+  { value: "job_state_changed", label: "Job status changes", description: "Jobs you're on move to a new state" },
+  { value: "comment_mention", label: "Mentions", description: "Someone @mentions you in a job comment" },
+  { value: "part_status_changed", label: "Part status changes", description: "Parts on your jobs change status" },
+];
+
 export default function Settings() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -67,6 +78,96 @@ export default function Settings() {
     },
   });
 
+  const { data: pushConfig } = useQuery<{ enabled: boolean; publicKey: string | null }>({
+    queryKey: ['/api/push/config'],
+  });
+
+  const { data: notificationPreferences } = useQuery<{ pushTypes: NotificationType[] }>({
+    queryKey: ['/api/notifications/preferences'],
+  });
+
+  // Whether this browser is currently subscribed
+  const [deviceSubscribed, setDeviceSubscribed] = useState(false);
+  useEffect(() => {
+    getPushSubscription()
+      .then((subscription) => setDeviceSubscribed(!!subscription))
+      .catch(() => setDeviceSubscribed(false));
+  }, []);
+
+  const toggleDevicePushMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      if (enabled) {
+        await enablePush(pushConfig!.publicKey!);
+      } else {
+        await disablePush();
+      }
+      return enabled;
+    },
+    onSuccess: (enabled) => {
+      setDeviceSubscribed(enabled);
+      toast({
+        title: "Success",
+        description: enabled
+          ? "Push notifications are on for this device."
+          : "Push notifications are off for this device.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update push notifications",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updatePreferencesMutation = useMutation({
+    mutationFn: async (pushTypes: NotificationType[]) => {
+      const response = await apiRequest('PUT', '/api/notifications/preferences', { pushTypes });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['/api/notifications/preferences'], data);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update notification preferences",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sendTestPushMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/push/test');
+      return response.json() as Promise<{ delivered: number }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.delivered > 0 ? "Test sent" : "No devices reached",
+        description: data.delivered > 0
+          ? `Sent to ${data.delivered} device${data.delivered === 1 ? "" : "s"}.`
+          : "Turn on push for this device first.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send test notification",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleTogglePushType = (type: NotificationType, checked: boolean) => {
+    const current = notificationPreferences?.pushTypes ?? [];
+    const pushTypes = checked ? [...current, type] : current.filter((t) => t !== type);
+    updatePreferencesMutation.mutate(pushTypes);
+  };
+
+  const pushAvailable = isPushSupported() && !!pushConfig?.enabled && !!pushConfig.publicKey;
+
   const handleSaveTimezone = () => {
     if (selectedTimezone) {
       updateTimezoneMutation.mutate(selectedTimezone);
@@ -139,6 +240,70 @@ export default function Settings() {
             </Button>
           </CardContent>
         </Card>
+
+        {/* Notification Settings */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Push Notifications</CardTitle>
+            <CardDescription>
+              Get notified on this phone or computer even when ECS Connect isn't open.
+              Everything still appears in the notification bell.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="device-push">Push on this device</Label>
+                {!isPushSupported() ? (
+                  <p className="text-xs text-muted-foreground">
+                    This browser doesn't support push. On iPhone, add ECS Connect to your home screen first.
+                  </p>
+                ) : !pushConfig?.enabled ? (
+                  <p className="text-xs text-muted-foreground">Push notifications aren't set up on this server yet.</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {deviceSubscribed ? "This device will receive push notifications." : "This device won't receive push notifications."}
+                  </p>
+                )}
+              </div>
+              <Switch
+                id="device-push"
+                checked={deviceSubscribed}
+                disabled={!pushAvailable || toggleDevicePushMutation.isPending}
+                onCheckedChange={(checked) => toggleDevicePushMutation.mutate(checked)}
+                data-testid="switch-device-push"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Send a push for</Label>
+              {PUSH_TYPE_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="text-sm font-medium">{option.label}</div>
+                    <p className="text-xs text-muted-foreground">{option.description}</p>
+                  </div>
+                  <Switch
+                    checked={notificationPreferences?.pushTypes.includes(option.value) ?? false}
+                    disabled={!notificationPreferences || updatePreferencesMutation.isPending}
+                    onCheckedChange={(checked) => handleTogglePushType(option.value, checked)}
+                    data-testid={`switch-push-type-${option.value}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <Button
+              variant="outline"
+              onClick={() => sendTestPushMutation.mutate()}
+              disabled={!pushAvailable || !deviceSubscribed || sendTestPushMutation.isPending}
+              data-testid="button-test-push"
+            >
+              <BellRing className="mr-2 h-4 w-4" />
+              {sendTestPushMutation.isPending ? "Sending..." : "Send Test Notification"}
+            </Button>
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -0,0 +1,29 @@
+/**
+ * Create the Postgres extensions the schema depends on. Runs before
+ * `drizzle-kit push` as part of `npm run db:push`:
+ *
+ *   npx tsx scripts/db-extensions.ts
+ *
+ * pg_trgm provides the gin_trgm_ops operator class behind the global search
+ * trigram indexes (shared/schema.ts); pushing those indexes fails without it.
+ */
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import ws from "ws";
+
+const EXTENSIONS = ["pg_trgm"];
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL, ensure the database is provisioned");
+}
+
+neonConfig.webSocketConstructor = ws;
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+try {
+  for (const extension of EXTENSIONS) {
+    await pool.query(`CREATE EXTENSION IF NOT EXISTS ${extension}`);
+    console.log(`Extension ${extension} is installed`);
+  }
+} finally {
+  await pool.end();
+}
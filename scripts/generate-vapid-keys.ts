@@ -0,0 +1,20 @@
+/**
+ * Generate a VAPID key pair for Web Push (server/services/webPush.ts).
+ *
+ *   npx tsx scripts/generate-vapid-keys.ts
+ *
+ * Put the output in the environment. Changing the keys invalidates every
+ * existing browser subscription, so generate them once per environment.
+ */
+import { createECDH } from "crypto";
+
+const ecdh = createECDH("prime256v1");
+ecdh.generateKeys();
+
+// JWK needs the full 32 bytes; getPrivateKey() drops leading zeros
+const privateKey = ecdh.getPrivateKey();
+const paddedPrivateKey = Buffer.concat([Buffer.alloc(32 - privateKey.length), privateKey]);
+
+console.log(`VAPID_PUBLIC_KEY=${ecdh.getPublicKey().toString("base64url")}`);
+console.log(`VAPID_PRIVATE_KEY=${paddedPrivateKey.toString("base64url")}`);
+console.log("VAPID_SUBJECT=mailto:you@example.com");
@@ -0,0 +1,196 @@
+/**
+ * Local stand-in for a Web Push service (and the browser behind it), for
+ * exercising server/services/webPush.ts without a real browser.
+ *
+ *   npx tsx scripts/push-stub.ts
+ *   WEB_PUSH_ALLOW_HTTP_ENDPOINTS=true VAPID_PUBLIC_KEY=... VAPID_PRIVATE_KEY=... npm run dev
+ *
+ * POST /subscriptions creates a fake device and returns a PushSubscription JSON
+ * ({ endpoint, keys: { p256dh, auth } }) to register via POST /api/push/subscriptions.
+ * Pushes to that endpoint have their VAPID signature checked and payload decrypted;
+ * GET /dump lists everything received. DELETE /subscriptions/:id makes the endpoint
+ * answer 410 Gone, like an expired browser subscription.
+ *
+ * Env:
+ *   PUSH_STUB_PORT       port to listen on (default 8090)
+ *   PUSH_STUB_FAIL_RATE  fraction of pushes answered with 503 (default 0)
+ */
+import http from "http";
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, randomUUID, verify, type ECDH } from "crypto";
+
+const PORT = parseInt(process.env.PUSH_STUB_PORT || "8090", 10);
+const FAIL_RATE = parseFloat(process.env.PUSH_STUB_FAIL_RATE || "0");
+
+interface Device {
+  id: string;
+  ecdh: ECDH;
+  publicKey: Buffer;
+  authSecret: Buffer;
+  gone: boolean;
+  received: Array<{ at: string; ttl: string | null; urgency: string | null; payload: unknown }>;
+}
+
+const devices = new Map<string, Device>();
+
+class StubError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync("sha256", ikm, salt, info, length));
+}
+
+/** Check the `vapid t=<jwt>, k=<key>` header the way a push service would */
+function verifyVapid(header: string | undefined): { sub: string; aud: string } {
+  const match = /^vapid t=([^,\s]+),\s*k=([^,\s]+)$/.exec(header || "");
+  if (!match) throw new StubError(401, "Missing or malformed VAPID Authorization header");
+
+  const [token, key] = [match[1], match[2]];
+  const [headerPart, claimsPart, signaturePart] = token.split(".");
+  const point = Buffer.from(key, "base64url");
+  const publicKey = createPublicKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      x: point.subarray(1, 33).toString("base64url"),
+      y: point.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+
+  const valid = verify(
+    "sha256",
+    Buffer.from(`${headerPart}.${claimsPart}`),
+    { key: publicKey, dsaEncoding: "ieee-p1363" },
+    Buffer.from(signaturePart, "base64url"),
+  );
+  if (!valid) throw new StubError(403, "VAPID signature does not match k=");
+
+  const claims = JSON.parse(Buffer.from(claimsPart, "base64url").toString("utf8"));
+  if (claims.aud !== `http://localhost:${PORT}`) throw new StubError(403, `Wrong aud: ${claims.aud}`);
+  if (claims.exp * 1000 < Date.now()) throw new StubError(403, "VAPID token expired");
+  return { sub: claims.sub, aud: claims.aud };
+}
+
+/** RFC 8291 aes128gcm decryption, as the browser does it */
+function decrypt(device: Device, body: Buffer): string {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const sharedSecret = device.ecdh.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), device.publicKey, serverPublicKey]);
+  const ikm = hkdf(device.authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = hkdf(salt, ikm, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  const decipher = createDecipheriv("aes-128-gcm", contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+
+  // Strip the padding delimiter (0x02 for the last record) and any zero padding after it
+  const delimiter = padded.lastIndexOf(2);
+  if (delimiter < 0) throw new StubError(400, "Missing record delimiter");
+  return padded.subarray(0, delimiter).toString("utf8");
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+async function handle(req: http.IncomingMessage): Promise<{ status: number; body: unknown }> {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+
+  if (req.method === "GET" && url.pathname === "/dump") {
+    return {
+      status: 200,
+      body: Array.from(devices.values()).map(({ id, gone, received }) => ({ id, gone, received })),
+    };
+  }
+
+  if (req.method === "POST" && url.pathname === "/subscriptions") {
+    const ecdh = createECDH("prime256v1");
+    const device: Device = {
+      id: randomUUID(),
+      ecdh,
+      publicKey: ecdh.generateKeys(),
+      authSecret: randomBytes(16),
+      gone: false,
+      received: [],
+    };
+    devices.set(device.id, device);
+    return {
+      status: 201,
+      body: {
+        endpoint: `http://localhost:${PORT}/push/${device.id}`,
+        keys: {
+          p256dh: device.publicKey.toString("base64url"),
+          auth: device.authSecret.toString("base64url"),
+        },
+      },
+    };
+  }
+
+  const subscriptionMatch = /^\/subscriptions\/([^/]+)$/.exec(url.pathname);
+  if (req.method === "DELETE" && subscriptionMatch) {
+    const device = devices.get(subscriptionMatch[1]);
+    if (!device) throw new StubError(404, "Unknown subscription");
+    device.gone = true;
+    return { status: 200, body: { id: device.id, gone: true } };
+  }
+
+  const pushMatch = /^\/push\/([^/]+)$/.exec(url.pathname);
+  if (req.method === "POST" && pushMatch) {
+    const device = devices.get(pushMatch[1]);
+    if (!device || device.gone) throw new StubError(410, "Subscription has expired or was unsubscribed");
+    if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+      throw new StubError(503, "Simulated outage (PUSH_STUB_FAIL_RATE)");
+    }
+    if (req.headers["content-encoding"] !== "aes128gcm") {
+      throw new StubError(415, `Unsupported Content-Encoding: ${req.headers["content-encoding"]}`);
+    }
+
+    verifyVapid(req.headers.authorization);
+    const text = decrypt(device, await readBody(req));
+    let payload: unknown = text;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      // Keep non-JSON payloads as text
+    }
+
+    device.received.push({
+      at: new Date().toISOString(),
+      ttl: (req.headers.ttl as string) ?? null,
+      urgency: (req.headers.urgency as string) ?? null,
+      payload,
+    });
+    return { status: 201, body: {} };
+  }
+
+  throw new StubError(404, `Unknown endpoint: ${req.method} ${url.pathname}`);
+}
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const { status, body } = await handle(req);
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+    console.log(`${req.method} ${req.url} -> ${status}`);
+  } catch (error) {
+    const status = error instanceof StubError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: message }));
+    console.log(`${req.method} ${req.url} -> ${status} ${message}`);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Web Push stub listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,217 @@
+/**
+ * In-memory stand-in for the Google Sheets v4 values API, for exercising
+ * server/services/googleSheets.ts locally without a real spreadsheet.
+ *
+ *   npx tsx scripts/sheets-stub.ts
+ *   GOOGLE_SHEETS_API_URL=http://localhost:8089 GOOGLE_SHEETS_ID=local npm run dev
+ *
+ * Supports values.get, values.update, values.append, values.batchUpdate and
+ * values.batchClear. GET /dump returns every tab as JSON.
+ *
+ * Env:
+ *   SHEETS_STUB_PORT       port to listen on (default 8089)
+ *   SHEETS_STUB_TABS       tabs that exist in every spreadsheet (default "Jobs,Parts")
+ *   SHEETS_STUB_FAIL_RATE  fraction of requests answered with 503, to exercise the retry queue (default 0)
+ */
+import http from "http";
+
+const PORT = parseInt(process.env.SHEETS_STUB_PORT || "8089", 10);
+const TABS = (process.env.SHEETS_STUB_TABS || "Jobs,Parts").split(",").map((tab) => tab.trim());
+const FAIL_RATE = parseFloat(process.env.SHEETS_STUB_FAIL_RATE || "0");
+
+type Grid = string[][];
+
+const spreadsheets = new Map<string, Map<string, Grid>>();
+
+function getTabs(spreadsheetId: string): Map<string, Grid> {
+  let tabs = spreadsheets.get(spreadsheetId);
+  if (!tabs) {
+    tabs = new Map(TABS.map((tab) => [tab, [] as Grid]));
+    spreadsheets.set(spreadsheetId, tabs);
+  }
+  return tabs;
+}
+
+class StubError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const char of letters.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+interface ParsedRange {
+  tab: string;
+  startRow: number; // 0-based
+  endRow: number | null; // inclusive, null = open-ended
+  startCol: number;
+  endCol: number | null;
+}
+
+/** Parses A1 notation: "Tab!A1", "Tab!A1:C3", "Tab!A:B", "Tab!1:1" */
+function parseRange(range: string): ParsedRange {
+  const [tab, cells = ""] = range.split("!");
+  const [start, end] = cells.split(":");
+  const parseCell = (cell: string | undefined) => {
+    const match = /^([A-Z]*)(\d*)$/i.exec(cell || "");
+    if (!match) throw new StubError(400, `Unable to parse range: ${range}`);
+    return {
+      col: match[1] ? columnIndex(match[1]) : null,
+      row: match[2] ? parseInt(match[2], 10) - 1 : null,
+    };
+  };
+  const from = parseCell(start);
+  const to = end === undefined ? from : parseCell(end);
+  return {
+    tab,
+    startRow: from.row ?? 0,
+    endRow: to.row,
+    startCol: from.col ?? 0,
+    endCol: to.col,
+  };
+}
+
+function resolveTab(spreadsheetId: string, range: ParsedRange): Grid {
+  const grid = getTabs(spreadsheetId).get(range.tab);
+  if (!grid) throw new StubError(400, `Unable to parse range: ${range.tab}`);
+  return grid;
+}
+
+function readRange(grid: Grid, range: ParsedRange): Grid {
+  const lastRow = range.endRow ?? grid.length - 1;
+  const rows: Grid = [];
+  for (let r = range.startRow; r <= lastRow && r < grid.length; r++) {
+    const row = grid[r] || [];
+    const lastCol = range.endCol ?? row.length - 1;
+    const cells = row.slice(range.startCol, lastCol + 1);
+    while (cells.length > 0 && cells[cells.length - 1] === "") cells.pop();
+    rows.push(cells);
+  }
+  // Like the real API, trailing empty rows are omitted
+  while (rows.length > 0 && rows[rows.length - 1].length === 0) rows.pop();
+  return rows;
+}
+
+function writeRange(grid: Grid, range: ParsedRange, values: Grid): number {
+  let updatedCells = 0;
+  values.forEach((rowValues, offset) => {
+    const r = range.startRow + offset;
+    while (grid.length <= r) grid.push([]);
+    rowValues.forEach((value, c) => {
+      const col = range.startCol + c;
+      while (grid[r].length <= col) grid[r].push("");
+      grid[r][col] = value === null || value === undefined ? "" : String(value);
+      updatedCells++;
+    });
+  });
+  return updatedCells;
+}
+
+function clearRange(grid: Grid, range: ParsedRange): void {
+  const lastRow = range.endRow ?? grid.length - 1;
+  for (let r = range.startRow; r <= lastRow && r < grid.length; r++) {
+    const row = grid[r] || [];
+    const lastCol = range.endCol ?? row.length - 1;
+    for (let c = range.startCol; c <= lastCol && c < row.length; c++) {
+      row[c] = "";
+    }
+  }
+}
+
+async function readBody(req: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : {};
+}
+
+async function handle(req: http.IncomingMessage): Promise<unknown> {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+
+  if (req.method === "GET" && url.pathname === "/dump") {
+    return Object.fromEntries(
+      Array.from(spreadsheets.entries()).map(([id, tabs]) => [id, Object.fromEntries(tabs)]),
+    );
+  }
+
+  const match = /^\/v4\/spreadsheets\/([^/]+)\/values(?::(batchUpdate|batchClear)|\/([^/]+?)(?::(append))?)$/.exec(url.pathname);
+  if (!match) throw new StubError(404, `Unknown endpoint: ${req.method} ${url.pathname}`);
+
+  const spreadsheetId = decodeURIComponent(match[1]);
+  const batchAction = match[2];
+  const rangeText = match[3] ? decodeURIComponent(match[3]) : null;
+  const append = match[4] === "append";
+
+  if (batchAction === "batchUpdate" && req.method === "POST") {
+    const body = await readBody(req);
+    let totalUpdatedCells = 0;
+    for (const entry of body.data || []) {
+      const range = parseRange(entry.range);
+      totalUpdatedCells += writeRange(resolveTab(spreadsheetId, range), range, entry.values || []);
+    }
+    return { spreadsheetId, totalUpdatedCells };
+  }
+
+  if (batchAction === "batchClear" && req.method === "POST") {
+    const body = await readBody(req);
+    for (const rangeEntry of body.ranges || []) {
+      const range = parseRange(rangeEntry);
+      clearRange(resolveTab(spreadsheetId, range), range);
+    }
+    return { spreadsheetId, clearedRanges: body.ranges || [] };
+  }
+
+  if (!rangeText) throw new StubError(404, `Unknown endpoint: ${req.method} ${url.pathname}`);
+  const range = parseRange(rangeText);
+  const grid = resolveTab(spreadsheetId, range);
+
+  if (req.method === "GET" && !append) {
+    return { range: rangeText, majorDimension: "ROWS", values: readRange(grid, range) };
+  }
+
+  if (req.method === "PUT" && !append) {
+    const body = await readBody(req);
+    const updatedCells = writeRange(grid, range, body.values || []);
+    return { spreadsheetId, updatedRange: rangeText, updatedCells };
+  }
+
+  if (req.method === "POST" && append) {
+    const body = await readBody(req);
+    // Append after the last row that has any data
+    let lastUsed = grid.length - 1;
+    while (lastUsed >= 0 && (grid[lastUsed] || []).every((cell) => cell === "")) lastUsed--;
+    const target = { ...range, startRow: lastUsed + 1, endRow: null };
+    const updatedCells = writeRange(grid, target, body.values || []);
+    return { spreadsheetId, updates: { updatedRange: `${range.tab}!A${target.startRow + 1}`, updatedCells } };
+  }
+
+  throw new StubError(405, `Unsupported method: ${req.method} ${url.pathname}`);
+}
+
+const server = http.createServer(async (req, res) => {
+  try {
+    if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+      throw new StubError(503, "Simulated outage (SHEETS_STUB_FAIL_RATE)");
+    }
+    const result = await handle(req);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(result));
+    console.log(`${req.method} ${req.url} -> 200`);
+  } catch (error) {
+    const status = error instanceof StubError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: { code: status, message } }));
+    console.log(`${req.method} ${req.url} -> ${status} ${message}`);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Sheets API stub listening on http://localhost:${PORT} (tabs: ${TABS.join(", ")})`);
+});
@@ -0,0 +1,88 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { IncomingMessage } from "http";
+import type { User, Whitelist } from "@shared/schema";
+
+// Clerk configured, with personas allowed (staging); read when clerkAuth loads
+const { storage, clerkClient } = vi.hoisted(() => {
+  vi.stubEnv("CLERK_SECRET_KEY", "sk_test_upgrade");
+  vi.stubEnv("ALLOW_PERSONA_SWITCH", "true");
+  return {
+    storage: { getUser: vi.fn(), getWhitelistByEmail: vi.fn() },
+    clerkClient: { authenticateRequest: vi.fn() },
+  };
+});
+vi.mock("./storage", () => ({ storage }));
+vi.mock("@clerk/express", () => ({ clerkClient, clerkMiddleware: vi.fn(), getAuth: vi.fn() }));
+
+const { authenticateUpgradeRequest } = await import("./clerkAuth");
+
+const users: Record<string, Partial<User>> = {
+  "user-admin": { id: "user-admin", email: "admin@example.com", role: null },
+  "user-tech": { id: "user-tech", email: "tech@example.com", role: null },
+};
+const whitelist: Record<string, Partial<Whitelist>> = {
+  "admin@example.com": { email: "admin@example.com", role: "admin", homeShop: "ECS - Nashville", shops: [] },
+  "tech@example.com": { email: "tech@example.com", role: "technician", homeShop: "ECS - Nashville", shops: [] },
+  "driver@example.com": { email: "driver@example.com", role: "driver", homeShop: "ECS - Atlanta", shops: [] },
+};
+
+function upgradeRequest(url: string): IncomingMessage {
+  return { url, method: "GET", headers: { host: "localhost" } } as unknown as IncomingMessage;
+}
+
+function signedInAs(userId: string | null) {
+  clerkClient.authenticateRequest.mockResolvedValue(
+    userId ? { isSignedIn: true, toAuth: () => ({ userId }) } : { isSignedIn: false },
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storage.getUser.mockImplementation(async (id: string) => users[id]);
+  storage.getWhitelistByEmail.mockImplementation(async (email: string) => whitelist[email.toLowerCase()]);
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("authenticateUpgradeRequest", () => {
+  it("rejects an upgrade without a signed-in session", async () => {
+    signedInAs(null);
+    expect(await authenticateUpgradeRequest(upgradeRequest("/ws/notifications"))).toBeNull();
+  });
+
+  it("rejects signed-in users who aren't whitelisted", async () => {
+    storage.getWhitelistByEmail.mockResolvedValue(undefined);
+    signedInAs("user-tech");
+    expect(await authenticateUpgradeRequest(upgradeRequest("/ws/notifications"))).toBeNull();
+  });
+
+  it("binds the socket to the signed-in user", async () => {
+    signedInAs("user-tech");
+    expect(await authenticateUpgradeRequest(upgradeRequest("/ws/notifications"))).toMatchObject({
+      email: "tech@example.com",
+      role: "technician",
+      persona: false,
+    });
+  });
+
+  it("ignores ?asEmail= from users who aren't admins", async () => {
+    signedInAs("user-tech");
+    const identity = await authenticateUpgradeRequest(upgradeRequest("/ws/notifications?asEmail=driver@example.com"));
+    expect(identity).toMatchObject({ email: "tech@example.com", persona: false });
+  });
+
+  it("lets a whitelisted admin connect as a persona", async () => {
+    signedInAs("user-admin");
+    const identity = await authenticateUpgradeRequest(upgradeRequest("/ws/notifications?asEmail=driver@example.com"));
+    expect(identity).toMatchObject({ email: "driver@example.com", role: "driver", persona: true, accountAdmin: false });
+  });
+
+  it("rejects instead of throwing when the lookup fails", async () => {
+    signedInAs("user-tech");
+    storage.getUser.mockRejectedValue(new Error("connection reset"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await authenticateUpgradeRequest(upgradeRequest("/ws/notifications"))).toBeNull();
+  });
+});
@@ -1,6 +1,8 @@
 import { clerkMiddleware, clerkClient, getAuth } from "@clerk/express";
 import type { Express, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import { storage } from "./storage";
+import type { User } from "@shared/schema";
 
 const hasClerkKeys = !!process.env.CLERK_SECRET_KEY;
 
@@ -143,6 +145,119 @@ export async function getRequestUserName(req: any): Promise<string> {
   return user.email ?? "system";
 }
 
+/**
+ * Who a request acts as: the signed-in user, or a whitelisted persona
+ * when dev tools are enabled and ?asEmail= is given.
+ */
+export interface RequestIdentity {
+  userId: string;
+  email: string; // lowercased
+  role: string | null;
+  homeShop: string | null;
+  shops: string[]; // extra assigned shops
+  activeShop: string | null;
+  persona: boolean;
+  accountAdmin: boolean; // users.role === 'admin' (granted via make-admin), ignored for personas
+}
+
+/**
+ * Personas are an admin tool: with dev tools enabled, only a whitelisted
+ * admin (whitelist role or account role) may act as another user.
+ */
+async function canSwitchPersona(user: User): Promise<boolean> {
+  if (!isDevToolsEnabled() || !user.email) return false;
+  const whitelistEntry = await storage.getWhitelistByEmail(user.email);
+  if (!whitelistEntry) return false;
+  return whitelistEntry.role === "admin" || user.role === "admin";
+}
+
+/** Whether the signed-in user behind a request may use ?asEmail= personas */
+export async function canRequestSwitchPersona(req: any): Promise<boolean> {
+  const userId = getRequestUserId(req);
+  const user = userId ? await storage.getUser(userId) : undefined;
+  return !!user && canSwitchPersona(user);
+}
+
+/**
+ * Resolve a user ID to a whitelisted identity. ?asEmail= is ignored unless
+ * the user may switch personas. Returns null if the user or the persona is
+ * not whitelisted.
+ */
+async function resolveIdentity(userId: string, asEmail: string | null): Promise<RequestIdentity | null> {
+  const user = await storage.getUser(userId);
+  if (!user?.email) return null;
+
+  const persona = !!asEmail && await canSwitchPersona(user);
+  const email = persona ? asEmail! : user.email;
+
+  const whitelistEntry = await storage.getWhitelistByEmail(email);
+  if (!whitelistEntry) return null;
+
+  return {
+    userId,
+    email: email.toLowerCase(),
+    role: whitelistEntry.role,
+    homeShop: whitelistEntry.homeShop,
+    shops: whitelistEntry.shops ?? [],
+    activeShop: whitelistEntry.activeShop,
+    persona,
+    accountAdmin: !persona && user.role === "admin",
+  };
+}
+
+/**
+ * Get the identity for a request protected by isAuthenticated.
+ * Honors ?asEmail= persona switching in dev/staging mode.
+ */
+export async function getRequestIdentity(req: any): Promise<RequestIdentity | null> {
+  const userId = getRequestUserId(req);
+  if (!userId) return null;
+
+  const asEmail = typeof req.query?.asEmail === "string" ? req.query.asEmail : null;
+  return resolveIdentity(userId, asEmail);
+}
+
+// Clerk authenticates web Requests; an upgrade only carries the URL, method and cookie/authorization headers it reads
+function toWebRequest(req: IncomingMessage): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach((item) => headers.append(name, item));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+  const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+  return new Request(url, { method: req.method, headers });
+}
+
+/**
+ * Authenticate a WebSocket upgrade request. Upgrades bypass Express, so
+ * clerkMiddleware never runs; this applies the same checks as
+ * isAuthenticated (mock dev user, or the Clerk session cookie) plus the
+ * whitelist and persona rules.
+ */
+export async function authenticateUpgradeRequest(req: IncomingMessage): Promise<RequestIdentity | null> {
+  try {
+    const url = new URL(req.url || "/", "http://localhost");
+    const asEmail = url.searchParams.get("asEmail");
+
+    // Dev mode without Clerk
+    if (!hasClerkKeys) {
+      return await resolveIdentity(DEV_USER.id, asEmail);
+    }
+
+    // Clerk auth
+    const requestState = await clerkClient.authenticateRequest(toWebRequest(req));
+    const userId = requestState.isSignedIn ? requestState.toAuth().userId : null;
+    if (!userId) return null;
+    return await resolveIdentity(userId, asEmail);
+  } catch (error) {
+    console.error("[Auth] Failed to authenticate WebSocket upgrade:", error);
+    return null;
+  }
+}
+
 /**
  * Sync a Clerk user to our database. Called on /api/auth/user to ensure
  * the user exists in our local users table.
@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getTableName, type SQL } from "drizzle-orm";
+import { PgDialect, type PgTable } from "drizzle-orm/pg-core";
+import type { Job, JobPart } from "@shared/schema";
+
+// Every query goes through this fake instead of Neon; it records what was
+// deleted or updated and returns the rows queued for each table
+const { db } = vi.hoisted(() => ({ db: {} as any }));
+vi.mock("@neondatabase/serverless", () => ({ Pool: vi.fn(), neonConfig: {} }));
+vi.mock("drizzle-orm/neon-serverless", () => ({ drizzle: () => db }));
+
+const { DatabaseStorage } = await import("./database");
+
+const dialect = new PgDialect();
+
+interface Call {
+  op: "delete" | "update" | "select";
+  table: string;
+  where?: string;
+  set?: Record<string, unknown>;
+}
+
+let calls: Call[];
+let rows: Record<string, unknown[]>;
+
+function render(condition: SQL): string {
+  const { sql, params } = dialect.sqlToQuery(condition);
+  return `${sql} ${JSON.stringify(params)}`;
+}
+
+// A builder chain that resolves to the table's queued rows wherever the code awaits it
+function chain(call: Call): any {
+  const result = () => Promise.resolve(rows[call.table] ?? []);
+  const builder: any = {
+    where(condition: SQL) {
+      call.where = render(condition);
+      return builder;
+    },
+    set(values: Record<string, unknown>) {
+      call.set = values;
+      return builder;
+    },
+    returning: result,
+    leftJoin: () => builder,
+    orderBy: () => builder,
+    then: (resolve: any, reject: any) => result().then(resolve, reject),
+  };
+  return builder;
+}
+
+function record(op: Call["op"], table: PgTable) {
+  const call: Call = { op, table: getTableName(table) };
+  calls.push(call);
+  return chain(call);
+}
+
+Object.assign(db, {
+  delete: (table: PgTable) => record("delete", table),
+  update: (table: PgTable) => record("update", table),
+  select: () => ({ from: (table: PgTable) => record("select", table) }),
+  transaction: (run: (tx: unknown) => Promise<unknown>) => run(db),
+});
+
+const storage = new DatabaseStorage();
+
+const purgedJob = { id: "uuid-1", jobId: "ECS-20260301090000-01", deletedAt: new Date() } as Job;
+
+beforeEach(() => {
+  calls = [];
+  rows = {};
+});
+
+describe("purgeJob", () => {
+  it("removes the job and everything recorded against it", async () => {
+    rows = {
+      jobs: [purgedJob],
+      job_parts: [{ ecsSerial: "01.030126.01" }, { ecsSerial: null }, { ecsSerial: "01.030126.02" }],
+      job_comments: [{ id: "comment-1" }],
+      attachments: [{ storageBackend: "local", storageKey: "attachments/a.jpg" }],
+      job_documents: [{ storageBackend: "object", storageKey: "documents/cert.pdf" }],
+    };
+
+    const result = await storage.purgeJob(purgedJob.id);
+
+    expect(result).toEqual({
+      job: purgedJob,
+      files: [
+        { storageBackend: "local", storageKey: "attachments/a.jpg" },
+        { storageBackend: "object", storageKey: "documents/cert.pdf" },
+      ],
+    });
+    expect(calls.filter((call) => call.op === "delete").map((call) => call.table)).toEqual([
+      "jobs",
+      "job_parts",
+      "job_comments",
+      "job_comment_revisions",
+      "job_events",
+      "form_submissions",
+      "notifications",
+      "sheets_sync_queue",
+      "attachments",
+      "job_documents",
+    ]);
+    // Only a job already in the trash can be purged
+    expect(calls[0].where).toContain('"deleted_at" is not null');
+    // Events recorded under the job's UUID go too
+    const eventsWhere = calls.find((call) => call.table === "job_events")!.where;
+    expect(eventsWhere).toContain(purgedJob.id);
+    expect(eventsWhere).toContain(purgedJob.jobId);
+  });
+
+  it("drops each part's serial from ecs_serial_tracking", async () => {
+    rows = {
+      jobs: [purgedJob],
+      job_parts: [{ ecsSerial: "01.030126.01" }, { ecsSerial: null }, { ecsSerial: "01.030126.02" }],
+    };
+
+    await storage.purgeJob(purgedJob.id);
+
+    const serialUpdates = calls.filter((call) => call.table === "ecs_serial_tracking");
+    expect(serialUpdates).toHaveLength(2);
+    expect(serialUpdates.map((call) => render(call.set!.usedSerials as SQL))).toEqual([
+      expect.stringMatching(/array_remove\("ecs_serial_tracking"\."used_serials", \$1\) \["01\.030126\.01"\]/),
+      expect.stringMatching(/array_remove\("ecs_serial_tracking"\."used_serials", \$1\) \["01\.030126\.02"\]/),
+    ]);
+    expect(serialUpdates[0].where).toContain('= ANY("ecs_serial_tracking"."used_serials")');
+  });
+
+  it("skips comment revisions when the job has no comments", async () => {
+    rows = { jobs: [purgedJob] };
+    await storage.purgeJob(purgedJob.id);
+    expect(calls.map((call) => call.table)).not.toContain("job_comment_revisions");
+  });
+
+  it("touches nothing else when the job isn't in the trash", async () => {
+    expect(await storage.purgeJob("uuid-missing")).toBeUndefined();
+    expect(calls.map((call) => call.table)).toEqual(["jobs"]);
+  });
+});
+
+describe("deleted parts keep their serial", () => {
+  const trashedPart = { id: "part-1", jobId: purgedJob.jobId, ecsSerial: "01.030126.01", deletedAt: new Date() } as JobPart;
+
+  it("leaves the serial reserved when a part is deleted or restored", async () => {
+    rows = { job_parts: [trashedPart] };
+
+    await storage.softDeleteJobPart(trashedPart.id, "admin@example.com");
+    await storage.restoreJobPart(trashedPart.id);
+
+    expect(calls.map((call) => call.table)).toEqual(["job_parts", "job_parts"]);
+    for (const call of calls) {
+      expect(call.set).not.toHaveProperty("ecsSerial");
+    }
+  });
+
+  it("counts a deleted part's serial as taken", async () => {
+    rows = { ecs_serial_tracking: [], job_parts: [trashedPart] };
+
+    expect(await storage.isSerialNumberAvailable("01.030126.01")).toBe(false);
+    expect(calls.find((call) => call.table === "job_parts")!.where).not.toContain("deleted_at");
+  });
+});
@@ -1,14 +1,80 @@
 import { drizzle } from "drizzle-orm/neon-serverless";
 import { Pool, neonConfig } from "@neondatabase/serverless";
-import { jobs, technicians, jobEvents, users, whitelist, jobComments, jobParts, ecsSerialTracking, jobListTabs, formSubmissions, type Job, type InsertJob, type Technician, type InsertTechnician, type JobEvent, type InsertJobEvent, type User, type UpsertUser, type Whitelist, type InsertWhitelist, type JobComment, type InsertJobComment, type JobPart, type InsertJobPart, type JobListTab, type InsertJobListTab, type FormSubmission, type InsertFormSubmission } from "@shared/schema";
-import { eq, desc, and, sql as drizzleSql } from "drizzle-orm";
+import { jobs, technicians, jobEvents, users, whitelist, jobComments, jobCommentRevisions, jobParts, ecsSerialTracking, jobListTabs, formSubmissions, workflowDefinitions, attachments, jobDocuments, sheetsSyncQueue, notifications, pushSubscriptions, notificationPreferences, customerNotificationSettings, customerNotificationTemplates, auditLog, slaTargets, shopBusinessHours, shops, type Job, type InsertJob, type Technician, type InsertTechnician, type JobEvent, type InsertJobEvent, type User, type UpsertUser, type Whitelist, type InsertWhitelist, type JobComment, type InsertJobComment, type JobCommentRevision, type InsertJobCommentRevision, type JobPart, type InsertJobPart, type JobListTab, type InsertJobListTab, type FormSubmission, type InsertFormSubmission, type WorkflowDefinition, type InsertWorkflowDefinition, type Attachment, type InsertAttachment, type JobDocument, type InsertJobDocument, type SheetsSyncQueueEntry, type InsertSheetsSyncQueueEntry, type Notification, type InsertNotification, type PushSubscription, type InsertPushSubscription, type NotificationPreferences, type NotificationType, type CustomerNotificationSettings, type InsertCustomerNotificationSettings, type CustomerNotificationTemplate, type InsertCustomerNotificationTemplate, type CustomerMilestone, type CustomerNotificationChannel, type AuditLogEntry, type InsertAuditLogEntry, type SlaTarget, type InsertSlaTarget, type ShopBusinessHours, type ShopBusinessHoursInput, type Shop, type InsertShop, type UpdateShop } from "@shared/schema";
+import { eq, ne, desc, asc, and, or, isNull, isNotNull, lte, gte, inArray, ilike, count, getTableColumns, sql as drizzleSql, type SQL, type SQLWrapper, type AnyColumn } from "drizzle-orm";
 import { randomUUID } from "crypto";
-import { IStorage } from "./storage";
+import type { IStorage, JobListQuery, PartListQuery, PagedResult, JobWithPartStatus, JobPartWithJob, PartStatusPriority, SearchScope, TextSearchHit, AuditLogQuery, AnalyticsScope, AnalyticsDimension, AnalyticsStage, DurationStats, DurationGroup, WeeklyDurationStats, JobCommentWithAuthor, SerializedPart, PurgedJob } from "./storage";
 import ws from "ws";
 import { generateJobId } from "@shared/shopCodes";
 
 export type WhitelistWithRole = Whitelist;
 
+// Markers ts_headline puts around matched words; control characters can't appear in typed text
+export const SEARCH_HIGHLIGHT = { start: "\u0002", stop: "\u0003" };
+
+const jobColumns = getTableColumns(jobs);
+const jobPartColumns = getTableColumns(jobParts);
+
+/** Escape LIKE wildcards so search text is matched literally */
+function containsPattern(search: string): string {
+  return `%${search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+/** Jobs in any of the given shops; an empty list matches nothing */
+function inShops(shopNames: string[]): SQL {
+  return shopNames.length > 0 ? inArray(jobs.shopName, shopNames) : drizzleSql`false`;
+}
+
+// Soft-deleted jobs and parts are left out of every read except the trash (and serial availability)
+const jobNotDeleted = isNull(jobs.deletedAt);
+const partNotDeleted = isNull(jobParts.deletedAt);
+
+/** Look up a sortable column by its schema name (query strings can't reach object prototype keys) */
+function pickColumn(columns: Record<string, AnyColumn>, name: string | undefined): AnyColumn | undefined {
+  return name && Object.prototype.hasOwnProperty.call(columns, name) ? columns[name] : undefined;
+}
+
+/** ORDER BY a column, keeping nulls last in both directions */
+function orderByColumn(column: AnyColumn, order: 'asc' | 'desc' | undefined): SQL {
+  return order === 'asc'
+    ? drizzleSql`${column} asc nulls last`
+    : drizzleSql`${column} desc nulls last`;
+}
+
+// Minutes from creation to completion (ready for pickup or delivered)
+const turnaroundMinutes = drizzleSql<number>`extract(epoch from (${jobs.completedAt} - ${jobs.initiatedAt})) / 60`;
+
+/** Minutes between two timestamps; null unless both are set and end follows start */
+function minutesBetween(start: SQLWrapper, end: SQLWrapper): SQL<number | null> {
+  return drizzleSql`case when ${end} > ${start} then extract(epoch from (${end} - ${start})) / 60 end`;
+}
+
+/** Count, mean and percentiles of a duration in minutes (aggregates skip nulls) */
+function durationStats(minutes: SQL) {
+  const percentile = (fraction: string) =>
+    drizzleSql<number | null>`round(percentile_cont(${drizzleSql.raw(fraction)}) within group (order by ${minutes}))::int`;
+  return {
+    count: drizzleSql<number>`count(${minutes})::int`,
+    avg: drizzleSql<number | null>`round(avg(${minutes}))::int`,
+    p50: percentile("0.5"),
+    p75: percentile("0.75"),
+    p90: percentile("0.9"),
+    max: drizzleSql<number | null>`round(max(${minutes}))::int`,
+  };
+}
+
+/** Jobs completed in the scope's date range, excluding cancelled and deleted ones */
+function completedInScope(scope: AnalyticsScope): SQL | undefined {
+  return and(
+    jobNotDeleted,
+    ne(jobs.state, 'cancelled'),
+    isNotNull(jobs.completedAt),
+    gte(jobs.completedAt, scope.completedFrom),
+    lte(jobs.completedAt, scope.completedTo),
+    scope.shopNames ? inShops(scope.shopNames) : undefined,
+  );
+}
+
 neonConfig.webSocketConstructor = ws;
 
 export class DatabaseStorage implements IStorage {
@@ -21,26 +87,42 @@ export class DatabaseStorage implements IStorage {
 
   // Job methods
   async getJob(id: string): Promise<Job | undefined> {
-    const result = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    const result = await this.db.select().from(jobs).where(and(eq(jobs.id, id), jobNotDeleted));
     return result[0];
   }
 
   async getJobByJobId(jobId: string): Promise<Job | undefined> {
-    const result = await this.db.select().from(jobs).where(eq(jobs.jobId, jobId));
+    const result = await this.db.select().from(jobs).where(and(eq(jobs.jobId, jobId), jobNotDeleted));
     return result[0];
   }
 
   async createJob(insertJob: InsertJob): Promise<Job> {
     // Generate Job ID using the centralized format: ECS-YYYYMMDDHHMMSS-XX (shop code)
-    // Uses shopName from the job data to ensure consistent shop code
-    const jobId = generateJobId(insertJob.shopName);
-    const result = await this.db.insert(jobs).values({
-      jobId,
-      gocanvasSynced: "false",
-      googleSheetsSynced: "false",
-      ...insertJob,
-    }).returning();
-    return result[0];
+    // Uses the registry entry for the job's shop so the code and local time are consistent
+    const shop = await this.getShopByName(insertJob.shopName);
+    if (!shop) {
+      throw new Error(`Unknown shop "${insertJob.shopName}"`);
+    }
+    // Pin the shop's active workflow version so later edits don't change this job's flow
+    const workflow = await this.getActiveWorkflowDefinition(insertJob.shopName);
+
+    // IDs have one-second resolution, so two jobs in the same second (or the same local
+    // second twice during a DST fall-back hour) collide on the unique job_id; take the next second
+    const now = Date.now();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this.db.insert(jobs).values({
+          jobId: generateJobId(shop, new Date(now + attempt * 1000)),
+          gocanvasSynced: "false",
+          googleSheetsSynced: "false",
+          workflowId: workflow?.id ?? null,
+          ...insertJob,
+        }).returning();
+        return result[0];
+      } catch (error: any) {
+        if (error?.code !== '23505' || attempt >= 4) throw error;
+      }
+    }
   }
 
   async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
@@ -48,28 +130,156 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async deleteJob(id: string): Promise<void> {
-    await this.db.delete(jobs).where(eq(jobs.id, id));
+  async deleteJob(id: string): Promise<PurgedJob | undefined> {
+    return await this.removeJob(eq(jobs.id, id));
+  }
+
+  async softDeleteJob(id: string, deletedBy: string | null): Promise<Job | undefined> {
+    const result = await this.db
+      .update(jobs)
+      .set({ deletedAt: new Date(), deletedBy })
+      .where(and(eq(jobs.id, id), jobNotDeleted))
+      .returning();
+    return result[0];
+  }
+
+  async restoreJob(id: string): Promise<Job | undefined> {
+    const result = await this.db
+      .update(jobs)
+      .set({ deletedAt: null, deletedBy: null })
+      .where(and(eq(jobs.id, id), isNotNull(jobs.deletedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async purgeJob(id: string): Promise<PurgedJob | undefined> {
+    return await this.removeJob(and(eq(jobs.id, id), isNotNull(jobs.deletedAt))!);
+  }
+
+  // Delete a job and everything recorded against it in one transaction (the audit log is kept)
+  private async removeJob(where: SQL): Promise<PurgedJob | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [job] = await tx.delete(jobs).where(where).returning();
+      if (!job) return undefined;
+
+      const parts = await tx.delete(jobParts).where(eq(jobParts.jobId, job.jobId)).returning({ ecsSerial: jobParts.ecsSerial });
+      const comments = await tx.delete(jobComments).where(eq(jobComments.jobId, job.jobId)).returning({ id: jobComments.id });
+      if (comments.length > 0) {
+        await tx.delete(jobCommentRevisions).where(inArray(jobCommentRevisions.commentId, comments.map((comment) => comment.id)));
+      }
+      // Older events were keyed by the job's UUID
+      await tx.delete(jobEvents).where(inArray(jobEvents.jobId, [job.id, job.jobId]));
+      await tx.delete(formSubmissions).where(eq(formSubmissions.jobId, job.jobId));
+      await tx.delete(notifications).where(eq(notifications.jobId, job.jobId));
+      await tx.delete(sheetsSyncQueue).where(eq(sheetsSyncQueue.jobId, job.jobId));
+
+      const attachmentFiles = await tx.delete(attachments)
+        .where(eq(attachments.jobId, job.jobId))
+        .returning({ storageBackend: attachments.storageBackend, storageKey: attachments.storageKey });
+      const documentFiles = await tx.delete(jobDocuments)
+        .where(eq(jobDocuments.jobId, job.jobId))
+        .returning({ storageBackend: jobDocuments.storageBackend, storageKey: jobDocuments.storageKey });
+
+      // Drop the parts' serials from the per-day tracking rows
+      for (const { ecsSerial } of parts) {
+        if (!ecsSerial) continue;
+        await tx.update(ecsSerialTracking)
+          .set({ usedSerials: drizzleSql`array_remove(${ecsSerialTracking.usedSerials}, ${ecsSerial})`, updatedAt: new Date() })
+          .where(drizzleSql`${ecsSerial} = ANY(${ecsSerialTracking.usedSerials})`);
+      }
+
+      return { job, files: [...attachmentFiles, ...documentFiles] };
+    });
+  }
+
+  async getDeletedJobs(): Promise<Job[]> {
+    return await this.db.select().from(jobs)
+      .where(isNotNull(jobs.deletedAt))
+      .orderBy(desc(jobs.deletedAt));
   }
 
   async getAllJobs(): Promise<Job[]> {
-    const result = await this.db.select().from(jobs).orderBy(desc(jobs.initiatedAt));
+    const result = await this.db.select().from(jobs).where(jobNotDeleted).orderBy(desc(jobs.initiatedAt));
     return result;
   }
 
+  async listJobs(query: JobListQuery): Promise<PagedResult<JobWithPartStatus>> {
+    const conditions: SQL[] = [jobNotDeleted];
+    if (query.shopNames) {
+      conditions.push(inShops(query.shopNames));
+    }
+    if (query.states?.length) {
+      conditions.push(inArray(jobs.state, query.states));
+    }
+    if (query.search) {
+      const pattern = containsPattern(query.search);
+      conditions.push(or(ilike(jobs.jobId, pattern), ilike(jobs.customerName, pattern))!);
+    }
+    if (query.initiatedFrom) {
+      conditions.push(gte(jobs.initiatedAt, query.initiatedFrom));
+    }
+    if (query.initiatedTo) {
+      conditions.push(lte(jobs.initiatedAt, query.initiatedTo));
+    }
+    if (query.slaStatuses?.length) {
+      conditions.push(inArray(jobs.slaStatus, query.slaStatuses));
+    }
+    const where = and(...conditions);
+
+    let sortColumn = pickColumn(jobColumns, query.sortBy);
+    let sortOrder = query.sortOrder;
+    if (!query.sortBy || !sortColumn) {
+      sortColumn = jobs.initiatedAt;
+      sortOrder = 'desc';
+    }
+
+    const [rows, totals] = await Promise.all([
+      this.db.select().from(jobs)
+        .where(where)
+        .orderBy(orderByColumn(sortColumn, sortOrder), asc(jobs.id)) // id keeps page boundaries stable
+        .limit(query.limit)
+        .offset(query.offset),
+      this.db.select({ total: count() }).from(jobs).where(where),
+    ]);
+
+    // Part status badge for the page in one grouped query rather than one per job
+    const priorities = new Map<string, PartStatusPriority>();
+    if (rows.length > 0) {
+      const partStatuses = await this.db
+        .select({
+          jobId: jobParts.jobId,
+          hasWoa: drizzleSql<boolean>`bool_or(${jobParts.status} = 'W.O.A')`,
+          hasFailed: drizzleSql<boolean>`bool_or(${jobParts.status} = 'Failed')`,
+          allApproved: drizzleSql<boolean>`bool_and(coalesce(${jobParts.status} = 'Approved', false))`,
+        })
+        .from(jobParts)
+        .where(and(inArray(jobParts.jobId, rows.map(job => job.jobId)), partNotDeleted))
+        .groupBy(jobParts.jobId);
+
+      for (const row of partStatuses) {
+        priorities.set(row.jobId, row.hasWoa ? 'woa' : row.hasFailed ? 'failed' : row.allApproved ? 'approved' : null);
+      }
+    }
+
+    return {
+      data: rows.map(job => ({ ...job, partStatusPriority: priorities.get(job.jobId) ?? null })),
+      total: totals[0]?.total ?? 0,
+    };
+  }
+
   async getJobsByStatus(status: string): Promise<Job[]> {
     // For backward compatibility, map old status to new state
-    const result = await this.db.select().from(jobs).where(eq(jobs.state, status));
+    const result = await this.db.select().from(jobs).where(and(eq(jobs.state, status), jobNotDeleted));
     return result;
   }
 
   async getJobsByState(state: string): Promise<Job[]> {
-    const result = await this.db.select().from(jobs).where(eq(jobs.state, state)).orderBy(desc(jobs.initiatedAt));
+    const result = await this.db.select().from(jobs).where(and(eq(jobs.state, state), jobNotDeleted)).orderBy(desc(jobs.initiatedAt));
     return result;
   }
 
   async getJobsByTechnician(technicianEmail: string): Promise<Job[]> {
-    const result = await this.db.select().from(jobs).where(eq(jobs.shopHandoff, technicianEmail));
+    const result = await this.db.select().from(jobs).where(and(eq(jobs.shopHandoff, technicianEmail), jobNotDeleted));
     return result;
   }
 
@@ -88,6 +298,10 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async getJobEventsByTypes(eventTypes: string[]): Promise<JobEvent[]> {
+    return this.db.select().from(jobEvents).where(inArray(jobEvents.eventType, eventTypes)).orderBy(jobEvents.timestamp);
+  }
+
   async getAllJobEvents(limit?: number): Promise<JobEvent[]> {
     const query = this.db.select().from(jobEvents).orderBy(desc(jobEvents.timestamp));
     if (limit) {
@@ -208,6 +422,8 @@ export class DatabaseStorage implements IStorage {
         email: whitelist.email,
         role: whitelist.role,
         homeShop: whitelist.homeShop,
+        shops: whitelist.shops,
+        activeShop: whitelist.activeShop,
         addedBy: whitelist.addedBy,
         createdAt: whitelist.createdAt,
       })
@@ -233,6 +449,24 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async updateWhitelistShops(email: string, shops: string[]): Promise<Whitelist | undefined> {
+    const result = await this.db
+      .update(whitelist)
+      .set({ shops })
+      .where(eq(whitelist.email, email.toLowerCase()))
+      .returning();
+    return result[0];
+  }
+
+  async updateWhitelistActiveShop(email: string, activeShop: string | null): Promise<Whitelist | undefined> {
+    const result = await this.db
+      .update(whitelist)
+      .set({ activeShop })
+      .where(eq(whitelist.email, email.toLowerCase()))
+      .returning();
+    return result[0];
+  }
+
   // Job Comment methods
   async createJobComment(insertComment: InsertJobComment): Promise<JobComment> {
     const result = await this.db.insert(jobComments).values({
@@ -242,14 +476,15 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async getJobComments(jobId: string): Promise<any[]> {
+  async getJobComment(id: string): Promise<JobComment | undefined> {
+    const result = await this.db.select().from(jobComments).where(eq(jobComments.id, id));
+    return result[0];
+  }
+
+  async getJobComments(jobId: string): Promise<JobCommentWithAuthor[]> {
     const result = await this.db
       .select({
-        id: jobComments.id,
-        jobId: jobComments.jobId,
-        userId: jobComments.userId,
-        commentText: jobComments.commentText,
-        createdAt: jobComments.createdAt,
+        ...getTableColumns(jobComments),
         userEmail: users.email,
         userFirstName: users.firstName,
         userLastName: users.lastName,
@@ -261,6 +496,32 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async updateJobComment(id: string, updates: Partial<JobComment>): Promise<JobComment | undefined> {
+    const result = await this.db.update(jobComments).set(updates).where(eq(jobComments.id, id)).returning();
+    return result[0];
+  }
+
+  async createJobCommentRevision(revision: InsertJobCommentRevision): Promise<JobCommentRevision> {
+    const result = await this.db.insert(jobCommentRevisions).values(revision).returning();
+    return result[0];
+  }
+
+  async getJobCommentRevisions(commentId: string): Promise<JobCommentRevision[]> {
+    return await this.db.select().from(jobCommentRevisions)
+      .where(eq(jobCommentRevisions.commentId, commentId))
+      .orderBy(desc(jobCommentRevisions.editedAt));
+  }
+
+  async getJobCommentRevisionCounts(jobId: string): Promise<Record<string, number>> {
+    const rows = await this.db
+      .select({ commentId: jobCommentRevisions.commentId, revisions: count() })
+      .from(jobCommentRevisions)
+      .innerJoin(jobComments, eq(jobCommentRevisions.commentId, jobComments.id))
+      .where(eq(jobComments.jobId, jobId))
+      .groupBy(jobCommentRevisions.commentId);
+    return Object.fromEntries(rows.map((row) => [row.commentId, row.revisions]));
+  }
+
   // Job Part methods
   async createJobPart(insertPart: InsertJobPart): Promise<JobPart> {
     const result = await this.db.insert(jobParts).values({
@@ -274,7 +535,7 @@ export class DatabaseStorage implements IStorage {
     const result = await this.db
       .select()
       .from(jobParts)
-      .where(eq(jobParts.jobId, jobId))
+      .where(and(eq(jobParts.jobId, jobId), partNotDeleted))
       .orderBy(jobParts.createdAt);
     return result;
   }
@@ -284,6 +545,7 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(jobParts)
       .leftJoin(jobs, eq(jobParts.jobId, jobs.jobId))
+      .where(and(partNotDeleted, jobNotDeleted))
       .orderBy(desc(jobParts.createdAt));
     
     return result.map(row => ({
@@ -292,6 +554,68 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async listJobParts(query: PartListQuery): Promise<PagedResult<JobPartWithJob>> {
+    // Parts of a deleted job go to the trash with it (jobs columns are null only for orphaned parts)
+    const conditions: SQL[] = [partNotDeleted, jobNotDeleted];
+    if (query.shopNames) {
+      conditions.push(inShops(query.shopNames));
+    }
+    if (query.jobStates?.length) {
+      conditions.push(inArray(jobs.state, query.jobStates));
+    }
+    if (query.diagnoses?.length) {
+      conditions.push(inArray(jobParts.diagnosis, query.diagnoses));
+    }
+    if (query.statuses?.length) {
+      conditions.push(inArray(jobParts.status, query.statuses));
+    }
+    if (query.search) {
+      const pattern = containsPattern(query.search);
+      conditions.push(or(
+        ilike(jobParts.part, pattern),
+        ilike(jobs.jobId, pattern),
+        ilike(jobs.customerName, pattern),
+      )!);
+    }
+    if (query.createdFrom) {
+      conditions.push(gte(jobParts.createdAt, query.createdFrom));
+    }
+    if (query.createdTo) {
+      conditions.push(lte(jobParts.createdAt, query.createdTo));
+    }
+    const where = and(...conditions);
+
+    // "job.customerName" sorts by the parent job's column
+    let sortColumn = query.sortBy?.startsWith('job.')
+      ? pickColumn(jobColumns, query.sortBy.substring(4))
+      : pickColumn(jobPartColumns, query.sortBy);
+    let sortOrder = query.sortOrder;
+    if (!query.sortBy || !sortColumn) {
+      sortColumn = jobParts.createdAt;
+      sortOrder = 'desc';
+    }
+
+    const [rows, totals] = await Promise.all([
+      this.db.select().from(jobParts)
+        .leftJoin(jobs, eq(jobParts.jobId, jobs.jobId))
+        .where(where)
+        .orderBy(orderByColumn(sortColumn, sortOrder), asc(jobParts.id))
+        .limit(query.limit)
+        .offset(query.offset),
+      this.db.select({ total: count() }).from(jobParts)
+        .leftJoin(jobs, eq(jobParts.jobId, jobs.jobId))
+        .where(where),
+    ]);
+
+    return {
+      data: rows.map(row => ({
+        ...row.job_parts,
+        job: row.jobs,
+      })),
+      total: totals[0]?.total ?? 0,
+    };
+  }
+
   async updateJobPart(id: string, updates: Partial<JobPart>): Promise<JobPart | undefined> {
     const result = await this.db
       .update(jobParts)
@@ -301,8 +625,50 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async deleteJobPart(id: string): Promise<void> {
-    await this.db.delete(jobParts).where(eq(jobParts.id, id));
+  async softDeleteJobPart(id: string, deletedBy: string | null): Promise<JobPart | undefined> {
+    const result = await this.db
+      .update(jobParts)
+      .set({ deletedAt: new Date(), deletedBy })
+      .where(and(eq(jobParts.id, id), partNotDeleted))
+      .returning();
+    return result[0];
+  }
+
+  async restoreJobPart(id: string): Promise<JobPart | undefined> {
+    const result = await this.db
+      .update(jobParts)
+      .set({ deletedAt: null, deletedBy: null })
+      .where(and(eq(jobParts.id, id), isNotNull(jobParts.deletedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async purgeJobPart(id: string): Promise<JobPart | undefined> {
+    const result = await this.db
+      .delete(jobParts)
+      .where(and(eq(jobParts.id, id), isNotNull(jobParts.deletedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async getDeletedJobPart(id: string): Promise<JobPartWithJob | undefined> {
+    const [row] = await this.db.select().from(jobParts)
+      .leftJoin(jobs, eq(jobParts.jobId, jobs.jobId))
+      .where(and(eq(jobParts.id, id), isNotNull(jobParts.deletedAt)));
+
+    return row ? { ...row.job_parts, job: row.jobs } : undefined;
+  }
+
+  async getDeletedJobParts(): Promise<JobPartWithJob[]> {
+    const result = await this.db.select().from(jobParts)
+      .leftJoin(jobs, eq(jobParts.jobId, jobs.jobId))
+      .where(isNotNull(jobParts.deletedAt))
+      .orderBy(desc(jobParts.deletedAt));
+
+    return result.map(row => ({
+      ...row.job_parts,
+      job: row.jobs,
+    }));
   }
 
 
@@ -412,7 +778,8 @@ export class DatabaseStorage implements IStorage {
       }
     }
     
-    // Check if it's already assigned to a part (excluding current part if editing)
+    // Check if it's already assigned to a part (excluding current part if editing).
+    // Soft-deleted parts still hold their serial so it's there if they're restored.
     let query = this.db
       .select()
       .from(jobParts)
@@ -428,6 +795,32 @@ export class DatabaseStorage implements IStorage {
     
     return existingParts.length === 0;
   }
+
+  async getJobPartBySerial(serialNumber: string): Promise<JobPart | undefined> {
+    const result = await this.db.select().from(jobParts).where(and(eq(jobParts.ecsSerial, serialNumber), partNotDeleted));
+    return result[0];
+  }
+
+  async getSerializedParts(): Promise<SerializedPart[]> {
+    const rows = await this.db
+      .select({
+        partId: jobParts.id,
+        jobId: jobParts.jobId,
+        shopName: jobs.shopName,
+        ecsSerial: jobParts.ecsSerial,
+        createdAt: jobParts.createdAt,
+      })
+      .from(jobParts)
+      .innerJoin(jobs, eq(jobParts.jobId, jobs.jobId))
+      .where(isNotNull(jobParts.ecsSerial))
+      .orderBy(jobParts.createdAt);
+    return rows.filter((row): row is SerializedPart => !!row.ecsSerial);
+  }
+
+  async getJobPart(id: string): Promise<JobPart | undefined> {
+    const result = await this.db.select().from(jobParts).where(and(eq(jobParts.id, id), partNotDeleted));
+    return result[0];
+  }
   
   async reserveSerialNumber(shopCode: string, date: string, sequence: number, serialNumber: string): Promise<void> {
     // Get or create tracking record
@@ -473,6 +866,11 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async getTab(id: string): Promise<JobListTab | undefined> {
+    const result = await this.db.select().from(jobListTabs).where(eq(jobListTabs.id, id));
+    return result[0];
+  }
+
   async createTab(tab: InsertJobListTab): Promise<JobListTab> {
     const result = await this.db.insert(jobListTabs).values(tab).returning();
     return result[0];
@@ -535,6 +933,686 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Workflow Definition methods
+  async getWorkflowDefinition(id: string): Promise<WorkflowDefinition | undefined> {
+    const result = await this.db.select().from(workflowDefinitions).where(eq(workflowDefinitions.id, id));
+    return result[0];
+  }
+
+  // Active version for a shop, falling back to the active default (shopName null) definition
+  async getActiveWorkflowDefinition(shopName: string | null): Promise<WorkflowDefinition | undefined> {
+    if (shopName) {
+      const result = await this.db.select().from(workflowDefinitions)
+        .where(and(eq(workflowDefinitions.shopName, shopName), eq(workflowDefinitions.active, "true")))
+        .orderBy(desc(workflowDefinitions.version))
+        .limit(1);
+      if (result[0]) return result[0];
+    }
+
+    const result = await this.db.select().from(workflowDefinitions)
+      .where(and(isNull(workflowDefinitions.shopName), eq(workflowDefinitions.active, "true")))
+      .orderBy(desc(workflowDefinitions.version))
+      .limit(1);
+    return result[0];
+  }
+
+  async getWorkflowDefinitions(): Promise<WorkflowDefinition[]> {
+    return await this.db.select().from(workflowDefinitions)
+      .orderBy(workflowDefinitions.shopName, desc(workflowDefinitions.version));
+  }
+
+  async createWorkflowVersion(definition: InsertWorkflowDefinition, activate: boolean): Promise<WorkflowDefinition> {
+    const shopName = definition.shopName ?? null;
+
+    // Two admins saving at once can both pick the same next version; the unique
+    // (shop_name, version) constraint rejects one, which retries with a fresh number
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.insertWorkflowVersion(definition, shopName, activate);
+      } catch (error: any) {
+        if (error?.code !== '23505' || attempt >= 3) throw error;
+      }
+    }
+  }
+
+  private async insertWorkflowVersion(definition: InsertWorkflowDefinition, shopName: string | null, activate: boolean): Promise<WorkflowDefinition> {
+    const shopFilter = shopName ? eq(workflowDefinitions.shopName, shopName) : isNull(workflowDefinitions.shopName);
+
+    return await this.db.transaction(async (tx) => {
+      const [latest] = await tx.select({ version: workflowDefinitions.version })
+        .from(workflowDefinitions)
+        .where(shopFilter)
+        .orderBy(desc(workflowDefinitions.version))
+        .limit(1);
+
+      if (activate) {
+        await tx.update(workflowDefinitions).set({ active: "false" }).where(shopFilter);
+      }
+
+      const result = await tx.insert(workflowDefinitions).values({
+        ...definition,
+        shopName,
+        version: (latest?.version ?? 0) + 1,
+        active: activate ? "true" : "false",
+      }).returning();
+      return result[0];
+    });
+  }
+
+  // Make an existing version the active one for its shop (e.g. rolling back a bad edit)
+  async activateWorkflowDefinition(id: string): Promise<WorkflowDefinition | undefined> {
+    const definition = await this.getWorkflowDefinition(id);
+    if (!definition) return undefined;
+
+    const shopFilter = definition.shopName
+      ? eq(workflowDefinitions.shopName, definition.shopName)
+      : isNull(workflowDefinitions.shopName);
+
+    return await this.db.transaction(async (tx) => {
+      await tx.update(workflowDefinitions).set({ active: "false" }).where(shopFilter);
+      const result = await tx.update(workflowDefinitions)
+        .set({ active: "true" })
+        .where(eq(workflowDefinitions.id, id))
+        .returning();
+      return result[0];
+    });
+  }
+
+  // Attachment methods
+  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const result = await this.db.insert(attachments).values({
+      id: randomUUID(),
+      ...attachment,
+    }).returning();
+    return result[0];
+  }
+
+  async getAttachment(id: string): Promise<Attachment | undefined> {
+    const result = await this.db.select().from(attachments).where(eq(attachments.id, id));
+    return result[0];
+  }
+
+  async getAttachmentByClientId(clientId: string): Promise<Attachment | undefined> {
+    const result = await this.db.select().from(attachments).where(eq(attachments.clientId, clientId));
+    return result[0];
+  }
+
+  // Photos only; files attached to comments are listed with the comments
+  async getAttachmentsByJob(jobId: string): Promise<Attachment[]> {
+    return await this.db.select().from(attachments)
+      .where(and(eq(attachments.jobId, jobId), isNull(attachments.commentId)))
+      .orderBy(attachments.createdAt);
+  }
+
+  async getCommentAttachmentsByJob(jobId: string): Promise<Attachment[]> {
+    return await this.db.select().from(attachments)
+      .where(and(eq(attachments.jobId, jobId), isNotNull(attachments.commentId)))
+      .orderBy(attachments.createdAt);
+  }
+
+  async getAttachmentsBySubmission(submissionId: string): Promise<Attachment[]> {
+    return await this.db.select().from(attachments)
+      .where(eq(attachments.submissionId, submissionId))
+      .orderBy(attachments.createdAt);
+  }
+
+  async getAttachmentsByPart(partId: string): Promise<Attachment[]> {
+    return await this.db.select().from(attachments)
+      .where(eq(attachments.partId, partId))
+      .orderBy(attachments.createdAt);
+  }
+
+  async deleteAttachment(id: string): Promise<void> {
+    await this.db.delete(attachments).where(eq(attachments.id, id));
+  }
+
+  // Job document methods
+  async createJobDocument(document: InsertJobDocument): Promise<JobDocument> {
+    const result = await this.db.insert(jobDocuments).values({
+      id: randomUUID(),
+      ...document,
+    }).returning();
+    return result[0];
+  }
+
+  async getJobDocument(id: string): Promise<JobDocument | undefined> {
+    const result = await this.db.select().from(jobDocuments).where(eq(jobDocuments.id, id));
+    return result[0];
+  }
+
+  async getJobDocumentsByJob(jobId: string): Promise<JobDocument[]> {
+    return await this.db.select().from(jobDocuments)
+      .where(eq(jobDocuments.jobId, jobId))
+      .orderBy(desc(jobDocuments.createdAt));
+  }
+
+  // Search methods
+  async searchJobs(scope: SearchScope): Promise<Job[]> {
+    const pattern = containsPattern(scope.term);
+    return await this.db.select().from(jobs)
+      .where(and(
+        or(
+          ilike(jobs.jobId, pattern),
+          ilike(jobs.customerName, pattern),
+          ilike(jobs.poNumber, pattern),
+          ilike(jobs.p21OrderNumber, pattern),
+          ilike(jobs.shipmentTrackingNumber, pattern),
+          ilike(jobs.outboundTrackingNumber, pattern),
+        ),
+        jobNotDeleted,
+        scope.shopNames ? inShops(scope.shopNames) : undefined,
+      ))
+      .orderBy(desc(jobs.initiatedAt))
+      .limit(scope.limit);
+  }
+
+  async searchJobParts(scope: SearchScope): Promise<JobPartWithJob[]> {
+    const pattern = containsPattern(scope.term);
+    const result = await this.db.select().from(jobParts)
+      .leftJoin(jobs, eq(jobParts.jobId, jobs.jobId))
+      .where(and(
+        or(
+          ilike(jobParts.ecsSerial, pattern),
+          ilike(jobParts.unitVin, pattern),
+          ilike(jobParts.filterPn, pattern),
+          ilike(jobParts.poNumber, pattern),
+          ilike(jobParts.part, pattern),
+        ),
+        partNotDeleted,
+        jobNotDeleted,
+        scope.shopNames ? inShops(scope.shopNames) : undefined,
+      ))
+      .orderBy(desc(jobParts.createdAt))
+      .limit(scope.limit);
+
+    return result.map(row => ({
+      ...row.job_parts,
+      job: row.jobs,
+    }));
+  }
+
+  async searchJobComments(scope: SearchScope): Promise<TextSearchHit[]> {
+    return await this.searchText(scope, jobComments, jobComments.commentText, jobComments.createdAt);
+  }
+
+  async searchJobEvents(scope: SearchScope): Promise<TextSearchHit[]> {
+    return await this.searchText(scope, jobEvents, jobEvents.description, jobEvents.timestamp);
+  }
+
+  /**
+   * Full-text match (ranked, with highlighted excerpt) or partial-word ILIKE match on one
+   * text column. The to_tsvector expression matches the GIN indexes in the schema.
+   */
+  private async searchText(
+    scope: SearchScope,
+    table: typeof jobComments | typeof jobEvents,
+    column: AnyColumn,
+    createdAt: AnyColumn,
+  ): Promise<TextSearchHit[]> {
+    const vector = drizzleSql`to_tsvector('english', ${column})`;
+    const query = drizzleSql`websearch_to_tsquery('english', ${scope.term})`;
+    const headlineOptions = `StartSel=${SEARCH_HIGHLIGHT.start}, StopSel=${SEARCH_HIGHLIGHT.stop}, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "`;
+    const rank = drizzleSql<number>`ts_rank(${vector}, ${query})`;
+
+    const rows = await this.db
+      .select({
+        id: table.id,
+        jobId: table.jobId,
+        customerName: jobs.customerName,
+        text: drizzleSql<string>`${column}`,
+        createdAt: drizzleSql`${createdAt}`.mapWith(createdAt), // keep the column's timestamp parsing
+        rank,
+        headline: drizzleSql<string>`ts_headline('english', ${column}, ${query}, ${headlineOptions})`,
+      })
+      .from(table)
+      .innerJoin(jobs, eq(table.jobId, jobs.jobId))
+      .where(and(
+        or(drizzleSql`${vector} @@ ${query}`, ilike(column, containsPattern(scope.term))),
+        jobNotDeleted,
+        scope.shopNames ? inShops(scope.shopNames) : undefined,
+      ))
+      .orderBy(drizzleSql`${rank} desc`, drizzleSql`${createdAt} desc`)
+      .limit(scope.limit);
+
+    return rows.map(row => ({ ...row, createdAt: row.createdAt as Date, rank: Number(row.rank) }));
+  }
+
+  // Notification methods
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const result = await this.db.insert(notifications).values({
+      id: randomUUID(),
+      ...notification,
+    }).returning();
+    return result[0];
+  }
+
+  async getNotificationsForUser(email: string, options: { unreadOnly?: boolean; limit: number }): Promise<Notification[]> {
+    return await this.db.select().from(notifications)
+      .where(and(
+        eq(notifications.recipientEmail, email),
+        options.unreadOnly ? isNull(notifications.readAt) : undefined,
+      ))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options.limit);
+  }
+
+  async getUnreadNotificationCount(email: string): Promise<number> {
+    const result = await this.db.select({ total: count() }).from(notifications)
+      .where(and(eq(notifications.recipientEmail, email), isNull(notifications.readAt)));
+    return result[0]?.total ?? 0;
+  }
+
+  async getUndeliveredNotifications(email: string): Promise<Notification[]> {
+    return await this.db.select().from(notifications)
+      .where(and(eq(notifications.recipientEmail, email), isNull(notifications.deliveredAt)))
+      .orderBy(asc(notifications.createdAt));
+  }
+
+  async markNotificationsDelivered(email: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.update(notifications)
+      .set({ deliveredAt: new Date() })
+      .where(and(
+        eq(notifications.recipientEmail, email),
+        inArray(notifications.id, ids),
+        isNull(notifications.deliveredAt),
+      ));
+  }
+
+  async markNotificationRead(email: string, id: string): Promise<Notification | undefined> {
+    const result = await this.db.update(notifications)
+      .set({ readAt: drizzleSql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.recipientEmail, email), eq(notifications.id, id)))
+      .returning();
+    return result[0];
+  }
+
+  async markAllNotificationsRead(email: string): Promise<number> {
+    const result = await this.db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.recipientEmail, email), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return result.length;
+  }
+
+  // Web Push methods
+  async getPushSubscriptionsForUser(email: string): Promise<PushSubscription[]> {
+    return await this.db.select().from(pushSubscriptions)
+      .where(eq(pushSubscriptions.userEmail, email));
+  }
+
+  async upsertPushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription> {
+    // The same browser re-subscribing (or another user signing in on it) takes over the endpoint
+    const result = await this.db.insert(pushSubscriptions).values({
+      id: randomUUID(),
+      ...subscription,
+    }).onConflictDoUpdate({
+      target: pushSubscriptions.endpoint,
+      set: {
+        userEmail: subscription.userEmail,
+        p256dh: subscription.p256dh,
+        auth: subscription.auth,
+        userAgent: subscription.userAgent,
+        failureCount: 0,
+      },
+    }).returning();
+    return result[0];
+  }
+
+  async deletePushSubscription(endpoint: string, userEmail?: string): Promise<boolean> {
+    const result = await this.db.delete(pushSubscriptions)
+      .where(and(
+        eq(pushSubscriptions.endpoint, endpoint),
+        userEmail ? eq(pushSubscriptions.userEmail, userEmail) : undefined,
+      ))
+      .returning({ id: pushSubscriptions.id });
+    return result.length > 0;
+  }
+
+  async recordPushResult(id: string, success: boolean): Promise<void> {
+    await this.db.update(pushSubscriptions)
+      .set(success
+        ? { lastSuccessAt: new Date(), failureCount: 0 }
+        : { lastFailureAt: new Date(), failureCount: drizzleSql`${pushSubscriptions.failureCount} + 1` })
+      .where(eq(pushSubscriptions.id, id));
+  }
+
+  async getPushSubscriptionCount(): Promise<number> {
+    const result = await this.db.select({ total: count() }).from(pushSubscriptions);
+    return result[0]?.total ?? 0;
+  }
+
+  async getNotificationPreferences(email: string): Promise<NotificationPreferences | undefined> {
+    const result = await this.db.select().from(notificationPreferences)
+      .where(eq(notificationPreferences.email, email));
+    return result[0];
+  }
+
+  async upsertNotificationPreferences(email: string, pushTypes: NotificationType[]): Promise<NotificationPreferences> {
+    const result = await this.db.insert(notificationPreferences)
+      .values({ email, pushTypes })
+      .onConflictDoUpdate({
+        target: notificationPreferences.email,
+        set: { pushTypes, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Customer notification methods
+  async getCustomerNotificationSettings(customerName: string): Promise<CustomerNotificationSettings | undefined> {
+    const result = await this.db.select().from(customerNotificationSettings)
+      .where(eq(customerNotificationSettings.customerName, customerName));
+    return result[0];
+  }
+
+  async getAllCustomerNotificationSettings(): Promise<CustomerNotificationSettings[]> {
+    return await this.db.select().from(customerNotificationSettings)
+      .orderBy(asc(customerNotificationSettings.customerName));
+  }
+
+  async upsertCustomerNotificationSettings(settings: InsertCustomerNotificationSettings): Promise<CustomerNotificationSettings> {
+    const result = await this.db.insert(customerNotificationSettings)
+      .values(settings)
+      .onConflictDoUpdate({
+        target: customerNotificationSettings.customerName,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteCustomerNotificationSettings(customerName: string): Promise<void> {
+    await this.db.delete(customerNotificationSettings)
+      .where(eq(customerNotificationSettings.customerName, customerName));
+  }
+
+  async getCustomerNotificationTemplates(): Promise<CustomerNotificationTemplate[]> {
+    return await this.db.select().from(customerNotificationTemplates);
+  }
+
+  async getCustomerNotificationTemplate(milestone: CustomerMilestone, channel: CustomerNotificationChannel): Promise<CustomerNotificationTemplate | undefined> {
+    const result = await this.db.select().from(customerNotificationTemplates)
+      .where(and(
+        eq(customerNotificationTemplates.milestone, milestone),
+        eq(customerNotificationTemplates.channel, channel),
+      ));
+    return result[0];
+  }
+
+  async upsertCustomerNotificationTemplate(template: InsertCustomerNotificationTemplate): Promise<CustomerNotificationTemplate> {
+    const result = await this.db.insert(customerNotificationTemplates)
+      .values({ id: randomUUID(), ...template })
+      .onConflictDoUpdate({
+        target: [customerNotificationTemplates.milestone, customerNotificationTemplates.channel],
+        set: {
+          subject: template.subject,
+          body: template.body,
+          updatedBy: template.updatedBy,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteCustomerNotificationTemplate(milestone: CustomerMilestone, channel: CustomerNotificationChannel): Promise<void> {
+    await this.db.delete(customerNotificationTemplates)
+      .where(and(
+        eq(customerNotificationTemplates.milestone, milestone),
+        eq(customerNotificationTemplates.channel, channel),
+      ));
+  }
+
+  // SLA methods
+  async getSlaTargets(): Promise<SlaTarget[]> {
+    return await this.db.select().from(slaTargets).orderBy(asc(slaTargets.fromState), asc(slaTargets.name));
+  }
+
+  async createSlaTarget(target: InsertSlaTarget): Promise<SlaTarget> {
+    const result = await this.db.insert(slaTargets).values({
+      id: randomUUID(),
+      ...target,
+    }).returning();
+    return result[0];
+  }
+
+  async updateSlaTarget(id: string, target: InsertSlaTarget): Promise<SlaTarget | undefined> {
+    const result = await this.db
+      .update(slaTargets)
+      .set({ ...target, updatedAt: new Date() })
+      .where(eq(slaTargets.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteSlaTarget(id: string): Promise<void> {
+    await this.db.delete(slaTargets).where(eq(slaTargets.id, id));
+  }
+
+  async getAllShopBusinessHours(): Promise<ShopBusinessHours[]> {
+    return await this.db.select().from(shopBusinessHours);
+  }
+
+  async upsertShopBusinessHours(shopName: string, hours: ShopBusinessHoursInput, updatedBy: string | null): Promise<ShopBusinessHours> {
+    const result = await this.db.insert(shopBusinessHours)
+      .values({ shopName, ...hours, updatedBy })
+      .onConflictDoUpdate({
+        target: shopBusinessHours.shopName,
+        set: { ...hours, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Shop registry methods
+  async getShops(): Promise<Shop[]> {
+    return await this.db.select().from(shops).orderBy(asc(shops.code));
+  }
+
+  async getShopByName(name: string): Promise<Shop | undefined> {
+    const result = await this.db.select().from(shops).where(eq(shops.name, name));
+    return result[0];
+  }
+
+  async createShop(shop: InsertShop): Promise<Shop> {
+    const result = await this.db.insert(shops).values({
+      id: randomUUID(),
+      ...shop,
+    }).returning();
+    return result[0];
+  }
+
+  async updateShop(id: string, shop: UpdateShop): Promise<Shop | undefined> {
+    const result = await this.db
+      .update(shops)
+      .set({ ...shop, updatedAt: new Date() })
+      .where(eq(shops.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Analytics methods
+  async getTurnaroundStats(scope: AnalyticsScope): Promise<DurationStats> {
+    const result = await this.db.select(durationStats(turnaroundMinutes))
+      .from(jobs)
+      .where(completedInScope(scope));
+    return result[0];
+  }
+
+  async getTurnaroundByDimension(scope: AnalyticsScope, dimension: AnalyticsDimension, limit: number): Promise<DurationGroup[]> {
+    const stats = durationStats(turnaroundMinutes);
+
+    // A job counts once for each distinct process among its parts
+    if (dimension === 'process') {
+      const jobProcesses = this.db.selectDistinct({ jobId: jobParts.jobId, process: jobParts.process })
+        .from(jobParts)
+        .where(and(partNotDeleted, isNotNull(jobParts.process)))
+        .as("job_processes");
+      return this.db.select({ key: jobProcesses.process, ...stats })
+        .from(jobs)
+        .innerJoin(jobProcesses, eq(jobProcesses.jobId, jobs.jobId))
+        .where(completedInScope(scope))
+        .groupBy(jobProcesses.process)
+        .orderBy(desc(stats.count))
+        .limit(limit);
+    }
+
+    const keyColumn = {
+      shop: jobs.shopName,
+      technician: jobs.shopHandoff,
+      customer: jobs.customerName,
+    }[dimension];
+    return this.db.select({ key: keyColumn, ...stats })
+      .from(jobs)
+      .where(completedInScope(scope))
+      .groupBy(keyColumn)
+      .orderBy(desc(stats.count))
+      .limit(limit);
+  }
+
+  async getTurnaroundDistribution(scope: AnalyticsScope, bucketMinutes: number[]): Promise<number[]> {
+    // width_bucket gives 0 below the first bound and bucketMinutes.length at or past the last
+    const bounds = drizzleSql.raw(`array[${bucketMinutes.map(Number).join(',')}]::float8[]`);
+    const bucket = drizzleSql<number>`width_bucket(${turnaroundMinutes}, ${bounds})`;
+    const rows = await this.db.select({ bucket, total: count() })
+      .from(jobs)
+      .where(completedInScope(scope))
+      .groupBy(bucket);
+
+    const counts: number[] = new Array(bucketMinutes.length + 1).fill(0);
+    rows.forEach((row) => {
+      counts[row.bucket] = row.total;
+    });
+    return counts;
+  }
+
+  async getWeeklyTurnaround(scope: AnalyticsScope): Promise<WeeklyDurationStats[]> {
+    const weekStart = drizzleSql`date_trunc('week', ${jobs.completedAt})`.mapWith(jobs.completedAt);
+    return this.db.select({ weekStart, ...durationStats(turnaroundMinutes) })
+      .from(jobs)
+      .where(completedInScope(scope))
+      .groupBy(weekStart)
+      .orderBy(weekStart);
+  }
+
+  async getStageDurations(scope: AnalyticsScope): Promise<Record<AnalyticsStage, DurationStats>> {
+    // When each job first entered the states that bound its stages, from its state_change events
+    const enteredAt = (states: string[], extra: SQL = drizzleSql``) =>
+      drizzleSql<Date | null>`min(${jobEvents.timestamp}) filter (where ${jobEvents.metadata}->>'newState' in ${states}${extra})`;
+    const scopedJobIds = this.db.select({ jobId: jobs.jobId }).from(jobs).where(completedInScope(scope));
+    const stageTimes = this.db.select({
+      jobId: jobEvents.jobId,
+      // Direct check-ins record a picked_up change that isn't a real pickup
+      pickedUpAt: enteredAt(['picked_up'], drizzleSql` and coalesce(${jobEvents.metadata}->>'directCheckIn', 'false') <> 'true'`).as("entered_picked_up"),
+      atShopAt: enteredAt(['at_shop']).as("entered_at_shop"),
+      inServiceAt: enteredAt(['in_service']).as("entered_in_service"),
+      serviceCompleteAt: enteredAt(['service_complete']).as("entered_service_complete"),
+      readyAt: enteredAt(['ready_for_pickup', 'queued_for_delivery']).as("entered_ready"),
+      handedOverAt: enteredAt(['picked_up_from_shop', 'delivered', 'outbound_shipment']).as("entered_handed_over"),
+    })
+      .from(jobEvents)
+      .where(and(eq(jobEvents.eventType, 'state_change'), inArray(jobEvents.jobId, scopedJobIds)))
+      .groupBy(jobEvents.jobId)
+      .as("stage_times");
+
+    const result = await this.db.select({
+      pickup_wait: durationStats(minutesBetween(jobs.initiatedAt, stageTimes.pickedUpAt)),
+      shop_queue: durationStats(minutesBetween(stageTimes.atShopAt, stageTimes.inServiceAt)),
+      tech_time: durationStats(minutesBetween(stageTimes.inServiceAt, stageTimes.serviceCompleteAt)),
+      ready_to_delivery: durationStats(minutesBetween(
+        drizzleSql`coalesce(${stageTimes.readyAt}, ${stageTimes.serviceCompleteAt})`,
+        stageTimes.handedOverAt,
+      )),
+    })
+      .from(jobs)
+      .innerJoin(stageTimes, eq(stageTimes.jobId, jobs.jobId))
+      .where(completedInScope(scope));
+    return result[0];
+  }
+
+  // Audit log methods
+  async createAuditEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const result = await this.db.insert(auditLog).values({
+      id: randomUUID(),
+      ...entry,
+    }).returning();
+    return result[0];
+  }
+
+  async listAuditEntries(query: AuditLogQuery): Promise<PagedResult<AuditLogEntry>> {
+    const conditions: SQL[] = [];
+    if (query.entityType) {
+      conditions.push(eq(auditLog.entityType, query.entityType));
+    }
+    if (query.entityId) {
+      conditions.push(eq(auditLog.entityId, query.entityId));
+    }
+    if (query.jobId) {
+      conditions.push(eq(auditLog.jobId, query.jobId));
+    }
+    if (query.actor) {
+      conditions.push(ilike(auditLog.actorEmail, containsPattern(query.actor)));
+    }
+    if (query.from) {
+      conditions.push(gte(auditLog.createdAt, query.from));
+    }
+    if (query.to) {
+      conditions.push(lte(auditLog.createdAt, query.to));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, totals] = await Promise.all([
+      this.db.select().from(auditLog)
+        .where(where)
+        .orderBy(desc(auditLog.createdAt), asc(auditLog.id))
+        .limit(query.limit)
+        .offset(query.offset),
+      this.db.select({ total: count() }).from(auditLog).where(where),
+    ]);
+
+    return { data: rows, total: totals[0]?.total ?? 0 };
+  }
+
+  // Google Sheets sync queue methods
+  async getSheetsSyncEntry(jobId: string): Promise<SheetsSyncQueueEntry | undefined> {
+    const result = await this.db.select().from(sheetsSyncQueue).where(eq(sheetsSyncQueue.jobId, jobId));
+    return result[0];
+  }
+
+  async upsertSheetsSyncEntry(entry: InsertSheetsSyncQueueEntry): Promise<SheetsSyncQueueEntry> {
+    const result = await this.db
+      .insert(sheetsSyncQueue)
+      .values({
+        id: randomUUID(),
+        ...entry,
+        updatedAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: sheetsSyncQueue.jobId,
+        set: {
+          ...entry,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getDueSheetsSyncEntries(now: Date, limit: number): Promise<SheetsSyncQueueEntry[]> {
+    return await this.db.select().from(sheetsSyncQueue)
+      .where(lte(sheetsSyncQueue.nextAttemptAt, now))
+      .orderBy(asc(sheetsSyncQueue.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async getPendingSheetsSyncCount(): Promise<number> {
+    const result = await this.db.select({ count: drizzleSql<number>`count(*)::int` })
+      .from(sheetsSyncQueue)
+      .where(isNotNull(sheetsSyncQueue.nextAttemptAt));
+    return result[0]?.count ?? 0;
+  }
+
   // Initialize with sample technicians if none exist
   async initializeData(): Promise<void> {
     try {
@@ -10,6 +10,10 @@ app.set('trust proxy', 1);
 // Raw body parser for GoCanvas webhooks (XML)
 app.use('/api/gocanvas/webhook', express.text({ type: '*/*' }));
 
+// Completed forms carry the signature PNG (up to 500,000 chars, see formSignatureSchema)
+// on top of the answers, which won't fit in the default 100kb JSON limit
+app.use('/api/form-submissions/:id/complete', express.json({ limit: '1mb' }));
+
 // JSON and URL-encoded parsers for all other routes
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parseDayBoundary, parseListParam, parsePagination } from "./listParams";
+
+describe("parseListParam", () => {
+  it("splits comma-separated values and drops blanks", () => {
+    expect(parseListParam("at_shop, in_service,,")).toEqual(["at_shop", "in_service"]);
+  });
+
+  it("ignores missing, blank and non-string values", () => {
+    expect(parseListParam(undefined)).toBeUndefined();
+    expect(parseListParam("  ")).toBeUndefined();
+    expect(parseListParam(" , ")).toBeUndefined();
+    expect(parseListParam(["at_shop"])).toBeUndefined();
+  });
+});
+
+describe("parsePagination", () => {
+  it("defaults to the first page of 25", () => {
+    expect(parsePagination(undefined, undefined)).toEqual({ currentPage: 1, itemsPerPage: 25 });
+    expect(parsePagination("abc", "")).toEqual({ currentPage: 1, itemsPerPage: 25 });
+  });
+
+  it("clamps the page to at least 1 and the page size to 1-500", () => {
+    expect(parsePagination("-3", "0")).toEqual({ currentPage: 1, itemsPerPage: 25 });
+    expect(parsePagination("4", "-10")).toEqual({ currentPage: 4, itemsPerPage: 1 });
+    expect(parsePagination("2", "10000")).toEqual({ currentPage: 2, itemsPerPage: 500 });
+  });
+});
+
+describe("parseDayBoundary", () => {
+  it("moves a date to the start or end of its day", () => {
+    const start = parseDayBoundary("2026-03-04T15:30:00", false)!;
+    expect([start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds()]).toEqual([0, 0, 0, 0]);
+
+    const end = parseDayBoundary("2026-03-04T15:30:00", true)!;
+    expect(end.getDate()).toBe(4);
+    expect([end.getHours(), end.getMinutes(), end.getSeconds(), end.getMilliseconds()]).toEqual([23, 59, 59, 999]);
+  });
+
+  it("ignores blank and unparseable values", () => {
+    expect(parseDayBoundary("", false)).toBeUndefined();
+    expect(parseDayBoundary("not a date", true)).toBeUndefined();
+    expect(parseDayBoundary(20260304, true)).toBeUndefined();
+  });
+});
@@ -0,0 +1,24 @@
+// Query string helpers for the paginated list endpoints
+export function parseListParam(value: unknown): string[] | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const items = value.split(',').map(s => s.trim()).filter(s => s);
+  return items.length > 0 ? items : undefined;
+}
+
+export function parseDayBoundary(value: unknown, endOfDay: boolean): Date | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+  if (endOfDay) {
+    date.setHours(23, 59, 59, 999);
+  } else {
+    date.setHours(0, 0, 0, 0);
+  }
+  return date;
+}
+
+export function parsePagination(page: unknown, pageSize: unknown): { currentPage: number; itemsPerPage: number } {
+  const currentPage = Math.max(1, parseInt(page as string) || 1);
+  const itemsPerPage = Math.min(500, Math.max(1, parseInt(pageSize as string) || 25));
+  return { currentPage, itemsPerPage };
+}
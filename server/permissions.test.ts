@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FormSubmission, Job } from "@shared/schema";
+import type { RequestIdentity } from "./clerkAuth";
+
+const { storage, getRequestIdentity } = vi.hoisted(() => ({
+  storage: { getJob: vi.fn(), getJobByJobId: vi.fn() },
+  getRequestIdentity: vi.fn(),
+}));
+vi.mock("./storage", () => ({ storage }));
+vi.mock("./clerkAuth", () => ({ getRequestIdentity }));
+
+const { requireJobPermission, requireRecordJobPermission, isFormAssignee, findJob } = await import("./permissions");
+
+const nashvilleJob = { id: "uuid-1", jobId: "ECS-20260301090000-01", shopName: "ECS - Nashville" } as Job;
+
+function identity(overrides: Partial<RequestIdentity>): RequestIdentity {
+  return {
+    userId: "user-1",
+    email: "tech@example.com",
+    role: "technician",
+    homeShop: "ECS - Nashville",
+    shops: [],
+    activeShop: null,
+    persona: false,
+    accountAdmin: false,
+    ...overrides,
+  };
+}
+
+// Run a middleware and report whether it let the request through, or the status it sent
+async function run(middleware: ReturnType<typeof requireJobPermission>, req: any) {
+  let status: number | null = null;
+  let passed = false;
+  const res: any = {
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json: vi.fn(),
+  };
+  await new Promise<void>((resolve) => {
+    res.json.mockImplementation(() => resolve());
+    middleware(req, res, () => {
+      passed = true;
+      resolve();
+    });
+  });
+  return { passed, status };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storage.getJob.mockImplementation(async (id: string) => (id === nashvilleJob.id ? nashvilleJob : undefined));
+  storage.getJobByJobId.mockImplementation(async (id: string) => (id === nashvilleJob.jobId ? nashvilleJob : undefined));
+});
+
+describe("findJob", () => {
+  it("accepts a UUID or an ECS job ID", async () => {
+    expect(await findJob("uuid-1")).toBe(nashvilleJob);
+    expect(await findJob("ECS-20260301090000-01")).toBe(nashvilleJob);
+    expect(await findJob("ECS-missing")).toBeUndefined();
+    expect(await findJob(undefined)).toBeUndefined();
+  });
+});
+
+describe("requireJobPermission", () => {
+  it("lets a technician work on jobs in their own shop", async () => {
+    getRequestIdentity.mockResolvedValue(identity({}));
+    const result = await run(requireJobPermission("jobs.service"), { params: { jobId: nashvilleJob.jobId } });
+    expect(result).toEqual({ passed: true, status: null });
+  });
+
+  it("rejects jobs from another shop", async () => {
+    getRequestIdentity.mockResolvedValue(identity({ homeShop: "ECS - Atlanta" }));
+    const result = await run(requireJobPermission("jobs.view"), { params: { jobId: nashvilleJob.id } });
+    expect(result).toEqual({ passed: false, status: 403 });
+  });
+
+  it("rejects actions the role doesn't have before looking at the job", async () => {
+    getRequestIdentity.mockResolvedValue(identity({ role: "driver" }));
+    const result = await run(requireJobPermission("jobs.service"), { params: { jobId: nashvilleJob.jobId } });
+    expect(result).toEqual({ passed: false, status: 403 });
+    expect(storage.getJob).not.toHaveBeenCalled();
+  });
+
+  it("rejects users who aren't whitelisted", async () => {
+    getRequestIdentity.mockResolvedValue(null);
+    const result = await run(requireJobPermission("jobs.view"), { params: { jobId: nashvilleJob.jobId } });
+    expect(result).toEqual({ passed: false, status: 403 });
+  });
+
+  it("leaves missing jobs for the route to 404", async () => {
+    getRequestIdentity.mockResolvedValue(identity({}));
+    const result = await run(requireJobPermission("jobs.view"), { params: { jobId: "ECS-missing" } });
+    expect(result).toEqual({ passed: true, status: null });
+  });
+
+  it("lets CSRs reach every shop unless they're assigned specific shops", async () => {
+    getRequestIdentity.mockResolvedValue(identity({ role: "csr", homeShop: "ECS - Atlanta" }));
+    expect((await run(requireJobPermission("jobs.edit"), { params: { jobId: nashvilleJob.jobId } })).passed).toBe(true);
+
+    getRequestIdentity.mockResolvedValue(identity({ role: "csr", homeShop: "ECS - Atlanta", shops: ["ECS - Memphis"] }));
+    expect(await run(requireJobPermission("jobs.edit"), { params: { jobId: nashvilleJob.jobId } })).toEqual({ passed: false, status: 403 });
+  });
+});
+
+describe("requireRecordJobPermission", () => {
+  it("checks the shop of the job a record belongs to", async () => {
+    const middleware = requireRecordJobPermission("jobs.view", async () => nashvilleJob.jobId);
+
+    getRequestIdentity.mockResolvedValue(identity({}));
+    expect((await run(middleware, { params: { id: "submission-1" } })).passed).toBe(true);
+
+    getRequestIdentity.mockResolvedValue(identity({ homeShop: "ECS - Dallas" }));
+    expect(await run(middleware, { params: { id: "submission-1" } })).toEqual({ passed: false, status: 403 });
+  });
+});
+
+describe("isFormAssignee", () => {
+  const submission = { assignedTo: "Tech@Example.com" } as FormSubmission;
+
+  it("matches the assignee regardless of case", async () => {
+    getRequestIdentity.mockResolvedValue(identity({}));
+    expect(await isFormAssignee({}, submission)).toBe(true);
+  });
+
+  it("rejects other users unless they're admins", async () => {
+    getRequestIdentity.mockResolvedValue(identity({ email: "other@example.com" }));
+    expect(await isFormAssignee({}, submission)).toBe(false);
+
+    getRequestIdentity.mockResolvedValue(identity({ email: "boss@example.com", role: "admin" }));
+    expect(await isFormAssignee({}, submission)).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+import { getRequestIdentity } from "./clerkAuth";
+import {
+  resolvePermissions,
+  hasPermission,
+  canAccessShop,
+  getShopScope,
+  type PermissionAction,
+  type UserPermissions,
+} from "@shared/permissions";
+import type { FormSubmission, Job } from "@shared/schema";
+
+/**
+ * Resolve the permissions for a request (honoring ?asEmail= personas),
+ * cached on the request. Returns null if the user isn't whitelisted.
+ */
+export async function getRequestPermissions(req: any): Promise<UserPermissions | null> {
+  if (req._permissions !== undefined) {
+    return req._permissions;
+  }
+
+  const identity = await getRequestIdentity(req);
+  req._permissions = identity
+    ? resolvePermissions(identity, identity.accountAdmin ? ["admin"] : [])
+    : null;
+  return req._permissions;
+}
+
+/**
+ * Middleware that requires the user's role to allow an action (or any of
+ * the actions, given a list). Use after isAuthenticated.
+ */
+export function requirePermission(action: PermissionAction | PermissionAction[]): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const permissions = await getRequestPermissions(req);
+      if (!permissions) {
+        return res.status(403).json({ message: "Access denied - not whitelisted" });
+      }
+      if (!hasPermission(permissions, action)) {
+        return res.status(403).json({ message: `Your role (${permissions.role}) is not allowed to perform this action` });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking permissions:", error);
+      res.status(500).json({ message: "Failed to verify permissions" });
+    }
+  };
+}
+
+/**
+ * Like requirePermission, for routes on a single job: also requires the job's
+ * shop to be within the user's shops. The job is looked up by UUID or ECS job
+ * ID from `req.params[param]`; a missing job is left for the route to 404.
+ */
+export function requireJobPermission(action: PermissionAction | PermissionAction[], param = "jobId"): RequestHandler {
+  return requireShopAccess(action, (req) => findJob(req.params[param]));
+}
+
+/**
+ * Like requireJobPermission, for routes on a record that belongs to a job (form
+ * submission, attachment, document): `getJobId` loads the record's ECS job ID.
+ * A missing record or job is left for the route to 404.
+ */
+export function requireRecordJobPermission(
+  action: PermissionAction | PermissionAction[],
+  getJobId: (req: any) => Promise<string | null | undefined>,
+): RequestHandler {
+  return requireShopAccess(action, async (req) => findJob((await getJobId(req)) ?? undefined));
+}
+
+function requireShopAccess(action: PermissionAction | PermissionAction[], loadJob: (req: any) => Promise<Job | undefined>): RequestHandler {
+  const checkAction = requirePermission(action);
+
+  return (req: any, res, next) => {
+    checkAction(req, res, async (error?: unknown) => {
+      if (error) return next(error);
+      try {
+        const job = await loadJob(req);
+        if (job && !canAccessShop(req._permissions, job.shopName)) {
+          return res.status(403).json({ message: "This job belongs to another shop" });
+        }
+        next();
+      } catch (lookupError) {
+        console.error("Error checking job permissions:", lookupError);
+        res.status(500).json({ message: "Failed to verify permissions" });
+      }
+    });
+  };
+}
+
+/**
+ * The shops a list, search, metrics or export request covers (see
+ * getShopScope): ?shop= if given, otherwise the user's active shop.
+ */
+export async function getRequestShopScope(req: any, requestedShop?: unknown): Promise<string[] | undefined> {
+  const permissions = await getRequestPermissions(req);
+  if (!permissions) return [];
+  return getShopScope(permissions, typeof requestedShop === "string" ? requestedShop.trim() : null);
+}
+
+/** Whether the request's user can see a job's shop */
+export async function canAccessJob(req: any, job: Job): Promise<boolean> {
+  const permissions = await getRequestPermissions(req);
+  return !!permissions && canAccessShop(permissions, job.shopName);
+}
+
+/** Only the tech/driver a form is assigned to (or an admin) may start or complete it */
+export async function isFormAssignee(req: any, submission: FormSubmission): Promise<boolean> {
+  const [identity, permissions] = await Promise.all([getRequestIdentity(req), getRequestPermissions(req)]);
+  if (hasPermission(permissions, "admin")) return true;
+  return !!identity && identity.email === submission.assignedTo.toLowerCase();
+}
+
+/** Look up a job by UUID or ECS job ID, as every job route accepts either */
+export async function findJob(id: string | undefined): Promise<Job | undefined> {
+  if (!id) return undefined;
+  return (await storage.getJob(id)) ?? (await storage.getJobByJobId(id));
+}
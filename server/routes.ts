@@ -1,41 +1,73 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertJobSchema, pickupJobSchema } from "@shared/schema";
+import { insertJobSchema, pickupJobSchema, insertWorkflowDefinitionSchema, jobTransitionSchema, formSignatureSchema, notificationPreferencesSchema, DEFAULT_PUSH_TYPES, insertCustomerNotificationSettingsSchema, insertCustomerNotificationTemplateSchema, customerMilestones, customerNotificationChannels, auditEntityTypes, type AuditEntityType, insertSlaTargetSchema, shopBusinessHoursSchema, insertShopSchema, updateShopSchema, slaStatuses, workflowStates, type SlaStatus } from "@shared/schema";
 import { goCanvasService, FORM_IDS } from "./services/gocanvas";
 import { googleSheetsService } from "./services/googleSheets";
 import { jobTrackerService } from "./services/jobTracker";
 import { referenceDataService } from "./services/referenceData";
-import { jobEventsService } from "./services/jobEvents";
-import { setupAuth, isAuthenticated, getRequestUserId, requireUserId, getRequestUserEmail, getRequestUserName, syncClerkUser, isDevToolsEnabled } from "./clerkAuth";
+import { jobEventsService, InvalidTransitionError, type JobState } from "./services/jobEvents";
+import { setupAuth, isAuthenticated, getRequestUserId, requireUserId, getRequestUserEmail, getRequestUserName, getRequestIdentity, syncClerkUser, isDevToolsEnabled, canRequestSwitchPersona } from "./clerkAuth";
 import { formDispatchService } from "./services/formDispatch";
 import { webhookService, webhookMetrics } from "./services/webhook";
 import { updatePartsFromSubmission, handleAdditionalComments } from "./services/parts-update";
 import { processCompletedSubmission } from "./services/submissionProcessor";
+import { deliveryReceiptService } from "./services/deliveryReceipt";
+import { serviceCertificateService } from "./services/serviceCertificate";
+import { partLabelService, LABEL_STOCKS, LABEL_SYMBOLOGIES, type LabelStock, type LabelSymbology } from "./services/partLabels";
+import { attachmentStore, ALLOWED_ATTACHMENT_TYPES, COMMENT_ATTACHMENT_EXTENSIONS } from "./services/attachmentStore";
+import { jobCommentService } from "./services/jobComments";
+import { searchService } from "./services/search";
+import { notificationService } from "./services/notificationService";
+import { webPushService, webPushMetrics } from "./services/webPush";
+import { customerNotificationService, MILESTONE_LABELS, TEMPLATE_PLACEHOLDERS } from "./services/customerNotifications";
+import { auditLogService } from "./services/auditLog";
+import { slaService, DEFAULT_BUSINESS_HOURS } from "./services/sla";
+import { analyticsService, analyticsDimensions } from "./services/analytics";
+import { serialDateService } from "./services/serialDates";
+import { shopRegistry } from "./services/shopRegistry";
+import { requirePermission, requireJobPermission, requireRecordJobPermission, getRequestPermissions, getRequestShopScope, findJob, canAccessJob, isFormAssignee } from "./permissions";
+import { canAccessShop, hasPermission } from "@shared/permissions";
+import { getTodayDateCode } from "@shared/shopCodes";
+import { parseListParam, parseDayBoundary, parsePagination } from "./listParams";
+import { getPartRestoreConflict } from "./trash";
+
+function isValidShopList(shops: unknown): shops is string[] {
+  return Array.isArray(shops) && shops.every(shop => typeof shop === 'string' && !!shopRegistry.find(shop));
+}
+
+// How long after creation the client may still roll a job back (see POST /api/jobs/:jobId/rollback)
+const JOB_ROLLBACK_WINDOW_MS = 15 * 60 * 1000;
+
+// Job actions reject illegal state changes with InvalidTransitionError; that's a conflict with the
+// job's current state (409), not a server failure, so it isn't logged as one
+function sendJobActionError(res: Response, error: unknown, logMessage: string, fallbackMessage: string) {
+  if (error instanceof InvalidTransitionError) {
+    return res.status(409).json({ message: error.message });
+  }
+  console.error(logMessage, error);
+  return res.status(500).json({ message: error instanceof Error ? error.message : fallbackMessage });
+}
+
+// ECS job IDs of records addressed by :id, for requireRecordJobPermission
+async function submissionJobId(req: any): Promise<string | undefined> {
+  return (await storage.getFormSubmission(req.params.id))?.jobId;
+}
+
+async function attachmentJobId(req: any): Promise<string | undefined> {
+  return (await storage.getAttachment(req.params.id))?.jobId;
+}
+
+async function documentJobId(req: any): Promise<string | undefined> {
+  return (await storage.getJobDocument(req.params.id))?.jobId;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup Clerk Auth
   await setupAuth(app);
 
-  // Middleware to check if user is admin
-  const isAdmin = async (req: any, res: any, next: any) => {
-    try {
-      const userId = getRequestUserId(req);
-      if (!userId) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-
-      const user = await storage.getUser(userId);
-      if (!user || user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
-      next();
-    } catch (error) {
-      console.error("Error checking admin status:", error);
-      res.status(500).json({ message: "Failed to verify admin status" });
-    }
-  };
+  // Shop lookups (codes, timezones, validation) read the registry from memory
+  await shopRegistry.load();
 
   // Auth routes - get authenticated user info (also syncs Clerk user to our DB)
   // Supports ?asEmail= for persona switching in dev/staging mode
@@ -47,20 +79,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied - not whitelisted" });
       }
 
-      // Persona override: if dev tools enabled and ?asEmail= provided,
+      // Persona override: if an admin is using ?asEmail= with dev tools enabled,
       // return the whitelist user for that email instead
-      const asEmail = req.query.asEmail as string | undefined;
-      if (asEmail && isDevToolsEnabled()) {
-        const whitelistEntry = await storage.getWhitelistByEmail(asEmail);
-        if (whitelistEntry) {
-          return res.json({
-            ...user,
-            email: asEmail,
-            whitelistRole: whitelistEntry.role,
-            homeShop: whitelistEntry.homeShop,
-            _persona: true, // flag so frontend knows this is a persona
-          });
-        }
+      const identity = await getRequestIdentity(req);
+      if (identity?.persona) {
+        return res.json({
+          ...user,
+          email: identity.email,
+          whitelistRole: identity.role,
+          homeShop: identity.homeShop,
+          permissions: await getRequestPermissions(req),
+          _persona: true, // flag so frontend knows this is a persona
+        });
       }
 
       // Also fetch whitelist entry to get job role and homeShop
@@ -78,6 +108,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...user,
         whitelistRole,
         homeShop,
+        permissions: await getRequestPermissions(req),
       });
     } catch (error) {
       console.error("Error fetching user:", error);
@@ -103,12 +134,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Narrow lists, metrics and exports to one of the user's shops (null = all of them)
+  app.patch('/api/auth/user/active-shop', isAuthenticated, async (req: any, res) => {
+    try {
+      const identity = await getRequestIdentity(req);
+      const permissions = await getRequestPermissions(req);
+      if (!identity || !permissions) {
+        return res.status(403).json({ message: "Access denied - not whitelisted" });
+      }
+
+      const { shop } = req.body;
+      const activeShop = typeof shop === 'string' && shop && shop !== 'all' ? shop : null;
+      if (activeShop && (!shopRegistry.find(activeShop) || !canAccessShop(permissions, activeShop))) {
+        return res.status(400).json({ message: "You don't have access to that shop" });
+      }
+
+      await storage.updateWhitelistActiveShop(identity.email, activeShop);
+      res.json({ activeShop });
+    } catch (error) {
+      console.error("Error updating active shop:", error);
+      res.status(500).json({ message: "Failed to update active shop" });
+    }
+  });
+
   // Dev tools: persona list for the persona switcher dropdown
-  app.get('/api/dev/personas', isAuthenticated, async (_req: any, res) => {
+  app.get('/api/dev/personas', isAuthenticated, async (req: any, res) => {
     try {
       if (!isDevToolsEnabled()) {
         return res.status(403).json({ message: "Dev tools not enabled" });
       }
+      if (!(await canRequestSwitchPersona(req))) {
+        return res.status(403).json({ message: "Only admins can switch personas" });
+      }
       const whitelistEntries = await storage.getAllWhitelist();
       res.json(whitelistEntries);
     } catch (error) {
@@ -118,7 +175,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin: Whitelist management routes
-  app.get('/api/admin/whitelist', isAuthenticated, isAdmin, async (req, res) => {
+  app.get('/api/admin/whitelist', isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const whitelistEntries = await storage.getAllWhitelist();
       res.json(whitelistEntries);
@@ -128,9 +185,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/admin/whitelist', isAuthenticated, isAdmin, async (req, res) => {
+  app.post('/api/admin/whitelist', isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
-      const { email, role, homeShop } = req.body;
+      const { email, role, homeShop, shops } = req.body;
       if (!email) {
         return res.status(400).json({ message: "Email is required" });
       }
@@ -141,8 +198,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validRoles = ['driver', 'technician', 'csr', 'admin'];
       const userRole = role && validRoles.includes(role) ? role : 'csr';
 
+      if (shops !== undefined && !isValidShopList(shops)) {
+        return res.status(400).json({ message: `Shops must be a list of: ${shopRegistry.getNames().join(", ")}` });
+      }
+
       const userId = requireUserId(req);
-      const entry = await storage.addToWhitelist({ email, role: userRole, homeShop, addedBy: userId });
+      const entry = await storage.addToWhitelist({ email, role: userRole, homeShop, shops: shops ?? [], addedBy: userId });
+      await auditLogService.record(req, { entityType: "whitelist", entityId: entry.email, action: "create", after: entry });
       res.json(entry);
     } catch (error: any) {
       console.error("Error adding to whitelist:", error);
@@ -153,10 +215,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/admin/whitelist/:email', isAuthenticated, isAdmin, async (req, res) => {
+  app.delete('/api/admin/whitelist/:email', isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const { email } = req.params;
+      const before = await storage.getWhitelistByEmail(decodeURIComponent(email));
       await storage.removeFromWhitelist(decodeURIComponent(email));
+      if (before) {
+        await auditLogService.record(req, { entityType: "whitelist", entityId: before.email, action: "delete", before });
+      }
+      void notificationService.revalidateConnections(decodeURIComponent(email));
       res.json({ success: true });
     } catch (error) {
       console.error("Error removing from whitelist:", error);
@@ -164,7 +231,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/admin/whitelist/:email/role', isAuthenticated, isAdmin, async (req, res) => {
+  app.patch('/api/admin/whitelist/:email/role', isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const { email } = req.params;
       const { role } = req.body;
@@ -172,7 +239,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!role || !validRoles.includes(role)) {
         return res.status(400).json({ message: "Invalid role. Must be one of: driver, technician, csr, admin" });
       }
+      const before = await storage.getWhitelistByEmail(decodeURIComponent(email));
       const entry = await storage.updateWhitelistRole(decodeURIComponent(email), role);
+      void notificationService.revalidateConnections(decodeURIComponent(email));
+      if (entry) {
+        await auditLogService.record(req, { entityType: "whitelist", entityId: entry.email, action: "update", before, after: entry });
+      }
       res.json(entry);
     } catch (error) {
       console.error("Error updating whitelist role:", error);
@@ -180,11 +252,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/admin/whitelist/:email/home-shop', isAuthenticated, isAdmin, async (req, res) => {
+  app.patch('/api/admin/whitelist/:email/home-shop', isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const { email } = req.params;
       const { homeShop } = req.body;
+      const before = await storage.getWhitelistByEmail(decodeURIComponent(email));
       const entry = await storage.updateWhitelistHomeShop(decodeURIComponent(email), homeShop || null);
+      void notificationService.revalidateConnections(decodeURIComponent(email));
+      if (entry) {
+        await auditLogService.record(req, { entityType: "whitelist", entityId: entry.email, action: "update", before, after: entry });
+      }
       res.json(entry);
     } catch (error) {
       console.error("Error updating whitelist home shop:", error);
@@ -192,11 +269,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Extra shops a user can access besides their home shop (e.g. a CSR covering two shops)
+  app.patch('/api/admin/whitelist/:email/shops', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const { email } = req.params;
+      const { shops } = req.body;
+      if (!isValidShopList(shops)) {
+        return res.status(400).json({ message: `Shops must be a list of: ${shopRegistry.getNames().join(", ")}` });
+      }
+      const before = await storage.getWhitelistByEmail(decodeURIComponent(email));
+      const entry = await storage.updateWhitelistShops(decodeURIComponent(email), Array.from(new Set(shops)));
+      void notificationService.revalidateConnections(decodeURIComponent(email));
+      if (entry) {
+        await auditLogService.record(req, { entityType: "whitelist", entityId: entry.email, action: "update", before, after: entry });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Error updating whitelist shops:", error);
+      res.status(500).json({ message: "Failed to update shops" });
+    }
+  });
+
   // Admin: Make user an admin
-  app.post('/api/admin/users/:userId/make-admin', isAuthenticated, isAdmin, async (req, res) => {
+  app.post('/api/admin/users/:userId/make-admin', isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const { userId } = req.params;
+      const before = await storage.getUser(userId);
       const user = await storage.updateUserRole(userId, 'admin');
+      if (user) {
+        await auditLogService.record(req, {
+          entityType: "user",
+          entityId: user.email ?? userId,
+          action: "update",
+          before: before ? { role: before.role } : null,
+          after: { role: user.role },
+        });
+      }
       res.json(user);
     } catch (error) {
       console.error("Error making user admin:", error);
@@ -204,8 +312,276 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin: audit log of data mutations, newest first
+  app.get('/api/admin/audit-log', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const { entityType, entityId, jobId, actor, dateFrom, dateTo, page, pageSize } = req.query;
+      const { currentPage, itemsPerPage } = parsePagination(page, pageSize);
+
+      const { data, total } = await storage.listAuditEntries({
+        entityType: auditEntityTypes.includes(entityType as AuditEntityType) ? entityType as AuditEntityType : undefined,
+        entityId: typeof entityId === 'string' && entityId.trim() ? entityId.trim() : undefined,
+        jobId: typeof jobId === 'string' && jobId.trim() ? jobId.trim() : undefined,
+        actor: typeof actor === 'string' && actor.trim() ? actor.trim() : undefined,
+        from: parseDayBoundary(dateFrom, false),
+        to: parseDayBoundary(dateTo, true),
+        limit: itemsPerPage,
+        offset: (currentPage - 1) * itemsPerPage,
+      });
+
+      res.json({
+        data,
+        total,
+        page: currentPage,
+        pageSize: itemsPerPage,
+      });
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  // Shop registry, for shop dropdowns and filters (inactive shops included, flagged)
+  app.get('/api/shops', isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
+    try {
+      res.json(shopRegistry.list());
+    } catch (error) {
+      console.error("Error fetching shops:", error);
+      res.status(500).json({ message: "Failed to fetch shops" });
+    }
+  });
+
+  // Admin: add and edit registry shops. Shops are deactivated rather than deleted
+  // since jobs and serials keep referencing them.
+  app.post('/api/admin/shops', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const input = insertShopSchema.parse({ ...req.body, updatedBy: await getRequestUserEmail(req) });
+      if (shopRegistry.findByCode(input.code) || shopRegistry.find(input.name)) {
+        return res.status(409).json({ message: "A shop with that code or name already exists" });
+      }
+      res.json(await shopRegistry.create(input));
+    } catch (error: any) {
+      console.error("Error creating shop:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create shop" });
+    }
+  });
+
+  app.put('/api/admin/shops/:id', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const shop = await shopRegistry.update(req.params.id, updateShopSchema.parse({
+        ...req.body,
+        updatedBy: await getRequestUserEmail(req),
+      }));
+      if (!shop) {
+        return res.status(404).json({ message: "Shop not found" });
+      }
+      void slaService.evaluateAll().catch((error) => console.error("❌ [SLA] Evaluation failed:", error));
+      res.json(shop);
+    } catch (error: any) {
+      console.error("Error updating shop:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update shop" });
+    }
+  });
+
+  // Admin: jobs whose current state can't be reached by replaying their event history (report only)
+  app.get('/api/admin/reports/state-consistency', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      res.json(await jobEventsService.findStateInconsistencies());
+    } catch (error) {
+      console.error("Error checking job state consistency:", error);
+      res.status(500).json({ message: "Failed to check job state consistency" });
+    }
+  });
+
+  // Admin: existing serials whose date code differs from the shop's local day
+  app.get('/api/admin/reports/serial-dates', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      res.json(await serialDateService.getMigrationReport());
+    } catch (error) {
+      console.error("Error building serial date report:", error);
+      res.status(500).json({ message: "Failed to build serial date report" });
+    }
+  });
+
+  // Admin: SLA targets and per-shop business hours
+  app.get('/api/admin/sla', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const [targets, hours] = await Promise.all([
+        storage.getSlaTargets(),
+        storage.getAllShopBusinessHours(),
+      ]);
+      // Every shop's effective calendar, including the ones still on the default
+      const businessHours = shopRegistry.getNames().map((shopName) => {
+        const row = hours.find((entry) => entry.shopName === shopName);
+        return row
+          ? { shopName, timezone: row.timezone, weeklyHours: row.weeklyHours, holidays: row.holidays, isCustom: true }
+          : { shopName, ...DEFAULT_BUSINESS_HOURS, timezone: shopRegistry.getTimezone(shopName), isCustom: false };
+      });
+      res.json({ targets, businessHours, states: workflowStates });
+    } catch (error) {
+      console.error("Error fetching SLA settings:", error);
+      res.status(500).json({ message: "Failed to fetch SLA settings" });
+    }
+  });
+
+  app.post('/api/admin/sla/targets', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const target = await storage.createSlaTarget(insertSlaTargetSchema.parse({
+        ...req.body,
+        updatedBy: await getRequestUserEmail(req),
+      }));
+      void slaService.evaluateAll().catch((error) => console.error("❌ [SLA] Evaluation failed:", error));
+      res.json(target);
+    } catch (error: any) {
+      console.error("Error creating SLA target:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create SLA target" });
+    }
+  });
+
+  app.put('/api/admin/sla/targets/:id', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const target = await storage.updateSlaTarget(req.params.id, insertSlaTargetSchema.parse({
+        ...req.body,
+        updatedBy: await getRequestUserEmail(req),
+      }));
+      if (!target) {
+        return res.status(404).json({ message: "SLA target not found" });
+      }
+      void slaService.evaluateAll().catch((error) => console.error("❌ [SLA] Evaluation failed:", error));
+      res.json(target);
+    } catch (error: any) {
+      console.error("Error updating SLA target:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update SLA target" });
+    }
+  });
+
+  app.delete('/api/admin/sla/targets/:id', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      await storage.deleteSlaTarget(req.params.id);
+      void slaService.evaluateAll().catch((error) => console.error("❌ [SLA] Evaluation failed:", error));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting SLA target:", error);
+      res.status(500).json({ message: "Failed to delete SLA target" });
+    }
+  });
+
+  app.put('/api/admin/sla/business-hours/:shopName', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const shopName = decodeURIComponent(req.params.shopName);
+      if (!shopRegistry.find(shopName)) {
+        return res.status(404).json({ message: "Unknown shop" });
+      }
+      const hours = shopBusinessHoursSchema.parse(req.body);
+      const saved = await storage.upsertShopBusinessHours(shopName, hours, await getRequestUserEmail(req));
+      void slaService.evaluateAll().catch((error) => console.error("❌ [SLA] Evaluation failed:", error));
+      res.json(saved);
+    } catch (error: any) {
+      console.error("Error saving business hours:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save business hours" });
+    }
+  });
+
+  // Admin: trash - soft-deleted jobs and parts, to restore or permanently purge
+  app.get('/api/admin/trash', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const [jobs, parts] = await Promise.all([
+        storage.getDeletedJobs(),
+        storage.getDeletedJobParts(),
+      ]);
+      res.json({ jobs, parts });
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post('/api/admin/trash/jobs/:id/restore', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const job = await storage.restoreJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found in trash" });
+      }
+      await auditLogService.record(req, { entityType: "job", entityId: job.jobId, jobId: job.jobId, action: "restore" });
+      googleSheetsService.requestSync(job.jobId);
+      res.json(job);
+    } catch (error) {
+      console.error("Error restoring job:", error);
+      res.status(500).json({ message: "Failed to restore job" });
+    }
+  });
+
+  app.delete('/api/admin/trash/jobs/:id', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const purged = await storage.purgeJob(req.params.id);
+      if (!purged) {
+        return res.status(404).json({ message: "Job not found in trash" });
+      }
+      await attachmentStore.deleteFiles(purged.files);
+      const { job } = purged;
+      await auditLogService.record(req, { entityType: "job", entityId: job.jobId, jobId: job.jobId, action: "purge", before: job });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error purging job:", error);
+      res.status(500).json({ message: "Failed to permanently delete job" });
+    }
+  });
+
+  app.post('/api/admin/trash/parts/:id/restore', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const part = await storage.getDeletedJobPart(req.params.id);
+      if (!part) {
+        return res.status(404).json({ message: "Part not found in trash" });
+      }
+      const conflict = await getPartRestoreConflict(part);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
+      const restored = await storage.restoreJobPart(part.id);
+      if (!restored) {
+        return res.status(404).json({ message: "Part not found in trash" });
+      }
+      await auditLogService.record(req, { entityType: "part", entityId: restored.id, jobId: restored.jobId, action: "restore" });
+      googleSheetsService.requestSync(restored.jobId);
+      res.json(restored);
+    } catch (error) {
+      console.error("Error restoring part:", error);
+      res.status(500).json({ message: "Failed to restore part" });
+    }
+  });
+
+  app.delete('/api/admin/trash/parts/:id', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const part = await storage.purgeJobPart(req.params.id);
+      if (!part) {
+        return res.status(404).json({ message: "Part not found in trash" });
+      }
+      await auditLogService.record(req, { entityType: "part", entityId: part.id, jobId: part.jobId, action: "purge", before: part });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error purging part:", error);
+      res.status(500).json({ message: "Failed to permanently delete part" });
+    }
+  });
+
   // Admin: GoCanvas integration metrics (read-only observability)
-  app.get('/api/metrics/gocanvas', isAuthenticated, isAdmin, async (req, res) => {
+  app.get('/api/metrics/gocanvas', isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const { goCanvasMetrics } = await import('./services/gocanvas');
       res.json({
@@ -219,7 +595,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin: Webhook metrics
-  app.get('/api/metrics/webhooks', isAuthenticated, isAdmin, async (req, res) => {
+  app.get('/api/metrics/webhooks', isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       res.json({
         now: new Date().toISOString(),
@@ -231,6 +607,158 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin: Web Push metrics
+  app.get('/api/metrics/web-push', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      res.json({
+        now: new Date().toISOString(),
+        configured: webPushService.isConfigured(),
+        subscriptions: await storage.getPushSubscriptionCount(),
+        ...webPushMetrics,
+      });
+    } catch (error) {
+      console.error("Error fetching web push metrics:", error);
+      res.status(500).json({ message: "Failed to fetch metrics" });
+    }
+  });
+
+  // Admin: Customer status update settings, templates and transports
+  app.get('/api/admin/customer-notifications', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const [settings, templates] = await Promise.all([
+        storage.getAllCustomerNotificationSettings(),
+        customerNotificationService.getEffectiveTemplates(),
+      ]);
+      res.json({
+        settings,
+        templates,
+        milestones: customerMilestones.map((milestone) => ({ value: milestone, label: MILESTONE_LABELS[milestone] })),
+        placeholders: TEMPLATE_PLACEHOLDERS,
+        transports: customerNotificationService.getTransportNames(),
+      });
+    } catch (error) {
+      console.error("Error fetching customer notification settings:", error);
+      res.status(500).json({ message: "Failed to fetch customer notification settings" });
+    }
+  });
+
+  // Opt a customer in/out of status updates
+  app.put('/api/admin/customer-notifications/customers/:customerName', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const settings = insertCustomerNotificationSettingsSchema.parse({
+        ...req.body,
+        customerName: decodeURIComponent(req.params.customerName),
+        updatedBy: await getRequestUserEmail(req),
+      });
+      res.json(await storage.upsertCustomerNotificationSettings(settings));
+    } catch (error: any) {
+      console.error("Error updating customer notification settings:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update customer notification settings" });
+    }
+  });
+
+  app.delete('/api/admin/customer-notifications/customers/:customerName', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      await storage.deleteCustomerNotificationSettings(decodeURIComponent(req.params.customerName));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing customer notification settings:", error);
+      res.status(500).json({ message: "Failed to remove customer notification settings" });
+    }
+  });
+
+  // Override a built-in message template
+  app.put('/api/admin/customer-notifications/templates/:milestone/:channel', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const template = insertCustomerNotificationTemplateSchema.parse({
+        milestone: req.params.milestone,
+        channel: req.params.channel,
+        subject: req.params.channel === "email" ? req.body.subject || null : null,
+        body: req.body.body,
+        updatedBy: await getRequestUserEmail(req),
+      });
+      if (!template.body.trim()) {
+        return res.status(400).json({ message: "Template body is required" });
+      }
+      res.json(await storage.upsertCustomerNotificationTemplate(template));
+    } catch (error: any) {
+      console.error("Error updating customer notification template:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update template" });
+    }
+  });
+
+  // Reset a template to the built-in default
+  app.delete('/api/admin/customer-notifications/templates/:milestone/:channel', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const { milestone, channel } = req.params;
+      if (!(customerMilestones as readonly string[]).includes(milestone) ||
+          !(customerNotificationChannels as readonly string[]).includes(channel)) {
+        return res.status(400).json({ message: "Invalid milestone or channel" });
+      }
+      await storage.deleteCustomerNotificationTemplate(milestone as typeof customerMilestones[number], channel as typeof customerNotificationChannels[number]);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error resetting customer notification template:", error);
+      res.status(500).json({ message: "Failed to reset template" });
+    }
+  });
+
+  // Admin: Workflow definitions (per-shop, versioned job state machines)
+  app.get('/api/admin/workflows', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const definitions = await storage.getWorkflowDefinitions();
+      res.json({
+        definitions,
+        defaultWorkflow: jobEventsService.getStateMachineInfo(),
+      });
+    } catch (error) {
+      console.error("Error fetching workflow definitions:", error);
+      res.status(500).json({ message: "Failed to fetch workflow definitions" });
+    }
+  });
+
+  // Saving a workflow always creates a new version; existing jobs stay on the version they started with
+  app.post('/api/admin/workflows', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const parsed = insertWorkflowDefinitionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid workflow definition", errors: parsed.error.errors });
+      }
+
+      const errors = jobEventsService.validateWorkflow(parsed.data);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: errors.join('; '), errors });
+      }
+
+      const createdBy = await getRequestUserEmail(req) || requireUserId(req);
+      const activate = req.body.activate !== false;
+      const definition = await storage.createWorkflowVersion({ ...parsed.data, createdBy }, activate);
+      res.status(201).json(definition);
+    } catch (error) {
+      console.error("Error creating workflow definition:", error);
+      res.status(500).json({ message: "Failed to create workflow definition" });
+    }
+  });
+
+  app.post('/api/admin/workflows/:id/activate', isAuthenticated, requirePermission("admin"), async (req, res) => {
+    try {
+      const definition = await storage.activateWorkflowDefinition(req.params.id);
+      if (!definition) {
+        return res.status(404).json({ message: "Workflow definition not found" });
+      }
+      res.json(definition);
+    } catch (error) {
+      console.error("Error activating workflow definition:", error);
+      res.status(500).json({ message: "Failed to activate workflow definition" });
+    }
+  });
+
   // GoCanvas Webhook (unauthenticated - called by GoCanvas)
   app.post('/api/gocanvas/webhook', async (req, res) => {
     try {
@@ -260,8 +788,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Start job tracking polling
   jobTrackerService.startPolling();
 
+  // Retry failed Google Sheets writes from the persistent queue
+  googleSheetsService.startRetryWorker();
+
+  // Keep jobs' SLA flags current as time passes
+  slaService.startWorker();
+
+  // Flag jobs whose state can't be reached from their event history (report only, never changes a job)
+  jobEventsService.findStateInconsistencies()
+    .then((inconsistencies) => {
+      if (inconsistencies.length === 0) {
+        console.log("✅ Job state consistency check passed");
+        return;
+      }
+      console.warn(`⚠️ ${inconsistencies.length} job(s) have a state unreachable from their event history:`);
+      for (const { jobId, state, reason } of inconsistencies) {
+        console.warn(`  - ${jobId} (${state}): ${reason}`);
+      }
+    })
+    .catch((error) => console.error("Error checking job state consistency:", error));
+
   // Get all technicians - protected route
-  app.get("/api/technicians", isAuthenticated, async (req, res) => {
+  app.get("/api/technicians", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const jobs = await storage.getAllJobs();
       // Extract unique shop handoff emails from jobs
@@ -281,7 +829,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all reference data from GoCanvas
-  app.get("/api/gocanvas/reference-data", async (req, res) => {
+  app.get("/api/gocanvas/reference-data", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const referenceData = await goCanvasService.getReferenceData();
       res.json({ success: true, data: referenceData });
@@ -296,7 +844,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific reference data by ID
-  app.get("/api/gocanvas/reference-data/:id", async (req, res) => {
+  app.get("/api/gocanvas/reference-data/:id", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const { id } = req.params;
       const referenceData = await goCanvasService.getReferenceDataById(id);
@@ -312,7 +860,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reference Data endpoints for form population
-  app.get("/api/reference/shop-users", async (req, res) => {
+  app.get("/api/reference/shop-users", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const users = await referenceDataService.getShopUsers();
       res.json(users);
@@ -322,7 +870,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reference/shops/:userId", async (req, res) => {
+  app.get("/api/reference/shops/:userId", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const { userId } = req.params;
       const shops = await referenceDataService.getShopsForUser(userId);
@@ -333,7 +881,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reference/permission/:userId", async (req, res) => {
+  app.get("/api/reference/permission/:userId", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const { userId } = req.params;
       const permission = await referenceDataService.getPermissionForUser(userId);
@@ -344,7 +892,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reference/customers", async (req, res) => {
+  app.get("/api/reference/customers", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const customers = await referenceDataService.getCustomerNames();
       res.json(customers);
@@ -354,7 +902,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reference/ship-to/:customerName", async (req, res) => {
+  app.get("/api/reference/ship-to/:customerName", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const { customerName } = req.params;
       const shipToOptions = await referenceDataService.getShipToForCustomer(decodeURIComponent(customerName));
@@ -365,7 +913,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reference/ship2-ids/:customerName/:shipTo", async (req, res) => {
+  app.get("/api/reference/ship2-ids/:customerName/:shipTo", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const { customerName, shipTo } = req.params;
       const ship2Ids = await referenceDataService.getShip2IdsForCustomerShipTo(
@@ -379,7 +927,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reference/tech-comments", async (req, res) => {
+  app.get("/api/reference/tech-comments", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const comments = await referenceDataService.getTechComments();
       res.json(comments);
@@ -389,7 +937,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reference/send-clamps-gaskets", async (req, res) => {
+  app.get("/api/reference/send-clamps-gaskets", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const options = await referenceDataService.getSendClampsGaskets();
       res.json(options);
@@ -399,7 +947,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reference/preferred-processes", async (req, res) => {
+  app.get("/api/reference/preferred-processes", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const processes = await referenceDataService.getPreferredProcesses();
       res.json(processes);
@@ -409,7 +957,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reference/customer-instructions/:customerName", async (req, res) => {
+  app.get("/api/reference/customer-instructions/:customerName", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const { customerName } = req.params;
       const { shipTo } = req.query;
@@ -424,7 +972,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reference/customer-notes", async (req, res) => {
+  app.get("/api/reference/customer-notes", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const notes = await referenceDataService.getCustomerNotes();
       res.json(notes);
@@ -435,7 +983,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Debug endpoint to check column data
-  app.get("/api/debug/columns", async (req, res) => {
+  app.get("/api/debug/columns", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const debugData = await referenceDataService.getDebugColumnData();
       res.json(debugData);
@@ -446,7 +994,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Specific endpoint to check column 11
-  app.get("/api/debug/column11", async (req, res) => {
+  app.get("/api/debug/column11", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const col11Data = await referenceDataService.getColumn11Data();
       res.json(col11Data);
@@ -457,7 +1005,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Show row 1 data for all columns
-  app.get("/api/debug/row1", async (req, res) => {
+  app.get("/api/debug/row1", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const rowData = await referenceDataService.getRow1Data();
       res.json(rowData);
@@ -468,7 +1016,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific customer record details
-  app.get("/api/debug/customer/:customerName", async (req, res) => {
+  app.get("/api/debug/customer/:customerName", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const customerData = await referenceDataService.getCustomerRecord(req.params.customerName);
       res.json(customerData);
@@ -479,7 +1027,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get customer-specific reference data values
-  app.get("/api/reference/customer-specific/:customerName", async (req, res) => {
+  app.get("/api/reference/customer-specific/:customerName", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const { customerName } = req.params;
       const { shipTo } = req.query;
@@ -494,19 +1042,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all unique shop names from the reference data
-  app.get("/api/reference/all-shops", async (req, res) => {
-    try {
-      const shops = await referenceDataService.getAllShops();
-      res.json(shops);
-    } catch (error) {
-      console.error("Failed to get all shops:", error);
-      res.status(500).json({ error: "Failed to fetch all shops" });
-    }
-  });
-
-  // Get users for a specific shop
-  app.get("/api/reference/shop/:shopName/users", async (req, res) => {
+  // Get users for a specific shop
+  app.get("/api/reference/shop/:shopName/users", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const { shopName } = req.params;
       const users = await referenceDataService.getUsersForShop(decodeURIComponent(shopName));
@@ -518,7 +1055,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get drivers for pickup/delivery
-  app.get("/api/reference/drivers", async (req, res) => {
+  app.get("/api/reference/drivers", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const drivers = await referenceDataService.getDrivers();
       res.json(drivers);
@@ -529,7 +1066,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get driver details (name + email) for pickup/delivery
-  app.get("/api/reference/driver-details", async (req, res) => {
+  app.get("/api/reference/driver-details", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const driverDetails = await referenceDataService.getDriverDetails();
       res.json(driverDetails);
@@ -540,7 +1077,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get drivers for a specific shop (filtered by shop name)
-  app.get("/api/reference/shop/:shopName/drivers", async (req, res) => {
+  app.get("/api/reference/shop/:shopName/drivers", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const { shopName } = req.params;
       const drivers = await referenceDataService.getDriversForShop(decodeURIComponent(shopName));
@@ -551,19 +1088,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get locations from ECS Locations - Drivers reference data
-  app.get("/api/reference/locations", async (req, res) => {
-    try {
-      const locations = await referenceDataService.getLocations();
-      res.json(locations);
-    } catch (error) {
-      console.error("Failed to get locations:", error);
-      res.status(500).json({ error: "Failed to fetch locations" });
-    }
-  });
-
   // Get parts from Parts reference data
-  app.get("/api/reference/parts", async (req, res) => {
+  app.get("/api/reference/parts", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const parts = await referenceDataService.getParts();
       res.json(parts);
@@ -574,7 +1100,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get processes from Process reference data
-  app.get("/api/reference/processes", async (req, res) => {
+  app.get("/api/reference/processes", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const processes = await referenceDataService.getProcesses();
       res.json(processes);
@@ -585,7 +1111,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get filter part numbers from Emission_pn_w kits reference data
-  app.get("/api/reference/filter-part-numbers", async (req, res) => {
+  app.get("/api/reference/filter-part-numbers", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const filterPartNumbers = await referenceDataService.getFilterPartNumbers();
       res.json(filterPartNumbers);
@@ -596,7 +1122,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new job
-  app.post("/api/jobs", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs", isAuthenticated, requirePermission("jobs.create"), async (req, res) => {
     try {
       const { arrivalPath, pickupDriverEmail, pickupNotes, shipmentNotes, shipmentCarrier, shipmentTrackingNumber, shipmentExpectedArrival, ...jobData } = req.body;
       const userId = requireUserId(req);
@@ -605,6 +1131,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Shipment uses same schema as pickup (same fields, but no driver dispatch)
       const schema = (arrivalPath === 'pickup' || arrivalPath === 'shipment') ? pickupJobSchema : insertJobSchema;
       const validatedData = schema.parse(jobData);
+      if (shopRegistry.find(validatedData.shopName)?.active !== "true") {
+        return res.status(400).json({ message: `Unknown or inactive shop "${validatedData.shopName}"` });
+      }
+      if (!canAccessShop(await getRequestPermissions(req), validatedData.shopName)) {
+        return res.status(403).json({ message: "You can't create jobs for another shop" });
+      }
       
       // Determine initial state based on arrival path
       // - pickup: queued_for_pickup (waiting for driver to pick up)
@@ -613,8 +1145,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const initialState = arrivalPath === 'shipment' ? 'shipment_inbound' : 'queued_for_pickup';
       
       // Build job data with shipment fields if provided
+      // Pickup and shipment forms don't ask for a user ID - default it to the creator, who owns the job
+      // (e.g. only they can roll it back)
       const jobDataWithShipment = {
         ...validatedData,
+        userId: validatedData.userId || await getRequestUserEmail(req) || undefined,
         state: initialState,
         ...(arrivalPath === 'shipment' && shipmentCarrier ? { shipmentCarrier } : {}),
         ...(arrivalPath === 'shipment' && shipmentTrackingNumber ? { shipmentTrackingNumber } : {}),
@@ -647,13 +1182,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
             await storage.createJobComment({
               jobId: job.jobId,
               userId,
-              commentText: `[Pickup Notes] ${pickupNotes.trim()}`,
+              commentText: pickupNotes.trim(),
+              source: "pickup_notes",
             });
           }
         } catch (dispatchError) {
           // Dispatch failed - rollback the job creation
           console.error(`Pickup dispatch failed for job ${job.jobId}, rolling back job creation:`, dispatchError);
-          await storage.deleteJob(job.id);
+          const rolledBack = await storage.deleteJob(job.id);
+          if (rolledBack) {
+            await attachmentStore.deleteFiles(rolledBack.files);
+          }
           throw new Error(`Failed to dispatch pickup: ${dispatchError instanceof Error ? dispatchError.message : 'Unknown error'}`);
         }
       }
@@ -682,13 +1221,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           await storage.createJobComment({
             jobId: job.jobId,
             userId,
-            commentText: `[Inbound Shipment Notes] ${shipmentNotes.trim()}`,
+            commentText: shipmentNotes.trim(),
+            source: "inbound_shipment_notes",
           });
           console.log(`Shipment notes saved as comment for job ${job.jobId}`);
         }
       }
 
       const updatedJob = await storage.getJob(job.id);
+      await auditLogService.record(req, { entityType: "job", entityId: job.jobId, jobId: job.jobId, action: "create", after: updatedJob ?? job });
       res.json(updatedJob);
     } catch (error) {
       console.error("Error creating job:", error);
@@ -703,7 +1244,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Job Action Endpoints - Pickup and Delivery Workflow
   
   // Dispatch pickup for a job
-  app.post("/api/jobs/:jobId/dispatch-pickup", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/dispatch-pickup", isAuthenticated, requireJobPermission("jobs.dispatch"), async (req, res) => {
     try {
       const { jobId } = req.params;
       const { driverEmail, pickupNotes } = req.body;
@@ -732,19 +1273,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.createJobComment({
           jobId: job.jobId,
           userId,
-          commentText: `[Pickup Notes] ${pickupNotes.trim()}`,
+          commentText: pickupNotes.trim(),
+          source: "pickup_notes",
         });
       }
       
       res.json(updatedJob);
     } catch (error) {
-      console.error("Error dispatching pickup:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to dispatch pickup" });
+      sendJobActionError(res, error, "Error dispatching pickup:", "Failed to dispatch pickup");
     }
   });
 
   // Mark job as picked up
-  app.post("/api/jobs/:jobId/mark-picked-up", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/mark-picked-up", isAuthenticated, requireJobPermission("jobs.transport"), async (req, res) => {
     try {
       const { jobId } = req.params;
       const { itemCount } = req.body;
@@ -757,13 +1298,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedJob = await jobEventsService.markPickedUp(job.jobId, itemCount);
       res.json(updatedJob);
     } catch (error) {
-      console.error("Error marking job as picked up:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to mark job as picked up" });
+      sendJobActionError(res, error, "Error marking job as picked up:", "Failed to mark job as picked up");
     }
   });
 
   // Check in job at shop
-  app.post("/api/jobs/:jobId/check-in", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/check-in", isAuthenticated, requireJobPermission("jobs.service"), async (req, res) => {
     try {
       const { jobId } = req.params;
       
@@ -890,7 +1430,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           await storage.createJobComment({
             jobId: updatedJob.jobId,
             userId: userName,
-            commentText: `[Note to Tech] ${noteToTech.trim()}`,
+            commentText: noteToTech.trim(),
+            source: "note_to_tech",
           });
           
           console.log(`✅ Added tech note as job comment for ${updatedJob.jobId} by ${userName}`);
@@ -902,13 +1443,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(updatedJob);
     } catch (error) {
-      console.error("Error checking in job:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to check in job" });
+      sendJobActionError(res, error, "Error checking in job:", "Failed to check in job");
     }
   });
 
   // Start service on job
-  app.post("/api/jobs/:jobId/start-service", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/start-service", isAuthenticated, requireJobPermission("jobs.service"), async (req, res) => {
     try {
       const { jobId } = req.params;
       const { technicianName } = req.body;
@@ -925,13 +1465,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedJob = await jobEventsService.startService(job.jobId, technicianName);
       res.json(updatedJob);
     } catch (error) {
-      console.error("Error starting service:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to start service" });
+      sendJobActionError(res, error, "Error starting service:", "Failed to start service");
     }
   });
 
   // Mark job as ready (for pickup or delivery)
-  app.post("/api/jobs/:jobId/mark-ready", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/mark-ready", isAuthenticated, requireJobPermission("jobs.service"), async (req, res) => {
     try {
       const { jobId } = req.params;
       const { 
@@ -961,13 +1500,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       res.json(updatedJob);
     } catch (error) {
-      console.error("Error marking job as ready:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to mark job as ready" });
+      sendJobActionError(res, error, "Error marking job as ready:", "Failed to mark job as ready");
     }
   });
 
   // Mark job as outbound shipment (completed state)
-  app.post("/api/jobs/:jobId/outbound-shipment", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/outbound-shipment", isAuthenticated, requireJobPermission("jobs.service"), async (req, res) => {
     try {
       const { jobId } = req.params;
       const { 
@@ -989,28 +1527,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Job not found" });
       }
 
-      // Update job with outbound shipment data and completed state
-      const now = new Date();
-      const updatedJob = await storage.updateJob(job.id, {
-        state: 'outbound_shipment',
-        completedAt: now,
-        completionMode: 'outbound_shipment',
-        shopName: location || job.shopName,
-        orderNumber: orderNumber || job.orderNumber,
-        orderNumber2: orderNumber2 || job.orderNumber2,
-        orderNumber3: orderNumber3 || job.orderNumber3,
-        orderNumber4: orderNumber4 || job.orderNumber4,
-        orderNumber5: orderNumber5 || job.orderNumber5,
-        outboundCarrier: carrier || null,
-        outboundTrackingNumber: trackingNumber || null,
-        outboundExpectedArrival: expectedArrival ? new Date(expectedArrival) : null,
-      });
-
-      // Log the event
-      await storage.createJobEvent({
-        jobId: job.jobId,
-        eventType: 'outbound_shipment',
-        description: `Job marked as shipped${carrier ? ` via ${carrier}` : ''}${trackingNumber ? ` (Tracking: ${trackingNumber})` : ''}`,
+      // Save shipment details and transition to the completed state (records the event)
+      const updatedJob = await jobEventsService.markOutboundShipment(job.jobId, {
+        location,
+        orderNumber,
+        orderNumber2,
+        orderNumber3,
+        orderNumber4,
+        orderNumber5,
+        carrier,
+        trackingNumber,
+        expectedArrival,
+      }, {
         actor: 'CSR',
         actorEmail: await getRequestUserEmail(req) || undefined,
       });
@@ -1020,20 +1548,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.createJobComment({
           jobId: job.jobId,
           userId,
-          commentText: `[Outbound Shipment Notes] ${shippingNotes.trim()}`,
+          commentText: shippingNotes.trim(),
+          source: "outbound_shipment_notes",
         });
       }
 
       console.log(`Job ${job.jobId} marked as outbound shipment`);
       res.json(updatedJob);
     } catch (error) {
-      console.error("Error marking job as outbound shipment:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to mark job as shipped" });
+      sendJobActionError(res, error, "Error marking job as outbound shipment:", "Failed to mark job as shipped");
     }
   });
 
   // Create a direct delivery job (skip service, go straight to delivery)
-  app.post("/api/jobs/direct-delivery", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/direct-delivery", isAuthenticated, requirePermission("jobs.create"), async (req, res) => {
     try {
       const { 
         shopName,
@@ -1057,6 +1585,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: "Shop name, customer name, customer ship-to, and driver email are required" 
         });
       }
+      if (shopRegistry.find(shopName)?.active !== "true") {
+        return res.status(400).json({ message: `Unknown or inactive shop "${shopName}"` });
+      }
+      if (!canAccessShop(await getRequestPermissions(req), shopName)) {
+        return res.status(403).json({ message: "You can't create jobs for another shop" });
+      }
 
       // Create the job with queued_for_delivery state
       // For direct delivery jobs, we set placeholder values for required fields
@@ -1102,20 +1636,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.createJobComment({
           jobId: createdJob.jobId,
           userId,
-          commentText: `[Delivery Notes] ${deliveryNotes.trim()}`,
+          commentText: deliveryNotes.trim(),
+          source: "delivery_notes",
         });
       }
       
+      await auditLogService.record(req, { entityType: "job", entityId: createdJob.jobId, jobId: createdJob.jobId, action: "create", after: updatedJob.job });
+
       // Return just the job object (dispatchDelivery returns { job, dispatchId })
       res.status(201).json(updatedJob.job);
     } catch (error) {
-      console.error("Error creating direct delivery job:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to create direct delivery job" });
+      sendJobActionError(res, error, "Error creating direct delivery job:", "Failed to create direct delivery job");
     }
   });
 
   // Dispatch delivery for a job
-  app.post("/api/jobs/:jobId/dispatch-delivery", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/dispatch-delivery", isAuthenticated, requireJobPermission("jobs.dispatch"), async (req, res) => {
     try {
       const { jobId } = req.params;
       const { 
@@ -1155,19 +1691,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.createJobComment({
           jobId: job.jobId,
           userId,
-          commentText: `[Delivery Notes] ${deliveryNotes.trim()}`,
+          commentText: deliveryNotes.trim(),
+          source: "delivery_notes",
         });
       }
       
       res.json(updatedJob);
     } catch (error) {
-      console.error("Error dispatching delivery:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to dispatch delivery" });
+      sendJobActionError(res, error, "Error dispatching delivery:", "Failed to dispatch delivery");
     }
   });
 
   // Mark job as delivered
-  app.post("/api/jobs/:jobId/mark-delivered", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/mark-delivered", isAuthenticated, requireJobPermission("jobs.transport"), async (req, res) => {
     try {
       const { jobId } = req.params;
       
@@ -1179,13 +1715,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedJob = await jobEventsService.markDelivered(job.jobId);
       res.json(updatedJob);
     } catch (error) {
-      console.error("Error marking job as delivered:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to mark job as delivered" });
+      sendJobActionError(res, error, "Error marking job as delivered:", "Failed to mark job as delivered");
     }
   });
 
   // Mark job as picked up from shop (post-completion tracking)
-  app.post("/api/jobs/:jobId/mark-picked-up-from-shop", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/mark-picked-up-from-shop", isAuthenticated, requireJobPermission("jobs.transport"), async (req, res) => {
     try {
       const { jobId } = req.params;
       
@@ -1197,13 +1732,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedJob = await jobEventsService.markPickedUpFromShop(job.jobId);
       res.json(updatedJob);
     } catch (error) {
-      console.error("Error marking job as picked up from shop:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to mark job as picked up from shop" });
+      sendJobActionError(res, error, "Error marking job as picked up from shop:", "Failed to mark job as picked up from shop");
     }
   });
 
   // Cancel job
-  app.post("/api/jobs/:jobId/cancel", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/cancel", isAuthenticated, requireJobPermission("jobs.cancel"), async (req, res) => {
     try {
       const { jobId } = req.params;
       const { reason } = req.body;
@@ -1216,13 +1750,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedJob = await jobEventsService.cancelJob(job.jobId, reason);
       res.json(updatedJob);
     } catch (error) {
-      console.error("Error cancelling job:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to cancel job" });
+      sendJobActionError(res, error, "Error cancelling job:", "Failed to cancel job");
+    }
+  });
+
+  // Get the workflow a job is pinned to and the states it can move to next
+  app.get("/api/jobs/:jobId/workflow", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      // Try to get job by UUID first, then by ECS-formatted jobId
+      let job = await storage.getJob(jobId);
+      if (!job) {
+        job = await storage.getJobByJobId(jobId);
+      }
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const workflow = await jobEventsService.getWorkflowForJob(job);
+      const definition = job.workflowId ? await storage.getWorkflowDefinition(job.workflowId) : undefined;
+
+      res.json({
+        workflowId: job.workflowId,
+        version: definition?.version ?? null,
+        shopName: definition?.shopName ?? null,
+        ...jobEventsService.getStateMachineInfo(workflow),
+        allowedNextStates: jobEventsService.getAllowedNextStates(job.state as JobState, workflow),
+      });
+    } catch (error) {
+      console.error("Error fetching job workflow:", error);
+      res.status(500).json({ message: "Failed to fetch job workflow" });
+    }
+  });
+
+  // Move a job to a workflow step that has no dedicated action (e.g. qa_inspection)
+  app.post("/api/jobs/:jobId/transition", isAuthenticated, requireJobPermission("jobs.edit"), async (req, res) => {
+    try {
+      const { state, notes } = jobTransitionSchema.parse(req.body);
+
+      const job = await findJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const actorEmail = await getRequestUserEmail(req);
+      const updatedJob = await jobEventsService.transitionJobState(job.jobId, state, {
+        actor: 'CSR',
+        actorEmail: actorEmail || undefined,
+        notes,
+      });
+      res.json(updatedJob);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      sendJobActionError(res, error, "Error transitioning job:", "Failed to transition job");
     }
   });
 
   // Get job events timeline
-  app.get("/api/jobs/:jobId/events", isAuthenticated, async (req, res) => {
+  app.get("/api/jobs/:jobId/events", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
     try {
       const { jobId } = req.params;
       
@@ -1245,7 +1834,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get job comments
-  app.get("/api/jobs/:jobId/comments", isAuthenticated, async (req, res) => {
+  app.get("/api/jobs/:jobId/comments", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
     try {
       const { jobId } = req.params;
       
@@ -1259,7 +1848,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Job not found" });
       }
       
-      const comments = await storage.getJobComments(job.jobId);
+      const comments = await jobCommentService.getConversation(job.jobId);
       res.json(comments);
     } catch (error) {
       console.error("Error fetching job comments:", error);
@@ -1267,11 +1856,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Add job comment
-  app.post("/api/jobs/:jobId/comments", isAuthenticated, async (req, res) => {
+  // Add job comment (or a reply, given parentId), optionally about one of the job's parts
+  app.post("/api/jobs/:jobId/comments", isAuthenticated, requireJobPermission("comments.create"), async (req, res) => {
     try {
       const { jobId } = req.params;
-      const { commentText } = req.body;
+      const { commentText, parentId, partId } = req.body;
       const userId = requireUserId(req);
       
       if (!commentText || !commentText.trim()) {
@@ -1288,10 +1877,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Job not found" });
       }
       
-      const comment = await storage.createJobComment({
-        jobId: job.jobId,
+      // Threads are one level deep - replying to a reply joins the same thread
+      let threadId: string | null = null;
+      if (parentId) {
+        const parent = await storage.getJobComment(parentId);
+        if (!parent || parent.jobId !== job.jobId) {
+          return res.status(404).json({ message: "Parent comment not found" });
+        }
+        threadId = parent.parentId ?? parent.id;
+      }
+
+      if (partId) {
+        const part = await storage.getJobPart(partId);
+        if (!part || part.jobId !== job.jobId) {
+          return res.status(404).json({ message: "Part not found" });
+        }
+      }
+
+      const comment = await jobCommentService.addComment(job, {
         userId,
         commentText: commentText.trim(),
+        parentId: threadId,
+        partId: partId || null,
+        authorEmail: await getRequestUserEmail(req),
       });
       
       res.json(comment);
@@ -1301,10 +1909,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Edit a comment - authors can edit their own comments; the previous text is kept as a revision
+  app.patch("/api/jobs/:jobId/comments/:commentId", isAuthenticated, requireJobPermission("comments.create"), async (req, res) => {
+    try {
+      const { commentText } = req.body;
+      if (!commentText || !commentText.trim()) {
+        return res.status(400).json({ message: "Comment text is required" });
+      }
+
+      const job = await findJob(req.params.jobId);
+      const comment = await storage.getJobComment(req.params.commentId);
+      if (!job || !comment || comment.jobId !== job.jobId) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.userId !== requireUserId(req)) {
+        return res.status(403).json({ message: "You can only edit your own comments" });
+      }
+
+      if (comment.commentText === commentText.trim()) {
+        return res.json(comment);
+      }
+
+      const updated = await jobCommentService.editComment(job, comment, commentText.trim(), await getRequestUserEmail(req));
+      res.json(updated);
+    } catch (error) {
+      console.error("Error editing job comment:", error);
+      res.status(500).json({ message: "Failed to edit comment" });
+    }
+  });
+
+  // Get a comment's edit history (previous versions, newest first)
+  app.get("/api/jobs/:jobId/comments/:commentId/revisions", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
+    try {
+      const job = await findJob(req.params.jobId);
+      const comment = await storage.getJobComment(req.params.commentId);
+      if (!job || !comment || comment.jobId !== job.jobId) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      const revisions = await storage.getJobCommentRevisions(comment.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching comment revisions:", error);
+      res.status(500).json({ message: "Failed to fetch comment revisions" });
+    }
+  });
+
+  // Attach a file to a comment. Body is the raw file; its name is passed as a query param
+  // (same convention as photo uploads)
+  app.post(
+    "/api/jobs/:jobId/comments/:commentId/attachments",
+    isAuthenticated,
+    requireJobPermission("comments.create"),
+    express.raw({ type: () => true, limit: "15mb" }),
+    async (req: any, res) => {
+      try {
+        const { fileName } = req.query as Record<string, string | undefined>;
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "File body is required" });
+        }
+        if (!fileName) {
+          return res.status(400).json({ message: "fileName is required" });
+        }
+
+        const job = await findJob(req.params.jobId);
+        const comment = await storage.getJobComment(req.params.commentId);
+        if (!job || !comment || comment.jobId !== job.jobId) {
+          return res.status(404).json({ message: "Comment not found" });
+        }
+        if (comment.userId !== requireUserId(req)) {
+          return res.status(403).json({ message: "You can only attach files to your own comments" });
+        }
+
+        const contentType = (req.headers["content-type"] || "").split(";")[0].trim();
+        if (!COMMENT_ATTACHMENT_EXTENSIONS[contentType]) {
+          return res.status(400).json({ message: `Unsupported file type: ${contentType || "unknown"}` });
+        }
+
+        const attachment = await attachmentStore.saveAttachment({
+          data: req.body,
+          contentType,
+          jobId: comment.jobId,
+          label: fileName,
+          commentId: comment.id,
+          uploadedBy: await getRequestUserEmail(req) || requireUserId(req),
+        });
+
+        res.status(201).json(attachment);
+      } catch (error) {
+        console.error("Error attaching file to comment:", error);
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to attach file" });
+      }
+    },
+  );
+
   // Job Parts API Endpoints
   
   // Get all parts for a job
-  app.get("/api/jobs/:jobId/parts", isAuthenticated, async (req, res) => {
+  app.get("/api/jobs/:jobId/parts", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
     try {
       const { jobId } = req.params;
       
@@ -1327,7 +2029,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Add a new part to a job
-  app.post("/api/jobs/:jobId/parts", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/parts", isAuthenticated, requireJobPermission("parts.edit"), async (req, res) => {
     try {
       const { jobId } = req.params;
       
@@ -1349,6 +2051,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const part = await storage.createJobPart(partData);
+      await auditLogService.record(req, { entityType: "part", entityId: part.id, jobId: job.jobId, action: "create", after: part });
+      googleSheetsService.requestSync(job.jobId);
       res.json(part);
     } catch (error: any) {
       console.error("Error creating job part:", error);
@@ -1385,12 +2089,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         jobId: job.jobId,
       });
       
+      // Capture the previous values for the audit log and status change notifications.
+      // The part must belong to this job: the shop check only covers the job in the URL.
+      const existingPart = await storage.getJobPart(partId);
+      if (!existingPart || existingPart.jobId !== job.jobId) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+      const previousStatus = existingPart.status ?? null;
+      
       const updatedPart = await storage.updateJobPart(partId, partData);
       
       if (!updatedPart) {
         return res.status(404).json({ message: "Part not found" });
       }
       
+      await auditLogService.record(req, { entityType: "part", entityId: partId, jobId: job.jobId, action: "update", before: existingPart, after: updatedPart });
+      
+      if (partData.status !== undefined && updatedPart.status && updatedPart.status !== previousStatus) {
+        notificationService.notifyPartStatusChanged(job, updatedPart, previousStatus, await getRequestUserEmail(req));
+      }
+      
+      googleSheetsService.requestSync(job.jobId);
       res.json(updatedPart);
     } catch (error: any) {
       console.error("Error updating job part:", error);
@@ -1401,11 +2120,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
   
-  app.patch("/api/jobs/:jobId/parts/:partId", isAuthenticated, updatePartHandler);
-  app.put("/api/jobs/:jobId/parts/:partId", isAuthenticated, updatePartHandler);
+  app.patch("/api/jobs/:jobId/parts/:partId", isAuthenticated, requireJobPermission("parts.edit"), updatePartHandler);
+  app.put("/api/jobs/:jobId/parts/:partId", isAuthenticated, requireJobPermission("parts.edit"), updatePartHandler);
 
   // Delete a part
-  app.delete("/api/jobs/:jobId/parts/:partId", isAuthenticated, async (req, res) => {
+  app.delete("/api/jobs/:jobId/parts/:partId", isAuthenticated, requireJobPermission("parts.edit"), async (req, res) => {
     try {
       const { jobId, partId } = req.params;
       
@@ -1419,8 +2138,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Job not found" });
       }
       
-      await storage.deleteJobPart(partId);
-      res.json({ message: "Part deleted successfully" });
+      const part = await storage.getJobPart(partId);
+      if (!part || part.jobId !== job.jobId) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+
+      // Soft delete: the part keeps its GoCanvas results and ECS serial until purged from the trash
+      const deletedPart = await storage.softDeleteJobPart(partId, await getRequestUserEmail(req));
+      if (!deletedPart) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+      await auditLogService.record(req, {
+        entityType: "part",
+        entityId: partId,
+        jobId: job.jobId,
+        action: "delete",
+        before: { deletedAt: null, deletedBy: null },
+        after: { deletedAt: deletedPart.deletedAt, deletedBy: deletedPart.deletedBy },
+      });
+      googleSheetsService.requestSync(job.jobId);
+      res.json({ message: "Part moved to trash" });
     } catch (error) {
       console.error("Error deleting job part:", error);
       res.status(500).json({ message: "Failed to delete job part" });
@@ -1428,141 +2165,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all jobs
-  app.get("/api/jobs", isAuthenticated, async (req: any, res) => {
-    try {
-      const { shop, status, search, dateFrom, dateTo, sortBy, sortOrder, page, pageSize } = req.query;
-      
-      // Get user's whitelist role and homeShop for access control
-      let effectiveShop = shop;
-      const userId = requireUserId(req);
-      if (userId) {
-        const user = await storage.getUser(userId);
-        if (user?.email) {
-          const whitelistEntry = await storage.getWhitelistByEmail(user.email);
-          if (whitelistEntry && ['driver', 'technician'].includes(whitelistEntry.role || '')) {
-            // Drivers and technicians can only see their homeShop's jobs
-            effectiveShop = whitelistEntry.homeShop || 'all';
-          }
-        }
-      }
-      
-      let jobs = await storage.getAllJobs();
-      
-      // Filter by shop name (enforced for drivers/technicians)
-      if (effectiveShop && typeof effectiveShop === 'string' && effectiveShop.trim() && effectiveShop !== 'all') {
-        jobs = jobs.filter(job => job.shopName === effectiveShop);
-      }
-      
-      // Filter by status (supports comma-separated values for multi-select)
-      if (status && typeof status === 'string' && status.trim()) {
-        const statuses = status.split(',').map(s => s.trim()).filter(s => s);
-        if (statuses.length > 0) {
-          jobs = jobs.filter(job => statuses.includes(job.state));
-        }
-      }
-      
-      // Filter by search query (Job ID or Customer Name)
-      if (search && typeof search === 'string' && search.trim()) {
-        const searchLower = search.toLowerCase().trim();
-        jobs = jobs.filter(job => 
-          String(job.jobId ?? '').toLowerCase().includes(searchLower) ||
-          String(job.customerName ?? '').toLowerCase().includes(searchLower)
-        );
-      }
-      
-      // Filter by date range (initiated date)
-      if (dateFrom && typeof dateFrom === 'string' && dateFrom.trim()) {
-        const fromDate = new Date(dateFrom);
-        fromDate.setHours(0, 0, 0, 0);
-        jobs = jobs.filter(job => {
-          if (!job.initiatedAt) return false;
-          const jobDate = new Date(job.initiatedAt);
-          return jobDate >= fromDate;
-        });
-      }
-      
-      if (dateTo && typeof dateTo === 'string' && dateTo.trim()) {
-        const toDate = new Date(dateTo);
-        toDate.setHours(23, 59, 59, 999);
-        jobs = jobs.filter(job => {
-          if (!job.initiatedAt) return false;
-          const jobDate = new Date(job.initiatedAt);
-          return jobDate <= toDate;
-        });
-      }
-      
-      // Sort jobs
-      if (sortBy && typeof sortBy === 'string') {
-        const order = sortOrder === 'asc' ? 1 : -1;
-        jobs.sort((a, b) => {
-          let aVal: any = a[sortBy as keyof typeof a];
-          let bVal: any = b[sortBy as keyof typeof b];
-          
-          // Handle null/undefined values - push them to the end
-          if (aVal == null && bVal == null) return 0;
-          if (aVal == null) return 1;
-          if (bVal == null) return -1;
-          
-          // Handle dates
-          if (sortBy.includes('At')) {
-            aVal = new Date(aVal).getTime();
-            bVal = new Date(bVal).getTime();
-          }
-          
-          // Handle strings
-          if (typeof aVal === 'string' && typeof bVal === 'string') {
-            return order * aVal.localeCompare(bVal);
-          }
-          
-          // Handle numbers
-          if (typeof aVal === 'number' && typeof bVal === 'number') {
-            return order * (aVal - bVal);
-          }
-          
-          // Fallback: convert to strings and compare
-          return order * String(aVal).localeCompare(String(bVal));
-        });
-      }
-      
-      // Calculate total before pagination
-      const total = jobs.length;
-      
-      // Apply pagination
-      const currentPage = page ? parseInt(page as string) : 1;
-      const itemsPerPage = pageSize ? parseInt(pageSize as string) : 25;
-      const startIndex = (currentPage - 1) * itemsPerPage;
-      const endIndex = startIndex + itemsPerPage;
-      
-      const paginatedJobs = jobs.slice(startIndex, endIndex);
-      
-      // Fetch parts for each paginated job to calculate part status priority
-      // Priority: W.O.A (yellow) > Failed (red) > All Approved (green)
-      const jobsWithPartStatus = await Promise.all(
-        paginatedJobs.map(async (job) => {
-          const parts = await storage.getJobParts(job.jobId);
-          let partStatusPriority: 'woa' | 'failed' | 'approved' | null = null;
-          
-          if (parts.length > 0) {
-            const hasWOA = parts.some(p => p.status === 'W.O.A');
-            const hasFailed = parts.some(p => p.status === 'Failed');
-            const allApproved = parts.every(p => p.status === 'Approved');
-            
-            if (hasWOA) {
-              partStatusPriority = 'woa';
-            } else if (hasFailed) {
-              partStatusPriority = 'failed';
-            } else if (allApproved) {
-              partStatusPriority = 'approved';
-            }
-          }
-          
-          return { ...job, partStatusPriority };
-        })
-      );
+  app.get("/api/jobs", isAuthenticated, requirePermission("jobs.view"), async (req: any, res) => {
+    try {
+      const { shop, status, sla, search, dateFrom, dateTo, sortBy, sortOrder, page, pageSize } = req.query;
+      
+      // Limited to the user's shops (or their active shop)
+      const shopNames = await getRequestShopScope(req, shop);
+      const { currentPage, itemsPerPage } = parsePagination(page, pageSize);
+
+      // Filtering, sorting, pagination and part status priority all run in SQL
+      const { data, total } = await storage.listJobs({
+        shopNames,
+        states: parseListParam(status),
+        search: typeof search === 'string' && search.trim() ? search.trim() : undefined,
+        initiatedFrom: parseDayBoundary(dateFrom, false),
+        initiatedTo: parseDayBoundary(dateTo, true),
+        slaStatuses: parseListParam(sla)?.filter((value): value is SlaStatus => slaStatuses.includes(value as SlaStatus)),
+        sortBy: typeof sortBy === 'string' ? sortBy : undefined,
+        sortOrder: sortOrder === 'asc' ? 'asc' : 'desc',
+        limit: itemsPerPage,
+        offset: (currentPage - 1) * itemsPerPage,
+      });
       
       // Return paginated response
       res.json({
-        data: jobsWithPartStatus,
+        data,
         total,
         page: currentPage,
         pageSize: itemsPerPage,
@@ -1574,7 +2201,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get job by ID
-  app.get("/api/jobs/:id", async (req, res) => {
+  app.get("/api/jobs/:id", isAuthenticated, requireJobPermission("jobs.view", "id"), async (req, res) => {
     try {
       const job = await storage.getJobByJobId(req.params.id);
       if (!job) {
@@ -1588,8 +2215,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete job by ID (for rollback on failed operations)
-  app.delete("/api/jobs/:jobId", isAuthenticated, async (req, res) => {
+  // Change history for a job and its parts, or a single part with ?partId=
+  app.get("/api/jobs/:jobId/audit", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const { partId, page, pageSize } = req.query;
+
+      let job = await storage.getJob(jobId);
+      if (!job) {
+        job = await storage.getJobByJobId(jobId);
+      }
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const { currentPage, itemsPerPage } = parsePagination(page, pageSize);
+      const { data, total } = await storage.listAuditEntries({
+        jobId: job.jobId,
+        ...(typeof partId === 'string' && partId ? { entityType: "part" as const, entityId: partId } : {}),
+        limit: itemsPerPage,
+        offset: (currentPage - 1) * itemsPerPage,
+      });
+
+      res.json({
+        data,
+        total,
+        page: currentPage,
+        pageSize: itemsPerPage,
+      });
+    } catch (error) {
+      console.error("Error fetching job audit history:", error);
+      res.status(500).json({ message: "Failed to fetch change history" });
+    }
+  });
+
+  // SLA targets currently running for a job, with their due times
+  app.get("/api/jobs/:jobId/sla", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      let job = await storage.getJob(jobId);
+      if (!job) {
+        job = await storage.getJobByJobId(jobId);
+      }
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const running = await slaService.getRunningTargets(job);
+      res.json(running.map(({ target, startedAt, dueAt, status }) => ({
+        targetId: target.id,
+        name: target.name,
+        fromState: target.fromState,
+        toState: target.toState,
+        targetMinutes: target.targetMinutes,
+        clock: target.clock,
+        startedAt,
+        dueAt,
+        status,
+      })));
+    } catch (error) {
+      console.error("Error fetching job SLA:", error);
+      res.status(500).json({ message: "Failed to fetch SLA status" });
+    }
+  });
+
+  // Roll back a job the client just created when a follow-up step (e.g. direct check-in) fails.
+  // Unlike DELETE, nothing goes to the trash - the job and everything recorded against it is removed.
+  app.post("/api/jobs/:jobId/rollback", isAuthenticated, requireJobPermission("jobs.create"), async (req, res) => {
+    try {
+      const job = await findJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const workflow = await jobEventsService.getWorkflowForJob(job);
+      const justCreated = Date.now() - job.initiatedAt.getTime() < JOB_ROLLBACK_WINDOW_MS;
+      const callerEmail = await getRequestUserEmail(req);
+      const isOwner = !!callerEmail && job.userId?.toLowerCase() === callerEmail.toLowerCase();
+      if (!isOwner && !hasPermission(await getRequestPermissions(req), "admin")) {
+        return res.status(403).json({ message: "Only the user who created this job can roll it back" });
+      }
+
+      if (!justCreated || !workflow.initialStates.includes(job.state as JobState)) {
+        return res.status(409).json({ message: "Only a job that was just created can be rolled back - move it to the trash instead" });
+      }
+
+      const rolledBack = await storage.deleteJob(job.id);
+      if (rolledBack) {
+        await attachmentStore.deleteFiles(rolledBack.files);
+        await auditLogService.record(req, { entityType: "job", entityId: job.jobId, jobId: job.jobId, action: "rollback", before: job });
+      }
+      res.json({ message: "Job rolled back", jobId: job.jobId });
+    } catch (error) {
+      console.error("Error rolling back job:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to roll back job" });
+    }
+  });
+
+  // Delete job by ID (moves it to the trash)
+  app.delete("/api/jobs/:jobId", isAuthenticated, requireJobPermission("jobs.delete"), async (req, res) => {
     try {
       const { jobId } = req.params;
       
@@ -1598,31 +2325,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Job not found" });
       }
       
-      await storage.deleteJob(job.id);
-      res.json({ message: "Job deleted successfully", jobId });
+      const deletedJob = await storage.softDeleteJob(job.id, await getRequestUserEmail(req));
+      if (deletedJob) {
+        await auditLogService.record(req, {
+          entityType: "job",
+          entityId: job.jobId,
+          jobId: job.jobId,
+          action: "delete",
+          before: { deletedAt: null, deletedBy: null },
+          after: { deletedAt: deletedJob.deletedAt, deletedBy: deletedJob.deletedBy },
+        });
+      }
+      res.json({ message: "Job moved to trash", jobId });
     } catch (error) {
       console.error("Error deleting job:", error);
       res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete job" });
     }
   });
 
-  // Peek at next ECS serial number for a given shop code and date (doesn't reserve it)
-  app.post("/api/serial/generate", isAuthenticated, async (req, res) => {
+  // Peek at next ECS serial number for a shop (doesn't reserve it). Takes the shop's
+  // registry name, or a shopCode; date defaults to today in the shop's timezone.
+  app.post("/api/serial/generate", isAuthenticated, requirePermission("parts.edit"), async (req, res) => {
     try {
-      const { shopCode, date } = req.body;
+      const { shopName, shopCode } = req.body;
       
-      if (!shopCode || !date) {
-        return res.status(400).json({ message: "shopCode and date are required" });
+      if (!shopName && !shopCode) {
+        return res.status(400).json({ message: "shopName or shopCode is required" });
+      }
+
+      const shop = shopName ? shopRegistry.find(shopName) : shopRegistry.findByCode(shopCode);
+      if (!shop) {
+        return res.status(400).json({ message: `Unknown shop ${shopName ? `"${shopName}"` : `code ${shopCode}`}` });
       }
+
+      const date = req.body.date || getTodayDateCode(shop);
       
-      // Validate format: shopCode should be 2 chars, date should be MMDDYYYY
-      if (shopCode.length !== 2 || !/^\d{8}$/.test(date)) {
-        return res.status(400).json({ message: "Invalid format. shopCode must be 2 characters, date must be MMDDYYYY" });
+      // Validate format: date should be MMDDYYYY
+      if (!/^\d{8}$/.test(date)) {
+        return res.status(400).json({ message: "Invalid format. date must be MMDDYYYY" });
       }
       
       // Peek at next serial without reserving it
-      const serialNumber = await storage.peekNextSerialNumber(shopCode, date);
-      res.json({ serialNumber });
+      const serialNumber = await storage.peekNextSerialNumber(shop.code, date);
+      res.json({ serialNumber, shopCode: shop.code, date });
     } catch (error) {
       console.error("Error generating serial number:", error);
       res.status(500).json({ message: "Failed to generate serial number" });
@@ -1630,7 +2375,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Check if a serial number is valid and available
-  app.get("/api/serial/check/:serialNumber", isAuthenticated, async (req, res) => {
+  app.get("/api/serial/check/:serialNumber", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const { serialNumber } = req.params;
       const { jobId, partId } = req.query;
@@ -1652,10 +2397,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         partId as string | undefined
       );
       
+      // Include the part already carrying this serial so scanned tags can jump straight to it,
+      // unless it's on a job in a shop the user can't see
+      let assignedPart = isAvailable ? undefined : await storage.getJobPartBySerial(serialNumber);
+      const assignedJob = assignedPart ? await storage.getJobByJobId(assignedPart.jobId) : undefined;
+      if (assignedJob && !(await canAccessJob(req, assignedJob))) {
+        assignedPart = undefined;
+      }
+
       res.json({
         valid: true,
         available: isAvailable,
-        serialNumber
+        serialNumber,
+        assignedPart: assignedPart
+          ? { id: assignedPart.id, jobId: assignedPart.jobId, part: assignedPart.part, process: assignedPart.process, status: assignedPart.status }
+          : null,
       });
     } catch (error) {
       console.error("Error checking serial number:", error);
@@ -1664,7 +2420,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Validate and reserve a manually-entered serial number
-  app.post("/api/serial/validate", isAuthenticated, async (req, res) => {
+  app.post("/api/serial/validate", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
       const { serialNumber } = req.body;
       
@@ -1710,156 +2466,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all parts with job information
-  app.get("/api/parts", isAuthenticated, async (req: any, res) => {
+  app.get("/api/parts", isAuthenticated, requirePermission("jobs.view"), async (req: any, res) => {
     try {
       const { shop, status, diagnosis, partStatus, search, dateFrom, dateTo, sortBy, sortOrder, page, pageSize } = req.query;
       
-      // Get user's whitelist role and homeShop for access control
-      let effectiveShop = shop;
-      const userId = requireUserId(req);
-      if (userId) {
-        const user = await storage.getUser(userId);
-        if (user?.email) {
-          const whitelistEntry = await storage.getWhitelistByEmail(user.email);
-          if (whitelistEntry && ['driver', 'technician'].includes(whitelistEntry.role || '')) {
-            // Drivers and technicians can only see their homeShop's parts
-            effectiveShop = whitelistEntry.homeShop || 'all';
-          }
-        }
-      }
-      
-      let parts = await storage.getAllJobParts();
-      
-      // Filter by shop name (enforced for drivers/technicians)
-      if (effectiveShop && typeof effectiveShop === 'string' && effectiveShop.trim() && effectiveShop !== 'all') {
-        parts = parts.filter(part => part.job && part.job.shopName === effectiveShop);
-      }
-      
-      // Filter by job status
-      if (status && typeof status === 'string' && status.trim()) {
-        const statuses = status.split(',').map(s => s.trim()).filter(s => s);
-        if (statuses.length > 0) {
-          parts = parts.filter(part => part.job && statuses.includes(part.job.state));
-        }
-      }
-      
-      // Filter by part diagnosis
-      if (diagnosis && typeof diagnosis === 'string' && diagnosis.trim()) {
-        const diagnoses = diagnosis.split(',').map(s => s.trim()).filter(s => s);
-        if (diagnoses.length > 0) {
-          parts = parts.filter(part => part.diagnosis && diagnoses.includes(part.diagnosis));
-        }
-      }
-      
-      // Filter by part status
-      if (partStatus && typeof partStatus === 'string' && partStatus.trim()) {
-        const statuses = partStatus.split(',').map(s => s.trim()).filter(s => s);
-        if (statuses.length > 0) {
-          parts = parts.filter(part => part.status && statuses.includes(part.status));
-        }
-      }
+      // Limited to the user's shops (or their active shop)
+      const shopNames = await getRequestShopScope(req, shop);
+      const { currentPage, itemsPerPage } = parsePagination(page, pageSize);
+
+      const { data, total } = await storage.listJobParts({
+        shopNames,
+        jobStates: parseListParam(status),
+        diagnoses: parseListParam(diagnosis),
+        statuses: parseListParam(partStatus),
+        search: typeof search === 'string' && search.trim() ? search.trim() : undefined,
+        createdFrom: parseDayBoundary(dateFrom, false),
+        createdTo: parseDayBoundary(dateTo, true),
+        sortBy: typeof sortBy === 'string' ? sortBy : undefined,
+        sortOrder: sortOrder === 'asc' ? 'asc' : 'desc',
+        limit: itemsPerPage,
+        offset: (currentPage - 1) * itemsPerPage,
+      });
       
-      // Filter by search query (Part Name, Job ID, or Customer Name)
-      if (search && typeof search === 'string' && search.trim()) {
-        const searchLower = search.toLowerCase().trim();
-        parts = parts.filter(part => 
-          String(part.part ?? '').toLowerCase().includes(searchLower) ||
-          String(part.job?.jobId ?? '').toLowerCase().includes(searchLower) ||
-          String(part.job?.customerName ?? '').toLowerCase().includes(searchLower)
-        );
+      res.json({
+        data,
+        total,
+        page: currentPage,
+        pageSize: itemsPerPage,
+      });
+    } catch (error) {
+      console.error("Error fetching parts:", error);
+      res.status(500).json({ message: "Failed to fetch parts" });
+    }
+  });
+
+  // Global search across jobs, parts, comments and timeline events (command palette)
+  app.get("/api/search", isAuthenticated, requirePermission("jobs.view"), async (req: any, res) => {
+    try {
+      const term = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (term.length < 2) {
+        return res.json({ results: [] });
       }
-      
-      // Filter by date range (part created date)
-      if (dateFrom && typeof dateFrom === 'string' && dateFrom.trim()) {
-        const fromDate = new Date(dateFrom);
-        fromDate.setHours(0, 0, 0, 0);
-        parts = parts.filter(part => {
-          if (!part.createdAt) return false;
-          const partDate = new Date(part.createdAt);
-          return partDate >= fromDate;
-        });
-      }
-      
-      if (dateTo && typeof dateTo === 'string' && dateTo.trim()) {
-        const toDate = new Date(dateTo);
-        toDate.setHours(23, 59, 59, 999);
-        parts = parts.filter(part => {
-          if (!part.createdAt) return false;
-          const partDate = new Date(part.createdAt);
-          return partDate <= toDate;
-        });
-      }
-      
-      // Sort parts
-      if (sortBy && typeof sortBy === 'string') {
-        const order = sortOrder === 'asc' ? 1 : -1;
-        parts.sort((a, b) => {
-          let aVal: any;
-          let bVal: any;
-          
-          // Handle nested job properties
-          if (sortBy.startsWith('job.')) {
-            const jobField = sortBy.substring(4);
-            aVal = a.job?.[jobField as keyof typeof a.job];
-            bVal = b.job?.[jobField as keyof typeof b.job];
-          } else {
-            aVal = a[sortBy as keyof typeof a];
-            bVal = b[sortBy as keyof typeof b];
-          }
-          
-          // Handle null/undefined values
-          if (aVal == null && bVal == null) return 0;
-          if (aVal == null) return 1;
-          if (bVal == null) return -1;
-          
-          // Handle dates
-          if (sortBy.includes('At')) {
-            aVal = new Date(aVal).getTime();
-            bVal = new Date(bVal).getTime();
-          }
-          
-          // Handle strings
-          if (typeof aVal === 'string' && typeof bVal === 'string') {
-            return order * aVal.localeCompare(bVal);
-          }
-          
-          // Handle numbers
-          if (typeof aVal === 'number' && typeof bVal === 'number') {
-            return order * (aVal - bVal);
-          }
-          
-          // Fallback
-          return order * String(aVal).localeCompare(String(bVal));
-        });
-      }
-      
-      // Calculate total before pagination
-      const total = parts.length;
-      
-      // Apply pagination
-      const currentPage = page ? parseInt(page as string) : 1;
-      const itemsPerPage = pageSize ? parseInt(pageSize as string) : 25;
-      const startIndex = (currentPage - 1) * itemsPerPage;
-      const endIndex = startIndex + itemsPerPage;
-      
-      const paginatedParts = parts.slice(startIndex, endIndex);
-      
-      res.json({
-        data: paginatedParts,
-        total,
-        page: currentPage,
-        pageSize: itemsPerPage,
-      });
+      const limit = Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 20));
+
+      // Limited to the user's shops (or their active shop)
+      const shopNames = await getRequestShopScope(req);
+
+      const results = await searchService.search(term, { shopNames, limit });
+      res.json({ results });
     } catch (error) {
-      console.error("Error fetching parts:", error);
-      res.status(500).json({ message: "Failed to fetch parts" });
+      console.error("Error searching:", error);
+      res.status(500).json({ message: "Failed to search" });
     }
   });
 
   // Get dashboard metrics
-  app.get("/api/metrics", async (req, res) => {
+  app.get("/api/metrics", isAuthenticated, requirePermission("jobs.view"), async (req, res) => {
     try {
-      const metrics = await jobTrackerService.calculateMetrics();
+      const metrics = await jobTrackerService.calculateMetrics(await getRequestShopScope(req, req.query.shop));
       res.json(metrics);
     } catch (error) {
       console.error("Error calculating metrics:", error);
@@ -1867,8 +2531,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Turnaround analytics for jobs completed in a date range (default: the last 12 weeks)
+  app.get("/api/analytics/turnaround", isAuthenticated, requirePermission("analytics.view"), async (req, res) => {
+    try {
+      const { shop, dateFrom, dateTo, groupBy } = req.query;
+
+      const completedTo = parseDayBoundary(dateTo, true) ?? new Date();
+      const completedFrom = parseDayBoundary(dateFrom, false)
+        ?? new Date(completedTo.getTime() - 12 * 7 * 24 * 60 * 60 * 1000);
+      if (completedFrom > completedTo) {
+        return res.status(400).json({ message: "Start date must be before end date" });
+      }
+
+      const dimension = analyticsDimensions.find((value) => value === groupBy) ?? "shop";
+      const report = await analyticsService.getTurnaroundReport({
+        shopNames: await getRequestShopScope(req, shop),
+        completedFrom,
+        completedTo,
+        groupBy: dimension,
+      });
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching turnaround analytics:", error);
+      res.status(500).json({ message: "Failed to fetch analytics" });
+    }
+  });
+
   // Debug endpoint to manually check job status
-  app.post("/api/debug/check-job-status", async (req, res) => {
+  app.post("/api/debug/check-job-status", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const { jobId, submissionGuid } = req.body;
       if (!jobId) {
@@ -1917,7 +2607,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Force manual polling check
-  app.post("/api/debug/force-poll", async (req, res) => {
+  app.post("/api/debug/force-poll", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       console.log("DEBUG: Forcing manual polling check...");
       // Note: checkPendingJobs is private, so we'll manually trigger the same logic
@@ -1929,7 +2619,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Manual check for updates - state-aware dispatch/submission query
-  app.post("/api/jobs/:jobId/check-updates", isAuthenticated, async (req, res) => {
+  app.post("/api/jobs/:jobId/check-updates", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
     try {
       const { jobId } = req.params;
       console.log(`🔍 Manual update check requested for job ${jobId}`);
@@ -2050,38 +2740,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Export jobs to Google Sheets
-  app.post("/api/jobs/export", async (req, res) => {
+  // Export jobs to Google Sheets (?force=true rewrites rows even if unchanged).
+  // Only the caller's shops (or active shop, or ?shop=) are exported.
+  app.post("/api/jobs/export", isAuthenticated, requirePermission("jobs.edit"), async (req, res) => {
     try {
-      const jobs = await storage.getAllJobs();
-      const result = await googleSheetsService.batchSyncJobs(jobs);
-      res.json(result);
+      const shopNames = await getRequestShopScope(req, req.query.shop);
+      const jobs = (await storage.getAllJobs()).filter(job => !shopNames || shopNames.includes(job.shopName));
+      const result = await googleSheetsService.batchSyncJobs(jobs, req.query.force === "true");
+      res.json({ ...result, ...(await googleSheetsService.getQueueStatus()) });
     } catch (error) {
       console.error("Error exporting jobs:", error);
       res.status(500).json({ message: "Failed to export jobs" });
     }
   });
 
-  // Update job status (for testing)
-  app.patch("/api/jobs/:id", async (req, res) => {
+  // Update job state (for testing) - still validated by the job's workflow
+  app.patch("/api/jobs/:id", isAuthenticated, requireJobPermission("jobs.edit", "id"), async (req, res) => {
     try {
-      const { status } = req.body;
-      const updatedJob = await storage.updateJob(req.params.id, { status });
-      
-      if (!updatedJob) {
+      const { state, notes } = req.body;
+      if (!workflowStates.includes(state)) {
+        return res.status(400).json({ message: `Unknown state: ${state}` });
+      }
+
+      const before = await storage.getJob(req.params.id);
+      if (!before) {
         res.status(404).json({ message: "Job not found" });
         return;
       }
+
+      const actorEmail = await getRequestUserEmail(req);
+      const updatedJob = await jobEventsService.transitionJobState(before.jobId, state as JobState, {
+        actor: 'CSR',
+        actorEmail: actorEmail || undefined,
+        notes,
+      });
       
+      await auditLogService.record(req, { entityType: "job", entityId: updatedJob.jobId, jobId: updatedJob.jobId, action: "update", before, after: updatedJob });
       res.json(updatedJob);
     } catch (error) {
-      console.error("Error updating job:", error);
-      res.status(500).json({ message: "Failed to update job" });
+      sendJobActionError(res, error, "Error updating job:", "Failed to update job");
     }
   });
 
   // GoCanvas API endpoints
-  app.get("/api/gocanvas/forms", async (req, res) => {
+  app.get("/api/gocanvas/forms", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const forms = await goCanvasService.listForms();
       res.json(forms);
@@ -2091,7 +2793,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/gocanvas/forms/:id", async (req, res) => {
+  app.get("/api/gocanvas/forms/:id", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const formDetails = await goCanvasService.getFormDetails(req.params.id);
       res.json(formDetails);
@@ -2102,7 +2804,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific submission by ID
-  app.get("/api/gocanvas/submission/:id", async (req, res) => {
+  app.get("/api/gocanvas/submission/:id", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       console.log('=== GoCanvas Submission by ID API Called ===');
       const submissionId = req.params.id;
@@ -2123,7 +2825,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get most recent submission with workflow data
-  app.get("/api/gocanvas/recent-submission", async (req, res) => {
+  app.get("/api/gocanvas/recent-submission", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       console.log('=== GoCanvas Recent Submission API Called ===');
       console.log('Headers:', req.headers);
@@ -2144,7 +2846,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all field labels for a specific job ID (debugging)
-  app.get("/api/gocanvas/all-fields/:jobId", async (req, res) => {
+  app.get("/api/gocanvas/all-fields/:jobId", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       console.log('=== GoCanvas All Fields API Called ===');
       const jobId = req.params.jobId;
@@ -2227,7 +2929,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test handoff data retrieval for debugging
-  app.get("/api/test-handoff/:jobId", async (req, res) => {
+  app.get("/api/test-handoff/:jobId", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const { jobId } = req.params;
       console.log(`🧪 TESTING handoff data retrieval for job ${jobId}`);
@@ -2247,7 +2949,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get handoff time data for a specific job ID
-  app.get("/api/gocanvas/handoff-time/:jobId", async (req, res) => {
+  app.get("/api/gocanvas/handoff-time/:jobId", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       console.log('=== GoCanvas Handoff Time API Called ===');
       const jobId = req.params.jobId;
@@ -2268,7 +2970,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test direct submissions access
-  app.get("/api/gocanvas/submissions", async (req, res) => {
+  app.get("/api/gocanvas/submissions", isAuthenticated, requirePermission("admin"), async (req, res) => {
     try {
       const formId = req.query.form_id || FORM_IDS.EMISSIONS;
       console.log(`Testing submissions API for form: ${formId}`);
@@ -2306,6 +3008,166 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ============ Notifications API ============
+
+  // Notifications belong to the request identity (the persona when ?asEmail= is used in dev)
+  const getNotificationRecipient = async (req: any): Promise<string> => {
+    const identity = await getRequestIdentity(req);
+    if (!identity) throw new Error("Not authenticated");
+    return identity.email;
+  };
+
+  // Get the user's notification inbox
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const userEmail = await getNotificationRecipient(req);
+      const unreadOnly = req.query.unreadOnly === "true";
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotificationsForUser(userEmail, { unreadOnly, limit }),
+        storage.getUnreadNotificationCount(userEmail),
+      ]);
+
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  // Mark every notification as read
+  app.post("/api/notifications/read-all", isAuthenticated, async (req: any, res) => {
+    try {
+      const userEmail = await getNotificationRecipient(req);
+      const updated = await storage.markAllNotificationsRead(userEmail);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  // Mark a single notification as read
+  app.post("/api/notifications/:id/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const userEmail = await getNotificationRecipient(req);
+      const notification = await storage.markNotificationRead(userEmail, req.params.id);
+
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to mark notification read" });
+    }
+  });
+
+  // Get the user's notification preferences
+  app.get("/api/notifications/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userEmail = await getNotificationRecipient(req);
+      const preferences = await storage.getNotificationPreferences(userEmail);
+      res.json({ pushTypes: preferences?.pushTypes ?? DEFAULT_PUSH_TYPES });
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  // Update which notification types are sent as Web Push
+  app.put("/api/notifications/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userEmail = await getNotificationRecipient(req);
+      const { pushTypes } = notificationPreferencesSchema.parse(req.body);
+      const preferences = await storage.upsertNotificationPreferences(userEmail, Array.from(new Set(pushTypes)));
+      res.json({ pushTypes: preferences.pushTypes });
+    } catch (error: any) {
+      console.error("Error updating notification preferences:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
+  // ============ Web Push API ============
+
+  // VAPID public key for PushManager.subscribe (enabled is false when push isn't configured)
+  app.get("/api/push/config", isAuthenticated, (_req, res) => {
+    res.json({
+      enabled: webPushService.isConfigured(),
+      publicKey: webPushService.getPublicKey(),
+    });
+  });
+
+  // Register this browser's push subscription for the user
+  app.post("/api/push/subscriptions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userEmail = await getNotificationRecipient(req);
+      const { endpoint, keys } = req.body || {};
+
+      if (!endpoint || !keys?.p256dh || !keys?.auth) {
+        return res.status(400).json({ message: "endpoint, keys.p256dh and keys.auth are required" });
+      }
+      if (!webPushService.isValidEndpoint(endpoint)) {
+        return res.status(400).json({ message: "Invalid push endpoint" });
+      }
+
+      const subscription = await storage.upsertPushSubscription({
+        userEmail,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userAgent: req.get("user-agent") || null,
+      });
+      res.json({ id: subscription.id });
+    } catch (error) {
+      console.error("Error saving push subscription:", error);
+      res.status(500).json({ message: "Failed to save push subscription" });
+    }
+  });
+
+  // Remove this browser's push subscription
+  app.delete("/api/push/subscriptions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userEmail = await getNotificationRecipient(req);
+      const { endpoint } = req.body || {};
+      if (!endpoint) {
+        return res.status(400).json({ message: "endpoint is required" });
+      }
+
+      const removed = await storage.deletePushSubscription(endpoint, userEmail);
+      res.json({ removed });
+    } catch (error) {
+      console.error("Error removing push subscription:", error);
+      res.status(500).json({ message: "Failed to remove push subscription" });
+    }
+  });
+
+  // Send a test push to all of the user's devices
+  app.post("/api/push/test", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!webPushService.isConfigured()) {
+        return res.status(503).json({ message: "Web Push is not configured on this server" });
+      }
+
+      const userEmail = await getNotificationRecipient(req);
+      const delivered = await webPushService.sendToUser(userEmail, {
+        title: "ECS Connect",
+        body: "Push notifications are working on this device.",
+        url: "/settings",
+        tag: "test",
+      });
+      res.json({ delivered });
+    } catch (error) {
+      console.error("Error sending test push:", error);
+      res.status(500).json({ message: "Failed to send test push" });
+    }
+  });
+
   // ============ Job List Tabs API ============
   
   // Get user's tabs
@@ -2334,6 +3196,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         position: position || 0,
       });
       
+      await auditLogService.record(req, { entityType: "tab", entityId: tab.id, action: "create", after: tab });
       res.json(tab);
     } catch (error) {
       console.error("Error creating tab:", error);
@@ -2353,11 +3216,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (isPinned !== undefined) updates.isPinned = isPinned ? 1 : 0;
       if (position !== undefined) updates.position = position;
       
+      const before = await storage.getTab(tabId);
       const tab = await storage.updateTab(tabId, updates);
       if (!tab) {
         return res.status(404).json({ message: "Tab not found" });
       }
       
+      await auditLogService.record(req, { entityType: "tab", entityId: tab.id, action: "update", before, after: tab });
       res.json(tab);
     } catch (error) {
       console.error("Error updating tab:", error);
@@ -2369,7 +3234,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/user/tabs/:tabId", isAuthenticated, async (req: any, res) => {
     try {
       const { tabId } = req.params;
+      const before = await storage.getTab(tabId);
       await storage.deleteTab(tabId);
+      if (before) {
+        await auditLogService.record(req, { entityType: "tab", entityId: tabId, action: "delete", before });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting tab:", error);
@@ -2387,7 +3256,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "tabIds must be an array" });
       }
       
+      const before = await storage.getUserTabs(userId);
       await storage.reorderTabs(userId, tabIds);
+      const after = await storage.getUserTabs(userId);
+      for (const tab of after) {
+        await auditLogService.record(req, {
+          entityType: "tab",
+          entityId: tab.id,
+          action: "update",
+          before: before.find((previous) => previous.id === tab.id),
+          after: tab,
+        });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error reordering tabs:", error);
@@ -2398,7 +3278,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ============ Form Submissions API (Native replacement for GoCanvas) ============
 
   // Create a new form dispatch
-  app.post("/api/form-submissions", isAuthenticated, async (req: any, res) => {
+  app.post("/api/form-submissions", isAuthenticated, requirePermission("jobs.dispatch"), async (req: any, res) => {
     try {
       const { jobId, formType, assignedTo } = req.body;
       const assignedBy = await getRequestUserEmail(req) || requireUserId(req);
@@ -2407,9 +3287,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "jobId, formType, and assignedTo are required" });
       }
 
+      const job = await findJob(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (!(await canAccessJob(req, job))) {
+        return res.status(403).json({ message: "This job belongs to another shop" });
+      }
+
       const submission = await formDispatchService.createDispatch(
         formType,
-        jobId,
+        job.jobId,
         assignedTo,
         assignedBy,
       );
@@ -2421,10 +3309,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get forms assigned to a user (for tech/driver mobile dashboard)
-  app.get("/api/form-submissions/assigned/:email", isAuthenticated, async (req: any, res) => {
+  // Get forms assigned to a user (for tech/driver mobile dashboard). Techs and
+  // drivers can only list their own; CSRs and admins can look up anyone's.
+  app.get("/api/form-submissions/assigned/:email", isAuthenticated, requirePermission("jobs.view"), async (req: any, res) => {
     try {
       const { email } = req.params;
+      const identity = await getRequestIdentity(req);
+      if (email.toLowerCase() !== identity?.email && !hasPermission(await getRequestPermissions(req), "jobs.dispatch")) {
+        return res.status(403).json({ message: "You can only view your own assigned forms" });
+      }
       const submissions = await storage.getFormSubmissionsAssignedTo(email);
       res.json(submissions);
     } catch (error) {
@@ -2434,7 +3327,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get form submissions for a job
-  app.get("/api/form-submissions/job/:jobId", isAuthenticated, async (req: any, res) => {
+  app.get("/api/form-submissions/job/:jobId", isAuthenticated, requireJobPermission("jobs.view"), async (req: any, res) => {
     try {
       const { jobId } = req.params;
       const submissions = await storage.getFormSubmissionsByJob(jobId);
@@ -2446,7 +3339,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get a single form submission
-  app.get("/api/form-submissions/:id", isAuthenticated, async (req: any, res) => {
+  app.get("/api/form-submissions/:id", isAuthenticated, requireRecordJobPermission("jobs.view", submissionJobId), async (req: any, res) => {
     try {
       const { id } = req.params;
       const submission = await storage.getFormSubmission(id);
@@ -2461,9 +3354,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Mark form as in progress (tech/driver opened it)
-  app.patch("/api/form-submissions/:id/start", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/form-submissions/:id/start", isAuthenticated, requireRecordJobPermission(["jobs.transport", "jobs.service"], submissionJobId), async (req: any, res) => {
     try {
       const { id } = req.params;
+      const existing = await storage.getFormSubmission(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Form submission not found" });
+      }
+      if (!(await isFormAssignee(req, existing))) {
+        return res.status(403).json({ message: "This form is assigned to someone else" });
+      }
+
       const submission = await formDispatchService.startSubmission(id);
       res.json(submission);
     } catch (error) {
@@ -2473,21 +3374,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Complete a form submission (tech/driver submits their data)
-  app.post("/api/form-submissions/:id/complete", isAuthenticated, async (req: any, res) => {
+  app.post("/api/form-submissions/:id/complete", isAuthenticated, requireRecordJobPermission(["jobs.transport", "jobs.service"], submissionJobId), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { responseData, gps, deviceInfo, offline } = req.body;
+      const { responseData, gps, deviceInfo, offline, signature } = req.body;
+
+      const existing = await storage.getFormSubmission(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Form submission not found" });
+      }
+      if (!(await isFormAssignee(req, existing))) {
+        return res.status(403).json({ message: "This form is assigned to someone else" });
+      }
 
       if (!responseData) {
         return res.status(400).json({ message: "responseData is required" });
       }
 
+      const parsedSignature = signature ? formSignatureSchema.safeParse(signature) : undefined;
+      if (parsedSignature && !parsedSignature.success) {
+        return res.status(400).json({ message: parsedSignature.error.errors[0]?.message || "Invalid signature" });
+      }
+
       const submission = await formDispatchService.completeSubmission(
         id,
         responseData,
         gps,
         deviceInfo,
         offline,
+        parsedSignature?.data,
       );
 
       res.json(submission);
@@ -2497,6 +3412,366 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ============ Attachments API (form photos) ============
+
+  // Upload a photo. Body is the raw image; metadata is passed as query params so
+  // the client can send resized blobs without multipart encoding.
+  app.post(
+    "/api/attachments",
+    isAuthenticated,
+    requirePermission(["jobs.transport", "jobs.service", "parts.edit"]),
+    express.raw({ type: "image/*", limit: "15mb" }),
+    async (req: any, res) => {
+      try {
+        const { submissionId, partId, label, clientId, capturedAt } = req.query as Record<string, string | undefined>;
+        let { jobId } = req.query as Record<string, string | undefined>;
+
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Image body is required" });
+        }
+        if (!label) {
+          return res.status(400).json({ message: "label is required" });
+        }
+
+        // Photos taken inside a form inherit the job from the submission
+        if (submissionId) {
+          const submission = await storage.getFormSubmission(submissionId);
+          if (!submission) {
+            return res.status(404).json({ message: "Form submission not found" });
+          }
+          jobId = submission.jobId;
+        }
+        if (!jobId) {
+          return res.status(400).json({ message: "jobId or submissionId is required" });
+        }
+
+        const job = await findJob(jobId);
+        if (!job) {
+          return res.status(404).json({ message: "Job not found" });
+        }
+        if (!(await canAccessJob(req, job))) {
+          return res.status(403).json({ message: "This job belongs to another shop" });
+        }
+        if (partId) {
+          const part = await storage.getJobPart(partId);
+          if (!part || part.jobId !== job.jobId) {
+            return res.status(404).json({ message: "Part not found" });
+          }
+        }
+
+        const contentType = (req.headers["content-type"] || "").split(";")[0].trim();
+        if (!ALLOWED_ATTACHMENT_TYPES.includes(contentType)) {
+          return res.status(400).json({ message: `Unsupported image type: ${contentType || "unknown"}` });
+        }
+        const capturedDate = capturedAt ? new Date(capturedAt) : undefined;
+        if (capturedDate && isNaN(capturedDate.getTime())) {
+          return res.status(400).json({ message: "capturedAt must be a valid date" });
+        }
+
+        const uploadedBy = await getRequestUserEmail(req) || requireUserId(req);
+        const attachment = await attachmentStore.saveAttachment({
+          data: req.body,
+          contentType,
+          jobId: job.jobId,
+          label,
+          submissionId,
+          partId,
+          clientId,
+          uploadedBy,
+          capturedAt: capturedDate,
+        });
+
+        res.status(201).json(attachment);
+      } catch (error) {
+        console.error("Error uploading attachment:", error);
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to upload attachment" });
+      }
+    },
+  );
+
+  // Serve attachment content (used as <img src>)
+  app.get("/api/attachments/:id/content", isAuthenticated, requireRecordJobPermission("jobs.view", attachmentJobId), async (req, res) => {
+    try {
+      const attachment = await storage.getAttachment(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      const content = await attachmentStore.getContent(attachment);
+      res.setHeader("Content-Type", attachment.contentType);
+      if (attachment.commentId) {
+        res.setHeader("Content-Disposition", `inline; filename="${attachment.label.replace(/["\r\n]/g, "")}"`);
+      }
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.send(content);
+    } catch (error) {
+      console.error("Error fetching attachment content:", error);
+      res.status(500).json({ message: "Failed to fetch attachment" });
+    }
+  });
+
+  // Delete an attachment (e.g. tech retakes a photo before submitting)
+  app.delete("/api/attachments/:id", isAuthenticated, requireRecordJobPermission(["jobs.transport", "jobs.service", "parts.edit"], attachmentJobId), async (req, res) => {
+    try {
+      const attachment = await storage.getAttachment(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      // Only whoever took the photo (or an admin) can remove it
+      const uploadedBy = await getRequestUserEmail(req) || requireUserId(req);
+      if (attachment.uploadedBy !== uploadedBy && !hasPermission(await getRequestPermissions(req), "admin")) {
+        return res.status(403).json({ message: "You can only delete photos you uploaded" });
+      }
+      // Photos on a completed form are part of its record
+      if (attachment.submissionId) {
+        const submission = await storage.getFormSubmission(attachment.submissionId);
+        if (submission?.status === "completed") {
+          return res.status(409).json({ message: "Photos on a completed form can't be deleted" });
+        }
+      }
+
+      await attachmentStore.deleteAttachment(attachment);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  // Get all photos for a job (job-level and per-part)
+  app.get("/api/jobs/:jobId/attachments", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      // Try to get job by UUID first, then by ECS-formatted jobId
+      let job = await storage.getJob(jobId);
+      if (!job) {
+        job = await storage.getJobByJobId(jobId);
+      }
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const jobAttachments = await storage.getAttachmentsByJob(job.jobId);
+      res.json(jobAttachments);
+    } catch (error) {
+      console.error("Error fetching job attachments:", error);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  // Get photos for a single part
+  app.get("/api/jobs/:jobId/parts/:partId/attachments", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
+    try {
+      const job = await findJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const part = await storage.getJobPart(req.params.partId);
+      if (!part || part.jobId !== job.jobId) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+
+      const partAttachments = await storage.getAttachmentsByPart(part.id);
+      res.json(partAttachments);
+    } catch (error) {
+      console.error("Error fetching part attachments:", error);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  // Get photos already uploaded for a form submission (restores photos when a form is reopened)
+  app.get("/api/form-submissions/:id/attachments", isAuthenticated, requireRecordJobPermission("jobs.view", submissionJobId), async (req, res) => {
+    try {
+      const submissionAttachments = await storage.getAttachmentsBySubmission(req.params.id);
+      res.json(submissionAttachments);
+    } catch (error) {
+      console.error("Error fetching submission attachments:", error);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  // Generated documents (delivery receipts) stored against a job
+  app.get("/api/jobs/:jobId/documents", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      // Try to get job by UUID first, then by ECS-formatted jobId
+      let job = await storage.getJob(jobId);
+      if (!job) {
+        job = await storage.getJobByJobId(jobId);
+      }
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const documents = await storage.getJobDocumentsByJob(job.jobId);
+      res.json(documents);
+    } catch (error) {
+      console.error("Error fetching job documents:", error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  // Download the delivery receipt PDF, generating it if the job was delivered without one
+  // Pass ?regenerate=true to build a fresh copy (e.g. after correcting parts data)
+  app.get("/api/jobs/:jobId/delivery-receipt", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      // Try to get job by UUID first, then by ECS-formatted jobId
+      let job = await storage.getJob(jobId);
+      if (!job) {
+        job = await storage.getJobByJobId(jobId);
+      }
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      if (job.state !== "delivered") {
+        return res.status(400).json({ message: "Delivery receipts are only available for delivered jobs" });
+      }
+
+      const userEmail = await getRequestUserEmail(req) || requireUserId(req);
+      const document = req.query.regenerate === "true"
+        ? await deliveryReceiptService.generateReceipt(job.jobId, userEmail)
+        : await deliveryReceiptService.getOrCreateReceipt(job.jobId, userEmail);
+
+      const content = await attachmentStore.getDocumentContent(document);
+      res.setHeader("Content-Type", document.contentType);
+      res.setHeader("Content-Disposition", `inline; filename="${document.fileName}"`);
+      res.send(content);
+    } catch (error) {
+      console.error("Error fetching delivery receipt:", error);
+      res.status(500).json({ message: "Failed to generate delivery receipt" });
+    }
+  });
+
+  // Service certificates - one page per part, combined into a single PDF for the job
+  app.get("/api/jobs/:jobId/certificates", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      // Try to get job by UUID first, then by ECS-formatted jobId
+      let job = await storage.getJob(jobId);
+      if (!job) {
+        job = await storage.getJobByJobId(jobId);
+      }
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const parts = await storage.getJobParts(job.jobId);
+      if (parts.length === 0) {
+        return res.status(400).json({ message: "Job has no parts to certify" });
+      }
+
+      const { pdf, fileName } = await serviceCertificateService.buildCertificates(job.jobId);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating service certificates:", error);
+      res.status(500).json({ message: "Failed to generate service certificates" });
+    }
+  });
+
+  // Service certificate for a single part
+  app.get("/api/jobs/:jobId/parts/:partId/certificate", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
+    try {
+      const { jobId, partId } = req.params;
+
+      // Try to get job by UUID first, then by ECS-formatted jobId
+      let job = await storage.getJob(jobId);
+      if (!job) {
+        job = await storage.getJobByJobId(jobId);
+      }
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const parts = await storage.getJobParts(job.jobId);
+      if (!parts.some((p) => p.id === partId)) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+
+      const { pdf, fileName } = await serviceCertificateService.buildCertificates(job.jobId, partId);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating service certificate:", error);
+      res.status(500).json({ message: "Failed to generate service certificate" });
+    }
+  });
+
+  // Printable part tags (PDF sized for thermal label stock), one label per part with an ECS serial
+  // Query: stock=4x6|2x1, symbology=code128|qr, partIds=comma-separated (defaults to all parts)
+  app.get("/api/jobs/:jobId/labels", isAuthenticated, requireJobPermission("jobs.view"), async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      const stock = (req.query.stock as string | undefined) ?? "4x6";
+      const symbology = (req.query.symbology as string | undefined) ?? "code128";
+      if (!LABEL_STOCKS.includes(stock as LabelStock) || !LABEL_SYMBOLOGIES.includes(symbology as LabelSymbology)) {
+        return res.status(400).json({ message: `stock must be one of ${LABEL_STOCKS.join(", ")} and symbology one of ${LABEL_SYMBOLOGIES.join(", ")}` });
+      }
+
+      // Try to get job by UUID first, then by ECS-formatted jobId
+      let job = await storage.getJob(jobId);
+      if (!job) {
+        job = await storage.getJobByJobId(jobId);
+      }
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const partIds = typeof req.query.partIds === "string" && req.query.partIds
+        ? req.query.partIds.split(",")
+        : null;
+      const parts = (await storage.getJobParts(job.jobId))
+        .filter((p) => !!p.ecsSerial && (!partIds || partIds.includes(p.id)));
+
+      if (parts.length === 0) {
+        return res.status(400).json({ message: "No parts with an ECS serial number to label" });
+      }
+
+      const pdf = partLabelService.buildLabels(job, parts, stock as LabelStock, symbology as LabelSymbology);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="labels-${job.jobId}-${stock}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating part labels:", error);
+      res.status(500).json({ message: "Failed to generate labels" });
+    }
+  });
+
+  // Download a stored document by id
+  app.get("/api/documents/:id/content", isAuthenticated, requireRecordJobPermission("jobs.view", documentJobId), async (req, res) => {
+    try {
+      const document = await storage.getJobDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const content = await attachmentStore.getDocumentContent(document);
+      res.setHeader("Content-Type", document.contentType);
+      res.setHeader("Content-Disposition", `inline; filename="${document.fileName}"`);
+      res.send(content);
+    } catch (error) {
+      console.error("Error fetching document content:", error);
+      res.status(500).json({ message: "Failed to fetch document" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,104 @@
+import { storage, type AnalyticsDimension, type AnalyticsScope, type AnalyticsStage, type DurationGroup, type DurationStats } from "../storage";
+
+export const analyticsDimensions: AnalyticsDimension[] = ["shop", "technician", "customer", "process"];
+
+export interface TurnaroundReportOptions extends AnalyticsScope {
+  groupBy: AnalyticsDimension;
+}
+
+export interface StageReport extends DurationStats {
+  stage: AnalyticsStage;
+  label: string;
+}
+
+export interface DistributionBucket {
+  label: string;
+  count: number;
+}
+
+export interface WeeklyTrend extends DurationStats {
+  weekStart: string; // yyyy-MM-dd, the Monday starting the week
+  medianChangePercent: number | null; // vs the previous week's median
+}
+
+export interface TurnaroundReport {
+  range: { from: string; to: string };
+  groupBy: AnalyticsDimension;
+  overall: DurationStats;
+  groups: DurationGroup[];
+  stages: StageReport[];
+  distribution: DistributionBucket[];
+  weekly: WeeklyTrend[];
+}
+
+const GROUP_LIMIT = 25; // busiest groups only; customers can run into the hundreds
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const STAGES: Array<{ stage: AnalyticsStage; label: string }> = [
+  { stage: "pickup_wait", label: "Pickup Wait" },
+  { stage: "shop_queue", label: "Shop Queue" },
+  { stage: "tech_time", label: "Tech Time" },
+  { stage: "ready_to_delivery", label: "Ready to Delivery" },
+];
+
+// Upper bounds of the turnaround histogram, in minutes; the last bucket is open-ended
+const DAY = 24 * 60;
+const DISTRIBUTION_BOUNDS = [DAY, 2 * DAY, 3 * DAY, 5 * DAY, 7 * DAY, 14 * DAY];
+const DISTRIBUTION_LABELS = ["< 1 day", "1-2 days", "2-3 days", "3-5 days", "5-7 days", "1-2 weeks", "2+ weeks"];
+
+const EMPTY_STATS: DurationStats = { count: 0, avg: null, p50: null, p75: null, p90: null, max: null };
+
+/** Monday 00:00 UTC of the week containing the date, matching Postgres date_trunc('week') */
+function weekStartOf(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+/**
+ * AnalyticsService builds the turnaround report for the analytics page. The
+ * aggregation (percentiles, histogram, weekly rollups, stage durations from
+ * job_events) runs in SQL; this labels the results and fills in empty weeks so
+ * trends line up.
+ */
+class AnalyticsService {
+  async getTurnaroundReport(options: TurnaroundReportOptions): Promise<TurnaroundReport> {
+    const { groupBy, ...scope } = options;
+    const [overall, groups, stageDurations, distribution, weekly] = await Promise.all([
+      storage.getTurnaroundStats(scope),
+      storage.getTurnaroundByDimension(scope, groupBy, GROUP_LIMIT),
+      storage.getStageDurations(scope),
+      storage.getTurnaroundDistribution(scope, DISTRIBUTION_BOUNDS),
+      storage.getWeeklyTurnaround(scope),
+    ]);
+
+    return {
+      range: { from: scope.completedFrom.toISOString(), to: scope.completedTo.toISOString() },
+      groupBy,
+      overall,
+      groups,
+      stages: STAGES.map(({ stage, label }) => ({ stage, label, ...stageDurations[stage] })),
+      distribution: DISTRIBUTION_LABELS.map((label, index) => ({ label, count: distribution[index] ?? 0 })),
+      weekly: this.fillWeeks(scope, weekly),
+    };
+  }
+
+  // One entry per week in the range, with week-over-week change in the median
+  private fillWeeks(scope: AnalyticsScope, weeks: Array<DurationStats & { weekStart: Date }>): WeeklyTrend[] {
+    const byWeek = new Map(weeks.map((week) => [weekStartOf(week.weekStart).getTime(), week]));
+    const trends: WeeklyTrend[] = [];
+    let previousMedian: number | null = null;
+
+    for (let time = weekStartOf(scope.completedFrom).getTime(); time <= scope.completedTo.getTime(); time += WEEK_MS) {
+      const { weekStart: _weekStart, ...stats } = byWeek.get(time) ?? { weekStart: null, ...EMPTY_STATS };
+      const medianChangePercent = previousMedian && stats.p50 !== null
+        ? Math.round(((stats.p50 - previousMedian) / previousMedian) * 100)
+        : null;
+      trends.push({ weekStart: new Date(time).toISOString().slice(0, 10), ...stats, medianChangePercent });
+      previousMedian = stats.p50;
+    }
+    return trends;
+  }
+}
+
+export const analyticsService = new AnalyticsService();
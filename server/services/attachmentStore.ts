@@ -0,0 +1,272 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash, createHmac, randomUUID } from "crypto";
+import { storage } from "../storage";
+import type { Attachment, JobDocument, JobDocumentType } from "@shared/schema";
+
+/**
+ * AttachmentStore persists photo uploads from native forms.
+ *
+ * Two backends are supported, selected by ATTACHMENT_STORAGE:
+ * - local (default): files under ATTACHMENT_DIR (defaults to ./uploads)
+ * - s3: any S3-compatible bucket (AWS, R2, MinIO) via S3_ENDPOINT, S3_BUCKET,
+ *   S3_REGION, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY
+ *
+ * Generated job documents (PDF receipts, certificates) are stored the same way.
+ *
+ * The backend used is recorded on each attachment row, so switching backends
+ * later doesn't orphan existing photos as long as the old one stays configured.
+ */
+
+export const ALLOWED_ATTACHMENT_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+// Files attached to job comments may also be documents; values are the stored extension
+export const COMMENT_ATTACHMENT_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+  "text/plain": "txt",
+  "text/csv": "csv",
+};
+
+type BackendName = "local" | "s3";
+
+interface AttachmentBackend {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+class LocalDiskBackend implements AttachmentBackend {
+  private root = path.resolve(process.env.ATTACHMENT_DIR || "uploads");
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    // Keys are generated server-side, but never allow escaping the upload directory
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+/**
+ * Minimal S3 client using path-style requests signed with AWS Signature V4.
+ */
+class S3Backend implements AttachmentBackend {
+  private endpoint = (process.env.S3_ENDPOINT || "").replace(/\/$/, "");
+  private bucket = process.env.S3_BUCKET || "";
+  private region = process.env.S3_REGION || "us-east-1";
+  private accessKeyId = process.env.S3_ACCESS_KEY_ID || "";
+  private secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || "";
+
+  private sha256(data: string | Buffer): string {
+    return createHash("sha256").update(data).digest("hex");
+  }
+
+  private hmac(key: string | Buffer, data: string): Buffer {
+    return createHmac("sha256", key).update(data).digest();
+  }
+
+  private async request(method: "PUT" | "GET" | "DELETE", key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    if (!this.endpoint || !this.bucket || !this.accessKeyId || !this.secretAccessKey) {
+      throw new Error("S3 attachment storage is not configured (S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)");
+    }
+
+    const url = new URL(`${this.endpoint}/${this.bucket}/${key.split("/").map(encodeURIComponent).join("/")}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = this.sha256(body ?? "");
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    if (contentType) {
+      headers["content-type"] = contentType;
+    }
+
+    const signedHeaders = Object.keys(headers).sort().join(";");
+    const canonicalHeaders = Object.keys(headers).sort().map((h) => `${h}:${headers[h]}\n`).join("");
+    const canonicalRequest = [method, url.pathname, "", canonicalHeaders, signedHeaders, payloadHash].join("\n");
+
+    const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, this.sha256(canonicalRequest)].join("\n");
+
+    const signingKey = this.hmac(this.hmac(this.hmac(this.hmac(`AWS4${this.secretAccessKey}`, dateStamp), this.region), "s3"), "aws4_request");
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    const { host: _host, ...requestHeaders } = headers;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body,
+    });
+
+    if (!response.ok && !(method === "DELETE" && response.status === 404)) {
+      throw new Error(`S3 ${method} ${key} failed: ${response.status} ${await response.text()}`);
+    }
+    return response;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.request("PUT", key, data, contentType);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request("GET", key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request("DELETE", key);
+  }
+}
+
+class AttachmentStore {
+  private backends: Record<BackendName, AttachmentBackend> = {
+    local: new LocalDiskBackend(),
+    s3: new S3Backend(),
+  };
+
+  private get defaultBackend(): BackendName {
+    return process.env.ATTACHMENT_STORAGE === "s3" ? "s3" : "local";
+  }
+
+  private backendFor(stored: Pick<Attachment, "storageBackend">): AttachmentBackend {
+    return this.backends[stored.storageBackend as BackendName] ?? this.backends.local;
+  }
+
+  /**
+   * Store an uploaded photo and record it against the job (and optionally submission/part/comment).
+   * Uploads carrying a clientId that was already stored return the existing row,
+   * so offline queue retries are idempotent.
+   */
+  async saveAttachment(params: {
+    data: Buffer;
+    contentType: string;
+    jobId: string;
+    label: string;
+    submissionId?: string;
+    partId?: string;
+    commentId?: string;
+    clientId?: string;
+    uploadedBy?: string;
+    capturedAt?: Date;
+  }): Promise<Attachment> {
+    const allowed = params.commentId ? Object.keys(COMMENT_ATTACHMENT_EXTENSIONS) : ALLOWED_ATTACHMENT_TYPES;
+    if (!allowed.includes(params.contentType)) {
+      throw new Error(`Unsupported attachment type: ${params.contentType}`);
+    }
+
+    if (params.clientId) {
+      const existing = await storage.getAttachmentByClientId(params.clientId);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const extension = COMMENT_ATTACHMENT_EXTENSIONS[params.contentType];
+    const fileName = `${randomUUID()}.${extension}`;
+    const storageKey = `${params.jobId}/${fileName}`;
+    const backend = this.defaultBackend;
+
+    await this.backends[backend].put(storageKey, params.data, params.contentType);
+    console.log(`📷 [Attachments] Stored ${params.data.length} bytes for ${params.jobId} (${params.label}) on ${backend}`);
+
+    return await storage.createAttachment({
+      jobId: params.jobId,
+      submissionId: params.submissionId ?? null,
+      partId: params.partId ?? null,
+      commentId: params.commentId ?? null,
+      label: params.label,
+      fileName,
+      contentType: params.contentType,
+      sizeBytes: params.data.length,
+      storageBackend: backend,
+      storageKey,
+      clientId: params.clientId ?? null,
+      uploadedBy: params.uploadedBy ?? null,
+      capturedAt: params.capturedAt ?? null,
+    });
+  }
+
+  async getContent(attachment: Attachment): Promise<Buffer> {
+    return await this.backendFor(attachment).get(attachment.storageKey);
+  }
+
+  async deleteAttachment(attachment: Attachment): Promise<void> {
+    await this.backendFor(attachment).delete(attachment.storageKey);
+    await storage.deleteAttachment(attachment.id);
+  }
+
+  /**
+   * Remove stored files whose rows are already gone (e.g. a purged job).
+   * Failures are logged rather than thrown - the records no longer exist either way.
+   */
+  async deleteFiles(files: Array<Pick<Attachment, "storageBackend" | "storageKey">>): Promise<void> {
+    for (const file of files) {
+      try {
+        await this.backendFor(file).delete(file.storageKey);
+      } catch (error) {
+        console.error(`[Attachments] Failed to delete ${file.storageKey}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Store a generated document (e.g. a PDF receipt) against a job.
+   * Each call creates a new row, so regenerating keeps the earlier copies.
+   */
+  async saveDocument(params: {
+    data: Buffer;
+    jobId: string;
+    documentType: JobDocumentType;
+    fileName: string;
+    submissionId?: string;
+    generatedBy?: string;
+  }): Promise<JobDocument> {
+    const storageKey = `${params.jobId}/documents/${randomUUID()}-${params.fileName}`;
+    const backend = this.defaultBackend;
+
+    await this.backends[backend].put(storageKey, params.data, "application/pdf");
+    console.log(`📄 [Attachments] Stored ${params.documentType} (${params.data.length} bytes) for ${params.jobId} on ${backend}`);
+
+    return await storage.createJobDocument({
+      jobId: params.jobId,
+      documentType: params.documentType,
+      submissionId: params.submissionId ?? null,
+      fileName: params.fileName,
+      contentType: "application/pdf",
+      sizeBytes: params.data.length,
+      storageBackend: backend,
+      storageKey,
+      generatedBy: params.generatedBy ?? null,
+    });
+  }
+
+  async getDocumentContent(document: JobDocument): Promise<Buffer> {
+    return await this.backendFor(document).get(document.storageKey);
+  }
+}
+
+export const attachmentStore = new AttachmentStore();
@@ -0,0 +1,82 @@
+import { storage } from "../storage";
+import { getRequestIdentity, getRequestUserId } from "../clerkAuth";
+import type { AuditAction, AuditChanges, AuditEntityType } from "@shared/schema";
+
+/**
+ * AuditLogService appends a row to audit_log for every mutation made through
+ * the API: who did it, on which route, and the before/after value of each
+ * field that changed. Rows are never updated or deleted.
+ *
+ * Recording is best-effort — a failed audit write is logged, never surfaced
+ * to the user, so it can't fail the mutation it describes.
+ */
+
+export interface AuditRecordInput {
+  entityType: AuditEntityType;
+  entityId: string;
+  jobId?: string | null;
+  action: AuditAction;
+  before?: object | null;
+  after?: object | null;
+}
+
+// Bookkeeping columns that change on every write and would only add noise
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt", "lastUpdatedAt", "searchVector"]);
+
+/**
+ * Field-level diff of two snapshots. For a create or delete the missing side
+ * is null, so every (non-empty) field is included.
+ */
+export function diffSnapshots(before: object | null | undefined, after: object | null | undefined): AuditChanges {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  const fields = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const beforeValue = normalize(beforeRecord[field]);
+    const afterValue = normalize(afterRecord[field]);
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) continue;
+    changes[field] = { before: beforeValue, after: afterValue };
+  }
+  return changes;
+}
+
+// Dates as ISO strings and undefined as null, so snapshots compare and store cleanly
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+class AuditLogService {
+  /**
+   * Record a mutation made by the request's user. Updates that didn't change
+   * anything are skipped.
+   */
+  async record(req: any, input: AuditRecordInput): Promise<void> {
+    try {
+      const changes = diffSnapshots(input.before, input.after);
+      if (input.action === "update" && Object.keys(changes).length === 0) return;
+
+      const identity = await getRequestIdentity(req).catch(() => null);
+      const routePath = req.route?.path ?? req.path;
+
+      await storage.createAuditEntry({
+        entityType: input.entityType,
+        entityId: input.entityId,
+        jobId: input.jobId ?? null,
+        action: input.action,
+        changes,
+        actorEmail: identity?.email ?? null,
+        actorUserId: getRequestUserId(req),
+        route: routePath ? `${req.method} ${routePath}` : null,
+      });
+    } catch (error) {
+      console.error(`Error recording audit entry for ${input.entityType} ${input.entityId}:`, error);
+    }
+  }
+}
+
+export const auditLogService = new AuditLogService();
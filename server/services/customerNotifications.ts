@@ -0,0 +1,293 @@
+import { storage } from "../storage";
+import {
+  customerMilestones,
+  type CustomerMilestone,
+  type CustomerNotificationChannel,
+  type Job,
+  type JobPart,
+} from "@shared/schema";
+import { createEmailTransport, createSmsTransport, type EmailTransport, type SmsTransport } from "./messageTransports";
+
+/**
+ * CustomerNotificationService emails/texts customers when their job reaches a
+ * milestone, so they don't have to call a CSR to find out where their parts are.
+ *
+ * Sends go to the job's `email` and `contactNumber`, only for customers with a
+ * customer_notification_settings row that enables the channel and milestone.
+ * Every attempt (sent or failed) is recorded on the job timeline.
+ */
+
+export interface MessageTemplate {
+  subject: string | null; // email only
+  body: string;
+}
+
+export interface EffectiveTemplate extends MessageTemplate {
+  milestone: CustomerMilestone;
+  channel: CustomerNotificationChannel;
+  isCustom: boolean;
+}
+
+// Which job state reaching which milestone
+const STATE_MILESTONES: Record<string, CustomerMilestone> = {
+  picked_up: "picked_up",
+  at_shop: "checked_in",
+  service_complete: "service_complete",
+  queued_for_delivery: "out_for_delivery",
+  delivered: "delivered",
+  outbound_shipment: "outbound_shipment",
+};
+
+export const MILESTONE_LABELS: Record<CustomerMilestone, string> = {
+  picked_up: "Picked up",
+  checked_in: "Checked in at shop",
+  service_complete: "Service complete",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  outbound_shipment: "Shipped",
+};
+
+// Placeholders available in templates, filled by buildTemplateValues()
+export const TEMPLATE_PLACEHOLDERS = [
+  "customerName",
+  "contactName",
+  "jobId",
+  "poNumber",
+  "shopName",
+  "partCount",
+  "serviceSummary",
+  "carrier",
+  "trackingNumber",
+] as const;
+
+type TemplateValues = Record<typeof TEMPLATE_PLACEHOLDERS[number], string>;
+
+const SIGNATURE = "\n\nEmissions and Cooling Solutions";
+
+const DEFAULT_TEMPLATES: Record<CustomerMilestone, Record<CustomerNotificationChannel, MessageTemplate>> = {
+  picked_up: {
+    email: {
+      subject: "We've picked up your parts ({{jobId}})",
+      body: "Hi {{contactName}},\n\nOur driver has picked up your parts for PO {{poNumber}} and is bringing them to {{shopName}}. Your job number is {{jobId}}." + SIGNATURE,
+    },
+    sms: { subject: null, body: "ECS: We've picked up your parts (job {{jobId}}, PO {{poNumber}}) and are taking them to {{shopName}}." },
+  },
+  checked_in: {
+    email: {
+      subject: "Your parts have arrived at {{shopName}} ({{jobId}})",
+      body: "Hi {{contactName}},\n\nYour parts for PO {{poNumber}} have been checked in at {{shopName}} and are queued for service. Your job number is {{jobId}}." + SIGNATURE,
+    },
+    sms: { subject: null, body: "ECS: Your parts for job {{jobId}} (PO {{poNumber}}) are checked in at {{shopName}}." },
+  },
+  service_complete: {
+    email: {
+      subject: "Service complete for {{jobId}}",
+      body: "Hi {{contactName}},\n\nService is complete on your parts for PO {{poNumber}}.\n\n{{serviceSummary}}\n\nWe'll let you know when they're on the way back to you." + SIGNATURE,
+    },
+    sms: { subject: null, body: "ECS: Service complete on job {{jobId}}. {{serviceSummary}}" },
+  },
+  out_for_delivery: {
+    email: {
+      subject: "Your parts are out for delivery ({{jobId}})",
+      body: "Hi {{contactName}},\n\nYour parts for PO {{poNumber}} are scheduled for delivery from {{shopName}}." + SIGNATURE,
+    },
+    sms: { subject: null, body: "ECS: Your parts for job {{jobId}} (PO {{poNumber}}) are out for delivery." },
+  },
+  delivered: {
+    email: {
+      subject: "Your parts have been delivered ({{jobId}})",
+      body: "Hi {{contactName}},\n\nYour parts for PO {{poNumber}} have been delivered. Thanks for choosing ECS!" + SIGNATURE,
+    },
+    sms: { subject: null, body: "ECS: Your parts for job {{jobId}} (PO {{poNumber}}) have been delivered. Thank you!" },
+  },
+  outbound_shipment: {
+    email: {
+      subject: "Your parts have shipped ({{jobId}})",
+      body: "Hi {{contactName}},\n\nYour parts for PO {{poNumber}} have shipped via {{carrier}}. Tracking number: {{trackingNumber}}." + SIGNATURE,
+    },
+    sms: { subject: null, body: "ECS: Your parts for job {{jobId}} shipped via {{carrier}}, tracking {{trackingNumber}}." },
+  },
+};
+
+function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) =>
+    key in values ? values[key as keyof TemplateValues] : "",
+  );
+}
+
+/** US numbers as typed by CSRs, e.g. "(615) 555-0123", to E.164. Returns null if it doesn't look like one. */
+export function toE164(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  if (/^\+\d{8,15}$/.test(phone.trim())) return phone.trim();
+  const digits = phone.replace(/\D/g, "");
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith("1")) return `+${digits}`;
+  return null;
+}
+
+/** e.g. "3 parts serviced: 2 passed, 1 failed (DPF: cracked substrate)." */
+export function summarizeService(parts: JobPart[]): string {
+  if (parts.length === 0) return "Service is complete.";
+
+  const passed = parts.filter((part) => part.passOrFail?.toLowerCase() === "pass");
+  const failed = parts.filter((part) => part.passOrFail?.toLowerCase() === "fail");
+  const counts = [
+    passed.length > 0 ? `${passed.length} passed` : null,
+    failed.length > 0 ? `${failed.length} failed` : null,
+  ].filter(Boolean);
+
+  const failures = failed
+    .map((part) => [part.part, part.failedReason].filter(Boolean).join(": "))
+    .filter(Boolean);
+
+  return `${parts.length} part${parts.length === 1 ? "" : "s"} serviced` +
+    (counts.length > 0 ? `: ${counts.join(", ")}` : "") +
+    (failures.length > 0 ? ` (${failures.join("; ")})` : "") +
+    ".";
+}
+
+class CustomerNotificationService {
+  private emailTransport: EmailTransport | null = null;
+  private smsTransport: SmsTransport | null = null;
+
+  private getEmailTransport(): EmailTransport {
+    return this.emailTransport ??= createEmailTransport();
+  }
+
+  private getSmsTransport(): SmsTransport {
+    return this.smsTransport ??= createSmsTransport();
+  }
+
+  getTransportNames(): Record<CustomerNotificationChannel, string> {
+    return { email: this.getEmailTransport().name, sms: this.getSmsTransport().name };
+  }
+
+  /**
+   * Called after a job changes state. Sends in the background - never throws
+   * and never delays the transition.
+   */
+  handleStateChange(job: Job, newState: string): void {
+    const milestone = STATE_MILESTONES[newState];
+    if (!milestone) return;
+
+    this.sendMilestone(job, milestone).catch((error) => {
+      console.error(`[CustomerNotify] Failed to process ${milestone} for ${job.jobId}:`, error);
+    });
+  }
+
+  /**
+   * Send the milestone on every channel the customer opted into.
+   */
+  async sendMilestone(job: Job, milestone: CustomerMilestone): Promise<void> {
+    const settings = await storage.getCustomerNotificationSettings(job.customerName);
+    if (!settings || !settings.milestones.includes(milestone)) return;
+
+    const channels: CustomerNotificationChannel[] = [];
+    if (settings.emailEnabled === "true") channels.push("email");
+    if (settings.smsEnabled === "true") channels.push("sms");
+    if (channels.length === 0) return;
+
+    const parts = milestone === "service_complete" ? await storage.getJobParts(job.jobId) : [];
+    const values = this.buildTemplateValues(job, parts);
+
+    for (const channel of channels) {
+      await this.sendOnChannel(job, milestone, channel, values);
+    }
+  }
+
+  /** Built-in templates merged with admin overrides, for the admin editor */
+  async getEffectiveTemplates(): Promise<EffectiveTemplate[]> {
+    const overrides = await storage.getCustomerNotificationTemplates();
+    return customerMilestones.flatMap((milestone) =>
+      (["email", "sms"] as const).map((channel) => {
+        const override = overrides.find((t) => t.milestone === milestone && t.channel === channel);
+        const template = override ?? DEFAULT_TEMPLATES[milestone][channel];
+        return {
+          milestone,
+          channel,
+          subject: channel === "email" ? template.subject : null,
+          body: template.body,
+          isCustom: !!override,
+        };
+      }),
+    );
+  }
+
+  private async getTemplate(milestone: CustomerMilestone, channel: CustomerNotificationChannel): Promise<MessageTemplate> {
+    const override = await storage.getCustomerNotificationTemplate(milestone, channel);
+    return override ?? DEFAULT_TEMPLATES[milestone][channel];
+  }
+
+  private async sendOnChannel(
+    job: Job,
+    milestone: CustomerMilestone,
+    channel: CustomerNotificationChannel,
+    values: TemplateValues,
+  ): Promise<void> {
+    const label = MILESTONE_LABELS[milestone];
+    const to = channel === "email" ? job.email?.trim() || null : toE164(job.contactNumber);
+
+    if (!to) {
+      await this.recordEvent(job, "customer_notification_failed",
+        `Customer ${channel === "email" ? "email" : "text"} "${label}" not sent: no valid ${channel === "email" ? "email address" : "mobile number"} on job`,
+        { channel, milestone });
+      return;
+    }
+
+    const template = await this.getTemplate(milestone, channel);
+    const transport = channel === "email" ? this.getEmailTransport() : this.getSmsTransport();
+
+    try {
+      const result = channel === "email"
+        ? await this.getEmailTransport().send({
+            to,
+            subject: renderTemplate(template.subject || label, values),
+            text: renderTemplate(template.body, values),
+          })
+        : await this.getSmsTransport().send({ to, body: renderTemplate(template.body, values) });
+
+      const verb = channel === "email" ? "Emailed" : "Texted";
+      await this.recordEvent(job, "customer_notified",
+        `${verb} customer "${label}" update to ${to}${result.delivered ? "" : " (log only, not delivered)"}`,
+        { channel, milestone, to, transport: transport.name, messageId: result.messageId ?? null });
+      console.log(`📨 [CustomerNotify] ${job.jobId} ${milestone} via ${channel}/${transport.name} to ${to}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[CustomerNotify] ${job.jobId} ${milestone} via ${channel} failed:`, message);
+      await this.recordEvent(job, "customer_notification_failed",
+        `Customer ${channel === "email" ? "email" : "text"} "${label}" to ${to} failed: ${message}`,
+        { channel, milestone, to, transport: transport.name, error: message });
+    }
+  }
+
+  private buildTemplateValues(job: Job, parts: JobPart[]): TemplateValues {
+    return {
+      customerName: job.customerName,
+      contactName: job.contactName || job.customerName,
+      jobId: job.jobId,
+      poNumber: job.poNumber || "N/A",
+      shopName: job.shopName || "ECS",
+      partCount: String(parts.length),
+      serviceSummary: summarizeService(parts),
+      carrier: job.outboundCarrier || "carrier",
+      trackingNumber: job.outboundTrackingNumber || "not provided",
+    };
+  }
+
+  private async recordEvent(
+    job: Job,
+    eventType: "customer_notified" | "customer_notification_failed",
+    description: string,
+    metadata: Record<string, unknown>,
+  ): Promise<void> {
+    await storage.createJobEvent({
+      jobId: job.jobId,
+      eventType,
+      description,
+      actor: "System",
+      metadata,
+    });
+  }
+}
+
+export const customerNotificationService = new CustomerNotificationService();
@@ -0,0 +1,187 @@
+import { formatInTimeZone } from "date-fns-tz";
+import { storage } from "../storage";
+import { attachmentStore } from "./attachmentStore";
+import { PdfDocument } from "./pdfDocument";
+import type { FormSubmission, Job, JobDocument, JobPart } from "@shared/schema";
+
+// Receipts are printed for customers in ECS's home timezone (matches users.timezone default)
+const RECEIPT_TIMEZONE = "America/Chicago";
+
+const MARGIN = 50;
+const MUTED = "#6b7280";
+const RULE = "#d1d5db";
+
+function formatDateTime(date: Date | null | undefined): string {
+  if (!date) return "—";
+  return date.toLocaleString("en-US", {
+    timeZone: RECEIPT_TIMEZONE,
+    dateStyle: "medium",
+    timeStyle: "short",
+  }) + " CT";
+}
+
+/**
+ * DeliveryReceiptService builds the customer-facing PDF receipt for a delivered job
+ * and stores it in job_documents.
+ *
+ * The receipt is generated automatically when a native delivery form completes,
+ * and on demand for jobs delivered any other way (or before receipts existed).
+ */
+class DeliveryReceiptService {
+  /**
+   * Generate a new receipt for a delivered job and store it against the job.
+   */
+  async generateReceipt(jobId: string, generatedBy?: string): Promise<JobDocument> {
+    const job = await storage.getJobByJobId(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    if (job.state !== "delivered") {
+      throw new Error(`Job ${jobId} has not been delivered`);
+    }
+
+    const parts = await storage.getJobParts(job.jobId);
+    const submission = await this.getDeliverySubmission(job.jobId);
+
+    const pdf = this.buildPdf(job, parts, submission);
+    const document = await attachmentStore.saveDocument({
+      data: pdf,
+      jobId: job.jobId,
+      documentType: "delivery_receipt",
+      fileName: `delivery-receipt-${job.jobId}.pdf`,
+      submissionId: submission?.id,
+      generatedBy,
+    });
+
+    console.log(`🧾 [DeliveryReceipt] Generated receipt ${document.id} for ${job.jobId}`);
+    return document;
+  }
+
+  /**
+   * Latest stored receipt for a job, generating one if none exists yet.
+   */
+  async getOrCreateReceipt(jobId: string, generatedBy?: string): Promise<JobDocument> {
+    const documents = await storage.getJobDocumentsByJob(jobId);
+    const existing = documents.find((d) => d.documentType === "delivery_receipt");
+    return existing ?? await this.generateReceipt(jobId, generatedBy);
+  }
+
+  /**
+   * Most recently completed native delivery form for the job, if any.
+   */
+  private async getDeliverySubmission(jobId: string): Promise<FormSubmission | undefined> {
+    const submissions = await storage.getFormSubmissionsByJob(jobId);
+    return submissions
+      .filter((s) => s.formType === "delivery" && s.status === "completed")
+      .sort((a, b) => (b.completedAt?.getTime() ?? 0) - (a.completedAt?.getTime() ?? 0))[0];
+  }
+
+  private buildPdf(job: Job, parts: JobPart[], submission: FormSubmission | undefined): Buffer {
+    const pdf = new PdfDocument();
+    const right = pdf.pageWidth - MARGIN;
+    let y = MARGIN + 10;
+
+    const ensureSpace = (needed: number) => {
+      if (y + needed > pdf.pageHeight - MARGIN) {
+        pdf.addPage();
+        y = MARGIN + 10;
+      }
+    };
+
+    const sectionHeading = (title: string) => {
+      ensureSpace(40);
+      y += 14;
+      pdf.text(title, MARGIN, y, { size: 12, bold: true });
+      y += 6;
+      pdf.line(MARGIN, y, right, y, { stroke: RULE });
+      y += 16;
+    };
+
+    const field = (label: string, value: string | null | undefined) => {
+      ensureSpace(16);
+      pdf.text(label, MARGIN, y, { size: 9, color: MUTED });
+      pdf.text(value || "—", MARGIN + 130, y, { size: 10 });
+      y += 16;
+    };
+
+    // Header
+    pdf.text("ECS Delivery Receipt", MARGIN, y, { size: 20, bold: true });
+    pdf.text(job.jobId, right, y, { size: 14, bold: true, align: "right" });
+    y += 18;
+    pdf.text(`Generated ${formatDateTime(new Date())}`, MARGIN, y, { size: 9, color: MUTED });
+    y += 6;
+
+    sectionHeading("Job");
+    field("Job ID", job.jobId);
+    field("Customer", job.customerName);
+    field("Ship To", job.customerShipTo);
+    field("PO Number", job.poNumber);
+    field("Shop", job.shopName);
+
+    const orderNumbers = [job.orderNumber, job.orderNumber2, job.orderNumber3, job.orderNumber4, job.orderNumber5];
+    orderNumbers.forEach((orderNumber, index) => {
+      field(`Order Number ${index + 1}`, orderNumber);
+    });
+
+    sectionHeading(`Parts (${parts.length})`);
+    const columns = [MARGIN, MARGIN + 200, MARGIN + 350];
+    pdf.text("Part", columns[0], y, { size: 9, bold: true, color: MUTED });
+    pdf.text("ECS Serial", columns[1], y, { size: 9, bold: true, color: MUTED });
+    pdf.text("Pass / Fail", columns[2], y, { size: 9, bold: true, color: MUTED });
+    y += 16;
+    if (parts.length === 0) {
+      pdf.text("No parts recorded", MARGIN, y, { size: 10, color: MUTED });
+      y += 16;
+    }
+    for (const part of parts) {
+      ensureSpace(16);
+      pdf.text(part.part || "—", columns[0], y, { size: 10 });
+      pdf.text(part.ecsSerial || "—", columns[1], y, { size: 10 });
+      pdf.text(part.passOrFail || "—", columns[2], y, {
+        size: 10,
+        bold: true,
+        color: part.passOrFail?.toLowerCase() === "fail" ? "#b91c1c" : part.passOrFail ? "#15803d" : "#000000",
+      });
+      y += 16;
+    }
+
+    sectionHeading("Delivery");
+    const responseData = (submission?.responseData ?? {}) as Record<string, unknown>;
+    field("Delivered At", formatDateTime(job.deliveredAt));
+    field("Delivered To", responseData.deliveredTo as string | undefined);
+    field("Driver", submission?.assignedTo ?? job.deliveryDriverEmail);
+    if (submission?.gpsLatitude && submission.gpsLongitude) {
+      const accuracy = submission.gpsAccuracy ? ` (±${Math.round(parseFloat(submission.gpsAccuracy))} m)` : "";
+      field("GPS Location", `${submission.gpsLatitude}, ${submission.gpsLongitude}${accuracy}`);
+      field("GPS Timestamp", formatDateTime(submission.gpsTimestamp));
+      if (submission.gpsTimestamp && submission.gpsTimezone) {
+        // Driver's wall-clock time where the fix was taken
+        field("GPS Local Time", formatInTimeZone(submission.gpsTimestamp, submission.gpsTimezone, "MMM d, yyyy, h:mm a zzz"));
+      }
+    } else {
+      field("GPS Location", "Not captured");
+    }
+
+    sectionHeading("Customer Signature");
+    if (submission?.signatureImage) {
+      ensureSpace(110);
+      try {
+        const signature = pdf.embedImage(submission.signatureImage);
+        pdf.rect(MARGIN, y, 260, 90, { stroke: RULE });
+        pdf.image(signature, MARGIN + 5, y + 5, 250, 80);
+      } catch (error) {
+        console.error(`[DeliveryReceipt] Could not embed signature for ${job.jobId}:`, error);
+        pdf.text("Signature image could not be rendered", MARGIN, y + 12, { size: 10, color: MUTED });
+      }
+      y += 104;
+      field("Signed By", submission.signerName);
+      field("Signed At", formatDateTime(submission.signedAt));
+    } else {
+      field("Signature", "Not captured");
+    }
+
+    return pdf.toBuffer();
+  }
+}
+
+export const deliveryReceiptService = new DeliveryReceiptService();
@@ -1,7 +1,9 @@
 import { storage } from "../storage";
 import { jobEventsService } from "./jobEvents";
 import { notificationService } from "./notificationService";
-import type { FormSubmissionType, InsertFormSubmission, FormSubmission, Job, JobPart } from "@shared/schema";
+import { deliveryReceiptService } from "./deliveryReceipt";
+import { timezoneService } from "./timezone";
+import type { FormSubmissionType, InsertFormSubmission, FormSubmission, FormSignature, Job, JobPart } from "@shared/schema";
 
 /**
  * FormDispatchService handles creating and processing native form submissions,
@@ -83,9 +85,10 @@ class FormDispatchService {
   async completeSubmission(
     submissionId: string,
     responseData: Record<string, unknown>,
-    gps?: { latitude: string; longitude: string; accuracy: string },
+    gps?: { latitude: string; longitude: string; accuracy: string; timestamp?: number },
     deviceInfo?: Record<string, unknown>,
     offline?: boolean,
+    signature?: FormSignature,
   ): Promise<FormSubmission> {
     const submission = await storage.getFormSubmission(submissionId);
     if (!submission) {
@@ -103,7 +106,13 @@ class FormDispatchService {
       gpsLatitude: gps?.latitude,
       gpsLongitude: gps?.longitude,
       gpsAccuracy: gps?.accuracy,
-      gpsTimestamp: gps ? new Date() : undefined,
+      // Device fix time when sent (offline submissions sync long after), else now
+      gpsTimestamp: gps ? (gps.timestamp ? new Date(gps.timestamp) : new Date()) : undefined,
+      gpsTimezone: gps ? timezoneService.resolveTimezone(parseFloat(gps.latitude), parseFloat(gps.longitude))?.timezone : undefined,
+      signatureImage: signature?.image,
+      signerName: signature?.signerName,
+      // Offline submissions sync later, so prefer the device's capture time
+      signedAt: signature ? (signature.signedAt ? new Date(signature.signedAt) : new Date()) : undefined,
       deviceInfo,
       offlineSubmission: offline ? "true" : "false",
       syncedAt: offline ? new Date() : undefined,
@@ -155,6 +164,7 @@ class FormDispatchService {
     await jobEventsService.markPickedUp(job.jobId, itemCount, {
       actor: "Driver",
       actorEmail: submission.assignedTo,
+      metadata: this.signatureMetadata(submission),
     });
 
     // Add driver notes as comment if provided
@@ -163,7 +173,8 @@ class FormDispatchService {
       await storage.createJobComment({
         jobId: job.jobId,
         userId: submission.assignedTo,
-        commentText: `[Pickup Notes] ${notes}`,
+        commentText: notes,
+        source: "pickup_notes",
       });
     }
   }
@@ -174,9 +185,11 @@ class FormDispatchService {
     responseData: Record<string, unknown>,
   ): Promise<void> {
     // Mark job as delivered (uses jobId format, not UUID)
+    // Signer is recorded on the delivered event as proof of custody
     await jobEventsService.markDelivered(job.jobId, {
       actor: "Driver",
       actorEmail: submission.assignedTo,
+      metadata: this.signatureMetadata(submission),
     });
 
     // Add delivery notes as comment if provided
@@ -185,9 +198,29 @@ class FormDispatchService {
       await storage.createJobComment({
         jobId: job.jobId,
         userId: submission.assignedTo,
-        commentText: `[Delivery Notes] ${notes}`,
+        commentText: notes,
+        source: "delivery_notes",
       });
     }
+
+    // Customer receipt is best-effort - a PDF failure must not undo the delivery
+    try {
+      await deliveryReceiptService.generateReceipt(job.jobId);
+    } catch (error) {
+      console.error(`[FormDispatch] Failed to generate delivery receipt for ${job.jobId}:`, error);
+    }
+  }
+
+  /**
+   * Event metadata identifying who signed for a pickup/delivery.
+   * The image itself stays on the form_submissions row.
+   */
+  private signatureMetadata(submission: FormSubmission): Record<string, unknown> {
+    return {
+      formSubmissionId: submission.id,
+      signerName: submission.signerName,
+      signedAt: submission.signedAt?.toISOString(),
+    };
   }
 
   private async processEmissions(
@@ -223,7 +256,8 @@ class FormDispatchService {
       await storage.createJobComment({
         jobId: job.jobId,
         userId: submission.assignedTo,
-        commentText: `[Tech Comments] ${comments}`,
+        commentText: comments,
+        source: "tech_comments",
       });
     }
   }
@@ -1,54 +1,193 @@
+import { createHash, createSign } from "crypto";
+import { storage } from "../storage";
+import type { Job, JobPart } from "@shared/schema";
+
+/**
+ * GoogleSheetsService mirrors jobs into a Google Sheet for reporting.
+ *
+ * The spreadsheet needs two tabs, "Jobs" (one row per job, keyed by Job ID) and
+ * "Parts" (one row per part, keyed by Part ID). Rows are upserted in place, so a
+ * job's row is updated as it moves through the workflow rather than appended again.
+ *
+ * Configuration:
+ * - GOOGLE_SHEETS_ID: target spreadsheet
+ * - GOOGLE_SERVICE_ACCOUNT_KEY: service account JSON key with edit access to the sheet
+ * - GOOGLE_SHEETS_API_URL: override the API base URL, e.g. http://localhost:8089 for
+ *   scripts/sheets-stub.ts (no service account key needed when pointed at the stub)
+ *
+ * Each job's last written rows are hashed so unchanged jobs are skipped. Failed writes
+ * are recorded in sheets_sync_queue and retried with backoff until they succeed;
+ * jobs.googleSheetsSynced is only set to "true" after a successful write.
+ */
+
+interface ServiceAccountKey {
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+}
+
 interface GoogleSheetsConfig {
-  serviceAccountKey: string;
-  spreadsheetId: string;
+  serviceAccount: ServiceAccountKey | null;
+  spreadsheetId: string | null;
+  apiUrl: string;
+  usingCustomApi: boolean;
+}
+
+interface ValueRange {
+  range?: string;
+  values?: string[][];
+}
+
+const JOBS_TAB = "Jobs";
+const PARTS_TAB = "Parts";
+const SHEETS_SCOPE = "https://www.googleapis.com/auth/spreadsheets";
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+
+const RETRY_INTERVAL_MS = 60 * 1000;
+const RETRY_BATCH_SIZE = 25;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+const JOB_COLUMNS: Array<[string, (job: Job, parts: JobPart[]) => string | number | null | undefined]> = [
+  ["Job ID", (job) => job.jobId],
+  ["Shop", (job) => job.shopName],
+  ["Customer", (job) => job.customerName],
+  ["Ship To", (job) => job.customerShipTo],
+  ["Contact Name", (job) => job.contactName],
+  ["Contact Number", (job) => job.contactNumber],
+  ["PO Number", (job) => job.poNumber],
+  ["P21 Order Number", (job) => job.p21OrderNumber],
+  ["Shop Handoff", (job) => job.shopHandoff],
+  ["Assigned Technician", (job) => job.assignedTechnician],
+  ["State", (job) => job.state],
+  ["Start Mode", (job) => job.startMode],
+  ["Completion Mode", (job) => job.completionMode],
+  ["Delivery Method", (job) => job.deliveryMethod],
+  ["Part Count", (_job, parts) => parts.length],
+  ["Initiated At", (job) => formatTimestamp(job.initiatedAt)],
+  ["Picked Up At", (job) => formatTimestamp(job.pickedUpAt)],
+  ["At Shop At", (job) => formatTimestamp(job.atShopAt)],
+  ["In Service At", (job) => formatTimestamp(job.inServiceAt)],
+  ["Service Complete At", (job) => formatTimestamp(job.serviceCompleteAt)],
+  ["Ready At", (job) => formatTimestamp(job.readyAt)],
+  ["Delivered At", (job) => formatTimestamp(job.deliveredAt)],
+  ["Completed At", (job) => formatTimestamp(job.completedAt)],
+  ["Time To Pickup (min)", (job) => job.timeToPickup],
+  ["Time At Shop (min)", (job) => job.timeAtShop],
+  ["Time With Tech (min)", (job) => job.timeWithTech],
+  ["Total Turnaround (min)", (job) => job.totalTurnaround],
+];
+
+const PART_COLUMNS: Array<[string, (part: JobPart) => string | number | null | undefined]> = [
+  ["Part ID", (part) => part.id],
+  ["Job ID", (part) => part.jobId],
+  ["ECS Serial", (part) => part.ecsSerial],
+  ["Part", (part) => part.part],
+  ["Process", (part) => part.process],
+  ["Filter PN", (part) => part.filterPn],
+  ["ECS Part Number", (part) => part.ecsPartNumber],
+  ["PO Number", (part) => part.poNumber],
+  ["Unit / VIN", (part) => part.unitVin],
+  ["Pass / Fail", (part) => part.passOrFail],
+  ["Failed Reason", (part) => part.failedReason],
+  ["Diagnosis", (part) => part.diagnosis],
+  ["Status", (part) => part.status],
+];
+
+function formatTimestamp(value: Date | null | undefined): string {
+  return value ? value.toISOString() : "";
+}
+
+function toCell(value: string | number | null | undefined): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/** 1 -> A, 27 -> AA */
+function columnLetter(index: number): string {
+  let letters = "";
+  for (let n = index; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function base64Url(data: Buffer | string): string {
+  return Buffer.from(data).toString("base64url");
 }
 
 export class GoogleSheetsService {
   private config: GoogleSheetsConfig;
+  private accessToken: { token: string; expiresAt: number } | null = null;
+  private headersChecked = new Set<string>();
+  private inFlight = new Map<string, Promise<boolean>>();
+  private retryInterval: NodeJS.Timeout | null = null;
 
   constructor() {
+    const rawKey = process.env.GOOGLE_SERVICE_ACCOUNT_KEY || process.env.GOOGLE_SERVICE_ACCOUNT_KEY_ENV_VAR;
+    let serviceAccount: ServiceAccountKey | null = null;
+    if (rawKey) {
+      try {
+        serviceAccount = JSON.parse(rawKey);
+      } catch {
+        console.error("❌ [Sheets] GOOGLE_SERVICE_ACCOUNT_KEY is not valid JSON - Google Sheets sync disabled");
+      }
+    }
+
     this.config = {
-      serviceAccountKey: process.env.GOOGLE_SERVICE_ACCOUNT_KEY || process.env.GOOGLE_SERVICE_ACCOUNT_KEY_ENV_VAR || "{}",
-      spreadsheetId: process.env.GOOGLE_SHEETS_ID || process.env.GOOGLE_SHEETS_ID_ENV_VAR || "default_sheet_id",
+      serviceAccount,
+      spreadsheetId: process.env.GOOGLE_SHEETS_ID || process.env.GOOGLE_SHEETS_ID_ENV_VAR || null,
+      apiUrl: (process.env.GOOGLE_SHEETS_API_URL || "https://sheets.googleapis.com").replace(/\/$/, ""),
+      usingCustomApi: !!process.env.GOOGLE_SHEETS_API_URL,
     };
   }
 
-  async syncJobToSheet(job: any): Promise<boolean> {
-    try {
-      // In a real implementation, this would use googleapis to append data to Google Sheets
-      // For now, we'll simulate the sync process
-      
-      const rowData = [
-        job.jobId,
-        job.storeName,
-        job.customerName,
-        job.contactName,
-        job.contactNumber,
-        job.shopHandoff,
-        job.status,
-        job.initiatedAt?.toISOString(),
-        job.completedAt?.toISOString() || '',
-        job.turnaroundTime ? `${job.turnaroundTime} minutes` : '',
-      ];
-
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      console.log(`Syncing job ${job.jobId} to Google Sheets:`, rowData);
-      
-      return true;
-    } catch (error) {
-      console.error('Google Sheets sync error:', error);
-      return false;
+  isConfigured(): boolean {
+    return !!this.config.spreadsheetId && (!!this.config.serviceAccount || this.config.usingCustomApi);
+  }
+
+  /**
+   * Sync a job in the background. Safe to call after any change to a job or its parts;
+   * failures land in the retry queue instead of surfacing to the caller.
+   */
+  requestSync(jobId: string): void {
+    if (!this.isConfigured()) return;
+    this.syncJob(jobId).catch((error) => {
+      console.error(`❌ [Sheets] Background sync failed for ${jobId}:`, error);
+    });
+  }
+
+  /**
+   * Upsert a job and its parts into the sheet. Returns true when the sheet is up to date.
+   * Concurrent calls for the same job share one write so rows are never appended twice.
+   */
+  async syncJob(jobId: string, force = false): Promise<boolean> {
+    const running = this.inFlight.get(jobId);
+    if (running) {
+      // Let the current write finish, then sync again in case it read stale data
+      await running.catch(() => false);
+      return this.syncJob(jobId, force);
     }
+
+    const attempt = this.writeJob(jobId, force).finally(() => this.inFlight.delete(jobId));
+    this.inFlight.set(jobId, attempt);
+    return attempt;
+  }
+
+  async syncJobToSheet(job: Job): Promise<boolean> {
+    return this.syncJob(job.jobId);
   }
 
-  async batchSyncJobs(jobs: any[]): Promise<{ success: number; failed: number }> {
+  async batchSyncJobs(jobs: Job[], force = false): Promise<{ success: number; failed: number; skipped: number }> {
+    if (!this.isConfigured()) {
+      console.log("⚠️ [Sheets] Not configured - set GOOGLE_SHEETS_ID and GOOGLE_SERVICE_ACCOUNT_KEY");
+      return { success: 0, failed: 0, skipped: jobs.length };
+    }
+
     let success = 0;
     let failed = 0;
 
     for (const job of jobs) {
-      const result = await this.syncJobToSheet(job);
+      const result = await this.syncJob(job.jobId, force);
       if (result) {
         success++;
       } else {
@@ -56,7 +195,237 @@ export class GoogleSheetsService {
       }
     }
 
-    return { success, failed };
+    return { success, failed, skipped: 0 };
+  }
+
+  async getQueueStatus(): Promise<{ configured: boolean; pending: number }> {
+    return {
+      configured: this.isConfigured(),
+      pending: await storage.getPendingSheetsSyncCount(),
+    };
+  }
+
+  /** Periodically retry failed syncs from the persistent queue */
+  startRetryWorker(): void {
+    if (this.retryInterval || !this.isConfigured()) {
+      return;
+    }
+
+    console.log(`📊 [Sheets] Sync enabled for spreadsheet ${this.config.spreadsheetId} via ${this.config.apiUrl}`);
+    this.retryInterval = setInterval(() => {
+      this.processRetryQueue().catch((error) => {
+        console.error("❌ [Sheets] Retry queue processing failed:", error);
+      });
+    }, RETRY_INTERVAL_MS);
+  }
+
+  stopRetryWorker(): void {
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval);
+      this.retryInterval = null;
+    }
+  }
+
+  async processRetryQueue(): Promise<void> {
+    const due = await storage.getDueSheetsSyncEntries(new Date(), RETRY_BATCH_SIZE);
+    if (due.length === 0) return;
+
+    console.log(`🔁 [Sheets] Retrying ${due.length} queued sync(s)`);
+    for (const entry of due) {
+      await this.syncJob(entry.jobId);
+    }
+  }
+
+  private async writeJob(jobId: string, force: boolean): Promise<boolean> {
+    if (!this.isConfigured()) {
+      return false;
+    }
+
+    const job = await storage.getJobByJobId(jobId);
+    if (!job) {
+      console.log(`⚠️ [Sheets] Job ${jobId} no longer exists - dropping from sync queue`);
+      await storage.upsertSheetsSyncEntry({ jobId, attempts: 0, lastError: null, nextAttemptAt: null });
+      return false;
+    }
+
+    const parts = await storage.getJobParts(job.jobId);
+    const jobRow = JOB_COLUMNS.map(([, value]) => toCell(value(job, parts)));
+    const partRows = parts.map((part) => PART_COLUMNS.map(([, value]) => toCell(value(part))));
+    const rowHash = createHash("sha256").update(JSON.stringify({ jobRow, partRows })).digest("hex");
+
+    const entry = await storage.getSheetsSyncEntry(job.jobId);
+    if (!force && entry?.rowHash === rowHash && !entry.nextAttemptAt && job.googleSheetsSynced === "true") {
+      return true; // Nothing changed since the last successful write
+    }
+
+    try {
+      await this.upsertRows(JOBS_TAB, JOB_COLUMNS.map(([header]) => header), [jobRow]);
+      await this.upsertRows(PARTS_TAB, PART_COLUMNS.map(([header]) => header), partRows, { jobId: job.jobId });
+
+      await storage.upsertSheetsSyncEntry({
+        jobId: job.jobId,
+        rowHash,
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: null,
+        lastSyncedAt: new Date(),
+      });
+      if (job.googleSheetsSynced !== "true") {
+        await storage.updateJob(job.id, { googleSheetsSynced: "true" });
+      }
+
+      console.log(`✅ [Sheets] Synced ${job.jobId} (${partRows.length} part(s))`);
+      return true;
+    } catch (error) {
+      const attempts = (entry?.attempts ?? 0) + 1;
+      const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+      const message = error instanceof Error ? error.message : String(error);
+
+      await storage.upsertSheetsSyncEntry({
+        jobId: job.jobId,
+        attempts,
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + delay),
+      });
+      if (job.googleSheetsSynced !== "false") {
+        await storage.updateJob(job.id, { googleSheetsSynced: "false" });
+      }
+
+      console.error(`❌ [Sheets] Sync failed for ${job.jobId} (attempt ${attempts}, retrying in ${Math.round(delay / 1000)}s): ${message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Update rows in place by the key in column A, appending any keys not yet in the tab.
+   * With `jobId`, rows in column B for that job whose key is no longer present are
+   * cleared (parts removed from the job).
+   */
+  private async upsertRows(tab: string, headers: string[], rows: string[][], scope?: { jobId: string }): Promise<void> {
+    const lastColumn = columnLetter(headers.length);
+    await this.ensureHeaders(tab, headers, lastColumn);
+
+    const existing = await this.request<ValueRange>("GET", `/values/${encodeURIComponent(`${tab}!A:B`)}`);
+    const rowNumbers = new Map<string, number>();
+    const staleRows: number[] = [];
+    const incomingKeys = new Set(rows.map((row) => row[0]));
+
+    (existing.values || []).forEach((cells, index) => {
+      const rowNumber = index + 1;
+      const key = cells[0];
+      if (rowNumber === 1 || !key) return;
+      rowNumbers.set(key, rowNumber);
+      if (scope && cells[1] === scope.jobId && !incomingKeys.has(key)) {
+        staleRows.push(rowNumber);
+      }
+    });
+
+    const updates = rows
+      .filter((row) => rowNumbers.has(row[0]))
+      .map((row) => {
+        const rowNumber = rowNumbers.get(row[0])!;
+        return { range: `${tab}!A${rowNumber}:${lastColumn}${rowNumber}`, values: [row] };
+      });
+    const additions = rows.filter((row) => !rowNumbers.has(row[0]));
+
+    if (updates.length > 0) {
+      await this.request("POST", "/values:batchUpdate", { valueInputOption: "RAW", data: updates });
+    }
+    if (additions.length > 0) {
+      await this.request(
+        "POST",
+        `/values/${encodeURIComponent(`${tab}!A1`)}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`,
+        { values: additions },
+      );
+    }
+    if (staleRows.length > 0) {
+      await this.request("POST", "/values:batchClear", {
+        ranges: staleRows.map((rowNumber) => `${tab}!A${rowNumber}:${lastColumn}${rowNumber}`),
+      });
+    }
+  }
+
+  private async ensureHeaders(tab: string, headers: string[], lastColumn: string): Promise<void> {
+    if (this.headersChecked.has(tab)) return;
+
+    const current = await this.request<ValueRange>("GET", `/values/${encodeURIComponent(`${tab}!A1:${lastColumn}1`)}`);
+    if (JSON.stringify(current.values?.[0] || []) !== JSON.stringify(headers)) {
+      await this.request(
+        "PUT",
+        `/values/${encodeURIComponent(`${tab}!A1:${lastColumn}1`)}?valueInputOption=RAW`,
+        { values: [headers] },
+      );
+      console.log(`📊 [Sheets] Wrote header row to ${tab} tab`);
+    }
+    this.headersChecked.add(tab);
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    const token = await this.getAccessToken();
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    const url = `${this.config.apiUrl}/v4/spreadsheets/${encodeURIComponent(this.config.spreadsheetId!)}${path}`;
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      if (response.status === 401) {
+        this.accessToken = null;
+      }
+      throw new Error(`Sheets API ${method} ${path} failed: ${response.status} ${text.slice(0, 200)}`);
+    }
+
+    return await response.json() as T;
+  }
+
+  /** Exchange a signed service account JWT for an OAuth access token (cached until near expiry) */
+  private async getAccessToken(): Promise<string | null> {
+    const account = this.config.serviceAccount;
+    if (!account) {
+      return null; // Custom API URL without credentials (local stub)
+    }
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60 * 1000) {
+      return this.accessToken.token;
+    }
+
+    const tokenUri = account.token_uri || DEFAULT_TOKEN_URI;
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const unsigned = [
+      base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" })),
+      base64Url(JSON.stringify({
+        iss: account.client_email,
+        scope: SHEETS_SCOPE,
+        aud: tokenUri,
+        iat: issuedAt,
+        exp: issuedAt + 3600,
+      })),
+    ].join(".");
+    const signature = createSign("RSA-SHA256").update(unsigned).sign(account.private_key);
+    const assertion = `${unsigned}.${base64Url(signature)}`;
+
+    const response = await fetch(tokenUri, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Google OAuth token request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json() as { access_token: string; expires_in: number };
+    this.accessToken = { token: data.access_token, expiresAt: Date.now() + data.expires_in * 1000 };
+    return data.access_token;
   }
 }
 
@@ -0,0 +1,138 @@
+import { storage, type JobCommentWithAuthor } from "../storage";
+import type { Attachment, CommentSource, Job, JobComment, JobPart } from "@shared/schema";
+import { notificationService } from "./notificationService";
+
+// Notes saved before comments had a source were tagged with a text prefix instead
+const LEGACY_PREFIXES: Array<{ pattern: RegExp; source: CommentSource }> = [
+  { pattern: /^\[Pickup Notes\]\s*/, source: "pickup_notes" },
+  { pattern: /^\[Delivery Notes\]\s*/, source: "delivery_notes" },
+  { pattern: /^\[Driver Notes\]\s*/, source: "driver_notes" },
+  { pattern: /^\[Tech Comments\]\s*/, source: "tech_comments" },
+  { pattern: /^\[Note to Tech\]\s*/, source: "note_to_tech" },
+  { pattern: /^\[Inbound Shipment Notes\]\s*/, source: "inbound_shipment_notes" },
+  { pattern: /^\[Outbound Shipment Notes\]\s*/, source: "outbound_shipment_notes" },
+  { pattern: /^\[Additional Comments - (.+?)\]\s*/, source: "additional_comments" }, // captures the ECS serial
+];
+
+export interface CommentThreadEntry extends JobCommentWithAuthor {
+  attachments: Attachment[];
+  revisionCount: number;
+  replies: CommentThreadEntry[];
+}
+
+/**
+ * JobCommentService owns the job conversation: threaded comments (one level of
+ * replies), edits with revision history, @mention notifications and the files
+ * attached to comments.
+ */
+class JobCommentService {
+  /**
+   * All comments on a job as threads, oldest first, with replies nested under
+   * the comment that started the thread
+   */
+  async getConversation(jobId: string): Promise<CommentThreadEntry[]> {
+    const [comments, attachments, revisionCounts, parts] = await Promise.all([
+      storage.getJobComments(jobId),
+      storage.getCommentAttachmentsByJob(jobId),
+      storage.getJobCommentRevisionCounts(jobId),
+      storage.getJobParts(jobId),
+    ]);
+
+    const entries = new Map<string, CommentThreadEntry>();
+    for (const comment of comments) {
+      entries.set(comment.id, {
+        ...this.withLegacySource(comment, parts),
+        attachments: attachments.filter((attachment) => attachment.commentId === comment.id),
+        revisionCount: revisionCounts[comment.id] ?? 0,
+        replies: [],
+      });
+    }
+
+    const threads: CommentThreadEntry[] = [];
+    entries.forEach((entry) => {
+      const parent = entry.parentId ? entries.get(entry.parentId) : undefined;
+      if (parent) {
+        parent.replies.push(entry);
+      } else {
+        threads.push(entry);
+      }
+    });
+    return threads;
+  }
+
+  /**
+   * Add a comment (or a reply, given the id of the thread's first comment) and
+   * notify anyone @mentioned
+   */
+  async addComment(
+    job: Job,
+    params: {
+      userId: string;
+      commentText: string;
+      parentId?: string | null;
+      partId?: string | null;
+      authorEmail?: string | null;
+    }
+  ): Promise<JobComment> {
+    const comment = await storage.createJobComment({
+      jobId: job.jobId,
+      userId: params.userId,
+      commentText: params.commentText,
+      source: "user",
+      parentId: params.parentId ?? null,
+      partId: params.partId ?? null,
+    });
+
+    const mentions = await notificationService.notifyCommentMentions(job, comment.commentText, params.authorEmail);
+    if (mentions.length === 0) {
+      return comment;
+    }
+    return (await storage.updateJobComment(comment.id, { mentions })) ?? comment;
+  }
+
+  /**
+   * Replace a comment's text, keeping the previous text as a revision. Only
+   * users newly @mentioned by the edit are notified.
+   */
+  async editComment(job: Job, comment: JobComment, commentText: string, editorEmail?: string | null): Promise<JobComment> {
+    await storage.createJobCommentRevision({
+      commentId: comment.id,
+      commentText: comment.commentText,
+      editedBy: editorEmail ?? null,
+    });
+
+    const mentions = await notificationService.notifyCommentMentions(job, commentText, editorEmail, comment.mentions);
+    const updated = await storage.updateJobComment(comment.id, {
+      commentText,
+      mentions: Array.from(new Set([...comment.mentions, ...mentions])),
+      editedAt: new Date(),
+    });
+    if (!updated) {
+      throw new Error(`Comment ${comment.id} not found`);
+    }
+    return updated;
+  }
+
+  // Split the tag off notes written before the source column existed
+  private withLegacySource<T extends JobComment>(comment: T, parts: JobPart[]): T {
+    if (comment.source !== "user") {
+      return comment;
+    }
+
+    for (const { pattern, source } of LEGACY_PREFIXES) {
+      const match = comment.commentText.match(pattern);
+      if (!match) continue;
+
+      const part = match[1] ? parts.find((candidate) => candidate.ecsSerial === match[1]) : undefined;
+      return {
+        ...comment,
+        source,
+        commentText: comment.commentText.slice(match[0].length),
+        partId: comment.partId ?? part?.id ?? null,
+      };
+    }
+    return comment;
+  }
+}
+
+export const jobCommentService = new JobCommentService();
@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Job, JobEvent, WorkflowDefinition } from "@shared/schema";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getJobByJobId: vi.fn(),
+    updateJob: vi.fn(),
+    createJobEvent: vi.fn(),
+    getWorkflowDefinition: vi.fn(),
+    getJobEventsByTypes: vi.fn(),
+    getAllJobs: vi.fn(),
+  },
+}));
+vi.mock("../storage", () => ({ storage }));
+vi.mock("./gocanvas", () => ({ goCanvasService: {} }));
+vi.mock("./formDispatch", () => ({ formDispatchService: {} }));
+vi.mock("./googleSheets", () => ({ googleSheetsService: { requestSync: vi.fn() } }));
+vi.mock("./notificationService", () => ({ notificationService: { notifyJobStateChanged: vi.fn() } }));
+vi.mock("./customerNotifications", () => ({ customerNotificationService: { handleStateChange: vi.fn() } }));
+vi.mock("./sla", () => ({ slaService: { evaluateJob: vi.fn() } }));
+
+const { JobEventsService, InvalidTransitionError } = await import("./jobEvents");
+
+// A shop workflow that adds a QA step between service and ready for pickup
+const QA_WORKFLOW = {
+  id: "workflow-qa",
+  transitions: {
+    at_shop: ["in_service"],
+    in_service: ["service_complete"],
+    service_complete: ["qa_inspection"],
+    qa_inspection: ["ready_for_pickup", "in_service"],
+    ready_for_pickup: [],
+  },
+  initialStates: ["at_shop"],
+  terminalStates: ["ready_for_pickup"],
+} as unknown as WorkflowDefinition;
+
+function job(overrides: Partial<Job> = {}): Job {
+  return {
+    id: "uuid-1",
+    jobId: "ECS-20260301090000-01",
+    shopName: "ECS - Nashville",
+    state: "at_shop",
+    workflowId: null,
+    startMode: "shop_checkin",
+    completionMode: null,
+    ...overrides,
+  } as Job;
+}
+
+function stateChange(jobId: string, previousState: string | null, newState: string, minute: number): JobEvent {
+  return {
+    id: `${jobId}-${minute}`,
+    jobId,
+    eventType: "state_change",
+    timestamp: new Date(Date.UTC(2026, 2, 1, 9, minute)),
+    metadata: { previousState, newState },
+  } as JobEvent;
+}
+
+let service: InstanceType<typeof JobEventsService>;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  service = new JobEventsService();
+  storage.updateJob.mockImplementation(async (_id: string, updates: Partial<Job>) => ({ ...job(), ...updates }));
+  storage.getWorkflowDefinition.mockImplementation(async (id: string) => (id === QA_WORKFLOW.id ? QA_WORKFLOW : undefined));
+});
+
+describe("default state machine", () => {
+  it("follows the pickup, service and delivery path", () => {
+    expect(service.canTransitionTo("queued_for_pickup", "picked_up")).toBe(true);
+    expect(service.canTransitionTo("picked_up", "at_shop")).toBe(true);
+    expect(service.canTransitionTo("service_complete", "outbound_shipment")).toBe(true);
+    expect(service.canTransitionTo("ready_for_pickup", "picked_up_from_shop")).toBe(true);
+  });
+
+  it("rejects skipped steps and moves out of terminal states", () => {
+    expect(service.canTransitionTo("queued_for_pickup", "in_service")).toBe(false);
+    expect(service.canTransitionTo("at_shop", "service_complete")).toBe(false);
+    expect(service.canTransitionTo("delivered", "at_shop")).toBe(false);
+    expect(service.getAllowedNextStates("cancelled")).toEqual([]);
+  });
+
+  it("allows cancelling any unfinished job", () => {
+    for (const state of ["queued_for_pickup", "at_shop", "in_service", "ready_for_pickup"] as const) {
+      expect(service.canTransitionTo(state, "cancelled")).toBe(true);
+    }
+    expect(service.isTerminalState("cancelled")).toBe(true);
+    expect(service.isTerminalState("service_complete")).toBe(false);
+  });
+});
+
+describe("transitionJobState", () => {
+  it("updates the state, stamps the state's timestamp and records a state_change event", async () => {
+    storage.getJobByJobId.mockResolvedValue(job({ state: "at_shop" }));
+    const at = new Date("2026-03-01T15:00:00Z");
+
+    const updated = await service.transitionJobState("ECS-20260301090000-01", "in_service", { actor: "Technician", timestamp: at });
+
+    expect(updated.state).toBe("in_service");
+    expect(storage.updateJob).toHaveBeenCalledWith("uuid-1", expect.objectContaining({ state: "in_service", inServiceAt: at }));
+    expect(storage.createJobEvent).toHaveBeenCalledWith(expect.objectContaining({
+      jobId: "ECS-20260301090000-01",
+      eventType: "state_change",
+      actor: "Technician",
+      metadata: { previousState: "at_shop", newState: "in_service" },
+    }));
+  });
+
+  it("records how a job finished the first time it reaches a completing state", async () => {
+    storage.getJobByJobId.mockResolvedValue(job({ state: "queued_for_delivery" }));
+    await service.transitionJobState("ECS-20260301090000-01", "delivered");
+    expect(storage.updateJob).toHaveBeenCalledWith("uuid-1", expect.objectContaining({ completionMode: "delivered" }));
+  });
+
+  it("throws InvalidTransitionError and changes nothing for an illegal move", async () => {
+    storage.getJobByJobId.mockResolvedValue(job({ state: "at_shop" }));
+
+    await expect(service.transitionJobState("ECS-20260301090000-01", "delivered")).rejects.toBeInstanceOf(InvalidTransitionError);
+    expect(storage.updateJob).not.toHaveBeenCalled();
+    expect(storage.createJobEvent).not.toHaveBeenCalled();
+  });
+
+  it("fails with a plain error for unknown jobs", async () => {
+    storage.getJobByJobId.mockResolvedValue(undefined);
+    const attempt = service.transitionJobState("ECS-missing", "in_service");
+    await expect(attempt).rejects.toThrow("Job ECS-missing not found");
+    await expect(attempt).rejects.not.toBeInstanceOf(InvalidTransitionError);
+  });
+
+  it("validates against the workflow version the job is pinned to", async () => {
+    storage.getJobByJobId.mockResolvedValue(job({ state: "service_complete", workflowId: QA_WORKFLOW.id }));
+    await expect(service.transitionJobState("ECS-20260301090000-01", "ready_for_pickup")).rejects.toBeInstanceOf(InvalidTransitionError);
+
+    await service.transitionJobState("ECS-20260301090000-01", "qa_inspection");
+    expect(storage.updateJob).toHaveBeenCalledWith("uuid-1", expect.objectContaining({ state: "qa_inspection" }));
+  });
+});
+
+describe("job actions", () => {
+  it("reject out-of-order dispatches, check-ins and shipments with InvalidTransitionError", async () => {
+    storage.getJobByJobId.mockResolvedValue(job({ state: "in_service" }));
+
+    await expect(service.dispatchPickup("ECS-20260301090000-01", { driverEmail: "driver@ecs.test" })).rejects.toBeInstanceOf(InvalidTransitionError);
+    await expect(service.checkInAtShop("ECS-20260301090000-01")).rejects.toBeInstanceOf(InvalidTransitionError);
+    await expect(service.dispatchDelivery("ECS-20260301090000-01", { driverEmail: "driver@ecs.test", deliveryAddress: "1 Main St" })).rejects.toBeInstanceOf(InvalidTransitionError);
+    await expect(service.markOutboundShipment("ECS-20260301090000-01", { carrier: "UPS", trackingNumber: "1Z" })).rejects.toBeInstanceOf(InvalidTransitionError);
+    expect(storage.updateJob).not.toHaveBeenCalled();
+  });
+});
+
+describe("validateWorkflow", () => {
+  it("accepts a workflow where every non-terminal state leads somewhere", () => {
+    expect(service.validateWorkflow(service.toWorkflowMachine(QA_WORKFLOW))).toEqual([]);
+  });
+
+  it("reports dead ends and terminal states with outgoing transitions", () => {
+    const errors = service.validateWorkflow({
+      transitions: { at_shop: ["in_service"], in_service: [], delivered: ["at_shop"] },
+      initialStates: ["at_shop"],
+      terminalStates: ["delivered"],
+    });
+    expect(errors).toEqual([
+      "Terminal state delivered cannot have outgoing transitions",
+      "State in_service has no outgoing transitions and is not a terminal state",
+    ]);
+  });
+});
+
+describe("findStateInconsistencies", () => {
+  it("passes jobs whose history replays to their current state", async () => {
+    const consistent = job({ jobId: "ECS-1", state: "in_service" });
+    storage.getAllJobs.mockResolvedValue([consistent]);
+    storage.getJobEventsByTypes.mockResolvedValue([
+      stateChange("ECS-1", "queued_for_pickup", "picked_up", 1),
+      stateChange("ECS-1", "picked_up", "at_shop", 2),
+      stateChange("ECS-1", "at_shop", "in_service", 3),
+    ]);
+
+    expect(await service.findStateInconsistencies()).toEqual([]);
+  });
+
+  it("reports histories that skip a step or don't end in the job's state", async () => {
+    storage.getAllJobs.mockResolvedValue([
+      job({ jobId: "ECS-2", state: "in_service" }),
+      job({ jobId: "ECS-3", state: "delivered" }),
+    ]);
+    storage.getJobEventsByTypes.mockResolvedValue([
+      stateChange("ECS-2", "at_shop", "service_complete", 1),
+      stateChange("ECS-3", "at_shop", "in_service", 1),
+    ]);
+
+    const problems = await service.findStateInconsistencies();
+    expect(problems.map((problem) => problem.jobId)).toEqual(["ECS-2", "ECS-3"]);
+    expect(problems[0].reason).toContain("at_shop -> service_complete is not allowed");
+    expect(problems[1].replayedState).toBe("in_service");
+  });
+});
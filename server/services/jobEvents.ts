@@ -1,7 +1,11 @@
 import { storage } from '../storage';
-import { type Job, type InsertJobEvent } from '@shared/schema';
+import { type Job, type InsertJobEvent, type WorkflowDefinition } from '@shared/schema';
 import { goCanvasService, type FormType } from './gocanvas';
 import { formDispatchService } from './formDispatch';
+import { googleSheetsService } from './googleSheets';
+import { notificationService } from './notificationService';
+import { customerNotificationService } from './customerNotifications';
+import { slaService } from './sla';
 
 const USE_NATIVE_FORMS = process.env.USE_NATIVE_FORMS === 'true';
 
@@ -13,14 +17,24 @@ export type JobState =
   | 'at_shop'
   | 'in_service'
   | 'service_complete'
+  | 'qa_inspection' // Optional step, only reachable in shop workflows that include it
   | 'ready_for_pickup'
   | 'picked_up_from_shop'
   | 'queued_for_delivery'
   | 'delivered'
+  | 'outbound_shipment' // Shipped back to the customer by carrier instead of delivered
   | 'cancelled';
 
-// State machine definition for job lifecycle
-const STATE_MACHINE = {
+// Shape shared by the built-in state machine and database workflow definitions
+export interface WorkflowMachine {
+  transitions: Partial<Record<JobState, JobState[]>>;
+  initialStates: JobState[];
+  terminalStates: JobState[];
+}
+
+// Default state machine for job lifecycle
+// Used for jobs created before any workflow definition existed for their shop
+const STATE_MACHINE: WorkflowMachine = {
   // State transitions map: current_state -> allowed_next_states[]
   transitions: {
     'queued_for_pickup': ['picked_up', 'cancelled'],
@@ -28,19 +42,20 @@ const STATE_MACHINE = {
     'picked_up': ['at_shop', 'cancelled'],
     'at_shop': ['in_service', 'cancelled'],
     'in_service': ['service_complete', 'cancelled'],
-    'service_complete': ['ready_for_pickup', 'queued_for_delivery', 'delivered', 'cancelled'],
+    'service_complete': ['ready_for_pickup', 'queued_for_delivery', 'delivered', 'outbound_shipment', 'cancelled'],
     'ready_for_pickup': ['picked_up_from_shop', 'delivered', 'cancelled'],
     'picked_up_from_shop': ['delivered', 'cancelled'],
     'queued_for_delivery': ['delivered', 'cancelled'],
     'delivered': [], // Terminal state
+    'outbound_shipment': [], // Terminal state
     'cancelled': [], // Terminal state
-  } as Record<JobState, JobState[]>,
+  },
   
   // Initial states that jobs can start in
-  initialStates: ['queued_for_pickup', 'shipment_inbound', 'at_shop', 'queued_for_delivery'] as JobState[],
+  initialStates: ['queued_for_pickup', 'shipment_inbound', 'at_shop', 'queued_for_delivery'],
   
   // Terminal states (no further transitions)
-  terminalStates: ['delivered', 'cancelled'] as JobState[],
+  terminalStates: ['delivered', 'outbound_shipment', 'cancelled'],
 };
 
 // Event types for different state transitions
@@ -55,7 +70,25 @@ export type JobEventType =
   | 'delivery_dispatched'
   | 'delivery_completed'
   | 'cancelled'
-  | 'note_added';
+  | 'note_added'
+  | 'sla_at_risk' // written by the SLA service, not by a transition
+  | 'sla_overdue';
+
+// A job whose current state can't be reached by replaying its state_change events
+export interface StateInconsistency {
+  jobId: string;
+  state: string;
+  replayedState: string | null;
+  reason: string;
+}
+
+// Thrown when a transition isn't allowed by the job's workflow, so routes can answer 409
+export class InvalidTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTransitionError';
+  }
+}
 
 interface StateChangeOptions {
   actor?: string; // CSR, Driver, System, Technician
@@ -66,26 +99,91 @@ interface StateChangeOptions {
 }
 
 export class JobEventsService {
+  // Workflow versions are immutable once saved, so they can be cached by id indefinitely
+  private workflowCache = new Map<string, WorkflowMachine>();
+
   /**
    * Validate if a state transition is allowed
    */
-  canTransitionTo(currentState: JobState, nextState: JobState): boolean {
-    const allowedStates = STATE_MACHINE.transitions[currentState] || [];
+  canTransitionTo(currentState: JobState, nextState: JobState, workflow: WorkflowMachine = STATE_MACHINE): boolean {
+    const allowedStates = workflow.transitions[currentState] || [];
     return allowedStates.includes(nextState);
   }
 
   /**
    * Get allowed next states for a job
    */
-  getAllowedNextStates(currentState: JobState): JobState[] {
-    return STATE_MACHINE.transitions[currentState] || [];
+  getAllowedNextStates(currentState: JobState, workflow: WorkflowMachine = STATE_MACHINE): JobState[] {
+    return workflow.transitions[currentState] || [];
   }
 
   /**
    * Check if a state is a terminal state
    */
-  isTerminalState(state: JobState): boolean {
-    return STATE_MACHINE.terminalStates.includes(state);
+  isTerminalState(state: JobState, workflow: WorkflowMachine = STATE_MACHINE): boolean {
+    return workflow.terminalStates.includes(state);
+  }
+
+  /**
+   * Resolve the workflow a job is pinned to (falls back to the built-in state machine)
+   */
+  async getWorkflowForJob(job: Job): Promise<WorkflowMachine> {
+    if (!job.workflowId) {
+      return STATE_MACHINE;
+    }
+
+    const cached = this.workflowCache.get(job.workflowId);
+    if (cached) {
+      return cached;
+    }
+
+    const definition = await storage.getWorkflowDefinition(job.workflowId);
+    if (!definition) {
+      console.warn(`⚠️ Workflow ${job.workflowId} for job ${job.jobId} not found, using default state machine`);
+      return STATE_MACHINE;
+    }
+
+    const workflow = this.toWorkflowMachine(definition);
+    this.workflowCache.set(definition.id, workflow);
+    return workflow;
+  }
+
+  /**
+   * Convert a stored workflow definition row into a state machine
+   */
+  toWorkflowMachine(definition: WorkflowDefinition): WorkflowMachine {
+    return {
+      transitions: definition.transitions as WorkflowMachine['transitions'],
+      initialStates: definition.initialStates as JobState[],
+      terminalStates: definition.terminalStates as JobState[],
+    };
+  }
+
+  /**
+   * Check a workflow definition for structural problems before it is saved.
+   * Returns a list of human-readable errors (empty when valid).
+   */
+  validateWorkflow(workflow: WorkflowMachine): string[] {
+    const errors: string[] = [];
+    const { transitions, initialStates, terminalStates } = workflow;
+
+    for (const state of terminalStates) {
+      if ((transitions[state] || []).length > 0) {
+        errors.push(`Terminal state ${state} cannot have outgoing transitions`);
+      }
+    }
+
+    // Every state a job can reach must either be terminal or lead somewhere
+    const reachable = new Set<JobState>(initialStates);
+    Object.values(transitions).forEach((targets) => targets?.forEach((target) => reachable.add(target)));
+
+    Array.from(reachable).forEach((state) => {
+      if (!terminalStates.includes(state) && (transitions[state] || []).length === 0) {
+        errors.push(`State ${state} has no outgoing transitions and is not a terminal state`);
+      }
+    });
+
+    return errors;
   }
 
   /**
@@ -108,6 +206,9 @@ export class JobEventsService {
     };
     
     await storage.createJobEvent(eventData);
+
+    // Keep the reporting sheet current - every job change records an event
+    googleSheetsService.requestSync(jobId);
   }
 
   /**
@@ -125,11 +226,12 @@ export class JobEventsService {
       throw new Error(`Job ${jobId} not found`);
     }
 
-    // Validate transition
-    if (!this.canTransitionTo(job.state as JobState, newState)) {
-      throw new Error(
+    // Validate transition against the workflow version the job was created on
+    const workflow = await this.getWorkflowForJob(job);
+    if (!this.canTransitionTo(job.state as JobState, newState, workflow)) {
+      throw new InvalidTransitionError(
         `Invalid state transition: cannot go from ${job.state} to ${newState}. ` +
-        `Allowed transitions: ${this.getAllowedNextStates(job.state as JobState).join(', ')}`
+        `Allowed transitions: ${this.getAllowedNextStates(job.state as JobState, workflow).join(', ')}`
       );
     }
 
@@ -196,6 +298,9 @@ export class JobEventsService {
       } else if (newState === 'ready_for_pickup') {
         updateData.completedAt = timestamp;
         updateData.completionMode = 'ready_for_pickup';
+      } else if (newState === 'outbound_shipment') {
+        updateData.completedAt = timestamp;
+        updateData.completionMode = 'outbound_shipment';
       }
     }
 
@@ -221,6 +326,10 @@ export class JobEventsService {
       }
     );
 
+    notificationService.notifyJobStateChanged(updatedJob, job.state, newState, options.actorEmail);
+    customerNotificationService.handleStateChange(updatedJob, newState);
+    void slaService.evaluateJob(updatedJob.jobId);
+
     return updatedJob;
   }
 
@@ -244,7 +353,7 @@ export class JobEventsService {
 
     // Validate state (must be in queued_for_pickup)
     if (job.state !== 'queued_for_pickup') {
-      throw new Error(`Cannot dispatch pickup: job is in ${job.state} state, must be in queued_for_pickup`);
+      throw new InvalidTransitionError(`Cannot dispatch pickup: job is in ${job.state} state, must be in queued_for_pickup`);
     }
 
     if (USE_NATIVE_FORMS) {
@@ -388,7 +497,7 @@ export class JobEventsService {
 
     // Validate state (must be picked_up, shipment_inbound, or queued_for_pickup for direct check-in)
     if (job.state !== 'picked_up' && job.state !== 'shipment_inbound' && job.state !== 'queued_for_pickup') {
-      throw new Error(`Cannot check in: job is in ${job.state} state`);
+      throw new InvalidTransitionError(`Cannot check in: job is in ${job.state} state`);
     }
 
     // If coming from queued_for_pickup, this is a direct shop check-in (no pickup)
@@ -519,11 +628,11 @@ export class JobEventsService {
       throw new Error(`Job ${jobId} not found`);
     }
 
-    // Validate state (must be in service_complete OR queued_for_delivery for direct delivery jobs)
+    // Validate state (workflow must allow queued_for_delivery next, OR already queued for direct delivery jobs)
     // Direct delivery jobs start in queued_for_delivery and bypass the service workflow
-    const allowedStates = ['service_complete', 'queued_for_delivery'];
-    if (!allowedStates.includes(job.state)) {
-      throw new Error(`Cannot dispatch delivery: job is in ${job.state} state, must be in service_complete or queued_for_delivery`);
+    const workflow = await this.getWorkflowForJob(job);
+    if (job.state !== 'queued_for_delivery' && !this.canTransitionTo(job.state as JobState, 'queued_for_delivery', workflow)) {
+      throw new InvalidTransitionError(`Cannot dispatch delivery: job is in ${job.state} state, which cannot move to queued_for_delivery`);
     }
 
     if (USE_NATIVE_FORMS) {
@@ -680,6 +789,64 @@ export class JobEventsService {
     return updatedJob;
   }
 
+  /**
+   * Mark job as shipped back to the customer by carrier (terminal state)
+   */
+  async markOutboundShipment(
+    jobId: string,
+    params: {
+      location?: string;
+      orderNumber?: string;
+      orderNumber2?: string;
+      orderNumber3?: string;
+      orderNumber4?: string;
+      orderNumber5?: string;
+      carrier?: string;
+      trackingNumber?: string;
+      expectedArrival?: string | Date;
+    },
+    options: StateChangeOptions = {}
+  ): Promise<Job> {
+    const job = await storage.getJobByJobId(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    // Validate before saving the shipment details so a rejected transition leaves the job untouched
+    const workflow = await this.getWorkflowForJob(job);
+    if (!this.canTransitionTo(job.state as JobState, 'outbound_shipment', workflow)) {
+      throw new InvalidTransitionError(
+        `Invalid state transition: cannot go from ${job.state} to outbound_shipment. ` +
+        `Allowed transitions: ${this.getAllowedNextStates(job.state as JobState, workflow).join(', ')}`
+      );
+    }
+
+    await storage.updateJob(job.id, {
+      shopName: params.location || job.shopName,
+      orderNumber: params.orderNumber || job.orderNumber,
+      orderNumber2: params.orderNumber2 || job.orderNumber2,
+      orderNumber3: params.orderNumber3 || job.orderNumber3,
+      orderNumber4: params.orderNumber4 || job.orderNumber4,
+      orderNumber5: params.orderNumber5 || job.orderNumber5,
+      outboundCarrier: params.carrier || null,
+      outboundTrackingNumber: params.trackingNumber || null,
+      outboundExpectedArrival: params.expectedArrival ? new Date(params.expectedArrival) : null,
+      updatedAt: new Date(),
+    });
+
+    // Transition state (this creates the event and sets completedAt/completionMode)
+    const updatedJob = await this.transitionJobState(jobId, 'outbound_shipment', {
+      ...options,
+      metadata: {
+        ...options.metadata,
+        carrier: params.carrier || null,
+        trackingNumber: params.trackingNumber || null,
+      },
+    });
+
+    return updatedJob;
+  }
+
   /**
    * Cancel a job
    */
@@ -721,15 +888,84 @@ export class JobEventsService {
     return events;
   }
 
+  /**
+   * Replay every job's state_change events against its workflow and report jobs
+   * whose current state can't be reached from that history (e.g. states written
+   * directly to the jobs table before all writes went through transitionJobState)
+   */
+  async findStateInconsistencies(): Promise<StateInconsistency[]> {
+    // Outbound shipments used to log their own event type instead of a state_change
+    const events = await storage.getJobEventsByTypes(['state_change', 'outbound_shipment']);
+    const eventsByJob = new Map<string, typeof events>();
+    for (const event of events) {
+      const jobEvents = eventsByJob.get(event.jobId) || [];
+      jobEvents.push(event);
+      eventsByJob.set(event.jobId, jobEvents);
+    }
+
+    const inconsistencies: StateInconsistency[] = [];
+    for (const job of await storage.getAllJobs()) {
+      const workflow = await this.getWorkflowForJob(job);
+      const transitions = (eventsByJob.get(job.jobId) || []).map((event) => {
+        const metadata = (event.metadata || {}) as Record<string, any>;
+        return event.eventType === 'outbound_shipment'
+          ? { from: null, to: 'outbound_shipment' as JobState, at: event.timestamp.getTime() }
+          : { from: (metadata.previousState ?? null) as JobState | null, to: metadata.newState as JobState, at: event.timestamp.getTime() };
+      });
+
+      const problem = this.replayTransitions(transitions, workflow);
+      const replayedState = problem.replayedState;
+      let reason = problem.reason;
+      if (!reason && replayedState === null && !workflow.initialStates.includes(job.state as JobState)) {
+        reason = `no state changes recorded and ${job.state} is not an initial state`;
+      } else if (!reason && replayedState !== null && replayedState !== job.state) {
+        reason = `event history ends in ${replayedState}`;
+      }
+
+      if (reason) {
+        inconsistencies.push({ jobId: job.jobId, state: job.state, replayedState, reason });
+      }
+    }
+    return inconsistencies;
+  }
+
+  /**
+   * Walk a job's transitions in order; returns the state they end in and the first problem found
+   */
+  private replayTransitions(
+    transitions: Array<{ from: JobState | null; to: JobState; at: number }>,
+    workflow: WorkflowMachine
+  ): { replayedState: JobState | null; reason: string | null } {
+    const pending = [...transitions];
+    let current: JobState | null = null;
+    while (pending.length > 0) {
+      // Chained transitions (e.g. a direct check-in) can share a timestamp, so prefer the one that follows on
+      const next = pending.findIndex((transition) => transition.at === pending[0].at && transition.from === current);
+      const { from, to } = pending.splice(Math.max(next, 0), 1)[0];
+      const start: JobState | null = from ?? current;
+      if (current === null && start !== null && !workflow.initialStates.includes(start)) {
+        return { replayedState: start, reason: `history starts in ${start}, which is not an initial state` };
+      }
+      if (current !== null && start !== current) {
+        return { replayedState: current, reason: `history jumps from ${current} to ${start}` };
+      }
+      if (start !== null && !this.canTransitionTo(start, to, workflow)) {
+        return { replayedState: start, reason: `${start} -> ${to} is not allowed by the job's workflow` };
+      }
+      current = to;
+    }
+    return { replayedState: current, reason: null };
+  }
+
   /**
    * Get state machine info for debugging/display
    */
-  getStateMachineInfo() {
+  getStateMachineInfo(workflow: WorkflowMachine = STATE_MACHINE) {
     return {
-      states: Object.keys(STATE_MACHINE.transitions),
-      transitions: STATE_MACHINE.transitions,
-      initialStates: STATE_MACHINE.initialStates,
-      terminalStates: STATE_MACHINE.terminalStates,
+      states: Object.keys(workflow.transitions),
+      transitions: workflow.transitions,
+      initialStates: workflow.initialStates,
+      terminalStates: workflow.terminalStates,
     };
   }
 }
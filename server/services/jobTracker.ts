@@ -2,6 +2,8 @@ import { storage } from '../storage';
 import { goCanvasService } from './gocanvas';
 import { googleSheetsService } from './googleSheets';
 import { timezoneService } from './timezone';
+import { shopRegistry } from './shopRegistry';
+import { getDateCode } from '@shared/shopCodes';
 
 export class JobTrackerService {
   private pollingInterval: NodeJS.Timeout | null = null;
@@ -269,7 +271,7 @@ export class JobTrackerService {
     }
   }
 
-  async calculateMetrics(): Promise<{
+  async calculateMetrics(shopNames?: string[]): Promise<{
     activeJobs: number;
     completedToday: number;
     averageTurnaround: number;
@@ -277,20 +279,21 @@ export class JobTrackerService {
     overdueJobs: number;
   }> {
     try {
-      const allJobs = await storage.getAllJobs();
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      const allJobs = (await storage.getAllJobs())
+        .filter(job => !shopNames || shopNames.includes(job.shopName));
+      const now = new Date();
 
       // Active jobs: not completed and not cancelled
       const activeJobs = allJobs.filter(job => 
         !job.completedAt && job.state !== 'cancelled'
       ).length;
 
-      // Completed jobs: have completedAt timestamp set (ready_for_pickup or delivered)
-      const completedToday = allJobs.filter(job => 
-        job.completedAt && 
-        new Date(job.completedAt) >= today
-      ).length;
+      // Completed jobs: have completedAt timestamp set (ready_for_pickup or delivered),
+      // counted on each shop's local day
+      const completedToday = allJobs.filter(job => {
+        const timezone = shopRegistry.getTimezone(job.shopName);
+        return job.completedAt && getDateCode(timezone, new Date(job.completedAt)) === getDateCode(timezone, now);
+      }).length;
 
       // Jobs with Full Turnaround Time data (completed jobs with turnaroundTime)
       const completedJobsWithTurnaround = allJobs.filter(job => 
@@ -310,8 +313,8 @@ export class JobTrackerService {
         completedJobsWithTechTime.reduce((sum, job) => sum + (job.timeWithTech || 0), 0) / completedJobsWithTechTime.length :
         0;
 
-      // Overdue jobs (active jobs past some threshold - placeholder for now)
-      const overdueJobs = 0; // TODO: Define overdue logic based on job.state and timestamps
+      // Overdue jobs: active jobs past an SLA target (flags kept current by the SLA service)
+      const overdueJobs = allJobs.filter(job => job.slaStatus === 'overdue').length;
 
       return {
         activeJobs,
@@ -0,0 +1,313 @@
+import net from "net";
+import tls from "tls";
+import { randomUUID } from "crypto";
+
+/**
+ * Outbound email and SMS transports for customer status updates.
+ *
+ * Selected by environment:
+ * - CUSTOMER_EMAIL_TRANSPORT: "smtp" or "log" (default: smtp when SMTP_HOST is set, else log)
+ *   SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE ("true" for implicit TLS, usually port 465),
+ *   SMTP_USER, SMTP_PASS, CUSTOMER_EMAIL_FROM
+ * - CUSTOMER_SMS_TRANSPORT: "twilio" or "log" (default: twilio when TWILIO_ACCOUNT_SID is set, else log)
+ *   TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER or TWILIO_MESSAGING_SERVICE_SID,
+ *   TWILIO_API_URL (override, e.g. for a local stub)
+ *
+ * The "log" transports only print the message, so dev and staging never reach real customers.
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface SmsMessage {
+  to: string; // E.164, e.g. +16155550123
+  body: string;
+}
+
+export interface SendResult {
+  delivered: boolean; // false for the log transports
+  messageId?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<SendResult>;
+}
+
+export interface SmsTransport {
+  name: string;
+  send(message: SmsMessage): Promise<SendResult>;
+}
+
+const SMTP_TIMEOUT_MS = 30000;
+
+class LogEmailTransport implements EmailTransport {
+  name = "log";
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    console.log(`📧 [Email:log] To: ${message.to} | ${message.subject}\n${message.text}`);
+    return { delivered: false };
+  }
+}
+
+class LogSmsTransport implements SmsTransport {
+  name = "log";
+
+  async send(message: SmsMessage): Promise<SendResult> {
+    console.log(`📱 [SMS:log] To: ${message.to} | ${message.body}`);
+    return { delivered: false };
+  }
+}
+
+/**
+ * Minimal SMTP client: EHLO, STARTTLS when offered, AUTH PLAIN, one recipient,
+ * plain-text body. Enough for a relay such as SES, Postmark or Office 365.
+ */
+class SmtpEmailTransport implements EmailTransport {
+  name = "smtp";
+
+  constructor(
+    private config: {
+      host: string;
+      port: number;
+      secure: boolean;
+      user?: string;
+      pass?: string;
+      from: string;
+    },
+  ) {}
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    const messageId = `<${randomUUID()}@${this.config.from.split("@")[1] || this.config.host}>`;
+    const session = await SmtpSession.connect(this.config.host, this.config.port, this.config.secure);
+
+    try {
+      await session.expect(220);
+      let capabilities = await session.command(`EHLO ${this.heloName()}`, 250);
+
+      if (!this.config.secure && /STARTTLS/i.test(capabilities)) {
+        await session.command("STARTTLS", 220);
+        await session.upgradeToTls(this.config.host);
+        capabilities = await session.command(`EHLO ${this.heloName()}`, 250);
+      }
+
+      if (this.config.user) {
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.pass || ""}`).toString("base64");
+        await session.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await session.command(`MAIL FROM:<${this.config.from}>`, 250);
+      await session.command(`RCPT TO:<${message.to}>`, [250, 251]);
+      await session.command("DATA", 354);
+      await session.command(`${this.buildMessage(message, messageId)}\r\n.`, 250);
+      await session.command("QUIT", 221).catch(() => {});
+
+      return { delivered: true, messageId };
+    } finally {
+      session.close();
+    }
+  }
+
+  private heloName(): string {
+    return process.env.SMTP_HELO_NAME || "ecs-connect.local";
+  }
+
+  private buildMessage(message: EmailMessage, messageId: string): string {
+    const encodeHeader = (value: string) =>
+      /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+    const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"))
+      .toString("base64")
+      .replace(/.{1,76}/g, "$&\r\n")
+      .trimEnd();
+
+    return [
+      `From: ${this.config.from}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: ${messageId}`,
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      body,
+    ].join("\r\n");
+  }
+}
+
+/** Line-oriented SMTP conversation over a (possibly upgraded) socket */
+class SmtpSession {
+  private buffer = "";
+  private waiters: Array<() => void> = [];
+  private error: Error | null = null;
+
+  private constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  static connect(host: string, port: number, secure: boolean): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+      socket.once(secure ? "secureConnect" : "connect", () => resolve(new SmtpSession(socket)));
+      socket.once("error", reject);
+    });
+  }
+
+  async upgradeToTls(host: string): Promise<void> {
+    this.socket.removeAllListeners("data");
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername: host }, () => resolve(upgraded));
+      upgraded.once("error", reject);
+    });
+    this.socket = secureSocket;
+    this.buffer = "";
+    this.attach(secureSocket);
+  }
+
+  async command(line: string, expected: number | number[]): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  /** Read one (possibly multi-line) reply and check its status code */
+  async expect(expected: number | number[]): Promise<string> {
+    const reply = await this.readReply();
+    const code = parseInt(reply.slice(0, 3), 10);
+    const allowed = Array.isArray(expected) ? expected : [expected];
+    if (!allowed.includes(code)) {
+      throw new Error(`SMTP error: ${reply.trim()}`);
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.on("data", (chunk) => {
+      this.buffer += chunk.toString("utf8");
+      this.notify();
+    });
+    socket.on("error", (error) => {
+      this.error = error;
+      this.notify();
+    });
+    socket.on("close", () => {
+      this.error = this.error || new Error("SMTP connection closed");
+      this.notify();
+    });
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  private async readReply(): Promise<string> {
+    for (;;) {
+      // A reply ends with a line whose 4th character is a space ("250 OK"); "250-" continues
+      const lines = this.buffer.split("\r\n");
+      const lastIndex = lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+      if (lastIndex >= 0 && lastIndex < lines.length - 1) {
+        const reply = lines.slice(0, lastIndex + 1).join("\n");
+        this.buffer = lines.slice(lastIndex + 1).join("\r\n");
+        return reply;
+      }
+      if (this.error) throw this.error;
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+}
+
+class TwilioSmsTransport implements SmsTransport {
+  name = "twilio";
+
+  constructor(
+    private config: {
+      accountSid: string;
+      authToken: string;
+      from?: string;
+      messagingServiceSid?: string;
+      apiUrl: string;
+    },
+  ) {}
+
+  async send(message: SmsMessage): Promise<SendResult> {
+    const form = new URLSearchParams({ To: message.to, Body: message.body });
+    if (this.config.messagingServiceSid) {
+      form.set("MessagingServiceSid", this.config.messagingServiceSid);
+    } else if (this.config.from) {
+      form.set("From", this.config.from);
+    }
+
+    const response = await fetch(
+      `${this.config.apiUrl}/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${this.config.accountSid}:${this.config.authToken}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: form,
+      },
+    );
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Twilio error ${response.status}: ${result.message || response.statusText}`);
+    }
+    return { delivered: true, messageId: result.sid };
+  }
+}
+
+export function createEmailTransport(): EmailTransport {
+  const kind = process.env.CUSTOMER_EMAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "log");
+
+  if (kind === "smtp") {
+    if (!process.env.SMTP_HOST || !process.env.CUSTOMER_EMAIL_FROM) {
+      console.warn("[CustomerNotify] SMTP_HOST and CUSTOMER_EMAIL_FROM are required for smtp - using log transport");
+      return new LogEmailTransport();
+    }
+    const secure = process.env.SMTP_SECURE === "true";
+    return new SmtpEmailTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || (secure ? "465" : "587"), 10),
+      secure,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from: process.env.CUSTOMER_EMAIL_FROM,
+    });
+  }
+
+  return new LogEmailTransport();
+}
+
+export function createSmsTransport(): SmsTransport {
+  const kind = process.env.CUSTOMER_SMS_TRANSPORT || (process.env.TWILIO_ACCOUNT_SID ? "twilio" : "log");
+
+  if (kind === "twilio") {
+    const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER, TWILIO_MESSAGING_SERVICE_SID } = process.env;
+    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || (!TWILIO_FROM_NUMBER && !TWILIO_MESSAGING_SERVICE_SID)) {
+      console.warn("[CustomerNotify] Twilio credentials incomplete - using log transport");
+      return new LogSmsTransport();
+    }
+    return new TwilioSmsTransport({
+      accountSid: TWILIO_ACCOUNT_SID,
+      authToken: TWILIO_AUTH_TOKEN,
+      from: TWILIO_FROM_NUMBER,
+      messagingServiceSid: TWILIO_MESSAGING_SERVICE_SID,
+      apiUrl: process.env.TWILIO_API_URL || "https://api.twilio.com",
+    });
+  }
+
+  return new LogSmsTransport();
+}
@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import type { Whitelist } from "@shared/schema";
+import type { RequestIdentity } from "../clerkAuth";
+
+const { storage, authenticateUpgradeRequest } = vi.hoisted(() => ({
+  storage: {
+    getWhitelistByEmail: vi.fn(),
+    getUndeliveredNotifications: vi.fn(),
+    markNotificationsDelivered: vi.fn(),
+  },
+  authenticateUpgradeRequest: vi.fn(),
+}));
+vi.mock("../storage", () => ({ storage }));
+vi.mock("../clerkAuth", () => ({ authenticateUpgradeRequest }));
+vi.mock("./webPush", () => ({ webPushService: {} }));
+
+const { notificationService } = await import("./notificationService");
+
+const techIdentity: RequestIdentity = {
+  userId: "user-tech",
+  email: "tech@example.com",
+  role: "technician",
+  homeShop: "ECS - Nashville",
+  shops: [],
+  activeShop: null,
+  persona: false,
+  accountAdmin: false,
+};
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer();
+  notificationService.setup(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws/notifications`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  storage.getUndeliveredNotifications.mockResolvedValue([]);
+});
+
+// Connect and wait for auth_ok, or for the handshake to be refused
+function connect(): Promise<{ ws: WebSocket } | { rejected: string }> {
+  return new Promise((resolve) => {
+    const ws = new WebSocket(baseUrl);
+    ws.on("message", (data) => {
+      if (JSON.parse(data.toString()).type === "auth_ok") resolve({ ws });
+    });
+    ws.on("unexpected-response", (_req, res) => {
+      resolve({ rejected: `HTTP ${res.statusCode}` });
+      ws.terminate();
+    });
+    ws.on("error", (error) => resolve({ rejected: error.message }));
+  });
+}
+
+function closeCode(ws: WebSocket): Promise<number> {
+  return new Promise((resolve) => ws.on("close", (code) => resolve(code)));
+}
+
+async function connectAs(identity: RequestIdentity): Promise<WebSocket> {
+  authenticateUpgradeRequest.mockResolvedValue(identity);
+  const result = await connect();
+  if (!("ws" in result)) throw new Error(`Expected a connection, got ${result.rejected}`);
+  return result.ws;
+}
+
+describe("WebSocket upgrade", () => {
+  it("refuses unauthenticated upgrades with 401", async () => {
+    authenticateUpgradeRequest.mockResolvedValue(null);
+    expect(await connect()).toEqual({ rejected: "HTTP 401" });
+  });
+
+  it("drops the socket instead of crashing when authentication throws", async () => {
+    authenticateUpgradeRequest.mockRejectedValue(new Error("lookup failed"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await connect()).toHaveProperty("rejected");
+  });
+
+  it("accepts an authenticated upgrade and replays undelivered notifications", async () => {
+    const ws = await connectAs(techIdentity);
+    expect(storage.getUndeliveredNotifications).toHaveBeenCalledWith("tech@example.com");
+    ws.close();
+  });
+});
+
+describe("revalidateConnections", () => {
+  function whitelistEntry(overrides: Partial<Whitelist> = {}): Whitelist {
+    return { email: "tech@example.com", role: "technician", homeShop: "ECS - Nashville", shops: [], ...overrides } as Whitelist;
+  }
+
+  it("closes with WS_CLOSE_ACCESS_REVOKED (4403) when the user leaves the whitelist", async () => {
+    const ws = await connectAs(techIdentity);
+    storage.getWhitelistByEmail.mockResolvedValue(undefined);
+    const closed = closeCode(ws);
+    await notificationService.revalidateConnections("Tech@Example.com");
+    expect(await closed).toBe(4403);
+  });
+
+  it("closes with WS_CLOSE_ROLE_CHANGED (4409) when the role changes", async () => {
+    const ws = await connectAs(techIdentity);
+    storage.getWhitelistByEmail.mockResolvedValue(whitelistEntry({ role: "driver" }));
+    const closed = closeCode(ws);
+    await notificationService.revalidateConnections("tech@example.com");
+    expect(await closed).toBe(4409);
+  });
+
+  it("closes with WS_CLOSE_ROLE_CHANGED (4409) when the shops change", async () => {
+    const ws = await connectAs(techIdentity);
+    storage.getWhitelistByEmail.mockResolvedValue(whitelistEntry({ shops: ["ECS - Atlanta"] }));
+    const closed = closeCode(ws);
+    await notificationService.revalidateConnections("tech@example.com");
+    expect(await closed).toBe(4409);
+  });
+
+  it("leaves sockets open when nothing relevant changed", async () => {
+    const ws = await connectAs(techIdentity);
+    storage.getWhitelistByEmail.mockResolvedValue(whitelistEntry());
+    await notificationService.revalidateConnections("tech@example.com");
+    expect(ws.readyState).toBe(WebSocket.OPEN);
+    ws.close();
+  });
+});
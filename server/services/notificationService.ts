@@ -1,23 +1,54 @@
 import { WebSocket, WebSocketServer } from "ws";
 import type { Server } from "http";
+import { storage } from "../storage";
+import { authenticateUpgradeRequest, type RequestIdentity } from "../clerkAuth";
+import { webPushService } from "./webPush";
+import { resolvePermissions, canAccessShop } from "@shared/permissions";
+import type { InsertNotification, Job, JobPart, Notification } from "@shared/schema";
 
-interface Notification {
-  type: "form_assigned" | "form_updated" | "job_updated";
-  submissionId?: string;
-  jobId?: string;
-  formType?: string;
-  message: string;
+type NotificationInput = Omit<InsertNotification, "recipientEmail">;
+
+// Messages the server sends over the socket
+type ServerMessage =
+  | { type: "auth_ok" }
+  | { type: "notification"; notification: Notification };
+
+// Close codes the client acts on: revoked = stop reconnecting, role (or shops) changed = reconnect
+const WS_CLOSE_ACCESS_REVOKED = 4403;
+const WS_CLOSE_ROLE_CHANGED = 4409;
+
+// Mentions are @email or @local-part of a whitelisted email, e.g. "@jsmith" for jsmith@ecs.com
+const MENTION_PATTERN = /@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+const FORM_ROUTES: Record<string, string> = {
+  pickup: "/pickup-form",
+  delivery: "/delivery-form",
+  emissions: "/emissions-form",
+};
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function formatState(state: string): string {
+  return state.replace(/_/g, " ");
 }
 
 /**
- * NotificationService manages WebSocket connections for real-time
- * notifications to technicians and drivers.
+ * NotificationService stores in-app notifications and pushes them over
+ * WebSockets to technicians, drivers and CSRs.
  *
- * Each user authenticates by sending their email after connecting,
- * which maps them to a WebSocket connection for receiving dispatches.
+ * The upgrade handshake is authenticated with the same session (or dev
+ * mock/persona) rules as the REST API, and the socket is bound to that
+ * user - clients can't pick whose notifications they receive. Every
+ * notification is written to the notifications table first, so users who
+ * are offline (or on a flaky connection) get anything they haven't
+ * acknowledged replayed when they reconnect. Clients acknowledge with
+ * {type: "ack", ids: [...]}.
  */
 class NotificationService {
   private connections = new Map<string, Set<WebSocket>>(); // email -> connections
+  private identities = new Map<WebSocket, RequestIdentity>();
   private wss: WebSocketServer | null = null;
 
   /**
@@ -27,25 +58,43 @@ class NotificationService {
   setup(server: Server): void {
     this.wss = new WebSocketServer({ noServer: true });
 
-    server.on("upgrade", (request, socket, head) => {
-      if (request.url === "/ws/notifications") {
+    // Nothing here may throw: an unhandled rejection from an "upgrade" listener would take down the server
+    server.on("upgrade", async (request, socket, head) => {
+      try {
+        const { pathname } = new URL(request.url || "/", "http://localhost");
+        if (pathname !== "/ws/notifications") return;
+
+        const identity = await authenticateUpgradeRequest(request);
+        if (!identity) {
+          socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+          socket.destroy();
+          return;
+        }
+
         this.wss!.handleUpgrade(request, socket, head, (ws) => {
-          this.wss!.emit("connection", ws, request);
+          this.wss!.emit("connection", ws, request, identity);
         });
+      } catch (error) {
+        console.error("[WS] Failed to handle upgrade:", error);
+        socket.destroy();
       }
     });
 
-    this.wss.on("connection", (ws) => {
-      let userEmail: string | null = null;
+    this.wss.on("connection", (ws: WebSocket, _request: unknown, identity: RequestIdentity) => {
+      const userEmail = identity.email;
+      this.addConnection(identity, ws);
+      this.send(ws, { type: "auth_ok" });
+      console.log(`[WS] User ${userEmail} connected${identity.persona ? " (persona)" : ""}`);
+      this.replayUndelivered(userEmail, ws);
 
       ws.on("message", (data) => {
         try {
           const message = JSON.parse(data.toString());
-          if (message.type === "auth" && message.email) {
-            userEmail = message.email;
-            this.addConnection(userEmail, ws);
-            ws.send(JSON.stringify({ type: "auth_ok" }));
-            console.log(`[WS] User ${userEmail} connected`);
+          if (message.type === "ack" && Array.isArray(message.ids)) {
+            const ids = message.ids.filter((id: unknown): id is string => typeof id === "string");
+            storage.markNotificationsDelivered(userEmail, ids).catch((error) => {
+              console.error(`[WS] Failed to record ack from ${userEmail}:`, error);
+            });
           }
         } catch {
           // Ignore malformed messages
@@ -53,16 +102,12 @@ class NotificationService {
       });
 
       ws.on("close", () => {
-        if (userEmail) {
-          this.removeConnection(userEmail, ws);
-          console.log(`[WS] User ${userEmail} disconnected`);
-        }
+        this.removeConnection(userEmail, ws);
+        console.log(`[WS] User ${userEmail} disconnected`);
       });
 
       ws.on("error", () => {
-        if (userEmail) {
-          this.removeConnection(userEmail, ws);
-        }
+        this.removeConnection(userEmail, ws);
       });
 
       // Send ping every 30s to keep connection alive
@@ -79,44 +124,208 @@ class NotificationService {
   }
 
   /**
-   * Send a notification to a specific user by email.
+   * Re-check open sockets after a whitelist change for this email. Sockets
+   * whose user (or persona) lost access are closed for good; sockets whose
+   * role or shops changed are closed so the client reconnects with them.
    */
-  notify(email: string, notification: Notification): void {
-    const connections = this.connections.get(email);
-    if (!connections || connections.size === 0) {
-      console.log(`[WS] User ${email} not connected, notification queued for poll`);
-      return;
-    }
+  async revalidateConnections(email: string): Promise<void> {
+    const changedEmail = normalizeEmail(email);
+    const affected = Array.from(this.identities.entries()).filter(
+      ([, identity]) => identity.email === changedEmail,
+    );
+    if (affected.length === 0) return;
 
-    const payload = JSON.stringify(notification);
-    for (const ws of connections) {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(payload);
+    const whitelistEntry = await storage.getWhitelistByEmail(changedEmail);
+    for (const [ws, identity] of affected) {
+      if (!whitelistEntry) {
+        ws.close(WS_CLOSE_ACCESS_REVOKED, "Access revoked");
+      } else if (whitelistEntry.role !== identity.role) {
+        ws.close(WS_CLOSE_ROLE_CHANGED, "Role changed");
+      } else if (
+        whitelistEntry.homeShop !== identity.homeShop ||
+        JSON.stringify(whitelistEntry.shops ?? []) !== JSON.stringify(identity.shops)
+      ) {
+        ws.close(WS_CLOSE_ROLE_CHANGED, "Shops changed");
       }
     }
+    console.log(`[WS] Revalidated ${affected.length} connection(s) for ${changedEmail}`);
+  }
+
+  /**
+   * Store a notification for a user, push it if they're connected and send it
+   * to their devices via Web Push if their preferences allow.
+   * Never throws - a failed notification must not fail the action that caused it.
+   */
+  async notify(email: string, input: NotificationInput): Promise<Notification | null> {
+    const recipientEmail = normalizeEmail(email);
+    try {
+      const notification = await storage.createNotification({ ...input, recipientEmail });
+      this.push(recipientEmail, notification);
+      void webPushService.sendNotification(notification);
+      return notification;
+    } catch (error) {
+      console.error(`[WS] Failed to store ${input.type} notification for ${recipientEmail}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Notify several users, skipping blanks, duplicates and whoever caused the change.
+   * With a shopName, users who can't access that shop are skipped too.
+   * Never throws, like notify.
+   */
+  async notifyMany(emails: Array<string | null | undefined>, input: NotificationInput, shopName?: string): Promise<void> {
+    const actor = input.actorEmail ? normalizeEmail(input.actorEmail) : null;
+    const recipients = new Set(
+      emails
+        .filter((email): email is string => !!email && email.includes("@"))
+        .map(normalizeEmail)
+        .filter((email) => email !== actor),
+    );
+
+    try {
+      const allowed = shopName
+        ? await this.filterByShopAccess(Array.from(recipients), shopName)
+        : Array.from(recipients);
+      await Promise.all(allowed.map((email) => this.notify(email, input)));
+    } catch (error) {
+      console.error(`[WS] Failed to send ${input.type} notifications:`, error);
+    }
   }
 
   /**
    * Notify a user that a form has been assigned to them.
    */
   notifyFormAssigned(email: string, submissionId: string, jobId: string, formType: string): void {
-    this.notify(email, {
+    const route = FORM_ROUTES[formType];
+    void this.notify(email, {
       type: "form_assigned",
-      submissionId,
-      jobId,
-      formType,
+      title: `New ${formType} form`,
       message: `New ${formType} form assigned for job ${jobId}`,
+      jobId,
+      submissionId,
+      link: route ? `${route}/${submissionId}` : `/jobs/${jobId}`,
     });
   }
 
-  private addConnection(email: string, ws: WebSocket): void {
-    if (!this.connections.has(email)) {
-      this.connections.set(email, new Set());
+  /**
+   * Notify the job's CSR, technician and drivers that it moved to a new state.
+   */
+  notifyJobStateChanged(job: Job, previousState: string, newState: string, actorEmail?: string | null): void {
+    void this.notifyMany(this.getJobStakeholders(job), {
+      type: "job_state_changed",
+      title: `Job ${job.jobId} is ${formatState(newState)}`,
+      message: `${job.customerName}: ${formatState(previousState)} → ${formatState(newState)}`,
+      jobId: job.jobId,
+      link: `/jobs/${job.jobId}`,
+      actorEmail: actorEmail ?? null,
+    }, job.shopName);
+  }
+
+  /**
+   * Notify the job's CSR and technician that a part's internal status changed.
+   */
+  notifyPartStatusChanged(job: Job, part: JobPart, previousStatus: string | null, actorEmail?: string | null): void {
+    const label = part.ecsSerial || part.part || "Part";
+    void this.notifyMany([job.userId, job.shopHandoff, job.assignedTechnician], {
+      type: "part_status_changed",
+      title: `${label} is ${part.status}`,
+      message: `Job ${job.jobId} (${job.customerName}): ${previousStatus || "no status"} → ${part.status}`,
+      jobId: job.jobId,
+      partId: part.id,
+      link: `/jobs/${job.jobId}`,
+      actorEmail: actorEmail ?? null,
+    }, job.shopName);
+  }
+
+  /**
+   * Notify users @mentioned in a job comment. Mentions resolve against the whitelist,
+   * so only real users are notified. Returns everyone mentioned; those in
+   * alreadyNotified (e.g. from before an edit) are not notified again.
+   */
+  async notifyCommentMentions(job: Job, commentText: string, authorEmail?: string | null, alreadyNotified: string[] = []): Promise<string[]> {
+    const tokens = Array.from(commentText.matchAll(MENTION_PATTERN), (match) => match[1].toLowerCase());
+    if (tokens.length === 0) return [];
+
+    try {
+      const whitelist = await storage.getAllWhitelist();
+      const mentioned = whitelist
+        .map((entry) => normalizeEmail(entry.email))
+        .filter((email) => tokens.includes(email) || tokens.includes(email.split("@")[0]));
+
+      const excerpt = commentText.length > 140 ? `${commentText.slice(0, 140)}…` : commentText;
+      await this.notifyMany(mentioned.filter((email) => !alreadyNotified.includes(email)), {
+        type: "comment_mention",
+        title: `${authorEmail || "Someone"} mentioned you on ${job.jobId}`,
+        message: excerpt,
+        jobId: job.jobId,
+        link: `/jobs/${job.jobId}`,
+        actorEmail: authorEmail ?? null,
+      }, job.shopName);
+      return mentioned;
+    } catch (error) {
+      console.error(`[WS] Failed to resolve mentions on ${job.jobId}:`, error);
+      return [];
+    }
+  }
+
+  /** The emails (lowercased) whose whitelist entry can access the shop */
+  private async filterByShopAccess(emails: string[], shopName: string): Promise<string[]> {
+    if (emails.length === 0) return [];
+    const whitelist = await storage.getAllWhitelist();
+    return emails.filter((email) => {
+      const entry = whitelist.find((candidate) => normalizeEmail(candidate.email) === email);
+      return !!entry && canAccessShop(resolvePermissions(entry), shopName);
+    });
+  }
+
+  private getJobStakeholders(job: Job): Array<string | null> {
+    return [job.userId, job.shopHandoff, job.assignedTechnician, job.pickupDriverEmail, job.deliveryDriverEmail];
+  }
+
+  private push(email: string, notification: Notification): void {
+    const connections = this.connections.get(email);
+    if (!connections || connections.size === 0) {
+      console.log(`[WS] User ${email} not connected, notification stored for replay`);
+      return;
+    }
+
+    for (const ws of connections) {
+      this.send(ws, { type: "notification", notification });
+    }
+  }
+
+  /** Resend everything the user hasn't acknowledged yet, oldest first */
+  private async replayUndelivered(email: string, ws: WebSocket): Promise<void> {
+    try {
+      const pending = await storage.getUndeliveredNotifications(email);
+      for (const notification of pending) {
+        this.send(ws, { type: "notification", notification });
+      }
+      if (pending.length > 0) {
+        console.log(`[WS] Replayed ${pending.length} notification(s) to ${email}`);
+      }
+    } catch (error) {
+      console.error(`[WS] Failed to replay notifications for ${email}:`, error);
+    }
+  }
+
+  private send(ws: WebSocket, message: ServerMessage): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  private addConnection(identity: RequestIdentity, ws: WebSocket): void {
+    if (!this.connections.has(identity.email)) {
+      this.connections.set(identity.email, new Set());
     }
-    this.connections.get(email)!.add(ws);
+    this.connections.get(identity.email)!.add(ws);
+    this.identities.set(ws, identity);
   }
 
   private removeConnection(email: string, ws: WebSocket): void {
+    this.identities.delete(ws);
     const connections = this.connections.get(email);
     if (connections) {
       connections.delete(ws);
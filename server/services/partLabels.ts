@@ -0,0 +1,137 @@
+import { PdfDocument, PAGE_SIZES } from "./pdfDocument";
+import { encodeCode128, encodeQr } from "./barcodes";
+import type { Job, JobPart } from "@shared/schema";
+
+export const LABEL_STOCKS = ["4x6", "2x1"] as const;
+export type LabelStock = typeof LABEL_STOCKS[number];
+
+export const LABEL_SYMBOLOGIES = ["code128", "qr"] as const;
+export type LabelSymbology = typeof LABEL_SYMBOLOGIES[number];
+
+const CODE128_QUIET_ZONE = 10; // modules each side
+const QR_QUIET_ZONE = 4;
+
+/**
+ * PartLabelService renders printable part tags for thermal label printers.
+ * Each label carries the ECS serial as a Code 128 or QR barcode (both encode
+ * just the serial, so any scanner gets the same value) plus job ID, customer and process.
+ * One PDF page per part, sized to the label stock.
+ */
+class PartLabelService {
+  buildLabels(job: Job, parts: JobPart[], stock: LabelStock, symbology: LabelSymbology): Buffer {
+    const pdf = new PdfDocument(stock === "4x6" ? PAGE_SIZES.label4x6 : PAGE_SIZES.label2x1);
+
+    // Parts without a serial yet have nothing to scan, so they get no label
+    const labelled = parts.filter((part) => !!part.ecsSerial);
+    for (const part of labelled) {
+      pdf.addPage();
+      if (stock === "4x6") {
+        this.drawLarge(pdf, job, part, part.ecsSerial!, symbology);
+      } else {
+        this.drawSmall(pdf, job, part, part.ecsSerial!, symbology);
+      }
+    }
+
+    console.log(`🏷️ [PartLabels] Rendered ${labelled.length} ${stock} ${symbology} label(s) for ${job.jobId}`);
+    return pdf.toBuffer();
+  }
+
+  /** 4x6 tag: shop, large serial, barcode, then job details */
+  private drawLarge(pdf: PdfDocument, job: Job, part: JobPart, serial: string, symbology: LabelSymbology): void {
+    const margin = 18;
+    const width = pdf.pageWidth - margin * 2;
+    const center = pdf.pageWidth / 2;
+
+    pdf.text(pdf.truncateText(job.shopName, width, 11, true), margin, 32, { size: 11, bold: true });
+    pdf.line(margin, 40, pdf.pageWidth - margin, 40, { lineWidth: 1.5 });
+    pdf.text(serial, center, 76, { size: 26, bold: true, align: "center" });
+
+    let y = 92;
+    if (symbology === "code128") {
+      this.drawCode128(pdf, serial, margin, y, width, 90);
+      y += 100;
+    } else {
+      this.drawQr(pdf, serial, center - 80, y, 160);
+      y += 168;
+    }
+
+    const fields: Array<[string, string | null | undefined]> = [
+      ["JOB ID", job.jobId],
+      ["CUSTOMER", job.customerName],
+      ["PROCESS", part.process],
+      ["PART", part.part],
+    ];
+    for (const [label, value] of fields) {
+      if (y > pdf.pageHeight - 30) break;
+      pdf.text(label, margin, y + 8, { size: 7, color: "#555555" });
+      pdf.text(pdf.truncateText(value || "—", width, 13, true), margin, y + 22, { size: 13, bold: true });
+      y += 30;
+    }
+  }
+
+  /** 2x1 tag: barcode with serial and a line of job context */
+  private drawSmall(pdf: PdfDocument, job: Job, part: JobPart, serial: string, symbology: LabelSymbology): void {
+    const margin = 4;
+
+    if (symbology === "code128") {
+      const width = pdf.pageWidth - margin * 2;
+      this.drawCode128(pdf, serial, margin, margin, width, 34);
+      pdf.text(serial, pdf.pageWidth / 2, 48, { size: 9, bold: true, align: "center" });
+      pdf.text(pdf.truncateText(job.jobId, width, 6), margin, 57, { size: 6 });
+      pdf.text(pdf.truncateText(`${job.customerName} · ${part.process || ""}`, width, 6), margin, 66, { size: 6 });
+      return;
+    }
+
+    const qrSize = pdf.pageHeight - margin * 2;
+    this.drawQr(pdf, serial, margin, margin, qrSize);
+    const x = margin + qrSize + 4;
+    const width = pdf.pageWidth - x - margin;
+    pdf.text(pdf.truncateText(serial, width, 8, true), x, 16, { size: 8, bold: true });
+    pdf.text(pdf.truncateText(job.jobId, width, 6), x, 29, { size: 6 });
+    pdf.text(pdf.truncateText(job.customerName, width, 6), x, 42, { size: 6 });
+    pdf.text(pdf.truncateText(part.process || "", width, 6), x, 55, { size: 6 });
+  }
+
+  private drawCode128(pdf: PdfDocument, text: string, x: number, y: number, width: number, height: number): void {
+    const widths = encodeCode128(text);
+    const totalModules = widths.reduce((sum, w) => sum + w, 0) + CODE128_QUIET_ZONE * 2;
+    const moduleWidth = width / totalModules;
+
+    let cursor = x + CODE128_QUIET_ZONE * moduleWidth;
+    widths.forEach((w, index) => {
+      // Even positions are bars, odd positions are spaces
+      if (index % 2 === 0) {
+        pdf.rect(cursor, y, w * moduleWidth, height, { fill: "#000000" });
+      }
+      cursor += w * moduleWidth;
+    });
+  }
+
+  private drawQr(pdf: PdfDocument, text: string, x: number, y: number, size: number): void {
+    const modules = encodeQr(text);
+    const moduleSize = size / (modules.length + QR_QUIET_ZONE * 2);
+    const origin = QR_QUIET_ZONE * moduleSize;
+
+    // Draw horizontal runs of dark modules as single rectangles to keep the PDF small
+    modules.forEach((row, rowIndex) => {
+      let runStart = -1;
+      for (let col = 0; col <= row.length; col++) {
+        const dark = col < row.length && row[col];
+        if (dark && runStart < 0) {
+          runStart = col;
+        } else if (!dark && runStart >= 0) {
+          pdf.rect(
+            x + origin + runStart * moduleSize,
+            y + origin + rowIndex * moduleSize,
+            (col - runStart) * moduleSize,
+            moduleSize,
+            { fill: "#000000" },
+          );
+          runStart = -1;
+        }
+      }
+    });
+  }
+}
+
+export const partLabelService = new PartLabelService();
@@ -235,15 +235,19 @@ export async function handleAdditionalComments(
       }
     }
     
-    // Create one comment per part
+    // Create one comment per part, linked to the part when the serial matches
     // multi_key IS now the ECS Serial Number directly
+    const parts = await storage.getJobParts(jobId);
     for (const commentField of additionalCommentsFields) {
       const ecsSerial = commentField.multi_key || 'Unknown Part';
+      const part = parts.find((candidate) => candidate.ecsSerial === ecsSerial);
       
       await storage.createJobComment({
         jobId,
         userId: submitterName,
-        commentText: `[Additional Comments - ${ecsSerial}] ${commentField.value.trim()}`,
+        commentText: part ? commentField.value.trim() : `[${ecsSerial}] ${commentField.value.trim()}`,
+        source: 'additional_comments',
+        partId: part?.id ?? null,
       });
       
       console.log(`✅ Added additional comments for part "${ecsSerial}" as job comment for ${jobId} by ${submitterName}`);
@@ -0,0 +1,461 @@
+import { inflateSync, deflateSync } from "zlib";
+
+/**
+ * Minimal PDF writer for server-generated documents (delivery receipts,
+ * certificates, labels) without pulling in a PDF library or external service.
+ *
+ * Supports what those documents need and nothing more:
+ * - Helvetica / Helvetica-Bold (standard 14 fonts, WinAnsi encoding)
+ * - lines and filled/stroked rectangles
+ * - PNG (8-bit, non-interlaced, with alpha) and JPEG images
+ *
+ * Coordinates are in points from the TOP-left of the page (text y is the baseline),
+ * and are flipped to PDF's bottom-left origin when the content stream is written.
+ */
+
+export const PAGE_SIZES = {
+  letter: { width: 612, height: 792 },
+  label4x6: { width: 288, height: 432 },
+  label2x1: { width: 144, height: 72 },
+} as const;
+
+export type PageSize = { width: number; height: number };
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string; // hex, e.g. "#111827"
+  align?: "left" | "center" | "right";
+}
+
+export interface ShapeOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+export interface PdfImage {
+  id: string;
+  width: number;
+  height: number;
+}
+
+interface ImageXObject extends PdfImage {
+  dict: string;
+  data: Buffer;
+  smask?: { dict: string; data: Buffer };
+}
+
+interface Page {
+  size: PageSize;
+  ops: string[];
+  images: Set<string>;
+}
+
+// Glyph widths (1/1000 em) for ASCII 32-126 from the standard Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Unicode punctuation that WinAnsi places in the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "•": 0x95, "–": 0x96, "—": 0x97, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "…": 0x85, "™": 0x99,
+};
+
+function toWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of Array.from(text)) {
+    const code = char.charCodeAt(0);
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      bytes.push(WIN_ANSI_EXTRAS[char]);
+    } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      bytes.push(code);
+    } else {
+      bytes.push(63); // '?'
+    }
+  }
+  return bytes;
+}
+
+function pdfString(text: string): string {
+  let out = "(";
+  for (const byte of toWinAnsi(text)) {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      out += "\\" + String.fromCharCode(byte);
+    } else if (byte > 126) {
+      out += "\\" + byte.toString(8).padStart(3, "0");
+    } else {
+      out += String.fromCharCode(byte);
+    }
+  }
+  return out + ")";
+}
+
+function num(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function rgb(hex: string): string {
+  const value = hex.replace("#", "");
+  const channels = [0, 2, 4].map((i) => parseInt(value.slice(i, i + 2), 16) / 255);
+  return channels.map((c) => num(Number.isNaN(c) ? 0 : c)).join(" ");
+}
+
+/**
+ * Decode an 8-bit non-interlaced PNG into raw pixel rows plus an optional alpha channel.
+ */
+function decodePng(buffer: Buffer): { width: number; height: number; colors: 1 | 3; pixels: Buffer; alpha: Buffer | null } {
+  if (buffer.readUInt32BE(0) !== 0x89504e47) {
+    throw new Error("Not a PNG image");
+  }
+
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  while (offset < buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("ascii", offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  if (bitDepth !== 8 || interlace !== 0) {
+    throw new Error(`Unsupported PNG (bit depth ${bitDepth}, interlace ${interlace})`);
+  }
+
+  const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as Record<number, number>)[colorType];
+  if (!channels) {
+    throw new Error(`Unsupported PNG color type ${colorType}`);
+  }
+
+  // Undo per-row filters (https://www.w3.org/TR/png/#9Filters)
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const rows = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? rows[dst + x - channels] : 0;
+      const up = y > 0 ? rows[dst + x - stride] : 0;
+      const upLeft = y > 0 && x >= channels ? rows[dst + x - stride - channels] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      rows[dst + x] = (raw[src + x] + predictor) & 0xff;
+    }
+  }
+
+  const pixelCount = width * height;
+  if (colorType === 0) {
+    return { width, height, colors: 1, pixels: rows, alpha: null };
+  }
+  if (colorType === 2) {
+    return { width, height, colors: 3, pixels: rows, alpha: null };
+  }
+
+  const colors = colorType === 4 ? 1 : 3;
+  const pixels = Buffer.alloc(pixelCount * colors);
+  const alpha = Buffer.alloc(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    if (colorType === 3) {
+      const index = rows[i];
+      palette!.copy(pixels, i * 3, index * 3, index * 3 + 3);
+      alpha[i] = transparency && index < transparency.length ? transparency[index] : 255;
+    } else {
+      rows.copy(pixels, i * colors, i * channels, i * channels + colors);
+      alpha[i] = rows[i * channels + colors];
+    }
+  }
+  const opaque = alpha.every((a) => a === 255);
+  return { width, height, colors, pixels, alpha: opaque ? null : alpha };
+}
+
+/**
+ * Read the pixel size and component count from a JPEG's start-of-frame marker.
+ */
+function readJpegInfo(buffer: Buffer): { width: number; height: number; components: number } {
+  let offset = 2;
+  while (offset < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      break;
+    }
+    const marker = buffer[offset + 1];
+    const length = buffer.readUInt16BE(offset + 2);
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+        components: buffer[offset + 9],
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new Error("Not a JPEG image");
+}
+
+export class PdfDocument {
+  private pages: Page[] = [];
+  private images = new Map<string, ImageXObject>();
+
+  constructor(private defaultSize: PageSize = PAGE_SIZES.letter) {}
+
+  get pageWidth(): number {
+    return this.currentPage.size.width;
+  }
+
+  get pageHeight(): number {
+    return this.currentPage.size.height;
+  }
+
+  private get currentPage(): Page {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage(size: PageSize = this.defaultSize): this {
+    this.pages.push({ size, ops: [], images: new Set() });
+    return this;
+  }
+
+  textWidth(text: string, size = 10, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    const units = toWinAnsi(text).reduce(
+      (sum, byte) => sum + (byte >= 32 && byte <= 126 ? widths[byte - 32] : 556),
+      0,
+    );
+    return (units / 1000) * size;
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth, splitting on whitespace.
+   */
+  wrapText(text: string, maxWidth: number, size = 10, bold = false): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /**
+   * Shorten text with an ellipsis so it fits within maxWidth (for fixed-size labels).
+   */
+  truncateText(text: string, maxWidth: number, size = 10, bold = false): string {
+    if (this.textWidth(text, size, bold) <= maxWidth) {
+      return text;
+    }
+    let truncated = text;
+    while (truncated.length > 0 && this.textWidth(`${truncated}…`, size, bold) > maxWidth) {
+      truncated = truncated.slice(0, -1);
+    }
+    return `${truncated.trimEnd()}…`;
+  }
+
+  text(text: string, x: number, y: number, options: TextOptions = {}): this {
+    const { size = 10, bold = false, color = "#000000", align = "left" } = options;
+    const page = this.currentPage;
+    const width = this.textWidth(text, size, bold);
+    const left = align === "center" ? x - width / 2 : align === "right" ? x - width : x;
+    page.ops.push(
+      `BT ${rgb(color)} rg /${bold ? "F2" : "F1"} ${num(size)} Tf ${num(left)} ${num(page.size.height - y)} Td ${pdfString(text)} Tj ET`,
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: ShapeOptions = {}): this {
+    const { stroke = "#000000", lineWidth = 1 } = options;
+    const height = this.currentPage.size.height;
+    this.currentPage.ops.push(
+      `${rgb(stroke)} RG ${num(lineWidth)} w ${num(x1)} ${num(height - y1)} m ${num(x2)} ${num(height - y2)} l S`,
+    );
+    return this;
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: ShapeOptions = { stroke: "#000000" }): this {
+    const { fill, stroke, lineWidth = 1 } = options;
+    const page = this.currentPage;
+    const ops: string[] = [];
+    if (fill) ops.push(`${rgb(fill)} rg`);
+    if (stroke) ops.push(`${rgb(stroke)} RG ${num(lineWidth)} w`);
+    ops.push(`${num(x)} ${num(page.size.height - y - height)} ${num(width)} ${num(height)} re`);
+    ops.push(fill && stroke ? "B" : fill ? "f" : "S");
+    page.ops.push(ops.join(" "));
+    return this;
+  }
+
+  /**
+   * Register a PNG or JPEG for drawing with image(). Accepts raw bytes or a data URL.
+   */
+  embedImage(source: Buffer | string): PdfImage {
+    const data = typeof source === "string"
+      ? Buffer.from(source.replace(/^data:[^;]+;base64,/, ""), "base64")
+      : source;
+    const id = `Im${this.images.size + 1}`;
+
+    let image: ImageXObject;
+    if (data[0] === 0xff && data[1] === 0xd8) {
+      const { width, height, components } = readJpegInfo(data);
+      const colorSpace = components === 1 ? "/DeviceGray" : components === 4 ? "/DeviceCMYK" : "/DeviceRGB";
+      image = {
+        id, width, height, data,
+        dict: `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+      };
+    } else {
+      const png = decodePng(data);
+      const colorSpace = png.colors === 1 ? "/DeviceGray" : "/DeviceRGB";
+      image = {
+        id, width: png.width, height: png.height,
+        data: deflateSync(png.pixels),
+        dict: `/Type /XObject /Subtype /Image /Width ${png.width} /Height ${png.height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /FlateDecode`,
+        smask: png.alpha
+          ? {
+              data: deflateSync(png.alpha),
+              dict: `/Type /XObject /Subtype /Image /Width ${png.width} /Height ${png.height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`,
+            }
+          : undefined,
+      };
+    }
+
+    this.images.set(id, image);
+    return { id, width: image.width, height: image.height };
+  }
+
+  /**
+   * Draw an embedded image scaled to fit within the box, preserving aspect ratio.
+   */
+  image(image: PdfImage, x: number, y: number, maxWidth: number, maxHeight: number): this {
+    const page = this.currentPage;
+    const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    page.images.add(image.id);
+    page.ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(page.size.height - y - height)} cm /${image.id} Do Q`);
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+
+    const objects: Buffer[] = [];
+    const addObject = (body: string | Buffer, stream?: Buffer): number => {
+      const id = objects.length + 1;
+      const parts: Buffer[] = [Buffer.from(`${id} 0 obj\n`)];
+      if (stream) {
+        parts.push(Buffer.from(`<< ${body} /Length ${stream.length} >>\nstream\n`), stream, Buffer.from("\nendstream"));
+      } else {
+        parts.push(Buffer.isBuffer(body) ? body : Buffer.from(body));
+      }
+      parts.push(Buffer.from("\nendobj\n"));
+      objects.push(Buffer.concat(parts));
+      return id;
+    };
+
+    // Object 1 = catalog, 2 = page tree; both reference later objects so are filled in last
+    objects.push(Buffer.alloc(0), Buffer.alloc(0));
+    const regular = addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    const bold = addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    const imageRefs = new Map<string, number>();
+    this.images.forEach((image, id) => {
+      const smaskRef = image.smask ? addObject(image.smask.dict, image.smask.data) : null;
+      const dict = smaskRef ? `${image.dict} /SMask ${smaskRef} 0 R` : image.dict;
+      imageRefs.set(id, addObject(dict, image.data));
+    });
+
+    const pageRefs: number[] = [];
+    for (const page of this.pages) {
+      const contentRef = addObject("/Filter /FlateDecode", deflateSync(Buffer.from(page.ops.join("\n"))));
+      const xObjects = Array.from(page.images).map((id) => `/${id} ${imageRefs.get(id)} 0 R`).join(" ");
+      pageRefs.push(addObject(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.size.width)} ${num(page.size.height)}] ` +
+        `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> /XObject << ${xObjects} >> >> /Contents ${contentRef} 0 R >>`,
+      ));
+    }
+
+    objects[0] = Buffer.from("1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+    objects[1] = Buffer.from(`2 0 obj\n<< /Type /Pages /Kids [${pageRefs.map((ref) => `${ref} 0 R`).join(" ")}] /Count ${pageRefs.length} >>\nendobj\n`);
+
+    const header = Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "binary");
+    const offsets: number[] = [];
+    let position = header.length;
+    for (const object of objects) {
+      offsets.push(position);
+      position += object.length;
+    }
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+      "startxref",
+      String(position),
+      "%%EOF",
+    ].join("\n");
+
+    return Buffer.concat([header, ...objects, Buffer.from(xref + "\n")]);
+  }
+}
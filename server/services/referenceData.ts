@@ -1,5 +1,6 @@
 // Reference Data service for processing GoCanvas reference sheets
 import { goCanvasService } from './gocanvas';
+import { shopRegistry } from './shopRegistry';
 
 export interface ReferenceDataService {
   getShopUsers(): Promise<string[]>;
@@ -12,7 +13,6 @@ export interface ReferenceDataService {
   getTechComments(): Promise<string[]>;
   getDrivers(): Promise<string[]>;
   getDriverDetails(): Promise<{ name: string; email: string }[]>;
-  getLocations(): Promise<string[]>;
   getParts(): Promise<string[]>;
   getProcesses(): Promise<string[]>;
   getFilterPartNumbers(): Promise<string[]>;
@@ -104,29 +104,24 @@ class GoCanvasReferenceDataService implements ReferenceDataService {
   async getShopsForUser(userId: string): Promise<string[]> {
     await this.ensureDataLoaded();
     
-    // Find all shops/locations for the given user by Dispatch Email (column 2: Dispatch Email, column 1: Location)
+    // Find all shops/locations for the given user by Dispatch Email (column 2: Dispatch Email, column 1: Location),
+    // keeping the active registry shops they map to
     const shops = this.shopData
       .filter(row => row[2] === userId) // Dispatch Email is column 2
-      .map(row => row[1]) // Location is column 1
-      .filter(Boolean);
+      .map(row => shopRegistry.fromGoCanvasLocation(row[1])) // Location is column 1
+      .filter(shop => shop?.active === 'true')
+      .map(shop => shop!.name);
     
     return Array.from(new Set(shops)).sort();
   }
 
-  async getAllShops(): Promise<string[]> {
-    await this.ensureDataLoaded();
-    
-    // Get all unique shop names from column 1 (Location) from 1017141
-    const shops = Array.from(new Set(this.shopData.map(row => row[1]).filter(Boolean)));
-    return shops.sort();
-  }
-
   async getUsersForShop(shopName: string): Promise<string[]> {
     await this.ensureDataLoaded();
     
     // Shop Handoff: Find all technician dispatch emails for the given shop (column 1: Location, column 2: Dispatch Email) from 1017142
+    const location = shopRegistry.getGoCanvasLocation(shopName);
     const users = this.technicianData
-      .filter(row => row[1] === shopName) // Location is column 1
+      .filter(row => row[1] === location) // Location is column 1
       .map(row => row[2]) // Dispatch Email is column 2
       .filter(Boolean);
     
@@ -466,8 +461,9 @@ class GoCanvasReferenceDataService implements ReferenceDataService {
     
     // Return drivers filtered by shop name from reference data (ID: 1017140)
     // Column 0: Name, Column 1: Location (shop), Column 2: Dispatch Email
+    const location = shopRegistry.getGoCanvasLocation(shopName);
     const driverDetails = this.locationsData
-      .filter(row => row[1] === shopName) // Filter by Location (column 1)
+      .filter(row => row[1] === location) // Filter by Location (column 1)
       .map(row => ({
         name: row[0],
         email: row[2] || ''
@@ -477,18 +473,6 @@ class GoCanvasReferenceDataService implements ReferenceDataService {
     return driverDetails;
   }
 
-  async getLocations(): Promise<string[]> {
-    await this.ensureDataLoaded();
-    
-    // Extract location names from column 1 (Location) of ECS Locations reference data (ID: 1017140)
-    const locations = Array.from(new Set(this.locationsData
-      .map(row => row[1])
-      .filter(value => this.isValidValue(value))
-    ));
-    
-    return locations.sort();
-  }
-
   async getParts(): Promise<string[]> {
     await this.ensureDataLoaded();
     
@@ -0,0 +1,189 @@
+import { storage, type TextSearchHit } from "../storage";
+import { SEARCH_HIGHLIGHT } from "../database";
+import type { Job, JobPart } from "@shared/schema";
+
+export type SearchResultType = "job" | "part" | "comment" | "event";
+
+export interface SearchSnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  jobId: string;
+  partId?: string;
+  title: string;
+  subtitle: string;
+  field: string; // which field matched, e.g. "PO Number"
+  snippet: SearchSnippetSegment[];
+  rank: number;
+}
+
+export interface SearchOptions {
+  shopNames?: string[]; // restrict to these shops (undefined = every shop)
+  limit: number;
+}
+
+// Identifier fields, most specific first. Weight reflects how strongly a hit on the field
+// means "this is the record you're looking for".
+const JOB_FIELDS: Array<{ label: string; weight: number; value: (job: Job) => string | null }> = [
+  { label: "Job ID", weight: 1, value: (job) => job.jobId },
+  { label: "PO Number", weight: 0.95, value: (job) => job.poNumber },
+  { label: "P21 Order", weight: 0.9, value: (job) => job.p21OrderNumber },
+  { label: "Inbound Tracking", weight: 0.9, value: (job) => job.shipmentTrackingNumber },
+  { label: "Outbound Tracking", weight: 0.9, value: (job) => job.outboundTrackingNumber },
+  { label: "Customer", weight: 0.8, value: (job) => job.customerName },
+];
+
+const PART_FIELDS: Array<{ label: string; weight: number; value: (part: JobPart) => string | null }> = [
+  { label: "ECS Serial", weight: 1, value: (part) => part.ecsSerial },
+  { label: "Unit / VIN", weight: 0.95, value: (part) => part.unitVin },
+  { label: "Filter PN", weight: 0.9, value: (part) => part.filterPn },
+  { label: "PO Number", weight: 0.85, value: (part) => part.poNumber },
+  { label: "Part", weight: 0.7, value: (part) => part.part },
+];
+
+const SNIPPET_CONTEXT = 60; // characters either side of a partial-word match
+
+/**
+ * SearchService powers the global command palette. Storage finds candidates using the
+ * trigram and full-text indexes; this ranks them across entity types and builds
+ * highlighted snippets.
+ *
+ * Ranking: identifier hits score weight × (1 exact, 0.85 prefix, 0.7 contains), so an
+ * exact serial or PO beats anything else. Comment and event hits score 0.3-0.6 from
+ * ts_rank, keeping free text below identifiers.
+ */
+class SearchService {
+  async search(term: string, options: SearchOptions): Promise<SearchResult[]> {
+    const scope = { term, shopNames: options.shopNames, limit: options.limit };
+
+    const [jobs, parts, comments, events] = await Promise.all([
+      storage.searchJobs(scope),
+      storage.searchJobParts(scope),
+      storage.searchJobComments(scope),
+      storage.searchJobEvents(scope),
+    ]);
+
+    const results: SearchResult[] = [];
+
+    for (const job of jobs) {
+      const hit = this.bestFieldMatch(term, JOB_FIELDS.map((field) => ({ ...field, text: field.value(job) })));
+      if (!hit) continue;
+      results.push({
+        type: "job",
+        id: job.id,
+        jobId: job.jobId,
+        title: job.jobId,
+        subtitle: `${job.customerName} · ${job.shopName}`,
+        field: hit.label,
+        snippet: this.highlightSubstring(hit.text, term),
+        rank: hit.rank,
+      });
+    }
+
+    for (const part of parts) {
+      const hit = this.bestFieldMatch(term, PART_FIELDS.map((field) => ({ ...field, text: field.value(part) })));
+      if (!hit) continue;
+      results.push({
+        type: "part",
+        id: part.id,
+        jobId: part.jobId,
+        partId: part.id,
+        title: part.ecsSerial || part.part || "Part",
+        subtitle: [part.part, part.job?.customerName, part.jobId].filter(Boolean).join(" · "),
+        field: hit.label,
+        snippet: this.highlightSubstring(hit.text, term),
+        rank: hit.rank,
+      });
+    }
+
+    for (const [type, hits] of [["comment", comments], ["event", events]] as const) {
+      for (const hit of hits) {
+        results.push({
+          type,
+          id: hit.id,
+          jobId: hit.jobId,
+          title: hit.jobId,
+          subtitle: [hit.customerName, hit.createdAt.toLocaleDateString("en-US")].filter(Boolean).join(" · "),
+          field: type === "comment" ? "Comment" : "Timeline",
+          snippet: this.textSnippet(hit, term),
+          rank: 0.3 + Math.min(hit.rank, 0.1) * 3,
+        });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, options.limit);
+  }
+
+  private bestFieldMatch(
+    term: string,
+    fields: Array<{ label: string; weight: number; text: string | null }>,
+  ): { label: string; text: string; rank: number } | null {
+    const needle = term.toLowerCase();
+    let best: { label: string; text: string; rank: number } | null = null;
+
+    for (const field of fields) {
+      if (!field.text) continue;
+      const haystack = field.text.toLowerCase();
+      const quality = haystack === needle ? 1 : haystack.startsWith(needle) ? 0.85 : haystack.includes(needle) ? 0.7 : 0;
+      const rank = quality * field.weight;
+      if (rank > 0 && (!best || rank > best.rank)) {
+        best = { label: field.label, text: field.text, rank };
+      }
+    }
+
+    return best;
+  }
+
+  /** Use Postgres' headline when it marked a word match, otherwise excerpt around the substring */
+  private textSnippet(hit: TextSearchHit, term: string): SearchSnippetSegment[] {
+    if (hit.headline.includes(SEARCH_HIGHLIGHT.start)) {
+      return this.parseHeadline(hit.headline);
+    }
+
+    const index = hit.text.toLowerCase().indexOf(term.toLowerCase());
+    if (index < 0) {
+      return [{ text: hit.headline || hit.text.slice(0, SNIPPET_CONTEXT * 2), match: false }];
+    }
+
+    const start = Math.max(0, index - SNIPPET_CONTEXT);
+    const end = Math.min(hit.text.length, index + term.length + SNIPPET_CONTEXT);
+    const excerpt = `${start > 0 ? "… " : ""}${hit.text.slice(start, end)}${end < hit.text.length ? " …" : ""}`;
+    return this.highlightSubstring(excerpt, term);
+  }
+
+  private parseHeadline(headline: string): SearchSnippetSegment[] {
+    const segments: SearchSnippetSegment[] = [];
+    for (const part of headline.split(SEARCH_HIGHLIGHT.start)) {
+      const [matched, rest] = part.includes(SEARCH_HIGHLIGHT.stop)
+        ? part.split(SEARCH_HIGHLIGHT.stop, 2)
+        : [null, part];
+      if (matched) segments.push({ text: matched, match: true });
+      if (rest) segments.push({ text: rest, match: false });
+    }
+    return segments;
+  }
+
+  private highlightSubstring(text: string, term: string): SearchSnippetSegment[] {
+    const segments: SearchSnippetSegment[] = [];
+    const haystack = text.toLowerCase();
+    const needle = term.toLowerCase();
+    let cursor = 0;
+
+    for (let index = haystack.indexOf(needle); index >= 0; index = haystack.indexOf(needle, cursor)) {
+      if (index > cursor) segments.push({ text: text.slice(cursor, index), match: false });
+      segments.push({ text: text.slice(index, index + needle.length), match: true });
+      cursor = index + needle.length;
+    }
+    if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+
+    return segments;
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { storage } = vi.hoisted(() => ({ storage: { getSerializedParts: vi.fn() } }));
+vi.mock("../storage", () => ({ storage }));
+vi.mock("./shopRegistry", () => {
+  const shops = [
+    { code: "01", name: "ECS - Nashville", timezone: "America/Chicago" },
+    { code: "02", name: "ECS - Atlanta", timezone: "America/New_York" },
+  ];
+  return {
+    shopRegistry: {
+      findByCode: (code: string) => shops.find((shop) => shop.code === code),
+      getTimezone: (name: string) => shops.find((shop) => shop.name === name)?.timezone ?? "America/Chicago",
+    },
+  };
+});
+
+const { serialDateService } = await import("./serialDates");
+
+function part(ecsSerial: string, createdAt: string, shopName = "ECS - Nashville") {
+  return { partId: `part-${ecsSerial}`, jobId: "ECS-20260304120000-01", shopName, ecsSerial, createdAt: new Date(createdAt) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("serialDateService.getMigrationReport", () => {
+  it("flags serials minted on the UTC day instead of the shop's local day", async () => {
+    storage.getSerializedParts.mockResolvedValue([
+      part("01.03042026.01", "2026-03-04T18:00:00Z"), // midday Central, correct
+      part("01.03052026.01", "2026-03-05T04:30:00Z"), // 10:30pm Central on March 4, dated by UTC
+      part("02.03052026.01", "2026-03-05T05:30:00Z", "ECS - Atlanta"), // 12:30am Eastern, correct
+    ]);
+
+    const report = await serialDateService.getMigrationReport();
+
+    expect(report.checked).toBe(3);
+    expect(report.skipped).toBe(0);
+    expect(report.mismatches).toEqual([
+      expect.objectContaining({ serial: "01.03052026.01", serialDate: "03052026", localDate: "03042026", nearMidnight: true }),
+    ]);
+  });
+
+  it("marks mismatches of more than a day and skips serials in other formats", async () => {
+    storage.getSerializedParts.mockResolvedValue([
+      part("01.03012026.01", "2026-03-04T18:00:00Z"),
+      part("LEGACY-123", "2026-03-04T18:00:00Z"),
+    ]);
+
+    const report = await serialDateService.getMigrationReport();
+
+    expect(report).toMatchObject({ checked: 1, skipped: 1 });
+    expect(report.mismatches[0]).toMatchObject({ serial: "01.03012026.01", nearMidnight: false });
+  });
+
+  it("falls back to the shop encoded in the serial when the part's job has no shop", async () => {
+    storage.getSerializedParts.mockResolvedValue([part("02.03052026.01", "2026-03-05T04:30:00Z", "")]);
+
+    const report = await serialDateService.getMigrationReport();
+
+    // 11:30pm Eastern on March 4
+    expect(report.mismatches).toEqual([expect.objectContaining({ shopName: "ECS - Atlanta", localDate: "03042026" })]);
+  });
+});
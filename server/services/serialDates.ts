@@ -0,0 +1,73 @@
+import { storage } from "../storage";
+import { shopRegistry } from "./shopRegistry";
+import { getDateCode } from "@shared/shopCodes";
+
+// XX.MMDDYYYY.ZZ - shop code, date code, daily sequence
+const SERIAL_PATTERN = /^(\d{2})\.(\d{8})\.(\d{2})$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SerialDateMismatch {
+  serial: string;
+  partId: string;
+  jobId: string;
+  shopName: string;
+  serialDate: string; // MMDDYYYY as minted
+  localDate: string; // MMDDYYYY in the shop's timezone when the part was recorded
+  createdAt: string;
+  nearMidnight: boolean; // off by a single day, i.e. minted across the shop's midnight
+}
+
+export interface SerialDateReport {
+  checked: number;
+  skipped: number; // serials not in the XX.MMDDYYYY.ZZ format
+  mismatches: SerialDateMismatch[];
+}
+
+function toUtcDay(dateCode: string): number {
+  return Date.UTC(Number(dateCode.slice(4, 8)), Number(dateCode.slice(0, 2)) - 1, Number(dateCode.slice(2, 4)));
+}
+
+/**
+ * SerialDateService reports existing serials whose date code doesn't match the
+ * owning shop's local day. Serials used to be dated by the clock of whichever
+ * browser or server minted them; this lists the ones that would have come out
+ * differently under shop-local date codes. The part's createdAt stands in for
+ * the mint time, so serials generated well before the part was saved can show
+ * up as false positives.
+ */
+class SerialDateService {
+  async getMigrationReport(): Promise<SerialDateReport> {
+    const parts = await storage.getSerializedParts();
+    const mismatches: SerialDateMismatch[] = [];
+    let skipped = 0;
+
+    for (const part of parts) {
+      const match = part.ecsSerial.match(SERIAL_PATTERN);
+      if (!match) {
+        skipped++;
+        continue;
+      }
+
+      // The job's shop decides the day; fall back to the shop encoded in the serial
+      const shopName = part.shopName || shopRegistry.findByCode(match[1])?.name || "";
+      const serialDate = match[2];
+      const localDate = getDateCode(shopRegistry.getTimezone(shopName), part.createdAt);
+      if (serialDate === localDate) continue;
+
+      mismatches.push({
+        serial: part.ecsSerial,
+        partId: part.partId,
+        jobId: part.jobId,
+        shopName,
+        serialDate,
+        localDate,
+        createdAt: part.createdAt.toISOString(),
+        nearMidnight: Math.abs(toUtcDay(serialDate) - toUtcDay(localDate)) === DAY_MS,
+      });
+    }
+
+    return { checked: parts.length - skipped, skipped, mismatches };
+  }
+}
+
+export const serialDateService = new SerialDateService();
@@ -0,0 +1,258 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { storage } from "../storage";
+import { PdfDocument, type PdfImage } from "./pdfDocument";
+import { shopRegistry } from "./shopRegistry";
+import type { FormSubmission, Job, JobPart } from "@shared/schema";
+
+// Certificates are dated in ECS's home timezone (matches users.timezone default)
+const CERTIFICATE_TIMEZONE = "America/Chicago";
+
+const MARGIN = 50;
+const MUTED = "#6b7280";
+const RULE = "#d1d5db";
+
+interface ShopBranding {
+  displayName: string;
+  accentColor: string;
+}
+
+// Certificate branding. The title is the shop's registry display name; shops not
+// in the registry get the ECS defaults.
+// Logos are optional: drop <shopCode>.png or .jpg into SHOP_LOGO_DIR (default ./branding).
+const DEFAULT_BRANDING: ShopBranding = {
+  displayName: "Emission Cleaning Solutions",
+  accentColor: "#0066cc",
+};
+
+/**
+ * Test results shown on the certificate. Each row is read from the native emissions
+ * form response first, then from the part's raw GoCanvas fields for older jobs.
+ */
+const MEASUREMENT_ROWS: Array<{ label: string; field: string; gocanvasLabel: string }> = [
+  { label: "Weight Pre-Cleaning (kg)", field: "weightPreKg", gocanvasLabel: "Weight (KG) - PRE Cleaning" },
+  { label: "Weight Post-Cleaning (kg)", field: "weightPostKg", gocanvasLabel: "Weight (KG) - Post Cleaning" },
+  { label: "Weight Post-Sintered Ash (kg)", field: "weightSinteredKg", gocanvasLabel: "Weight (KG) - POST SINTERED ASH" },
+  { label: "Flow Rate Pre-Cleaning", field: "flowRatePre", gocanvasLabel: "Flow Rate - PRE Cleaning" },
+  { label: "Flow Rate Post-Cleaning", field: "flowRatePost", gocanvasLabel: "Flow Rate - Post Cleaning" },
+  { label: "Flow Rate Post-Sintered Ash", field: "flowRateSintered", gocanvasLabel: "Flow Rate - POST SINTERED ASH" },
+  { label: "Light Test", field: "lightTest", gocanvasLabel: "Light Test" },
+  { label: "Drop Rod Test", field: "dropRodTest", gocanvasLabel: "Drop Rod Test" },
+  { label: "Pre-Cleaning SCR Smoke Test", field: "preCleaningScrSmokeTest", gocanvasLabel: "Pre Cleaning - SCR Smoke Test" },
+  { label: "Pre-Cleaning DOC Smoke Test", field: "preCleaningDocSmokeTest", gocanvasLabel: "Pre Cleaning - DOC Smoke Test" },
+  { label: "Post-Cleaning SCR Smoke Test", field: "postCleaningScrSmokeTest", gocanvasLabel: "Post Cleaning - SCR Smoke Test" },
+  { label: "Post-Cleaning DOC Smoke Test", field: "postCleaningDocSmokeTest", gocanvasLabel: "Post Cleaning - DOC Smoke Test" },
+];
+
+interface CertificateData {
+  job: Job;
+  part: JobPart;
+  values: (field: string, gocanvasLabel: string) => string | undefined;
+  technicianName?: string;
+  signOffDate?: string;
+}
+
+function formatDate(date: Date | null | undefined): string {
+  if (!date) return "—";
+  return date.toLocaleDateString("en-US", { timeZone: CERTIFICATE_TIMEZONE, dateStyle: "long" });
+}
+
+/**
+ * ServiceCertificateService builds printable per-part service certificates
+ * (cleaning/test reports) from the emissions form data.
+ *
+ * Certificates are generated on demand rather than stored, so corrections to
+ * part data are reflected the next time one is downloaded.
+ */
+class ServiceCertificateService {
+  private logoCache = new Map<string, Buffer | null>();
+
+  /**
+   * Build a PDF with one certificate page per part. Pass partId to get a single certificate.
+   */
+  async buildCertificates(jobId: string, partId?: string): Promise<{ pdf: Buffer; fileName: string }> {
+    const job = await storage.getJobByJobId(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    const allParts = await storage.getJobParts(job.jobId);
+    const parts = partId ? allParts.filter((p) => p.id === partId) : allParts;
+    if (parts.length === 0) {
+      throw new Error(partId ? `Part ${partId} not found on job ${jobId}` : `Job ${jobId} has no parts`);
+    }
+
+    const submission = await this.getEmissionsSubmission(job.jobId);
+    const responseData = (submission?.responseData ?? {}) as Record<string, unknown>;
+    const responseParts = (responseData.parts as Array<Record<string, unknown>> | undefined) ?? [];
+
+    const pdf = new PdfDocument();
+    const logo = await this.loadLogo(pdf, job.shopName);
+    const shop = shopRegistry.find(job.shopName);
+    const branding = { ...DEFAULT_BRANDING, ...(shop && { displayName: shop.displayName }) };
+
+    for (const part of parts) {
+      const response = responseParts.find((p) => p.id === part.id || (!!part.ecsSerial && p.ecsSerial === part.ecsSerial));
+      const rawFields = (part.rawGocanvasFields as Array<{ label: string; value: string | null }> | null) ?? [];
+
+      const data: CertificateData = {
+        job,
+        part,
+        values: (field, gocanvasLabel) => {
+          const value = response?.[field];
+          if (value !== undefined && value !== null && value !== "") {
+            return String(value);
+          }
+          const raw = rawFields.find((f) => f.label.trim().toLowerCase() === gocanvasLabel.toLowerCase());
+          return raw?.value || undefined;
+        },
+        technicianName: (responseData.technicianName as string | undefined)
+          || rawFields.find((f) => f.label.trim() === "Technician Name")?.value
+          || job.assignedTechnician
+          || undefined,
+        signOffDate: (responseData.signOffDate as string | undefined)
+          || rawFields.find((f) => f.label.trim() === "Sign Off Date")?.value
+          || formatDate(job.serviceCompleteAt),
+      };
+
+      pdf.addPage();
+      this.drawCertificate(pdf, data, branding, logo);
+    }
+
+    const fileName = parts.length === 1
+      ? `service-certificate-${job.jobId}-${parts[0].ecsSerial || parts[0].id}.pdf`
+      : `service-certificates-${job.jobId}.pdf`;
+
+    console.log(`📜 [ServiceCertificate] Built ${parts.length} certificate(s) for ${job.jobId}`);
+    return { pdf: pdf.toBuffer(), fileName };
+  }
+
+  /**
+   * Most recently completed native emissions form for the job, if any.
+   */
+  private async getEmissionsSubmission(jobId: string): Promise<FormSubmission | undefined> {
+    const submissions = await storage.getFormSubmissionsByJob(jobId);
+    return submissions
+      .filter((s) => s.formType === "emissions" && s.status === "completed")
+      .sort((a, b) => (b.completedAt?.getTime() ?? 0) - (a.completedAt?.getTime() ?? 0))[0];
+  }
+
+  /**
+   * Embed the shop's logo if one has been provided. Missing or unreadable logos are skipped.
+   */
+  private async loadLogo(pdf: PdfDocument, shopName: string): Promise<PdfImage | null> {
+    const shopCode = shopRegistry.find(shopName)?.code;
+    if (!shopCode) return null;
+    if (!this.logoCache.has(shopCode)) {
+      const dir = path.resolve(process.env.SHOP_LOGO_DIR || "branding");
+      let logo: Buffer | null = null;
+      for (const extension of ["png", "jpg"]) {
+        try {
+          logo = await fs.readFile(path.join(dir, `${shopCode}.${extension}`));
+          break;
+        } catch {
+          // Try the next extension
+        }
+      }
+      this.logoCache.set(shopCode, logo);
+    }
+
+    const logo = this.logoCache.get(shopCode);
+    if (!logo) return null;
+    try {
+      return pdf.embedImage(logo);
+    } catch (error) {
+      console.error(`[ServiceCertificate] Could not embed logo for ${shopName}:`, error);
+      return null;
+    }
+  }
+
+  private drawCertificate(pdf: PdfDocument, data: CertificateData, branding: ShopBranding, logo: PdfImage | null): void {
+    const { job, part } = data;
+    const right = pdf.pageWidth - MARGIN;
+    const center = pdf.pageWidth / 2;
+
+    // Branded header band
+    pdf.rect(0, 0, pdf.pageWidth, 90, { fill: branding.accentColor });
+    if (logo) {
+      pdf.image(logo, MARGIN, 15, 120, 60);
+    }
+    pdf.text(branding.displayName, right, 42, { size: 16, bold: true, color: "#ffffff", align: "right" });
+    pdf.text(job.shopName, right, 62, { size: 10, color: "#ffffff", align: "right" });
+
+    let y = 135;
+    pdf.text("Certificate of Service", center, y, { size: 24, bold: true, align: "center" });
+    y += 22;
+    pdf.text("Emissions Component Cleaning & Test Report", center, y, { size: 11, color: MUTED, align: "center" });
+
+    // Result stamp
+    const result = part.passOrFail || "Pending";
+    const resultColor = result.toLowerCase() === "pass" ? "#15803d" : result.toLowerCase() === "fail" ? "#b91c1c" : MUTED;
+    y += 24;
+    pdf.rect(center - 70, y, 140, 32, { stroke: resultColor, lineWidth: 2 });
+    pdf.text(result.toUpperCase(), center, y + 22, { size: 16, bold: true, color: resultColor, align: "center" });
+    y += 52;
+
+    const rows = (title: string, entries: Array<[string, string | null | undefined]>) => {
+      pdf.text(title, MARGIN, y, { size: 12, bold: true, color: branding.accentColor });
+      y += 6;
+      pdf.line(MARGIN, y, right, y, { stroke: RULE });
+      y += 15;
+      for (const [label, value] of entries) {
+        pdf.text(label, MARGIN, y, { size: 9, color: MUTED });
+        const lines = pdf.wrapText(value || "—", right - (MARGIN + 170), 10);
+        lines.forEach((line, index) => {
+          pdf.text(line, MARGIN + 170, y + index * 12, { size: 10 });
+        });
+        y += Math.max(lines.length, 1) * 12 + 3;
+      }
+      y += 10;
+    };
+
+    rows("Component", [
+      ["Part", part.part],
+      ["Process", part.process],
+      ["ECS Serial", part.ecsSerial],
+      ["ECS Part Number", part.ecsPartNumber],
+      ["Filter Part Number", part.filterPn],
+      ["Unit / VIN", part.unitVin],
+      ["Customer", job.customerName],
+      ["PO Number", part.poNumber || job.poNumber],
+      ["Job ID", job.jobId],
+    ]);
+
+    const measurements = MEASUREMENT_ROWS
+      .map((row): [string, string | undefined] => [row.label, data.values(row.field, row.gocanvasLabel)])
+      .filter(([, value]) => value !== undefined);
+
+    // Derived figures match the emissions form's measurement section
+    const pre = parseFloat(data.values("weightPreKg", "Weight (KG) - PRE Cleaning") ?? "");
+    const post = parseFloat(data.values("weightPostKg", "Weight (KG) - Post Cleaning") ?? "");
+    const flowPre = parseFloat(data.values("flowRatePre", "Flow Rate - PRE Cleaning") ?? "");
+    const flowPost = parseFloat(data.values("flowRatePost", "Flow Rate - Post Cleaning") ?? "");
+    if (!Number.isNaN(pre) && !Number.isNaN(post)) {
+      measurements.push(["Weight Loss (g)", ((pre - post) * 1000).toFixed(1)]);
+    }
+    if (!Number.isNaN(flowPre) && !Number.isNaN(flowPost)) {
+      measurements.push(["Flow Rate Increase", (flowPost - flowPre).toFixed(2)]);
+    }
+
+    rows("Test Results", measurements.length > 0 ? measurements : [["Measurements", "Not recorded"]]);
+
+    const repairs: Array<[string, string | null | undefined]> = [["Repairs Required", part.requireRepairs]];
+    if (part.repairsPerformed) repairs.push(["Repairs Performed", part.repairsPerformed]);
+    if (part.failedReason) repairs.push(["Failed Reason", part.failedReason]);
+    rows("Repairs", repairs);
+
+    rows("Sign-Off", [
+      ["Technician", data.technicianName],
+      ["Date", data.signOffDate],
+    ]);
+
+    pdf.line(MARGIN, pdf.pageHeight - 40, right, pdf.pageHeight - 40, { stroke: RULE });
+    pdf.text(`Issued ${formatDate(new Date())}`, MARGIN, pdf.pageHeight - 26, { size: 8, color: MUTED });
+    pdf.text(`${job.jobId} · ${part.ecsSerial || part.id}`, right, pdf.pageHeight - 26, { size: 8, color: MUTED, align: "right" });
+  }
+}
+
+export const serviceCertificateService = new ServiceCertificateService();
@@ -0,0 +1,95 @@
+import { storage } from "../storage";
+import { DEFAULT_SHOP_TIMEZONE } from "@shared/shopCodes";
+import type { InsertShop, Shop, UpdateShop } from "@shared/schema";
+
+// The shops that existed before the registry, inserted the first time it loads empty
+const INITIAL_SHOPS: InsertShop[] = [
+  { code: "00", name: "ECS - Memphis", displayName: "ECS Memphis", timezone: "America/Chicago", latitude: 35.1495, longitude: -90.0490 },
+  { code: "01", name: "ECS - Nashville", displayName: "ECS Nashville", timezone: "America/Chicago", latitude: 36.1627, longitude: -86.7816 },
+  { code: "02", name: "ECS - Atlanta", displayName: "ECS Atlanta", timezone: "America/New_York", latitude: 33.7490, longitude: -84.3880 },
+  { code: "03", name: "ECS - Dallas", displayName: "ECS Dallas", timezone: "America/Chicago", latitude: 32.7767, longitude: -96.7970 },
+  { code: "04", name: "ECS - Chicago", displayName: "ECS Chicago", timezone: "America/Chicago", latitude: 41.8781, longitude: -87.6298 },
+  { code: "99", name: "ECS - Corporate", displayName: "Emission Cleaning Solutions", timezone: "America/Chicago" },
+];
+
+/**
+ * ShopRegistry keeps the `shops` table in memory so shop lookups (codes,
+ * timezones, name validation) stay synchronous. Every change goes through
+ * create/update here, which reload the cache.
+ */
+class ShopRegistry {
+  private shops: Shop[] = [];
+
+  async load(): Promise<void> {
+    let shops = await storage.getShops();
+    if (shops.length === 0) {
+      for (const shop of INITIAL_SHOPS) {
+        await storage.createShop(shop);
+      }
+      shops = await storage.getShops();
+      console.log(`🏪 [Shops] Seeded registry with ${shops.length} shops`);
+    }
+    this.shops = shops;
+  }
+
+  list(): Shop[] {
+    return this.shops;
+  }
+
+  // Shops with map coordinates (Corporate, for one, has no service location)
+  listLocated(): Array<Shop & { latitude: number; longitude: number }> {
+    return this.shops.filter((shop): shop is Shop & { latitude: number; longitude: number } =>
+      shop.latitude !== null && shop.longitude !== null
+    );
+  }
+
+  // Every shop name, including inactive shops that existing records still reference
+  getNames(): string[] {
+    return this.shops.map((shop) => shop.name);
+  }
+
+  find(name: string | null | undefined): Shop | undefined {
+    return name ? this.shops.find((shop) => shop.name === name) : undefined;
+  }
+
+  findByCode(code: string): Shop | undefined {
+    return this.shops.find((shop) => shop.code === code);
+  }
+
+  /** The registry entry for a shop; throws for names that aren't registered */
+  require(name: string): Shop {
+    const shop = this.find(name);
+    if (!shop) {
+      throw new Error(`Unknown shop "${name}"`);
+    }
+    return shop;
+  }
+
+  getTimezone(name: string | null | undefined): string {
+    return this.find(name)?.timezone ?? DEFAULT_SHOP_TIMEZONE;
+  }
+
+  // The shop's name in GoCanvas reference data
+  getGoCanvasLocation(name: string): string {
+    return this.find(name)?.gocanvasLocation || name;
+  }
+
+  // Registry name for a GoCanvas Location value (undefined if no shop maps to it)
+  fromGoCanvasLocation(location: string): Shop | undefined {
+    return this.shops.find((shop) => (shop.gocanvasLocation || shop.name) === location);
+  }
+
+  async create(shop: InsertShop): Promise<Shop> {
+    const created = await storage.createShop(shop);
+    await this.load();
+    return created;
+  }
+
+  async update(id: string, shop: UpdateShop): Promise<Shop | undefined> {
+    const updated = await storage.updateShop(id, shop);
+    await this.load();
+    return updated;
+  }
+}
+
+export const shopRegistry = new ShopRegistry();
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SlaTarget } from "@shared/schema";
+
+vi.mock("../storage", () => ({ storage: {} }));
+vi.mock("./shopRegistry", () => ({ shopRegistry: {} }));
+
+const { addBusinessMinutes, businessMinutesBetween, selectTargets, DEFAULT_BUSINESS_HOURS } = await import("./sla");
+
+// Monday-Friday 8am-5pm Central; 2026-03-02 is a Monday
+const chicago = { ...DEFAULT_BUSINESS_HOURS, timezone: "America/Chicago" };
+const central = (local: string) => new Date(`${local}-06:00`); // CST, before the March 8 DST change
+
+describe("businessMinutesBetween", () => {
+  it("counts only opening hours within a day", () => {
+    expect(businessMinutesBetween(chicago, central("2026-03-02T07:00:00"), central("2026-03-02T09:30:00"))).toBe(90);
+    expect(businessMinutesBetween(chicago, central("2026-03-02T16:00:00"), central("2026-03-02T20:00:00"))).toBe(60);
+  });
+
+  it("skips nights and weekends", () => {
+    // Friday 4pm to Monday 9am: one hour on Friday, one on Monday
+    expect(businessMinutesBetween(chicago, central("2026-03-06T16:00:00"), new Date("2026-03-09T09:00:00-05:00"))).toBe(120);
+  });
+
+  it("skips the shop's holidays", () => {
+    const withHoliday = { ...chicago, holidays: ["2026-03-03"] };
+    expect(businessMinutesBetween(withHoliday, central("2026-03-02T08:00:00"), central("2026-03-04T08:00:00"))).toBe(9 * 60);
+  });
+
+  it("is zero for empty or reversed ranges", () => {
+    expect(businessMinutesBetween(chicago, central("2026-03-02T10:00:00"), central("2026-03-02T10:00:00"))).toBe(0);
+    expect(businessMinutesBetween(chicago, central("2026-03-02T12:00:00"), central("2026-03-02T10:00:00"))).toBe(0);
+  });
+
+  it("uses each shop's own timezone", () => {
+    const newYork = { ...chicago, timezone: "America/New_York" };
+    // 8am Central is 9am Eastern, an hour into the New York shop's day
+    expect(businessMinutesBetween(newYork, central("2026-03-02T07:00:00"), central("2026-03-02T08:00:00"))).toBe(60);
+    expect(businessMinutesBetween(chicago, central("2026-03-02T07:00:00"), central("2026-03-02T08:00:00"))).toBe(0);
+  });
+});
+
+describe("addBusinessMinutes", () => {
+  it("stays within the day when there's time left", () => {
+    expect(addBusinessMinutes(chicago, central("2026-03-02T09:00:00"), 120)).toEqual(central("2026-03-02T11:00:00"));
+  });
+
+  it("starts counting at opening time when started outside hours", () => {
+    expect(addBusinessMinutes(chicago, central("2026-03-02T06:00:00"), 30)).toEqual(central("2026-03-02T08:30:00"));
+  });
+
+  it("carries over nights and weekends", () => {
+    // Two hours from Friday 4pm: one on Friday, the second ends at 9am Monday (after DST starts)
+    expect(addBusinessMinutes(chicago, central("2026-03-06T16:00:00"), 120)).toEqual(new Date("2026-03-09T09:00:00-05:00"));
+  });
+
+  it("keeps wall-clock opening hours across the DST change", () => {
+    // Sunday March 8 is the spring-forward day; Monday still opens at 8am local (13:00 UTC instead of 14:00)
+    expect(addBusinessMinutes(chicago, central("2026-03-06T17:00:00"), 1)).toEqual(new Date("2026-03-09T13:01:00Z"));
+  });
+
+  it("is the inverse of businessMinutesBetween", () => {
+    const start = central("2026-03-04T15:15:00");
+    const due = addBusinessMinutes(chicago, start, 600)!;
+    expect(businessMinutesBetween(chicago, start, due)).toBe(600);
+  });
+
+  it("returns null when the shop never opens", () => {
+    const closed = { ...chicago, weeklyHours: { "0": null, "1": null, "2": null, "3": null, "4": null, "5": null, "6": null } };
+    expect(addBusinessMinutes(closed, central("2026-03-02T09:00:00"), 60)).toBeNull();
+  });
+});
+
+describe("selectTargets", () => {
+  const target = (overrides: Partial<SlaTarget>): SlaTarget => ({
+    id: "all",
+    name: "Pickup to shop",
+    fromState: "queued_for_pickup",
+    toState: "at_shop",
+    shopName: null,
+    customerName: null,
+    active: "true",
+    ...overrides,
+  } as SlaTarget);
+
+  it("prefers customer targets over shop targets over company-wide ones", () => {
+    const targets = [
+      target({ id: "all" }),
+      target({ id: "shop", shopName: "ECS - Nashville" }),
+      target({ id: "customer", customerName: "Acme Freight" }),
+    ];
+    expect(selectTargets({ shopName: "ECS - Nashville", customerName: "Acme Freight" }, targets).map((t) => t.id)).toEqual(["customer"]);
+    expect(selectTargets({ shopName: "ECS - Nashville", customerName: "Other" }, targets).map((t) => t.id)).toEqual(["shop"]);
+    expect(selectTargets({ shopName: "ECS - Atlanta", customerName: "Other" }, targets).map((t) => t.id)).toEqual(["all"]);
+  });
+
+  it("ignores inactive targets and keeps one per state pair", () => {
+    const targets = [
+      target({ id: "inactive", shopName: "ECS - Nashville", active: "false" }),
+      target({ id: "all" }),
+      target({ id: "service", fromState: "at_shop", toState: "service_complete" }),
+    ];
+    expect(selectTargets({ shopName: "ECS - Nashville", customerName: "Acme" }, targets).map((t) => t.id)).toEqual(["all", "service"]);
+  });
+});
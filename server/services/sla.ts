@@ -0,0 +1,326 @@
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import { z } from "zod";
+import { storage } from "../storage";
+import type { Job, JobEvent, SlaStatus, SlaTarget, WeeklyHours } from "@shared/schema";
+import { shopRegistry } from "./shopRegistry";
+
+/**
+ * SlaService keeps each job's SLA flags (jobs.sla_status / sla_due_at) current
+ * against the admin-configured targets in sla_targets, and writes an escalation
+ * event to the job timeline the first time a running target becomes at risk or
+ * overdue.
+ *
+ * A target's clock starts when the job (last) entered its fromState and stops
+ * when the job reaches its toState or finishes. Business-clock targets only
+ * count the shop's opening hours, skipping its holidays.
+ */
+
+export interface BusinessCalendar {
+  timezone: string;
+  weeklyHours: WeeklyHours;
+  holidays: string[]; // "yyyy-MM-dd" in the shop's timezone
+}
+
+const WEEKDAY_HOURS = { open: "08:00", close: "17:00" };
+
+// Used for shops without a shop_business_hours row: Monday-Friday, 8am-5pm in the
+// shop's registry timezone (the timezone here is only the fallback)
+export const DEFAULT_BUSINESS_HOURS: BusinessCalendar = {
+  timezone: "America/Chicago",
+  weeklyHours: {
+    "0": null,
+    "1": WEEKDAY_HOURS,
+    "2": WEEKDAY_HOURS,
+    "3": WEEKDAY_HOURS,
+    "4": WEEKDAY_HOURS,
+    "5": WEEKDAY_HOURS,
+    "6": null,
+  },
+  holidays: [],
+};
+
+const EVALUATION_INTERVAL_MS = 60 * 1000;
+const FINISHED_STATES = ["delivered", "outbound_shipment", "cancelled"];
+const SEVERITY: Record<SlaStatus, number> = { on_track: 0, at_risk: 1, overdue: 2 };
+const MAX_CALENDAR_DAYS = 366; // how far business-hour arithmetic will walk
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RunningTarget {
+  target: SlaTarget;
+  startedAt: Date;
+  dueAt: Date;
+  status: SlaStatus;
+}
+
+// Opening hours for one local calendar day as UTC instants, or null if the shop is closed
+function openInterval(calendar: BusinessCalendar, day: string): [Date, Date] | null {
+  if (calendar.holidays.includes(day)) return null;
+  const weekday = new Date(`${day}T12:00:00Z`).getUTCDay();
+  const hours = calendar.weeklyHours[String(weekday)];
+  if (!hours) return null;
+  return [
+    fromZonedTime(`${day}T${hours.open}:00`, calendar.timezone),
+    fromZonedTime(`${day}T${hours.close}:00`, calendar.timezone),
+  ];
+}
+
+function nextDay(day: string): string {
+  return new Date(Date.parse(`${day}T12:00:00Z`) + DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Minutes the shop was open between two instants */
+export function businessMinutesBetween(calendar: BusinessCalendar, start: Date, end: Date): number {
+  if (end <= start) return 0;
+
+  let total = 0;
+  let day = formatInTimeZone(start, calendar.timezone, "yyyy-MM-dd");
+  const lastDay = formatInTimeZone(end, calendar.timezone, "yyyy-MM-dd");
+  for (let i = 0; i <= MAX_CALENDAR_DAYS && day <= lastDay; i++) {
+    const interval = openInterval(calendar, day);
+    if (interval) {
+      const from = Math.max(start.getTime(), interval[0].getTime());
+      const to = Math.min(end.getTime(), interval[1].getTime());
+      if (to > from) total += (to - from) / 60000;
+    }
+    day = nextDay(day);
+  }
+  return total;
+}
+
+/** The instant `minutes` of opening hours after start, or null if the shop never opens */
+export function addBusinessMinutes(calendar: BusinessCalendar, start: Date, minutes: number): Date | null {
+  let remaining = minutes;
+  let day = formatInTimeZone(start, calendar.timezone, "yyyy-MM-dd");
+  for (let i = 0; i <= MAX_CALENDAR_DAYS; i++) {
+    const interval = openInterval(calendar, day);
+    if (interval) {
+      const from = Math.max(start.getTime(), interval[0].getTime());
+      const available = (interval[1].getTime() - from) / 60000;
+      if (available > 0) {
+        if (available >= remaining) return new Date(from + remaining * 60000);
+        remaining -= available;
+      }
+    }
+    day = nextDay(day);
+  }
+  return null;
+}
+
+/**
+ * The targets that apply to a job: active, matching its shop and customer, and
+ * for each from/to state pair only the most specific one (customer beats shop
+ * beats all-shops).
+ */
+export function selectTargets(job: Pick<Job, "shopName" | "customerName">, targets: SlaTarget[]): SlaTarget[] {
+  const specificity = (target: SlaTarget) => (target.customerName ? 2 : 0) + (target.shopName ? 1 : 0);
+  const byStates = new Map<string, SlaTarget>();
+
+  for (const target of targets) {
+    if (target.active !== "true") continue;
+    if (target.shopName && target.shopName !== job.shopName) continue;
+    if (target.customerName && target.customerName !== job.customerName) continue;
+
+    const key = `${target.fromState}->${target.toState}`;
+    const current = byStates.get(key);
+    if (!current || specificity(target) > specificity(current)) {
+      byStates.set(key, target);
+    }
+  }
+  return Array.from(byStates.values());
+}
+
+// The parts of job event metadata the SLA service reads (metadata is free-form jsonb)
+const stateChangeMetadataSchema = z.object({
+  previousState: z.string().nullish(),
+  newState: z.string().min(1),
+});
+
+const escalationMetadataSchema = z.object({
+  targetId: z.string(),
+  startedAt: z.string(),
+});
+
+// When the job entered each state, oldest first, from its state_change events
+function stateEntries(job: Job, events: JobEvent[]): Array<{ state: string; at: Date }> {
+  const sorted = [...events].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const changes = sorted.flatMap((event) => {
+    if (event.eventType !== "state_change") return [];
+    const metadata = stateChangeMetadataSchema.safeParse(event.metadata);
+    return metadata.success ? [{ ...metadata.data, at: new Date(event.timestamp) }] : [];
+  });
+
+  // The state the job was created in has no state_change of its own; its first event marks creation
+  const initialState = changes[0]?.previousState ?? (changes.length === 0 ? job.state : null);
+  const entries: Array<{ state: string; at: Date }> = [];
+  if (initialState) {
+    entries.push({ state: initialState, at: sorted[0] ? new Date(sorted[0].timestamp) : new Date(job.initiatedAt) });
+  }
+  for (const change of changes) {
+    entries.push({ state: change.newState, at: change.at });
+  }
+  return entries;
+}
+
+class SlaService {
+  private evaluationInterval: NodeJS.Timeout | null = null;
+  private evaluating = false;
+
+  /** Re-evaluate every job once a minute, so flags move as time passes */
+  startWorker(): void {
+    if (this.evaluationInterval) return;
+
+    this.evaluationInterval = setInterval(() => {
+      this.evaluateAll().catch((error) => {
+        console.error("❌ [SLA] Evaluation failed:", error);
+      });
+    }, EVALUATION_INTERVAL_MS);
+  }
+
+  stopWorker(): void {
+    if (this.evaluationInterval) {
+      clearInterval(this.evaluationInterval);
+      this.evaluationInterval = null;
+    }
+  }
+
+  async evaluateAll(): Promise<void> {
+    if (this.evaluating) return; // a slow pass shouldn't overlap the next one
+    this.evaluating = true;
+    try {
+      const [targets, calendars] = await this.loadConfig();
+      const jobs = await storage.getAllJobs();
+      const now = new Date();
+      for (const job of jobs) {
+        await this.evaluate(job, targets, calendars, now);
+      }
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  /** Re-evaluate one job right away, e.g. after a state change. Never throws. */
+  async evaluateJob(jobId: string): Promise<void> {
+    try {
+      const job = await storage.getJobByJobId(jobId);
+      if (!job) return;
+      const [targets, calendars] = await this.loadConfig();
+      await this.evaluate(job, targets, calendars, new Date());
+    } catch (error) {
+      console.error(`❌ [SLA] Evaluation failed for job ${jobId}:`, error);
+    }
+  }
+
+  /** The targets currently running for a job, with their due time and status */
+  async getRunningTargets(job: Job): Promise<RunningTarget[]> {
+    const [targets, calendars] = await this.loadConfig();
+    const applicable = selectTargets(job, targets);
+    if (applicable.length === 0 || FINISHED_STATES.includes(job.state)) return [];
+    const events = await storage.getJobEvents(job.jobId);
+    return this.runningTargets(job, events, applicable, this.calendarFor(job.shopName, calendars), new Date());
+  }
+
+  private async loadConfig(): Promise<[SlaTarget[], Map<string, BusinessCalendar>]> {
+    const [targets, hours] = await Promise.all([
+      storage.getSlaTargets(),
+      storage.getAllShopBusinessHours(),
+    ]);
+    const calendars = new Map<string, BusinessCalendar>(
+      hours.map((row) => [row.shopName, { timezone: row.timezone, weeklyHours: row.weeklyHours, holidays: row.holidays }]),
+    );
+    return [targets, calendars];
+  }
+
+  private calendarFor(shopName: string, calendars: Map<string, BusinessCalendar>): BusinessCalendar {
+    return calendars.get(shopName) ?? { ...DEFAULT_BUSINESS_HOURS, timezone: shopRegistry.getTimezone(shopName) };
+  }
+
+  private runningTargets(
+    job: Job,
+    events: JobEvent[],
+    targets: SlaTarget[],
+    calendar: BusinessCalendar,
+    now: Date,
+  ): RunningTarget[] {
+    const entries = stateEntries(job, events);
+    const running: RunningTarget[] = [];
+
+    for (const target of targets) {
+      // The clock runs from the latest entry into fromState until the job reaches toState
+      const startIndex = entries.map((entry) => entry.state).lastIndexOf(target.fromState);
+      if (startIndex === -1) continue;
+      if (entries.slice(startIndex + 1).some((entry) => entry.state === target.toState)) continue;
+
+      const startedAt = entries[startIndex].at;
+      const useBusinessHours = target.clock === "business";
+      const elapsed = useBusinessHours
+        ? businessMinutesBetween(calendar, startedAt, now)
+        : (now.getTime() - startedAt.getTime()) / 60000;
+      const dueAt = (useBusinessHours ? addBusinessMinutes(calendar, startedAt, target.targetMinutes) : null)
+        ?? new Date(startedAt.getTime() + target.targetMinutes * 60000);
+
+      const status: SlaStatus = elapsed >= target.targetMinutes
+        ? "overdue"
+        : elapsed >= target.targetMinutes * target.atRiskPercent / 100 ? "at_risk" : "on_track";
+
+      running.push({ target, startedAt, dueAt, status });
+    }
+    return running;
+  }
+
+  private async evaluate(job: Job, targets: SlaTarget[], calendars: Map<string, BusinessCalendar>, now: Date): Promise<void> {
+    const applicable = FINISHED_STATES.includes(job.state) ? [] : selectTargets(job, targets);
+    const events = applicable.length > 0 ? await storage.getJobEvents(job.jobId) : [];
+    const calendar = this.calendarFor(job.shopName, calendars);
+    const running = this.runningTargets(job, events, applicable, calendar, now);
+
+    // The job's flag follows its most urgent target: worst status, then earliest due
+    const mostUrgent = running.sort((a, b) =>
+      SEVERITY[b.status] - SEVERITY[a.status] || a.dueAt.getTime() - b.dueAt.getTime(),
+    )[0];
+    const slaStatus = mostUrgent?.status ?? null;
+    const slaDueAt = mostUrgent?.dueAt ?? null;
+
+    if (job.slaStatus !== slaStatus || job.slaDueAt?.getTime() !== slaDueAt?.getTime()) {
+      await storage.updateJob(job.id, { slaStatus, slaDueAt });
+    }
+
+    for (const item of running) {
+      if (item.status !== "on_track") {
+        await this.escalate(job, item, events, calendar);
+      }
+    }
+  }
+
+  // One timeline event per target, clock start and level
+  private async escalate(job: Job, item: RunningTarget, events: JobEvent[], calendar: BusinessCalendar): Promise<void> {
+    const eventType = item.status === "overdue" ? "sla_overdue" : "sla_at_risk";
+    const alreadyEscalated = events.some((event) => {
+      if (event.eventType !== eventType && !(eventType === "sla_at_risk" && event.eventType === "sla_overdue")) return false;
+      const metadata = escalationMetadataSchema.safeParse(event.metadata);
+      return metadata.success
+        && metadata.data.targetId === item.target.id
+        && metadata.data.startedAt === item.startedAt.toISOString();
+    });
+    if (alreadyEscalated) return;
+
+    const due = formatInTimeZone(item.dueAt, calendar.timezone, "MMM d, h:mm a zzz");
+    await storage.createJobEvent({
+      jobId: job.jobId,
+      eventType,
+      description: item.status === "overdue"
+        ? `SLA overdue: ${item.target.name} (was due ${due})`
+        : `SLA at risk: ${item.target.name} (due ${due})`,
+      actor: "System",
+      metadata: {
+        targetId: item.target.id,
+        targetName: item.target.name,
+        startedAt: item.startedAt.toISOString(),
+        dueAt: item.dueAt.toISOString(),
+        status: item.status,
+      },
+    });
+    console.log(`⏰ [SLA] Job ${job.jobId} ${item.status.replace("_", " ")}: ${item.target.name}`);
+  }
+}
+
+export const slaService = new SlaService();
@@ -186,7 +186,8 @@ async function handlePickupCompletion(
     await storage.createJobComment({
       jobId,
       userId: submitterName,
-      commentText: `[Driver Notes] ${pickup.driverNotes}`,
+      commentText: pickup.driverNotes,
+      source: 'driver_notes',
     });
     
     console.log(`✅ Added driver notes as job comment for ${jobId} by ${submitterName}`);
@@ -278,7 +279,8 @@ async function handleDeliveryCompletion(
     await storage.createJobComment({
       jobId,
       userId: submitterName,
-      commentText: `[Driver Notes] ${delivery.driverNotes}`,
+      commentText: delivery.driverNotes,
+      source: 'driver_notes',
     });
     
     console.log(`✅ Added delivery driver notes as job comment for ${jobId} by ${submitterName}`);
@@ -1,10 +1,16 @@
 // GPS coordinate to timezone conversion service
+// Resolves offline from embedded data - no timezone API calls
+
+import { fromZonedTime, getTimezoneOffset } from "date-fns-tz";
+import { shopRegistry } from "./shopRegistry";
+import type { Shop } from "@shared/schema";
 
 interface TimezoneInfo {
-  timezoneId: string;
+  timezoneId: string; // IANA, e.g. "America/Chicago"
   timezoneName: string;
-  utcOffsetSeconds: number;
+  utcOffsetSeconds: number; // at the time of the lookup, DST included
   dstOffsetSeconds: number;
+  source: 'shop' | 'region'; // near a known shop, or from the coarse region table
 }
 
 interface GPSCoordinates {
@@ -14,7 +20,43 @@ interface GPSCoordinates {
   timestamp: number;
 }
 
+// Coordinates this close to a shop take the shop's timezone. Kept small enough
+// that no shop reaches across a timezone line (Atlanta is ~100 km from Alabama).
+const SHOP_RADIUS_KM = 80;
+
+// Coarse US timezone regions as lat/lon boxes, checked in order so the
+// carve-outs (Arizona, Kentucky, Indiana, Michigan) win over the broad bands.
+// Good to the county near zone lines only; located registry shops cover the usual routes.
+const TIMEZONE_REGIONS: Array<{ timezone: string; minLat: number; maxLat: number; minLon: number; maxLon: number }> = [
+  { timezone: "Pacific/Honolulu", minLat: 18.5, maxLat: 22.5, minLon: -160.5, maxLon: -154.5 },
+  { timezone: "America/Anchorage", minLat: 51, maxLat: 72, minLon: -170, maxLon: -129.9 },
+  { timezone: "America/Phoenix", minLat: 31.3, maxLat: 37, minLon: -114.8, maxLon: -109.05 },
+  { timezone: "America/Los_Angeles", minLat: 32.5, maxLat: 49, minLon: -125, maxLon: -114.05 },
+  { timezone: "America/Denver", minLat: 31, maxLat: 49, minLon: -114.05, maxLon: -101.5 },
+  { timezone: "America/New_York", minLat: 36.5, maxLat: 39.2, minLon: -86, maxLon: -81.9 }, // eastern Kentucky (before Indiana so Louisville isn't read as Indiana)
+  { timezone: "America/Indiana/Indianapolis", minLat: 37.8, maxLat: 41.76, minLon: -86.9, maxLon: -84.8 },
+  { timezone: "America/Detroit", minLat: 41.7, maxLat: 45.8, minLon: -86.5, maxLon: -82.4 },
+  { timezone: "America/Chicago", minLat: 25, maxLat: 49.5, minLon: -101.5, maxLon: -85.2 },
+  { timezone: "America/New_York", minLat: 24.5, maxLat: 47.5, minLon: -85.2, maxLon: -66.9 },
+];
+
+// Two decimals is ~1 km - far finer than any timezone line we can resolve
+const CACHE_PRECISION = 2;
+const CACHE_LIMIT = 1000;
+
+function distanceKm(fromLat: number, fromLon: number, toLat: number, toLon: number): number {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRad(toLat - fromLat);
+  const dLon = toRad(toLon - fromLon);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(fromLat)) * Math.cos(toRad(toLat)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
 export class TimezoneService {
+  // Resolved zones by rounded "lat,lon" (null = outside every region)
+  private zoneCache = new Map<string, { timezone: string; source: TimezoneInfo['source'] } | null>();
+  // The registry snapshot the cache was built from; the registry swaps in a new list on every change
+  private cachedShops: Shop[] | null = null;
   
   /**
    * Parse GPS coordinates from GoCanvas format
@@ -52,69 +94,84 @@ export class TimezoneService {
   }
   
   /**
-   * Convert GPS coordinates to timezone information using TimeZone API
-   * Using free TimeZoneDB API as fallback to Google's API
+   * Look up the IANA timezone for a position: the nearest shop within
+   * SHOP_RADIUS_KM, otherwise the coarse region table. Cached by rounded coordinates.
    */
-  async getTimezoneFromCoordinates(coordinates: GPSCoordinates): Promise<TimezoneInfo | null> {
-    try {
-      console.log(`🌍 Getting timezone for coordinates: ${coordinates.latitude}, ${coordinates.longitude}`);
-      
-      // Try TimeZoneDB API (free, no API key required for basic usage)
-      const url = `https://api.timezonedb.com/v2.1/get-time-zone?key=demo&format=json&by=position&lat=${coordinates.latitude}&lng=${coordinates.longitude}`;
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        console.error(`❌ TimeZone API request failed: ${response.status} ${response.statusText}`);
-        return null;
-      }
-      
-      const data = await response.json();
-      
-      if (data.status !== 'OK') {
-        console.error(`❌ TimeZone API error: ${data.message || 'Unknown error'}`);
-        return null;
+  resolveTimezone(latitude: number, longitude: number): { timezone: string; source: TimezoneInfo['source'] } | null {
+    if (this.cachedShops !== shopRegistry.list()) {
+      this.zoneCache.clear();
+      this.cachedShops = shopRegistry.list();
+    }
+
+    const key = `${latitude.toFixed(CACHE_PRECISION)},${longitude.toFixed(CACHE_PRECISION)}`;
+    const cached = this.zoneCache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let resolved: { timezone: string; source: TimezoneInfo['source'] } | null = null;
+    let nearestKm = SHOP_RADIUS_KM;
+    for (const shop of shopRegistry.listLocated()) {
+      const km = distanceKm(latitude, longitude, shop.latitude, shop.longitude);
+      if (km <= nearestKm) {
+        nearestKm = km;
+        resolved = { timezone: shop.timezone, source: 'shop' };
       }
-      
-      const timezoneInfo: TimezoneInfo = {
-        timezoneId: data.zoneName || data.abbreviation || 'UTC',
-        timezoneName: data.zoneName || data.abbreviation || 'UTC',
-        utcOffsetSeconds: data.gmtOffset || 0,
-        dstOffsetSeconds: 0 // TimeZoneDB includes DST in gmtOffset
-      };
-      
-      console.log(`✅ Retrieved timezone info:`, timezoneInfo);
-      return timezoneInfo;
-      
-    } catch (error) {
-      console.error('❌ Error getting timezone from coordinates:', error);
-      return null;
     }
+
+    if (!resolved) {
+      const region = TIMEZONE_REGIONS.find((candidate) =>
+        latitude >= candidate.minLat && latitude <= candidate.maxLat &&
+        longitude >= candidate.minLon && longitude <= candidate.maxLon
+      );
+      resolved = region ? { timezone: region.timezone, source: 'region' } : null;
+    }
+
+    // Oldest entries go first once the cache is full (Map keeps insertion order)
+    if (this.zoneCache.size >= CACHE_LIMIT) {
+      this.zoneCache.delete(this.zoneCache.keys().next().value!);
+    }
+    this.zoneCache.set(key, resolved);
+    return resolved;
   }
-  
+
   /**
-   * Convert local time to UTC using timezone information
+   * Timezone for a shop, for when there's no usable GPS fix
    */
-  convertLocalTimeToUTC(localDateTime: Date, timezoneInfo: TimezoneInfo): Date {
-    try {
-      // Get the total offset (UTC + DST)
-      const totalOffsetSeconds = timezoneInfo.utcOffsetSeconds + timezoneInfo.dstOffsetSeconds;
-      
-      // Convert to UTC by subtracting the offset
-      const utcTime = new Date(localDateTime.getTime() - (totalOffsetSeconds * 1000));
-      
-      console.log(`🕐 Time conversion:`);
-      console.log(`  - Local time: ${localDateTime.toISOString()}`);
-      console.log(`  - Timezone: ${timezoneInfo.timezoneId}`);
-      console.log(`  - UTC offset: ${totalOffsetSeconds} seconds`);
-      console.log(`  - Converted UTC: ${utcTime.toISOString()}`);
-      
-      return utcTime;
-      
-    } catch (error) {
-      console.error('❌ Error converting local time to UTC:', error);
-      return localDateTime; // Fallback to original time
+  getShopTimezone(shopName: string | null | undefined): string {
+    return shopRegistry.getTimezone(shopName);
+  }
+
+  /**
+   * Convert GPS coordinates to timezone information (offsets as of `at`, defaulting to now)
+   */
+  getTimezoneFromCoordinates(coordinates: Pick<GPSCoordinates, 'latitude' | 'longitude'>, at: Date = new Date()): TimezoneInfo | null {
+    console.log(`🌍 Getting timezone for coordinates: ${coordinates.latitude}, ${coordinates.longitude}`);
+
+    const resolved = this.resolveTimezone(coordinates.latitude, coordinates.longitude);
+    if (!resolved) {
+      console.error('❌ Coordinates are outside every known timezone region');
+      return null;
     }
+
+    const utcOffsetSeconds = getTimezoneOffset(resolved.timezone, at) / 1000;
+    // Standard offset is the smaller of January's and July's (northern and southern hemisphere alike)
+    const year = at.getUTCFullYear();
+    const standardOffsetSeconds = Math.min(
+      getTimezoneOffset(resolved.timezone, new Date(Date.UTC(year, 0, 1))),
+      getTimezoneOffset(resolved.timezone, new Date(Date.UTC(year, 6, 1))),
+    ) / 1000;
+
+    const timezoneInfo: TimezoneInfo = {
+      timezoneId: resolved.timezone,
+      timezoneName: resolved.timezone,
+      utcOffsetSeconds: standardOffsetSeconds,
+      dstOffsetSeconds: utcOffsetSeconds - standardOffsetSeconds,
+      source: resolved.source,
+    };
+
+    console.log(`✅ Resolved timezone info:`, timezoneInfo);
+    return timezoneInfo;
   }
   
   /**
@@ -157,28 +214,24 @@ export class TimezoneService {
   }
 
   /**
-   * Main function: Parse GPS and convert handoff time to UTC
+   * Main function: Parse GPS and convert handoff time to UTC.
+   * Falls back to the shop's timezone when the GPS fix can't be resolved.
    */
-  async convertHandoffTimeWithGPS(gpsString: string, handoffDate: string, handoffTime: string): Promise<Date | null> {
+  async convertHandoffTimeWithGPS(gpsString: string, handoffDate: string, handoffTime: string, shopName?: string | null): Promise<Date | null> {
     try {
       console.log(`🚀 Starting GPS-based timezone conversion...`);
       console.log(`  - GPS: ${gpsString}`);
       console.log(`  - Handoff Date: ${handoffDate}`);  
       console.log(`  - Handoff Time: ${handoffTime}`);
       
-      // Parse GPS coordinates
+      // Parse GPS coordinates and resolve their timezone
       const coordinates = this.parseGPSCoordinates(gpsString);
-      if (!coordinates) {
-        console.error('❌ Could not parse GPS coordinates');
-        return null;
-      }
-      
-      // Get timezone information
-      const timezoneInfo = await this.getTimezoneFromCoordinates(coordinates);
-      if (!timezoneInfo) {
+      const resolved = coordinates ? this.resolveTimezone(coordinates.latitude, coordinates.longitude) : null;
+      if (!resolved && !shopName) {
         console.error('❌ Could not get timezone information');
         return null;
       }
+      const timezone = resolved?.timezone ?? this.getShopTimezone(shopName);
       
       // Parse handoff date and time
       const [month, day, year] = handoffDate.split('/').map(Number);
@@ -193,13 +246,15 @@ export class TimezoneService {
         hour24 = 0;
       }
       
-      // Create local datetime (assuming user's local time)
-      const localDateTime = new Date(year, month - 1, day, hour24, minutes, 0);
-      
-      // Convert to UTC using timezone info
-      const utcDateTime = this.convertLocalTimeToUTC(localDateTime, timezoneInfo);
+      // Interpret the wall-clock time in the resolved zone (DST-aware for that date)
+      const pad = (value: number) => String(value).padStart(2, '0');
+      const utcDateTime = fromZonedTime(`${year}-${pad(month)}-${pad(day)}T${pad(hour24)}:${pad(minutes)}:00`, timezone);
+      if (isNaN(utcDateTime.getTime())) {
+        console.error(`❌ Could not parse handoff date/time: ${handoffDate} ${handoffTime}`);
+        return null;
+      }
       
-      console.log(`✅ GPS-based conversion complete: ${utcDateTime.toISOString()}`);
+      console.log(`✅ GPS-based conversion complete: ${utcDateTime.toISOString()} (${timezone}${resolved ? `, from ${resolved.source}` : ', shop fallback'})`);
       return utcDateTime;
       
     } catch (error) {
@@ -0,0 +1,252 @@
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from "crypto";
+import { storage } from "../storage";
+import { DEFAULT_PUSH_TYPES, type Notification, type PushSubscription } from "@shared/schema";
+
+/**
+ * WebPushService sends notifications to users' browsers and installed PWAs
+ * using the Web Push protocol (RFC 8030) with VAPID (RFC 8292) and
+ * aes128gcm payload encryption (RFC 8291).
+ *
+ * Configuration:
+ * - VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY: base64url P-256 key pair, generate
+ *   one with `npx tsx scripts/generate-vapid-keys.ts`
+ * - VAPID_SUBJECT: contact for push services, e.g. mailto:it@ecs.com
+ * - WEB_PUSH_ALLOW_HTTP_ENDPOINTS: accept http:// endpoints, for scripts/push-stub.ts
+ *
+ * Push is off when the keys are unset; the in-app inbox still works.
+ * Subscriptions whose push service answers 404/410 are deleted.
+ */
+
+interface VapidConfig {
+  publicKey: string;
+  privateKey: ReturnType<typeof createPrivateKey>;
+  subject: string;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string | null;
+  tag?: string;
+}
+
+const RECORD_SIZE = 4096;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60; // Drop pushes a device hasn't picked up within a day
+const JWT_TTL_SECONDS = 12 * 60 * 60;
+const MAX_PAYLOAD_BYTES = 3800; // Leaves room for the record header and padding in one 4096-byte record
+
+// In-memory metrics for the admin dashboard
+export const webPushMetrics = {
+  sent: 0,
+  failed: 0,
+  expired: 0,
+  lastError: null as string | null,
+  lastSentAt: null as string | null,
+};
+
+function base64UrlEncode(input: Buffer | string): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function base64UrlDecode(input: string): Buffer {
+  return Buffer.from(input, "base64url");
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync("sha256", ikm, salt, info, length));
+}
+
+class WebPushService {
+  private config: VapidConfig | null = null;
+  private initialized = false;
+
+  private getConfig(): VapidConfig | null {
+    if (this.initialized) return this.config;
+    this.initialized = true;
+
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) {
+      console.log("[Push] VAPID keys not configured - Web Push disabled");
+      return null;
+    }
+
+    try {
+      // The raw public key is an uncompressed point: 0x04 || x || y
+      const point = base64UrlDecode(publicKey);
+      if (point.length !== 65 || point[0] !== 0x04) {
+        throw new Error("VAPID_PUBLIC_KEY must be an uncompressed P-256 public key");
+      }
+      const key = createPrivateKey({
+        key: {
+          kty: "EC",
+          crv: "P-256",
+          d: privateKey,
+          x: base64UrlEncode(point.subarray(1, 33)),
+          y: base64UrlEncode(point.subarray(33, 65)),
+        },
+        format: "jwk",
+      });
+      this.config = {
+        publicKey,
+        privateKey: key,
+        subject: process.env.VAPID_SUBJECT || "mailto:admin@example.com",
+      };
+      console.log("[Push] Web Push enabled");
+    } catch (error) {
+      console.error("[Push] Invalid VAPID keys - Web Push disabled:", error);
+    }
+    return this.config;
+  }
+
+  isConfigured(): boolean {
+    return this.getConfig() !== null;
+  }
+
+  /** Public key the browser needs as applicationServerKey when subscribing */
+  getPublicKey(): string | null {
+    return this.getConfig()?.publicKey ?? null;
+  }
+
+  /**
+   * Check a subscription endpoint before storing it. Only https push services
+   * are accepted (http too when WEB_PUSH_ALLOW_HTTP_ENDPOINTS is set, for the stub).
+   */
+  isValidEndpoint(endpoint: string): boolean {
+    try {
+      const url = new URL(endpoint);
+      return url.protocol === "https:" ||
+        (url.protocol === "http:" && process.env.WEB_PUSH_ALLOW_HTTP_ENDPOINTS === "true");
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Push an inbox notification to the recipient's devices if their preferences
+   * include its type. Never throws.
+   */
+  async sendNotification(notification: Notification): Promise<void> {
+    if (!this.isConfigured()) return;
+
+    try {
+      const preferences = await storage.getNotificationPreferences(notification.recipientEmail);
+      const pushTypes = preferences?.pushTypes ?? DEFAULT_PUSH_TYPES;
+      if (!pushTypes.includes(notification.type)) return;
+
+      await this.sendToUser(notification.recipientEmail, {
+        title: notification.title,
+        body: notification.message,
+        url: notification.link,
+        tag: notification.id,
+      });
+    } catch (error) {
+      console.error(`[Push] Failed to push notification ${notification.id}:`, error);
+    }
+  }
+
+  /**
+   * Send a payload to every device the user subscribed. Returns how many accepted it.
+   */
+  async sendToUser(email: string, payload: PushPayload): Promise<number> {
+    if (!this.isConfigured()) return 0;
+
+    const subscriptions = await storage.getPushSubscriptionsForUser(email.toLowerCase());
+    const results = await Promise.all(subscriptions.map((subscription) => this.send(subscription, payload)));
+    return results.filter(Boolean).length;
+  }
+
+  private async send(subscription: PushSubscription, payload: PushPayload): Promise<boolean> {
+    const config = this.getConfig();
+    if (!config) return false;
+
+    try {
+      const body = this.encrypt(subscription, Buffer.from(JSON.stringify(payload), "utf8"));
+      const response = await fetch(subscription.endpoint, {
+        method: "POST",
+        headers: {
+          Authorization: this.buildVapidAuthorization(subscription.endpoint, config),
+          "Content-Encoding": "aes128gcm",
+          "Content-Type": "application/octet-stream",
+          TTL: String(DEFAULT_TTL_SECONDS),
+          Urgency: "high",
+          ...(payload.tag ? { Topic: payload.tag.replace(/[^A-Za-z0-9_-]/g, "").slice(0, 32) } : {}),
+        },
+        body,
+      });
+
+      if (response.status === 404 || response.status === 410) {
+        // The browser unsubscribed or the subscription expired
+        await storage.deletePushSubscription(subscription.endpoint);
+        webPushMetrics.expired++;
+        console.log(`[Push] Removed expired subscription for ${subscription.userEmail}`);
+        return false;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Push service responded ${response.status}: ${(await response.text()).slice(0, 200)}`);
+      }
+
+      await storage.recordPushResult(subscription.id, true);
+      webPushMetrics.sent++;
+      webPushMetrics.lastSentAt = new Date().toISOString();
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Push] Failed to send to ${subscription.userEmail}: ${message}`);
+      webPushMetrics.failed++;
+      webPushMetrics.lastError = message;
+      await storage.recordPushResult(subscription.id, false).catch(() => {});
+      return false;
+    }
+  }
+
+  /** VAPID: an ES256 JWT scoped to the push service origin, plus our public key */
+  private buildVapidAuthorization(endpoint: string, config: VapidConfig): string {
+    const header = base64UrlEncode(JSON.stringify({ typ: "JWT", alg: "ES256" }));
+    const claims = base64UrlEncode(JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(Date.now() / 1000) + JWT_TTL_SECONDS,
+      sub: config.subject,
+    }));
+    const signature = sign("sha256", Buffer.from(`${header}.${claims}`), {
+      key: config.privateKey,
+      dsaEncoding: "ieee-p1363",
+    });
+    return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${config.publicKey}`;
+  }
+
+  /** RFC 8291 aes128gcm encryption of a single-record payload */
+  private encrypt(subscription: PushSubscription, plaintext: Buffer): Buffer {
+    if (plaintext.length > MAX_PAYLOAD_BYTES) {
+      throw new Error(`Push payload too large (${plaintext.length} bytes)`);
+    }
+
+    const userAgentPublicKey = base64UrlDecode(subscription.p256dh);
+    const authSecret = base64UrlDecode(subscription.auth);
+
+    const ecdh = createECDH("prime256v1");
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+    const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentPublicKey, serverPublicKey]);
+    const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+
+    const salt = randomBytes(16);
+    const contentKey = hkdf(salt, ikm, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+    const nonce = hkdf(salt, ikm, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+    const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+    // 0x02 marks the last (and only) record
+    const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+
+    return Buffer.concat([header, serverPublicKey, ciphertext]);
+  }
+}
+
+export const webPushService = new WebPushService();
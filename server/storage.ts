@@ -1,6 +1,117 @@
-import { type Job, type InsertJob, type Technician, type InsertTechnician, type JobEvent, type InsertJobEvent, type User, type UpsertUser, type Whitelist, type InsertWhitelist, type JobComment, type InsertJobComment, type JobPart, type InsertJobPart, type JobListTab, type InsertJobListTab, type FormSubmission, type InsertFormSubmission } from "@shared/schema";
+import { type Job, type InsertJob, type Technician, type InsertTechnician, type JobEvent, type InsertJobEvent, type User, type UpsertUser, type Whitelist, type InsertWhitelist, type JobComment, type InsertJobComment, type JobCommentRevision, type InsertJobCommentRevision, type JobPart, type InsertJobPart, type JobListTab, type InsertJobListTab, type FormSubmission, type InsertFormSubmission, type WorkflowDefinition, type InsertWorkflowDefinition, type Attachment, type InsertAttachment, type JobDocument, type InsertJobDocument, type SheetsSyncQueueEntry, type InsertSheetsSyncQueueEntry, type Notification, type InsertNotification, type PushSubscription, type InsertPushSubscription, type NotificationPreferences, type NotificationType, type CustomerNotificationSettings, type InsertCustomerNotificationSettings, type CustomerNotificationTemplate, type InsertCustomerNotificationTemplate, type CustomerMilestone, type CustomerNotificationChannel, type AuditLogEntry, type InsertAuditLogEntry, type AuditEntityType, type SlaStatus, type SlaTarget, type InsertSlaTarget, type ShopBusinessHours, type ShopBusinessHoursInput, type Shop, type InsertShop, type UpdateShop } from "@shared/schema";
 import { DatabaseStorage, type WhitelistWithRole } from "./database";
 
+// Comments are listed with the author's name when they're a registered user
+export interface JobCommentWithAuthor extends JobComment {
+  userEmail: string | null;
+  userFirstName: string | null;
+  userLastName: string | null;
+}
+
+// List queries for the job and parts tables - filtering, sorting and paging run in SQL
+export interface PageOptions {
+  sortBy?: string; // column name; unknown columns fall back to the default sort
+  sortOrder?: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+}
+
+export interface JobListQuery extends PageOptions {
+  shopNames?: string[]; // restrict to these shops' jobs (empty = none)
+  states?: string[];
+  search?: string; // matches Job ID or customer name
+  initiatedFrom?: Date;
+  initiatedTo?: Date;
+  slaStatuses?: SlaStatus[];
+}
+
+export interface PartListQuery extends PageOptions {
+  shopNames?: string[];
+  jobStates?: string[];
+  diagnoses?: string[];
+  statuses?: string[];
+  search?: string; // matches part name, Job ID or customer name
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+export interface AuditLogQuery {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  jobId?: string; // the job and its parts
+  actor?: string; // matches actor email
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface PagedResult<T> {
+  data: T[];
+  total: number;
+}
+
+// W.O.A (yellow) > Failed (red) > All Approved (green)
+export type PartStatusPriority = 'woa' | 'failed' | 'approved' | null;
+export type JobWithPartStatus = Job & { partStatusPriority: PartStatusPriority };
+export type JobPartWithJob = JobPart & { job: Job | null };
+
+// A job deleted for good along with every row that belonged to it; the stored
+// attachment and document files are returned for the caller to remove
+export interface PurgedJob {
+  job: Job;
+  files: Array<Pick<Attachment, "storageBackend" | "storageKey">>;
+}
+
+// A part carrying an ECS serial, with the shop whose code/day the serial should reflect
+export interface SerializedPart {
+  partId: string;
+  jobId: string;
+  shopName: string;
+  ecsSerial: string;
+  createdAt: Date;
+}
+
+// Turnaround analytics - jobs completed in a date range, aggregated in SQL; services/analytics.ts shapes the response
+export type AnalyticsDimension = 'shop' | 'technician' | 'customer' | 'process';
+export type AnalyticsStage = 'pickup_wait' | 'shop_queue' | 'tech_time' | 'ready_to_delivery';
+
+export interface AnalyticsScope {
+  shopNames?: string[]; // restrict to these shops' jobs (empty = none)
+  completedFrom: Date;
+  completedTo: Date;
+}
+
+// Minutes, rounded; null when no job had the duration
+export interface DurationStats {
+  count: number;
+  avg: number | null;
+  p50: number | null;
+  p75: number | null;
+  p90: number | null;
+  max: number | null;
+}
+
+export type DurationGroup = DurationStats & { key: string | null };
+export type WeeklyDurationStats = DurationStats & { weekStart: Date };
+
+// Global search - storage returns candidate rows; ranking and snippets are built in services/search.ts
+export interface SearchScope {
+  term: string;
+  shopNames?: string[]; // restrict to these shops' jobs (empty = none)
+  limit: number;
+}
+
+export interface TextSearchHit {
+  id: string;
+  jobId: string;
+  customerName: string | null;
+  text: string;
+  createdAt: Date;
+  rank: number; // ts_rank, 0 when only a partial-word (ILIKE) match
+  headline: string; // ts_headline excerpt with SEARCH_HIGHLIGHT markers around matched words
+}
+
 export interface IStorage {
   // Replit Auth: User methods (required for authentication)
   getUser(id: string): Promise<User | undefined>;
@@ -16,14 +127,21 @@ export interface IStorage {
   getAllWhitelist(): Promise<WhitelistWithRole[]>;
   updateWhitelistRole(email: string, role: string): Promise<Whitelist | undefined>;
   updateWhitelistHomeShop(email: string, homeShop: string | null): Promise<Whitelist | undefined>;
+  updateWhitelistShops(email: string, shops: string[]): Promise<Whitelist | undefined>;
+  updateWhitelistActiveShop(email: string, activeShop: string | null): Promise<Whitelist | undefined>;
   
   // Job methods
   getJob(id: string): Promise<Job | undefined>;
   getJobByJobId(jobId: string): Promise<Job | undefined>;
   createJob(job: InsertJob): Promise<Job>;
   updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined>;
-  deleteJob(id: string): Promise<void>;
+  deleteJob(id: string): Promise<PurgedJob | undefined>; // hard delete, only to roll back a job that failed to be created
+  softDeleteJob(id: string, deletedBy: string | null): Promise<Job | undefined>;
+  restoreJob(id: string): Promise<Job | undefined>;
+  purgeJob(id: string): Promise<PurgedJob | undefined>; // soft-deleted jobs only
+  getDeletedJobs(): Promise<Job[]>;
   getAllJobs(): Promise<Job[]>;
+  listJobs(query: JobListQuery): Promise<PagedResult<JobWithPartStatus>>;
   getJobsByStatus(status: string): Promise<Job[]>;
   getJobsByState(state: string): Promise<Job[]>;
   getJobsByTechnician(technicianEmail: string): Promise<Job[]>;
@@ -31,6 +149,7 @@ export interface IStorage {
   // Job Event methods
   createJobEvent(event: InsertJobEvent): Promise<JobEvent>;
   getJobEvents(jobId: string): Promise<JobEvent[]>;
+  getJobEventsByTypes(eventTypes: string[]): Promise<JobEvent[]>;
   getAllJobEvents(limit?: number): Promise<JobEvent[]>;
   
   // Technician methods
@@ -42,22 +161,36 @@ export interface IStorage {
   
   // Job Comment methods
   createJobComment(comment: InsertJobComment): Promise<JobComment>;
-  getJobComments(jobId: string): Promise<JobComment[]>;
+  getJobComment(id: string): Promise<JobComment | undefined>;
+  getJobComments(jobId: string): Promise<JobCommentWithAuthor[]>;
+  updateJobComment(id: string, updates: Partial<JobComment>): Promise<JobComment | undefined>;
+  createJobCommentRevision(revision: InsertJobCommentRevision): Promise<JobCommentRevision>;
+  getJobCommentRevisions(commentId: string): Promise<JobCommentRevision[]>;
+  getJobCommentRevisionCounts(jobId: string): Promise<Record<string, number>>;
   
   // Job Part methods
   createJobPart(part: InsertJobPart): Promise<JobPart>;
   getJobParts(jobId: string): Promise<JobPart[]>;
   getAllJobParts(): Promise<Array<JobPart & { job: Job | null }>>;
+  listJobParts(query: PartListQuery): Promise<PagedResult<JobPartWithJob>>;
   updateJobPart(id: string, updates: Partial<JobPart>): Promise<JobPart | undefined>;
-  deleteJobPart(id: string): Promise<void>;
+  softDeleteJobPart(id: string, deletedBy: string | null): Promise<JobPart | undefined>;
+  restoreJobPart(id: string): Promise<JobPart | undefined>;
+  purgeJobPart(id: string): Promise<JobPart | undefined>; // soft-deleted parts only
+  getDeletedJobParts(): Promise<JobPartWithJob[]>;
+  getDeletedJobPart(id: string): Promise<JobPartWithJob | undefined>;
   
   // ECS Serial Number methods
   generateNextSerialNumber(shopCode: string, date: string): Promise<string>;
   isSerialNumberAvailable(serialNumber: string): Promise<boolean>;
+  getJobPartBySerial(serialNumber: string): Promise<JobPart | undefined>;
+  getSerializedParts(): Promise<SerializedPart[]>;
+  getJobPart(id: string): Promise<JobPart | undefined>;
   reserveSerialNumber(shopCode: string, date: string, sequence: number, serialNumber: string): Promise<void>;
   
   // Job List Tab methods
   getUserTabs(userId: string): Promise<JobListTab[]>;
+  getTab(id: string): Promise<JobListTab | undefined>;
   createTab(tab: InsertJobListTab): Promise<JobListTab>;
   updateTab(id: string, updates: Partial<JobListTab>): Promise<JobListTab | undefined>;
   deleteTab(id: string): Promise<void>;
@@ -69,6 +202,93 @@ export interface IStorage {
   getFormSubmissionsByJob(jobId: string): Promise<FormSubmission[]>;
   getFormSubmissionsAssignedTo(email: string): Promise<FormSubmission[]>;
   updateFormSubmission(id: string, updates: Partial<FormSubmission>): Promise<FormSubmission | undefined>;
+
+  // Workflow Definition methods
+  getWorkflowDefinition(id: string): Promise<WorkflowDefinition | undefined>;
+  getActiveWorkflowDefinition(shopName: string | null): Promise<WorkflowDefinition | undefined>;
+  getWorkflowDefinitions(): Promise<WorkflowDefinition[]>;
+  createWorkflowVersion(definition: InsertWorkflowDefinition, activate: boolean): Promise<WorkflowDefinition>;
+  activateWorkflowDefinition(id: string): Promise<WorkflowDefinition | undefined>;
+
+  // Attachment methods
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  getAttachment(id: string): Promise<Attachment | undefined>;
+  getAttachmentByClientId(clientId: string): Promise<Attachment | undefined>;
+  getAttachmentsByJob(jobId: string): Promise<Attachment[]>;
+  getAttachmentsBySubmission(submissionId: string): Promise<Attachment[]>;
+  getAttachmentsByPart(partId: string): Promise<Attachment[]>;
+  getCommentAttachmentsByJob(jobId: string): Promise<Attachment[]>;
+  deleteAttachment(id: string): Promise<void>;
+
+  // Job document methods
+  createJobDocument(document: InsertJobDocument): Promise<JobDocument>;
+  getJobDocument(id: string): Promise<JobDocument | undefined>;
+  getJobDocumentsByJob(jobId: string): Promise<JobDocument[]>;
+
+  // Search methods
+  searchJobs(scope: SearchScope): Promise<Job[]>;
+  searchJobParts(scope: SearchScope): Promise<JobPartWithJob[]>;
+  searchJobComments(scope: SearchScope): Promise<TextSearchHit[]>;
+  searchJobEvents(scope: SearchScope): Promise<TextSearchHit[]>;
+
+  // Notification methods
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotificationsForUser(email: string, options: { unreadOnly?: boolean; limit: number }): Promise<Notification[]>;
+  getUnreadNotificationCount(email: string): Promise<number>;
+  getUndeliveredNotifications(email: string): Promise<Notification[]>;
+  markNotificationsDelivered(email: string, ids: string[]): Promise<void>;
+  markNotificationRead(email: string, id: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(email: string): Promise<number>;
+
+  // Web Push methods
+  getPushSubscriptionsForUser(email: string): Promise<PushSubscription[]>;
+  upsertPushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription>;
+  deletePushSubscription(endpoint: string, userEmail?: string): Promise<boolean>;
+  recordPushResult(id: string, success: boolean): Promise<void>;
+  getPushSubscriptionCount(): Promise<number>;
+  getNotificationPreferences(email: string): Promise<NotificationPreferences | undefined>;
+  upsertNotificationPreferences(email: string, pushTypes: NotificationType[]): Promise<NotificationPreferences>;
+
+  // Customer notification methods
+  getCustomerNotificationSettings(customerName: string): Promise<CustomerNotificationSettings | undefined>;
+  getAllCustomerNotificationSettings(): Promise<CustomerNotificationSettings[]>;
+  upsertCustomerNotificationSettings(settings: InsertCustomerNotificationSettings): Promise<CustomerNotificationSettings>;
+  deleteCustomerNotificationSettings(customerName: string): Promise<void>;
+  getCustomerNotificationTemplates(): Promise<CustomerNotificationTemplate[]>;
+  getCustomerNotificationTemplate(milestone: CustomerMilestone, channel: CustomerNotificationChannel): Promise<CustomerNotificationTemplate | undefined>;
+  upsertCustomerNotificationTemplate(template: InsertCustomerNotificationTemplate): Promise<CustomerNotificationTemplate>;
+  deleteCustomerNotificationTemplate(milestone: CustomerMilestone, channel: CustomerNotificationChannel): Promise<void>;
+
+  // SLA methods
+  getSlaTargets(): Promise<SlaTarget[]>;
+  createSlaTarget(target: InsertSlaTarget): Promise<SlaTarget>;
+  updateSlaTarget(id: string, target: InsertSlaTarget): Promise<SlaTarget | undefined>;
+  deleteSlaTarget(id: string): Promise<void>;
+  getAllShopBusinessHours(): Promise<ShopBusinessHours[]>;
+  upsertShopBusinessHours(shopName: string, hours: ShopBusinessHoursInput, updatedBy: string | null): Promise<ShopBusinessHours>;
+
+  // Shop registry methods
+  getShops(): Promise<Shop[]>;
+  getShopByName(name: string): Promise<Shop | undefined>;
+  createShop(shop: InsertShop): Promise<Shop>;
+  updateShop(id: string, shop: UpdateShop): Promise<Shop | undefined>;
+
+  // Analytics methods
+  getTurnaroundStats(scope: AnalyticsScope): Promise<DurationStats>;
+  getTurnaroundByDimension(scope: AnalyticsScope, dimension: AnalyticsDimension, limit: number): Promise<DurationGroup[]>;
+  getTurnaroundDistribution(scope: AnalyticsScope, bucketMinutes: number[]): Promise<number[]>;
+  getWeeklyTurnaround(scope: AnalyticsScope): Promise<WeeklyDurationStats[]>;
+  getStageDurations(scope: AnalyticsScope): Promise<Record<AnalyticsStage, DurationStats>>;
+
+  // Audit log methods (append-only)
+  createAuditEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  listAuditEntries(query: AuditLogQuery): Promise<PagedResult<AuditLogEntry>>;
+
+  // Google Sheets sync queue methods
+  getSheetsSyncEntry(jobId: string): Promise<SheetsSyncQueueEntry | undefined>;
+  upsertSheetsSyncEntry(entry: InsertSheetsSyncQueueEntry): Promise<SheetsSyncQueueEntry>;
+  getDueSheetsSyncEntries(now: Date, limit: number): Promise<SheetsSyncQueueEntry[]>;
+  getPendingSheetsSyncCount(): Promise<number>;
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Job, JobPart } from "@shared/schema";
+import type { JobPartWithJob } from "./storage";
+
+const { storage } = vi.hoisted(() => ({
+  storage: { getJobPartBySerial: vi.fn() },
+}));
+vi.mock("./storage", () => ({ storage }));
+
+const { getPartRestoreConflict } = await import("./trash");
+
+const activeJob = { id: "uuid-1", jobId: "ECS-20260301090000-01", deletedAt: null } as Job;
+
+function trashedPart(overrides: Partial<JobPartWithJob> = {}): JobPartWithJob {
+  return {
+    id: "part-1",
+    jobId: activeJob.jobId,
+    ecsSerial: "01.030126.01",
+    deletedAt: new Date(),
+    job: activeJob,
+    ...overrides,
+  } as JobPartWithJob;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storage.getJobPartBySerial.mockResolvedValue(undefined);
+});
+
+describe("getPartRestoreConflict", () => {
+  it("restores a part whose serial is still reserved for it", async () => {
+    expect(await getPartRestoreConflict(trashedPart())).toBeNull();
+    expect(storage.getJobPartBySerial).toHaveBeenCalledWith("01.030126.01");
+  });
+
+  it("restores parts without a serial", async () => {
+    expect(await getPartRestoreConflict(trashedPart({ ecsSerial: null }))).toBeNull();
+    expect(storage.getJobPartBySerial).not.toHaveBeenCalled();
+  });
+
+  it("refuses when the serial was reassigned to another part", async () => {
+    storage.getJobPartBySerial.mockResolvedValue({ id: "part-2", jobId: "ECS-20260302100000-01" } as JobPart);
+    expect(await getPartRestoreConflict(trashedPart())).toBe("Serial 01.030126.01 is now assigned to a part on job ECS-20260302100000-01");
+  });
+
+  it("refuses while the part's job is deleted or missing", async () => {
+    expect(await getPartRestoreConflict(trashedPart({ job: { ...activeJob, deletedAt: new Date() } }))).toMatch(/restore the job first/);
+    expect(await getPartRestoreConflict(trashedPart({ job: null }))).toMatch(/restore the job first/);
+  });
+});
@@ -0,0 +1,20 @@
+// Checks for the admin trash routes
+import { storage, type JobPartWithJob } from "./storage";
+
+/**
+ * Why a part in the trash can't be restored, or null if it can. Its job must
+ * be active, and its serial - which stayed reserved while the part was in the
+ * trash - must not have been reassigned to another part anyway.
+ */
+export async function getPartRestoreConflict(part: JobPartWithJob): Promise<string | null> {
+  if (!part.job || part.job.deletedAt) {
+    return "This part's job is deleted or missing - restore the job first";
+  }
+  if (part.ecsSerial) {
+    const holder = await storage.getJobPartBySerial(part.ecsSerial);
+    if (holder && holder.id !== part.id) {
+      return `Serial ${part.ecsSerial} is now assigned to a part on job ${holder.jobId}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { canAccessShop, getShopScope, hasPermission, permissionActions, resolvePermissions } from "./permissions";
+
+describe("resolvePermissions", () => {
+  it("gives admins every action across all shops", () => {
+    const permissions = resolvePermissions({ role: "admin", homeShop: "ECS - Nashville" });
+    expect(permissions.actions).toEqual([...permissionActions]);
+    expect(permissions.shops).toBeNull();
+  });
+
+  it("gives CSRs everything but admin, across all shops", () => {
+    const permissions = resolvePermissions({ role: "csr", homeShop: "ECS - Nashville" });
+    expect(hasPermission(permissions, "jobs.dispatch")).toBe(true);
+    expect(hasPermission(permissions, "jobs.delete")).toBe(true);
+    expect(hasPermission(permissions, "admin")).toBe(false);
+    expect(permissions.shops).toBeNull();
+  });
+
+  it("limits technicians to shop-floor actions in their home shop", () => {
+    const permissions = resolvePermissions({ role: "technician", homeShop: "ECS - Nashville" });
+    expect(permissions.actions).toEqual(["jobs.view", "jobs.transport", "jobs.service", "parts.edit", "comments.create"]);
+    expect(permissions.shops).toEqual(["ECS - Nashville"]);
+  });
+
+  it("limits drivers to viewing, transport and comments in their home shop", () => {
+    const permissions = resolvePermissions({ role: "driver", homeShop: "ECS - Atlanta" });
+    expect(hasPermission(permissions, "jobs.transport")).toBe(true);
+    expect(hasPermission(permissions, "jobs.service")).toBe(false);
+    expect(hasPermission(permissions, "parts.edit")).toBe(false);
+    expect(permissions.shops).toEqual(["ECS - Atlanta"]);
+  });
+
+  it("treats unknown or missing roles as CSR", () => {
+    expect(resolvePermissions({ role: "owner", homeShop: null }).role).toBe("csr");
+    expect(resolvePermissions({ role: null, homeShop: null }).role).toBe("csr");
+  });
+
+  it("lets home-shop roles without a home shop see every shop", () => {
+    expect(resolvePermissions({ role: "technician", homeShop: null }).shops).toBeNull();
+  });
+
+  it("restricts any non-admin role to the home shop plus assigned shops", () => {
+    const csr = resolvePermissions({ role: "csr", homeShop: "ECS - Nashville", shops: ["ECS - Memphis", "ECS - Nashville"] });
+    expect(csr.shops).toEqual(["ECS - Nashville", "ECS - Memphis"]);
+
+    const admin = resolvePermissions({ role: "admin", homeShop: null, shops: ["ECS - Memphis"] });
+    expect(admin.shops).toBeNull();
+  });
+
+  it("grants account admins the admin action on top of their role", () => {
+    const permissions = resolvePermissions({ role: "technician", homeShop: "ECS - Nashville", shops: ["ECS - Memphis"] }, ["admin"]);
+    expect(hasPermission(permissions, "admin")).toBe(true);
+    expect(permissions.shops).toEqual(["ECS - Nashville"]);
+  });
+
+  it("drops an active shop the user can't access", () => {
+    expect(resolvePermissions({ role: "driver", homeShop: "ECS - Dallas", activeShop: "ECS - Dallas" }).activeShop).toBe("ECS - Dallas");
+    expect(resolvePermissions({ role: "driver", homeShop: "ECS - Dallas", activeShop: "ECS - Chicago" }).activeShop).toBeNull();
+  });
+});
+
+describe("hasPermission", () => {
+  const driver = resolvePermissions({ role: "driver", homeShop: "ECS - Atlanta" });
+
+  it("accepts any of a list of actions", () => {
+    expect(hasPermission(driver, ["jobs.service", "jobs.transport"])).toBe(true);
+    expect(hasPermission(driver, ["jobs.service", "parts.edit"])).toBe(false);
+  });
+
+  it("denies users who aren't whitelisted", () => {
+    expect(hasPermission(null, "jobs.view")).toBe(false);
+  });
+});
+
+describe("shop scoping", () => {
+  const tech = resolvePermissions({ role: "technician", homeShop: "ECS - Nashville", shops: ["ECS - Memphis"] });
+  const csr = resolvePermissions({ role: "csr", homeShop: "ECS - Nashville" });
+
+  it("only lets users reach jobs in their shops", () => {
+    expect(canAccessShop(tech, "ECS - Memphis")).toBe(true);
+    expect(canAccessShop(tech, "ECS - Atlanta")).toBe(false);
+    expect(canAccessShop(tech, null)).toBe(false);
+    expect(canAccessShop(csr, "ECS - Atlanta")).toBe(true);
+    expect(canAccessShop(null, "ECS - Nashville")).toBe(false);
+  });
+
+  it("scopes lists to a requested shop only when it's accessible", () => {
+    expect(getShopScope(tech, "ECS - Memphis")).toEqual(["ECS - Memphis"]);
+    expect(getShopScope(tech, "ECS - Atlanta")).toEqual([]);
+    expect(getShopScope(csr, "ECS - Atlanta")).toEqual(["ECS - Atlanta"]);
+  });
+
+  it("falls back to the active shop, then to all of the user's shops", () => {
+    const narrowed = resolvePermissions({ role: "technician", homeShop: "ECS - Nashville", shops: ["ECS - Memphis"], activeShop: "ECS - Memphis" });
+    expect(getShopScope(narrowed)).toEqual(["ECS - Memphis"]);
+    expect(getShopScope(narrowed, "all")).toEqual(["ECS - Nashville", "ECS - Memphis"]);
+    expect(getShopScope(tech)).toEqual(["ECS - Nashville", "ECS - Memphis"]);
+    expect(getShopScope(csr)).toBeUndefined();
+  });
+});
@@ -0,0 +1,122 @@
+import type { WhitelistRole } from "./schema";
+
+// Role-based permission matrix, shared by the server (enforced by the
+// middleware in server/permissions.ts) and the client (to hide actions).
+
+export const permissionActions = [
+  "jobs.view",
+  "jobs.create",        // pickup, direct delivery and inbound shipment jobs
+  "jobs.dispatch",      // send pickup/delivery forms to a driver
+  "jobs.transport",     // mark picked up, delivered, or collected from the shop
+  "jobs.service",       // check in, start service, mark ready, outbound shipment
+  "jobs.edit",          // edit job fields, manual workflow transitions, refresh from GoCanvas
+  "jobs.cancel",
+  "jobs.delete",
+  "parts.edit",
+  "comments.create",
+  "analytics.view",     // turnaround analytics page
+  "admin",
+] as const;
+export type PermissionAction = typeof permissionActions[number];
+
+// "all" shops, or only the user's homeShop (everything, if they have none)
+export type ShopScope = "all" | "home";
+
+export interface RolePermissions {
+  actions: readonly PermissionAction[];
+  shops: ShopScope;
+}
+
+export const ROLE_PERMISSIONS: Record<WhitelistRole, RolePermissions> = {
+  admin: {
+    actions: permissionActions,
+    shops: "all",
+  },
+  csr: {
+    actions: permissionActions.filter((action) => action !== "admin"),
+    shops: "all",
+  },
+  technician: {
+    actions: ["jobs.view", "jobs.transport", "jobs.service", "parts.edit", "comments.create"],
+    shops: "home",
+  },
+  driver: {
+    actions: ["jobs.view", "jobs.transport", "comments.create"],
+    shops: "home",
+  },
+};
+
+// Whitelist entries without a role get the column default
+export const DEFAULT_PERMISSION_ROLE: WhitelistRole = "csr";
+
+/** The whitelist fields that decide a user's permissions */
+export interface PermissionSubject {
+  role: string | null | undefined;
+  homeShop: string | null | undefined;
+  shops?: string[] | null; // extra assigned shops
+  activeShop?: string | null;
+}
+
+/**
+ * A user's resolved permissions, as returned by /api/auth/user.
+ * `shops` is the shops they can access, or null for every shop; `activeShop`
+ * is the one they've narrowed their view to, if any.
+ */
+export interface UserPermissions {
+  role: WhitelistRole;
+  actions: PermissionAction[];
+  shops: string[] | null;
+  activeShop: string | null;
+}
+
+export function resolvePermissions(subject: PermissionSubject, extraActions: PermissionAction[] = []): UserPermissions {
+  const role = (subject.role && subject.role in ROLE_PERMISSIONS ? subject.role : DEFAULT_PERMISSION_ROLE) as WhitelistRole;
+  const rolePermissions = ROLE_PERMISSIONS[role];
+  const actions = Array.from(new Set([...rolePermissions.actions, ...extraActions]));
+
+  // Assigned shops restrict any role except admins; otherwise the role's scope applies
+  const assigned = (subject.shops ?? []).filter(Boolean);
+  let shops: string[] | null = null;
+  if (assigned.length > 0 && !actions.includes("admin")) {
+    shops = Array.from(new Set([...(subject.homeShop ? [subject.homeShop] : []), ...assigned]));
+  } else if (rolePermissions.shops === "home" && subject.homeShop) {
+    shops = [subject.homeShop];
+  }
+
+  const activeShop = subject.activeShop && (!shops || shops.includes(subject.activeShop))
+    ? subject.activeShop
+    : null;
+
+  return { role, actions, shops, activeShop };
+}
+
+/** True if the permissions allow the action (or any of the actions, given a list) */
+export function hasPermission(
+  permissions: UserPermissions | null | undefined,
+  action: PermissionAction | PermissionAction[],
+): boolean {
+  if (!permissions) return false;
+  const actions = Array.isArray(action) ? action : [action];
+  return actions.some((a) => permissions.actions.includes(a));
+}
+
+/** Whether the shop is one the user can access (regardless of their active shop) */
+export function canAccessShop(permissions: UserPermissions | null | undefined, shopName: string | null | undefined): boolean {
+  if (!permissions) return false;
+  return !permissions.shops || (!!shopName && permissions.shops.includes(shopName));
+}
+
+/**
+ * The shops a list should show: the requested shop if the user can access it,
+ * all their shops for "all", or (when nothing is requested) their active shop.
+ * Undefined means every shop; an empty list means none.
+ */
+export function getShopScope(permissions: UserPermissions, requestedShop?: string | null): string[] | undefined {
+  if (requestedShop && requestedShop !== "all") {
+    return canAccessShop(permissions, requestedShop) ? [requestedShop] : [];
+  }
+  if (!requestedShop && permissions.activeShop) {
+    return [permissions.activeShop];
+  }
+  return permissions.shops ?? undefined;
+}
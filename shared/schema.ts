@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, json, integer, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, integer, jsonb, index, uniqueIndex, unique, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -35,11 +35,16 @@ export type User = typeof users.$inferSelect;
 export const whitelistRoles = ["driver", "technician", "csr", "admin"] as const;
 export type WhitelistRole = typeof whitelistRoles[number];
 
+// Shop access (see shared/permissions.ts): users with `shops` assigned see their
+// homeShop plus those shops; otherwise drivers/technicians see their homeShop
+// and everyone else sees every shop. activeShop narrows lists to one of them.
 export const whitelist = pgTable("whitelist", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: varchar("email").notNull().unique(),
   role: varchar("role").$type<WhitelistRole>().default("csr"),
   homeShop: varchar("home_shop"),
+  shops: jsonb("shops").$type<string[]>().notNull().default(sql`'[]'::jsonb`), // names from the shops registry
+  activeShop: varchar("active_shop"), // null = all of the user's shops
   addedBy: varchar("added_by"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -82,6 +87,7 @@ export const jobs = pgTable("jobs", {
   
   // Tracking Fields - New State System (8 states including post-completion tracking)
   state: text("state").notNull().default("queued_for_pickup"), // queued_for_pickup, picked_up, at_shop, in_service, service_complete, ready_for_pickup, picked_up_from_shop, queued_for_delivery, delivered
+  workflowId: varchar("workflow_id"), // workflow_definitions.id pinned at creation (null = built-in default state machine)
   initiatedAt: timestamp("initiated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at"),
   
@@ -152,7 +158,32 @@ export const jobs = pgTable("jobs", {
   
   // Google Sheets Integration
   googleSheetsSynced: text("google_sheets_synced").default("false"),
-});
+
+  // SLA tracking - kept current by server/services/sla.ts (null = no target applies)
+  slaStatus: text("sla_status").$type<SlaStatus>(),
+  slaDueAt: timestamp("sla_due_at"), // due time of the most urgent running target
+  
+  // Soft delete - deleted jobs are hidden everywhere except the admin trash
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: text("deleted_by"), // email
+}, (table) => [
+  // Job list filters and default sort (GET /api/jobs)
+  index("IDX_jobs_shop_initiated").on(table.shopName, table.initiatedAt),
+  index("IDX_jobs_state").on(table.state),
+  index("IDX_jobs_initiated").on(table.initiatedAt),
+  index("IDX_jobs_deleted").on(table.deletedAt),
+  index("IDX_jobs_sla_status").on(table.slaStatus),
+  // Global search (GET /api/search) - trigram index serves ILIKE '%term%' on any of these columns (requires pg_trgm)
+  index("IDX_jobs_search_trgm").using(
+    "gin",
+    table.jobId.op("gin_trgm_ops"),
+    table.customerName.op("gin_trgm_ops"),
+    table.poNumber.op("gin_trgm_ops"),
+    table.p21OrderNumber.op("gin_trgm_ops"),
+    table.shipmentTrackingNumber.op("gin_trgm_ops"),
+    table.outboundTrackingNumber.op("gin_trgm_ops"),
+  ),
+]);
 
 export const technicians = pgTable("technicians", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -170,7 +201,12 @@ export const jobEvents = pgTable("job_events", {
   actor: text("actor").notNull(), // CSR, Driver, System, Technician
   actorEmail: text("actor_email"), // who performed the action
   metadata: json("metadata"), // GPS coords, notes, driver name, etc.
-});
+}, (table) => [
+  index("IDX_job_events_job").on(table.jobId),
+  // Global search (GET /api/search) - ranked word matches plus trigram for partial words
+  index("IDX_job_events_search_fts").using("gin", sql`to_tsvector('english', ${table.description})`),
+  index("IDX_job_events_search_trgm").using("gin", table.description.op("gin_trgm_ops")),
+]);
 
 export const insertJobSchema = createInsertSchema(jobs).omit({
   id: true,
@@ -194,6 +230,11 @@ export const insertJobSchema = createInsertSchema(jobs).omit({
   deliveryDispatchId: true,
   gocanvasSynced: true,
   googleSheetsSynced: true,
+  workflowId: true,
+  slaStatus: true,
+  slaDueAt: true,
+  deletedAt: true,
+  deletedBy: true,
 }).extend({
   // Required fields with validation (matching asterisk fields in UI)
   shopName: z.string().min(1, "Shop Name is required"),
@@ -250,6 +291,10 @@ export const pickupJobSchema = createInsertSchema(jobs).omit({
   deliveryDispatchId: true,
   gocanvasSynced: true,
   googleSheetsSynced: true,
+  slaStatus: true,
+  slaDueAt: true,
+  deletedAt: true,
+  deletedBy: true,
 }).extend({
   // Only require fields needed for pickup dispatch
   shopName: z.string().min(1, "Location is required"),
@@ -352,23 +397,72 @@ export const insertReferenceDataEntrySchema = createInsertSchema(referenceDataEn
 export type SelectReferenceDataEntry = typeof referenceDataEntries.$inferSelect;
 export type InsertReferenceDataEntry = z.infer<typeof insertReferenceDataEntrySchema>;
 
+// Where a comment came from: typed by a user, or notes captured by a workflow step/form
+export const commentSources = [
+  "user",
+  "pickup_notes",
+  "delivery_notes",
+  "driver_notes",
+  "tech_comments",
+  "note_to_tech",
+  "inbound_shipment_notes",
+  "outbound_shipment_notes",
+  "additional_comments",
+] as const;
+export type CommentSource = typeof commentSources[number];
+
 // Job Comments table
 export const jobComments = pgTable("job_comments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   jobId: varchar("job_id", { length: 50 }).notNull(), // ECS-formatted job ID
   userId: varchar("user_id").notNull(),
   commentText: text("comment_text").notNull(),
+  source: text("source").$type<CommentSource>().notNull().default("user"),
+  parentId: varchar("parent_id"), // job_comments.id of the thread's first comment (null for top-level comments)
+  partId: varchar("part_id"), // job_parts.id for comments about a single part
+  mentions: jsonb("mentions").$type<string[]>().notNull().default(sql`'[]'::jsonb`), // whitelisted emails @mentioned (already notified)
+  editedAt: timestamp("edited_at"), // last edit; earlier text is kept in job_comment_revisions
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("IDX_job_comments_job").on(table.jobId),
+  index("IDX_job_comments_parent").on(table.parentId),
+  index("IDX_job_comments_part").on(table.partId),
+  // Global search (GET /api/search)
+  index("IDX_job_comments_search_fts").using("gin", sql`to_tsvector('english', ${table.commentText})`),
+  index("IDX_job_comments_search_trgm").using("gin", table.commentText.op("gin_trgm_ops")),
+]);
 
 export const insertJobCommentSchema = createInsertSchema(jobComments).omit({
   id: true,
+  editedAt: true,
   createdAt: true,
+}).extend({
+  source: z.enum(commentSources).optional(),
+  mentions: z.array(z.string()).optional(),
 });
 
 export type InsertJobComment = z.infer<typeof insertJobCommentSchema>;
 export type JobComment = typeof jobComments.$inferSelect;
 
+// Job Comment Revisions - the text a comment had before each edit
+export const jobCommentRevisions = pgTable("job_comment_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  commentId: varchar("comment_id").notNull(), // job_comments.id
+  commentText: text("comment_text").notNull(), // text before the edit
+  editedBy: text("edited_by"), // email of the editor
+  editedAt: timestamp("edited_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_job_comment_revisions_comment").on(table.commentId),
+]);
+
+export const insertJobCommentRevisionSchema = createInsertSchema(jobCommentRevisions).omit({
+  id: true,
+  editedAt: true,
+});
+
+export type InsertJobCommentRevision = z.infer<typeof insertJobCommentRevisionSchema>;
+export type JobCommentRevision = typeof jobCommentRevisions.$inferSelect;
+
 // Job Parts table - for tracking parts on jobs with GoCanvas loop screen integration
 export const jobParts = pgTable("job_parts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -402,14 +496,36 @@ export const jobParts = pgTable("job_parts", {
   // This enables the "View All Fields" modal to show every field value
   rawGocanvasFields: jsonb("raw_gocanvas_fields"), // Array of {label, value, entry_id}
   
+  // Soft delete - the row (and its ECS serial) is kept until purged from the admin trash
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: text("deleted_by"), // email
+  
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Parts are always loaded per job; list filters and default sort (GET /api/parts)
+  index("IDX_job_parts_job").on(table.jobId),
+  index("IDX_job_parts_deleted").on(table.deletedAt),
+  index("IDX_job_parts_created").on(table.createdAt),
+  index("IDX_job_parts_status").on(table.status),
+  index("IDX_job_parts_diagnosis").on(table.diagnosis),
+  // Global search (GET /api/search)
+  index("IDX_job_parts_search_trgm").using(
+    "gin",
+    table.ecsSerial.op("gin_trgm_ops"),
+    table.unitVin.op("gin_trgm_ops"),
+    table.filterPn.op("gin_trgm_ops"),
+    table.poNumber.op("gin_trgm_ops"),
+    table.part.op("gin_trgm_ops"),
+  ),
+]);
 
 export const insertJobPartSchema = createInsertSchema(jobParts).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
+  deletedBy: true,
 }).extend({
   // Required fields - 3 out of 11 are required for CSR entry
   // Note: ecsSerial is optional at job creation (can be assigned later at check-in)
@@ -558,6 +674,12 @@ export const formSubmissions = pgTable("form_submissions", {
   gpsLongitude: text("gps_longitude"),
   gpsAccuracy: text("gps_accuracy"),
   gpsTimestamp: timestamp("gps_timestamp"),
+  gpsTimezone: text("gps_timezone"), // IANA zone resolved offline from the fix (server/services/timezone.ts)
+
+  // Customer signature (proof of custody on pickup/delivery)
+  signatureImage: text("signature_image"), // PNG data URL captured from the signature pad
+  signerName: text("signer_name"), // printed name of the person who signed
+  signedAt: timestamp("signed_at"), // when the signature was captured on the device
 
   // Timestamps
   dispatchedAt: timestamp("dispatched_at").notNull().default(sql`CURRENT_TIMESTAMP`),
@@ -587,9 +709,498 @@ export const insertFormSubmissionSchema = createInsertSchema(formSubmissions).om
   gpsLatitude: z.string().optional(),
   gpsLongitude: z.string().optional(),
   gpsAccuracy: z.string().optional(),
+  signatureImage: z.string().optional(),
+  signerName: z.string().optional(),
   deviceInfo: z.record(z.unknown()).optional(),
   offlineSubmission: z.string().optional(),
 });
 
+// Signature payload sent with pickup/delivery form completion
+export const formSignatureSchema = z.object({
+  image: z.string()
+    .startsWith("data:image/png;base64,", "Signature must be a PNG data URL")
+    .max(500_000, "Signature image is too large"),
+  signerName: z.string().trim().min(1, "Signer name is required"),
+  signedAt: z.string().datetime().optional(),
+});
+
+export type FormSignature = z.infer<typeof formSignatureSchema>;
+
 export type InsertFormSubmission = z.infer<typeof insertFormSubmissionSchema>;
 export type FormSubmission = typeof formSubmissions.$inferSelect;
+
+// Workflow Definitions - per-shop, versioned job state machines editable by admins
+// Rows are never edited in place: saving a change inserts the next version for that shop,
+// so jobs pinned to an older version (jobs.workflow_id) keep the flow they started on.
+export const workflowStates = [
+  "queued_for_pickup",
+  "shipment_inbound",
+  "picked_up",
+  "at_shop",
+  "in_service",
+  "service_complete",
+  "qa_inspection",
+  "ready_for_pickup",
+  "picked_up_from_shop",
+  "queued_for_delivery",
+  "delivered",
+  "outbound_shipment",
+  "cancelled",
+] as const;
+export type WorkflowState = typeof workflowStates[number];
+
+// Body of POST /api/jobs/:jobId/transition
+export const jobTransitionSchema = z.object({
+  state: z.enum(workflowStates),
+  notes: z.string().optional(),
+});
+
+export const workflowDefinitions = pgTable(
+  "workflow_definitions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    shopName: text("shop_name"), // null = default workflow for shops without their own definition
+    version: integer("version").notNull(), // increments per shop
+    transitions: jsonb("transitions").$type<Record<string, string[]>>().notNull(), // current_state -> allowed_next_states[]
+    initialStates: text("initial_states").array().notNull(),
+    terminalStates: text("terminal_states").array().notNull(),
+    active: text("active").notNull().default("false"), // "true" for the version new jobs are pinned to
+    notes: text("notes"), // admin description of what changed in this version
+    createdBy: varchar("created_by"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  // One row per (shop, version); the default workflow's null shop counts as a single shop
+  (table) => [unique("UQ_workflow_shop_version").on(table.shopName, table.version).nullsNotDistinct()],
+);
+
+export const insertWorkflowDefinitionSchema = createInsertSchema(workflowDefinitions).omit({
+  id: true,
+  version: true,
+  active: true,
+  createdAt: true,
+}).extend({
+  shopName: z.string().min(1).nullable().optional(),
+  transitions: z.record(z.enum(workflowStates), z.array(z.enum(workflowStates))),
+  initialStates: z.array(z.enum(workflowStates)).min(1, "At least one initial state is required"),
+  terminalStates: z.array(z.enum(workflowStates)).min(1, "At least one terminal state is required"),
+  notes: z.string().optional(),
+  createdBy: z.string().optional(),
+});
+
+export type InsertWorkflowDefinition = z.infer<typeof insertWorkflowDefinitionSchema>;
+export type WorkflowDefinition = typeof workflowDefinitions.$inferSelect;
+
+// Attachments - photos captured in native forms, stored on local disk or S3-compatible storage
+export const attachments = pgTable(
+  "attachments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    jobId: varchar("job_id", { length: 50 }).notNull(), // ECS-formatted job ID
+    submissionId: varchar("submission_id"), // form_submissions.id (null for attachments added outside a form)
+    partId: varchar("part_id"), // job_parts.id (null for job-level photos, e.g. proof of pickup)
+    commentId: varchar("comment_id"), // job_comments.id for files attached to a comment
+    label: text("label").notNull(), // photo slot from the form, e.g. "Pre-Cleaning Photos" (original file name for comment files)
+    fileName: text("file_name").notNull(),
+    contentType: text("content_type").notNull(),
+    sizeBytes: integer("size_bytes").notNull(),
+    storageBackend: text("storage_backend").notNull(), // 'local' or 's3'
+    storageKey: text("storage_key").notNull(), // path on disk or object key in the bucket
+    clientId: varchar("client_id").unique(), // generated on device so offline retries don't duplicate uploads
+    uploadedBy: text("uploaded_by"),
+    capturedAt: timestamp("captured_at"), // when the photo was taken (may be well before upload if offline)
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_attachments_job").on(table.jobId),
+    index("IDX_attachments_part").on(table.partId),
+    index("IDX_attachments_comment").on(table.commentId),
+  ],
+);
+
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+
+// Job Documents - server-generated PDFs (delivery receipts, service certificates) stored against a job
+// Files live in the same storage backend as photo attachments
+export const jobDocumentTypes = ["delivery_receipt"] as const;
+export type JobDocumentType = typeof jobDocumentTypes[number];
+
+export const jobDocuments = pgTable(
+  "job_documents",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    jobId: varchar("job_id", { length: 50 }).notNull(), // ECS-formatted job ID
+    documentType: text("document_type").$type<JobDocumentType>().notNull(),
+    submissionId: varchar("submission_id"), // form_submissions.id the document was built from, if any
+    fileName: text("file_name").notNull(),
+    contentType: text("content_type").notNull().default("application/pdf"),
+    sizeBytes: integer("size_bytes").notNull(),
+    storageBackend: text("storage_backend").notNull(), // 'local' or 's3'
+    storageKey: text("storage_key").notNull(),
+    generatedBy: text("generated_by"), // user email, or null when generated automatically
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_job_documents_job").on(table.jobId),
+  ],
+);
+
+export const insertJobDocumentSchema = createInsertSchema(jobDocuments).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  documentType: z.enum(jobDocumentTypes),
+});
+
+export type InsertJobDocument = z.infer<typeof insertJobDocumentSchema>;
+export type JobDocument = typeof jobDocuments.$inferSelect;
+
+// Google Sheets sync queue - one row per job tracking what was last written to the sheet
+// and, while a write is failing, when to retry it. Survives restarts so failed syncs aren't lost.
+export const sheetsSyncQueue = pgTable(
+  "sheets_sync_queue",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    jobId: varchar("job_id", { length: 50 }).notNull().unique(), // ECS-formatted job ID
+    rowHash: text("row_hash"), // hash of the job + parts rows last written successfully
+    attempts: integer("attempts").notNull().default(0), // consecutive failed attempts
+    lastError: text("last_error"),
+    nextAttemptAt: timestamp("next_attempt_at"), // null = nothing pending
+    lastSyncedAt: timestamp("last_synced_at"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_sheets_sync_queue_next_attempt").on(table.nextAttemptAt),
+  ],
+);
+
+export const insertSheetsSyncQueueSchema = createInsertSchema(sheetsSyncQueue).omit({
+  id: true,
+});
+
+export type InsertSheetsSyncQueueEntry = z.infer<typeof insertSheetsSyncQueueSchema>;
+export type SheetsSyncQueueEntry = typeof sheetsSyncQueue.$inferSelect;
+
+// Notifications - in-app inbox. Stored so users who were offline get them on reconnect;
+// deliveredAt is set when the client acknowledges the WebSocket push, readAt when opened.
+export const notificationTypes = [
+  "form_assigned",
+  "job_state_changed",
+  "comment_mention",
+  "part_status_changed",
+] as const;
+export type NotificationType = typeof notificationTypes[number];
+
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    recipientEmail: text("recipient_email").notNull(),
+    type: text("type").$type<NotificationType>().notNull(),
+    title: text("title").notNull(),
+    message: text("message").notNull(),
+    jobId: varchar("job_id", { length: 50 }), // ECS-formatted job ID
+    submissionId: varchar("submission_id"), // form_submissions.id for form_assigned
+    partId: varchar("part_id"), // job_parts.id for part_status_changed
+    link: text("link"), // client route to open, e.g. /jobs/ECS-...
+    actorEmail: text("actor_email"), // who caused it, if a person
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    deliveredAt: timestamp("delivered_at"), // client acknowledged receipt over WebSocket
+    readAt: timestamp("read_at"),
+  },
+  (table) => [
+    index("IDX_notifications_recipient_created").on(table.recipientEmail, table.createdAt),
+    index("IDX_notifications_recipient_undelivered").on(table.recipientEmail, table.deliveredAt),
+  ],
+);
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+  deliveredAt: true,
+  readAt: true,
+}).extend({
+  type: z.enum(notificationTypes),
+});
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+// Web Push subscriptions - one row per browser/device a user turned push on for.
+// Keys come from the browser's PushSubscription; endpoints that answer 404/410 are deleted.
+export const pushSubscriptions = pgTable(
+  "push_subscriptions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userEmail: text("user_email").notNull(),
+    endpoint: text("endpoint").notNull().unique(),
+    p256dh: text("p256dh").notNull(), // base64url P-256 public key of the browser
+    auth: text("auth").notNull(), // base64url 16-byte auth secret
+    userAgent: text("user_agent"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    lastSuccessAt: timestamp("last_success_at"),
+    lastFailureAt: timestamp("last_failure_at"),
+    failureCount: integer("failure_count").notNull().default(0), // consecutive failures
+  },
+  (table) => [index("IDX_push_subscriptions_user").on(table.userEmail)],
+);
+
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).omit({
+  id: true,
+  createdAt: true,
+  lastSuccessAt: true,
+  lastFailureAt: true,
+  failureCount: true,
+});
+
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+
+// Per-user notification preferences. Everything always lands in the in-app inbox;
+// pushTypes picks which types are also sent to the user's devices as Web Push.
+export const DEFAULT_PUSH_TYPES: NotificationType[] = ["form_assigned", "job_state_changed", "comment_mention"];
+
+export const notificationPreferences = pgTable("notification_preferences", {
+  email: text("email").primaryKey(), // lowercased, matches notifications.recipient_email
+  pushTypes: jsonb("push_types").$type<NotificationType[]>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const notificationPreferencesSchema = z.object({
+  pushTypes: z.array(z.enum(notificationTypes)),
+});
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+
+// Customer status updates - job milestones a customer can be emailed/texted about.
+// Customers opt in per channel and per milestone; nothing is sent without a settings row.
+export const customerMilestones = [
+  "picked_up",
+  "checked_in",
+  "service_complete",
+  "out_for_delivery",
+  "delivered",
+  "outbound_shipment",
+] as const;
+export type CustomerMilestone = typeof customerMilestones[number];
+
+export const customerNotificationChannels = ["email", "sms"] as const;
+export type CustomerNotificationChannel = typeof customerNotificationChannels[number];
+
+export const customerNotificationSettings = pgTable("customer_notification_settings", {
+  customerName: text("customer_name").primaryKey(), // matches jobs.customer_name
+  emailEnabled: text("email_enabled").notNull().default("false"), // "true" / "false"
+  smsEnabled: text("sms_enabled").notNull().default("false"),
+  milestones: jsonb("milestones").$type<CustomerMilestone[]>().notNull(),
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertCustomerNotificationSettingsSchema = createInsertSchema(customerNotificationSettings).omit({
+  updatedAt: true,
+}).extend({
+  emailEnabled: z.enum(["true", "false"]),
+  smsEnabled: z.enum(["true", "false"]),
+  milestones: z.array(z.enum(customerMilestones)),
+});
+
+export type InsertCustomerNotificationSettings = z.infer<typeof insertCustomerNotificationSettingsSchema>;
+export type CustomerNotificationSettings = typeof customerNotificationSettings.$inferSelect;
+
+// Admin overrides of the built-in message templates (server/services/customerNotifications.ts).
+// Placeholders like {{jobId}} are filled from the job when sending.
+export const customerNotificationTemplates = pgTable(
+  "customer_notification_templates",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    milestone: text("milestone").$type<CustomerMilestone>().notNull(),
+    channel: text("channel").$type<CustomerNotificationChannel>().notNull(),
+    subject: text("subject"), // email only
+    body: text("body").notNull(),
+    updatedBy: text("updated_by"),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("UQ_customer_notification_templates").on(table.milestone, table.channel)],
+);
+
+export const insertCustomerNotificationTemplateSchema = createInsertSchema(customerNotificationTemplates).omit({
+  id: true,
+  updatedAt: true,
+}).extend({
+  milestone: z.enum(customerMilestones),
+  channel: z.enum(customerNotificationChannels),
+});
+
+export type InsertCustomerNotificationTemplate = z.infer<typeof insertCustomerNotificationTemplateSchema>;
+export type CustomerNotificationTemplate = typeof customerNotificationTemplates.$inferSelect;
+
+// Append-only audit trail of data changes made through the API (server/services/auditLog.ts).
+// job_events records lifecycle transitions; this records who edited which fields.
+export const auditEntityTypes = ["job", "part", "whitelist", "user", "tab"] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+export const auditActions = ["create", "update", "delete", "restore", "purge", "rollback"] as const;
+export type AuditAction = typeof auditActions[number];
+
+// Field name -> values before and after the change (null for create/delete sides)
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entityType: text("entity_type").$type<AuditEntityType>().notNull(),
+  entityId: text("entity_id").notNull(), // jobs.job_id, job_parts.id, whitelist/users email, job_list_tabs.id
+  jobId: text("job_id"), // ECS job ID for jobs and parts, for per-job history
+  action: text("action").$type<AuditAction>().notNull(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  actorEmail: text("actor_email"),
+  actorUserId: text("actor_user_id"),
+  route: text("route"), // e.g. "PATCH /api/jobs/:id"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_audit_log_entity").on(table.entityType, table.entityId),
+  index("IDX_audit_log_job").on(table.jobId),
+  index("IDX_audit_log_created").on(table.createdAt),
+]);
+
+export type InsertAuditLogEntry = Omit<typeof auditLog.$inferInsert, "id" | "createdAt">;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+// SLA targets - how long a job may take to get from one state to another, optionally
+// for one shop and/or customer. The most specific target for a state pair wins.
+export const slaStatuses = ["on_track", "at_risk", "overdue"] as const;
+export type SlaStatus = typeof slaStatuses[number];
+
+export const slaClocks = ["business", "calendar"] as const; // business = only the shop's open hours count
+export type SlaClock = typeof slaClocks[number];
+
+export const slaTargets = pgTable(
+  "sla_targets",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    name: text("name").notNull(), // e.g. "Pickup within 4 business hours"
+    shopName: text("shop_name"), // null = all shops
+    customerName: text("customer_name"), // null = all customers
+    fromState: text("from_state").$type<WorkflowState>().notNull(), // clock starts when the job enters this state
+    toState: text("to_state").$type<WorkflowState>().notNull(), // and stops when it reaches this one
+    targetMinutes: integer("target_minutes").notNull(),
+    clock: text("clock").$type<SlaClock>().notNull().default("business"),
+    atRiskPercent: integer("at_risk_percent").notNull().default(75), // share of the target elapsed before "at risk"
+    active: text("active").notNull().default("true"),
+    updatedBy: text("updated_by"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("IDX_sla_targets_states").on(table.fromState, table.toState)],
+);
+
+export const insertSlaTargetSchema = createInsertSchema(slaTargets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  shopName: z.string().min(1).nullable().optional(),
+  customerName: z.string().min(1).nullable().optional(),
+  fromState: z.enum(workflowStates),
+  toState: z.enum(workflowStates),
+  targetMinutes: z.number().int().min(1, "Target must be at least a minute"),
+  clock: z.enum(slaClocks),
+  atRiskPercent: z.number().int().min(1).max(99),
+  active: z.enum(["true", "false"]).optional(),
+}).refine((target) => target.fromState !== target.toState, {
+  message: "From and to states must differ",
+  path: ["toState"],
+});
+
+export type InsertSlaTarget = z.infer<typeof insertSlaTargetSchema>;
+export type SlaTarget = typeof slaTargets.$inferSelect;
+
+// Opening hours per weekday (0 = Sunday), "HH:mm" in the shop's timezone; null = closed
+export type WeeklyHours = Record<string, { open: string; close: string } | null>;
+
+// Business hours and holidays per shop, used by business-clock SLA targets.
+// Shops without a row use DEFAULT_BUSINESS_HOURS (server/services/sla.ts).
+export const shopBusinessHours = pgTable("shop_business_hours", {
+  shopName: text("shop_name").primaryKey(),
+  timezone: text("timezone").notNull(), // IANA, e.g. "America/Chicago"
+  weeklyHours: jsonb("weekly_hours").$type<WeeklyHours>().notNull(),
+  holidays: jsonb("holidays").$type<string[]>().notNull().default(sql`'[]'::jsonb`), // "yyyy-MM-dd"
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm");
+
+const ianaTimezone = z.string().min(1).refine((zone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Unknown timezone");
+
+export const shopBusinessHoursSchema = z.object({
+  timezone: ianaTimezone,
+  weeklyHours: z.record(
+    z.enum(["0", "1", "2", "3", "4", "5", "6"]),
+    z.object({ open: timeOfDay, close: timeOfDay })
+      .refine((hours) => hours.open < hours.close, "Closing time must be after opening time")
+      .nullable(),
+  ),
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use yyyy-MM-dd")),
+});
+
+export type ShopBusinessHours = typeof shopBusinessHours.$inferSelect;
+export type ShopBusinessHoursInput = z.infer<typeof shopBusinessHoursSchema>;
+
+// Shop registry. Jobs, users, SLA targets and business hours reference a shop by
+// name; code is the 2-digit prefix of ECS serials and the suffix of job IDs.
+// Both are fixed once the shop is created, since existing records carry them.
+export const shops = pgTable("shops", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code", { length: 2 }).notNull().unique(),
+  name: text("name").notNull().unique(), // e.g. "ECS - Nashville"
+  displayName: text("display_name").notNull(), // shown on customer documents, e.g. "ECS Nashville"
+  address: text("address"),
+  latitude: doublePrecision("latitude"), // GPS fixes near the shop take its timezone (both set, or neither)
+  longitude: doublePrecision("longitude"),
+  timezone: text("timezone").notNull(), // IANA; the shop's local day for date codes, job IDs and daily metrics
+  gocanvasLocation: text("gocanvas_location"), // Location column in GoCanvas reference data, when it differs from name
+  active: text("active").notNull().default("true"), // inactive shops stay on existing records but can't take new work
+  defaultDrivers: jsonb("default_drivers").$type<string[]>().notNull().default(sql`'[]'::jsonb`), // driver emails
+  defaultTechnicians: jsonb("default_technicians").$type<string[]>().notNull().default(sql`'[]'::jsonb`), // technician emails
+  updatedBy: text("updated_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertShopSchema = createInsertSchema(shops).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  code: z.string().regex(/^\d{2}$/, "Code must be 2 digits"),
+  name: z.string().trim().min(1, "Name is required"),
+  displayName: z.string().trim().min(1, "Display name is required"),
+  address: z.string().nullable().optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  timezone: ianaTimezone,
+  gocanvasLocation: z.string().min(1).nullable().optional(),
+  active: z.enum(["true", "false"]).optional(),
+  defaultDrivers: z.array(z.string().email()).optional(),
+  defaultTechnicians: z.array(z.string().email()).optional(),
+});
+
+// Code and name can't change after creation
+export const updateShopSchema = insertShopSchema.omit({ code: true, name: true });
+
+export type InsertShop = z.infer<typeof insertShopSchema>;
+export type UpdateShop = z.infer<typeof updateShopSchema>;
+export type Shop = typeof shops.$inferSelect;
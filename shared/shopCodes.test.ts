@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { generateJobId, getDateCode } from "./shopCodes";
+
+const nashville = { code: "01", timezone: "America/Chicago" };
+const atlanta = { code: "02", timezone: "America/New_York" };
+
+describe("getDateCode", () => {
+  it("dates by the shop's local day, not UTC", () => {
+    // 11:30pm Central on March 4 is already March 5 in UTC
+    const lateEvening = new Date("2026-03-05T05:30:00Z");
+    expect(getDateCode("America/Chicago", lateEvening)).toBe("03042026");
+    expect(getDateCode("America/New_York", lateEvening)).toBe("03052026");
+    expect(getDateCode("UTC", lateEvening)).toBe("03052026");
+  });
+
+  it("rolls over at local midnight on both sides of the spring-forward change", () => {
+    // March 8, 2026: Central moves from UTC-6 to UTC-5 at 2am
+    expect(getDateCode("America/Chicago", new Date("2026-03-08T05:59:59Z"))).toBe("03072026");
+    expect(getDateCode("America/Chicago", new Date("2026-03-08T06:00:00Z"))).toBe("03082026");
+    expect(getDateCode("America/Chicago", new Date("2026-03-09T04:59:59Z"))).toBe("03082026");
+    expect(getDateCode("America/Chicago", new Date("2026-03-09T05:00:00Z"))).toBe("03092026");
+  });
+
+  it("rolls over at local midnight after the fall-back change", () => {
+    // November 1, 2026: Central moves from UTC-5 back to UTC-6 at 2am
+    expect(getDateCode("America/Chicago", new Date("2026-11-01T04:59:59Z"))).toBe("10312026");
+    expect(getDateCode("America/Chicago", new Date("2026-11-01T05:00:00Z"))).toBe("11012026");
+    expect(getDateCode("America/Chicago", new Date("2026-11-02T05:59:59Z"))).toBe("11012026");
+    expect(getDateCode("America/Chicago", new Date("2026-11-02T06:00:00Z"))).toBe("11022026");
+  });
+});
+
+describe("generateJobId", () => {
+  it("uses the shop's local time and code", () => {
+    const at = new Date("2026-03-05T05:30:15Z");
+    expect(generateJobId(nashville, at)).toBe("ECS-20260304233015-01");
+    expect(generateJobId(atlanta, at)).toBe("ECS-20260305003015-02");
+  });
+
+  it("skips the missing hour when clocks spring forward", () => {
+    expect(generateJobId(nashville, new Date("2026-03-08T07:59:59Z"))).toBe("ECS-20260308015959-01");
+    expect(generateJobId(nashville, new Date("2026-03-08T08:00:00Z"))).toBe("ECS-20260308030000-01");
+  });
+
+  it("repeats local times in the fall-back hour, which createJob retries past", () => {
+    // 1:30am Central happens twice on November 1, an hour apart
+    const firstPass = generateJobId(nashville, new Date("2026-11-01T06:30:00Z"));
+    const secondPass = generateJobId(nashville, new Date("2026-11-01T07:30:00Z"));
+    expect(firstPass).toBe("ECS-20261101013000-01");
+    expect(secondPass).toBe(firstPass);
+    expect(generateJobId(nashville, new Date("2026-11-01T07:30:01Z"))).toBe("ECS-20261101013001-01");
+  });
+});
@@ -1,41 +1,30 @@
-// Shop name to shop code mapping
+import { formatInTimeZone } from "date-fns-tz";
+
+// Shops live in the `shops` registry table (shared/schema.ts). These helpers take
+// the registry fields they need so the client and server format codes the same way.
 // Shop code format: 2-digit code used in ECS Serial Numbers (XX.MMDDYYYY.ZZ)
-export const SHOP_CODE_MAP: Record<string, string> = {
-  "ECS - Memphis": "00",
-  "ECS - Nashville": "01",
-  "ECS - Atlanta": "02",
-  "ECS - Dallas": "03",
-  "ECS - Chicago": "04",
-  "ECS - Corporate": "99",
-};
+export interface ShopClock {
+  code: string;
+  timezone: string; // IANA; date codes, daily serial sequences and job IDs use the shop's local day
+}
 
-export const SHOP_NAMES = Object.keys(SHOP_CODE_MAP) as Array<keyof typeof SHOP_CODE_MAP>;
+// Used for records whose shop isn't in the registry
+export const DEFAULT_SHOP_TIMEZONE = "America/Chicago";
 
-// Get shop code from shop name
-export function getShopCode(shopName: string): string {
-  const code = SHOP_CODE_MAP[shopName];
-  if (!code) {
-    // Default to "01" if shop not found
-    console.warn(`Unknown shop name "${shopName}", using default code "01"`);
-    return "01";
-  }
-  return code;
+// Format a moment as MMDDYYYY in the given timezone
+export function getDateCode(timezone: string, at: Date = new Date()): string {
+  return formatInTimeZone(at, timezone, "MMddyyyy");
 }
 
-// Format today's date as MMDDYYYY
-export function getTodayDateCode(): string {
-  const now = new Date();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  const year = now.getFullYear();
-  return `${month}${day}${year}`;
+// Today's MMDDYYYY in the shop's local day
+export function getTodayDateCode(shop: ShopClock): string {
+  return getDateCode(shop.timezone);
 }
 
-// Generate a unique Job ID with shop code
-// Format: ECS-YYYYMMDDHHMMSS-XX (where XX is the 2-digit shop code)
-export function generateJobId(shopName: string): string {
-  const now = new Date();
-  const timestamp = now.toISOString().replace(/[-T:\.Z]/g, '').slice(0, 14);
-  const shopCode = getShopCode(shopName);
-  return `ECS-${timestamp}-${shopCode}`;
+// Generate a Job ID with shop code
+// Format: ECS-YYYYMMDDHHMMSS-XX (where XX is the 2-digit shop code), in the shop's local time.
+// Local wall-clock seconds repeat in a DST fall-back hour, so the server retries on collision.
+export function generateJobId(shop: ShopClock, at: Date = new Date()): string {
+  const timestamp = formatInTimeZone(at, shop.timezone, "yyyyMMddHHmmss");
+  return `ECS-${timestamp}-${shop.code}`;
 }
@@ -66,6 +66,8 @@ export default defineConfig({
         // Don't precache API routes
         navigateFallback: "index.html",
         navigateFallbackDenylist: [/^\/api\//, /^\/staging-gate/],
+        // Web Push handlers (client/public/push-sw.js)
+        importScripts: ["push-sw.js"],
       },
       devOptions: {
         enabled: false, // Disable in dev to avoid conflicts